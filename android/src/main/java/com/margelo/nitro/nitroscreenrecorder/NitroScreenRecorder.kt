@@ -21,7 +21,8 @@ import com.margelo.nitro.nitroscreenrecorder.utils.RecorderUtils
 import java.io.File
 import kotlinx.coroutines.suspendCancellableCoroutine
 import kotlin.coroutines.resume
-import kotlinx.coroutines.delay
+import kotlinx.coroutines.CompletableDeferred
+import kotlinx.coroutines.withTimeoutOrNull
 
 data class Listener<T>(val id: Double, val callback: T)
 data class ScreenRecordingListenerEntry(
@@ -53,6 +54,12 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
   private val pendingGlobalRecordings = mutableListOf<CompletedGlobalRecording>()
 
   private val screenRecordingListeners = mutableListOf<ScreenRecordingListenerEntry>()
+  private val chunkReadyListeners = mutableListOf<Listener<(ChunkReadyEvent) -> Unit>>()
+  private val extensionStatusListeners = mutableListOf<Listener<(RawExtensionStatus) -> Unit>>()
+  // Last status delivered to extensionStatusListeners
+  private var lastEmittedExtensionStatus: RawExtensionStatus? = null
+  // Completed by the service once the stopped recording has been written
+  private var recordingFinishedSignal: CompletableDeferred<Unit>? = null
   private var nextListenerId = 0.0
 
   companion object {
@@ -94,10 +101,15 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         recorder.lastGlobalRecording = file
         recorder.lastGlobalAudioRecording = audioFile
         recorder.lastGlobalRecordingEnabledMicrophone = enabledMic
+        recorder.recordingFinishedSignal?.complete(Unit)
         recorder.notifyListeners(event)
       }
     }
 
+    fun notifyExtensionStatusChanged() {
+      instance?.emitExtensionStatusIfChanged()
+    }
+
     fun notifyGlobalRecordingError(error: RecordingError) {
       Log.e(
         TAG,
@@ -198,6 +210,50 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
     screenRecordingListeners.removeAll { it.id == id }
   }
 
+  private fun notifyChunkListeners(event: ChunkReadyEvent) {
+    chunkReadyListeners.forEach { listener ->
+      try {
+        listener.callback(event)
+      } catch (e: Exception) {
+        Log.e(TAG, "❌ Error in chunk listener ${listener.id}: ${e.message}")
+      }
+    }
+  }
+
+  override fun addChunkListener(callback: (ChunkReadyEvent) -> Unit): Double {
+    val id = nextListenerId++
+    chunkReadyListeners += Listener(id, callback)
+    return id
+  }
+
+  override fun removeChunkListener(id: Double) {
+    chunkReadyListeners.removeAll { it.id == id }
+  }
+
+  private fun emitExtensionStatusIfChanged() {
+    if (extensionStatusListeners.isEmpty()) return
+    val status = getExtensionStatus()
+    if (status == lastEmittedExtensionStatus) return
+    lastEmittedExtensionStatus = status
+    extensionStatusListeners.forEach { listener ->
+      try {
+        listener.callback(status)
+      } catch (e: Exception) {
+        Log.e(TAG, "❌ Error in extension status listener ${listener.id}: ${e.message}")
+      }
+    }
+  }
+
+  override fun addExtensionStatusListener(callback: (RawExtensionStatus) -> Unit): Double {
+    val id = nextListenerId++
+    extensionStatusListeners += Listener(id, callback)
+    return id
+  }
+
+  override fun removeExtensionStatusListener(id: Double) {
+    extensionStatusListeners.removeAll { it.id == id }
+  }
+
   override fun addBroadcastPickerListener(
     callback: (BroadcastPickerPresentationEvent) -> Unit
   ): Double {
@@ -355,6 +411,7 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
     cameraPreviewStyle: RecorderCameraStyle,
     cameraDevice: CameraDevice,
     separateAudioFile: Boolean,
+    limits: RecordingLimits,
     onRecordingFinished: (ScreenRecordingFile) -> Unit
   ) {
     // no-op
@@ -377,7 +434,13 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
 
   // --- Global Recording Methods ---
 
-  override fun startGlobalRecording(enableMic: Boolean, separateAudioFile: Boolean, onRecordingError: (RecordingError) -> Unit) {
+  override fun startGlobalRecording(
+    enableMic: Boolean,
+    separateAudioFile: Boolean,
+    videoSettings: RecordingVideoSettings,
+    limits: RecordingLimits,
+    onRecordingError: (RecordingError) -> Unit
+  ) {
     if (globalRecordingService?.isCurrentlyRecording() == true) {
       Log.w(TAG, "⚠️ Global recording already in progress")
       return
@@ -400,6 +463,13 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         putExtra(ScreenRecordingService.EXTRA_RESULT_DATA, resultData)
         putExtra(ScreenRecordingService.EXTRA_ENABLE_MIC, enableMic)
         putExtra(ScreenRecordingService.EXTRA_SEPARATE_AUDIO, separateAudioFile)
+        putExtra(ScreenRecordingService.EXTRA_VIDEO_MAX_LONG_SIDE, videoSettings.maxLongSide.toInt())
+        putExtra(ScreenRecordingService.EXTRA_VIDEO_BITRATE, videoSettings.bitrate.toInt())
+        putExtra(ScreenRecordingService.EXTRA_VIDEO_FRAME_RATE, videoSettings.fps.toInt())
+        putExtra(ScreenRecordingService.EXTRA_VIDEO_PREFER_HEVC, videoSettings.codec == VideoCodec.HEVC)
+        putExtra(ScreenRecordingService.EXTRA_MAX_DURATION_SEC, limits.maxDurationSec)
+        putExtra(ScreenRecordingService.EXTRA_MAX_FILE_SIZE_BYTES, limits.maxFileSizeBytes)
+        putExtra(ScreenRecordingService.EXTRA_MIN_FREE_BYTES, limits.minFreeBytes)
       }
 
       if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
@@ -435,6 +505,10 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         throw Error("NO_ACTIVE_RECORDING_SESSION")
       }
 
+      val chunkId = currentChunkId
+      val finished = CompletableDeferred<Unit>()
+      recordingFinishedSignal = finished
+
       // If service is running but we're not bound, we still send the stop intent
       // This handles hot reload scenarios where the service is orphaned
       if (serviceRunning) {
@@ -457,7 +531,9 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
 
       globalRecordingService = null
 
-      delay(settledTimeMs.toLong())
+      // Wait for the service to write the file, with the settle time as an upper bound
+      withTimeoutOrNull(settledTimeMs.toLong()) { finished.await() }
+      recordingFinishedSignal = null
 
       // Post-process the raw recording file (optimize + extract audio)
       val rawFile = lastGlobalRecording
@@ -478,8 +554,10 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         }
       }
 
-      return@async retrieveLastGlobalRecording()
+      val file = retrieveLastGlobalRecording()
         ?: throw Error("NO_RECORDING_FILE_AFTER_STOP")
+      notifyChunkListeners(ChunkReadyEvent(chunkId = chunkId, file = file))
+      return@async file
     }
   }
 
@@ -507,7 +585,9 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
           duration = RecorderUtils.getVideoDuration(file),
           enabledMicrophone = lastGlobalRecordingEnabledMicrophone,
           audioFile = audioFile,
-          appAudioFile = null  // App audio capture not supported on Android
+          appAudioFile = null,  // App audio capture not supported on Android
+          markers = null,
+          markersFile = null
         )
       } else {
         null
@@ -532,7 +612,10 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         pendingGlobalRecordings.lastIndex
       }
 
-    val selected = pendingGlobalRecordings.removeAt(selectedIndex)
+    return buildPendingRecordingFile(pendingGlobalRecordings.removeAt(selectedIndex))
+  }
+
+  private fun buildPendingRecordingFile(selected: CompletedGlobalRecording): ScreenRecordingFile? {
     val videoFile = selected.videoFile
     if (!videoFile.exists()) {
       return null
@@ -558,7 +641,9 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
       duration = RecorderUtils.getVideoDuration(videoFile),
       enabledMicrophone = selected.enabledMicrophone,
       audioFile = audioFileInfo,
-      appAudioFile = null
+      appAudioFile = null,
+      markers = null,
+      markersFile = null
     )
   }
 
@@ -574,6 +659,188 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
     pendingGlobalRecordings.clear()
   }
 
+  override fun concatenateRecordings(paths: Array<String>, startOffsetSec: Double): Promise<ScreenRecordingFile> {
+    return Promise.async {
+      val inputs = paths.map { File(it.removePrefix("file://")) }
+      if (inputs.isEmpty() || inputs.any { !it.exists() }) {
+        throw Error("RECORDING_FILE_MISSING")
+      }
+
+      val outputFile = RecorderUtils.createOutputFile(inputs.first().parentFile!!, "replay")
+      val hasAudio = try {
+        RecorderUtils.concatenateVideos(inputs, outputFile, startOffsetSec)
+      } catch (e: Exception) {
+        outputFile.delete()
+        throw Error("CONCATENATE_FAILED: ${e.message}")
+      }
+      val optimized = RecorderUtils.optimizeForStreaming(outputFile)
+
+      return@async ScreenRecordingFile(
+        path = "file://${optimized.absolutePath}",
+        name = optimized.name,
+        size = optimized.length().toDouble(),
+        duration = RecorderUtils.getVideoDuration(optimized),
+        enabledMicrophone = hasAudio,
+        audioFile = null,
+        appAudioFile = null,
+        markers = null,
+        markersFile = null
+      )
+    }
+  }
+
+  override fun deleteRecordingFile(path: String) {
+    val file = File(path.removePrefix("file://"))
+    if (file.exists() && !file.delete()) {
+      Log.w(TAG, "⚠️ Failed to delete recording file: ${file.name}")
+    }
+  }
+
+  override fun renameRecordingFile(path: String, name: String): String {
+    val file = File(path.removePrefix("file://"))
+    if (!file.exists()) {
+      throw Error("RECORDING_FILE_MISSING")
+    }
+    val target = File(file.parentFile, name)
+    if (target.exists()) {
+      throw Error("RENAME_FAILED: A recording named $name already exists")
+    }
+    if (!file.renameTo(target)) {
+      throw Error("RENAME_FAILED: Could not rename ${file.name}")
+    }
+    Log.d(TAG, "✏️ Renamed ${file.name} to $name")
+    return if (path.startsWith("file://")) "file://${target.absolutePath}" else target.absolutePath
+  }
+
+  override fun moveRecordingFile(path: String, directory: String, name: String): String {
+    val file = File(path.removePrefix("file://"))
+    if (!file.exists()) {
+      throw Error("RECORDING_FILE_MISSING")
+    }
+    val targetDir = File(directory.removePrefix("file://"))
+    if (!targetDir.exists() && !targetDir.mkdirs()) {
+      throw Error("MOVE_FAILED: Could not create ${targetDir.absolutePath}")
+    }
+
+    // Never overwrite: foo.mp4 -> foo-1.mp4 -> foo-2.mp4
+    val base = name.substringBeforeLast('.')
+    val ext = if (name.contains('.')) ".${name.substringAfterLast('.')}" else ""
+    var target = File(targetDir, name)
+    var suffix = 0
+    while (target.exists()) {
+      suffix += 1
+      target = File(targetDir, "$base-$suffix$ext")
+    }
+
+    // renameTo fails across volumes, fall back to copying
+    if (!file.renameTo(target)) {
+      try {
+        file.copyTo(target)
+        file.delete()
+      } catch (e: Exception) {
+        target.delete()
+        throw Error("MOVE_FAILED: Could not move ${file.name}: ${e.message}")
+      }
+    }
+    Log.d(TAG, "📁 Moved ${file.name} to ${target.absolutePath}")
+    return if (path.startsWith("file://")) "file://${target.absolutePath}" else target.absolutePath
+  }
+
+  override fun recordingFileExists(path: String): Boolean {
+    return File(path.removePrefix("file://")).exists()
+  }
+
+  override fun writeRecordingSidecar(path: String, extension: String, contents: String): String {
+    val file = File(path.removePrefix("file://"))
+    val sidecar = File(file.parentFile, "${file.nameWithoutExtension}.$extension")
+    try {
+      sidecar.writeText(contents)
+    } catch (e: Exception) {
+      throw Error("SIDECAR_WRITE_FAILED: Could not write ${sidecar.name}: ${e.message}")
+    }
+    return if (path.startsWith("file://")) "file://${sidecar.absolutePath}" else sidecar.absolutePath
+  }
+
+  // --- Recording Library ---
+
+  // Kept outside the recordings directory so clearRecordingCache never drops it
+  private fun recordingLibraryFile(): File {
+    val ctx = NitroModules.applicationContext ?: throw Error("NO_CONTEXT")
+    return File(ctx.filesDir, "recording-library.json")
+  }
+
+  override fun readRecordingLibrary(): String {
+    val file = recordingLibraryFile()
+    return if (file.exists()) file.readText() else ""
+  }
+
+  override fun writeRecordingLibrary(manifest: String) {
+    val file = recordingLibraryFile()
+    val tempFile = File(file.parentFile, "${file.name}.tmp")
+    tempFile.writeText(manifest)
+    if (!tempFile.renameTo(file)) {
+      tempFile.delete()
+      throw Error("LIBRARY_WRITE_FAILED")
+    }
+  }
+
+  // --- Pending Chunks ---
+
+  override fun listPendingChunks(): Array<PendingChunk> {
+    return pendingGlobalRecordings
+      .filter { it.videoFile.exists() }
+      .map { recording ->
+        PendingChunk(
+          id = recording.videoFile.name,
+          chunkId = recording.chunkId,
+          createdAt = recording.videoFile.lastModified().toDouble(),
+          size = recording.videoFile.length().toDouble(),
+          enabledMicrophone = recording.enabledMicrophone
+        )
+      }
+      .toTypedArray()
+  }
+
+  override fun claimPendingChunk(id: String): ScreenRecordingFile? {
+    val index = pendingGlobalRecordings.indexOfFirst { it.videoFile.name == id }
+    if (index < 0) {
+      Log.w(TAG, "⚠️ claimPendingChunk: No pending chunk '$id'")
+      return null
+    }
+    return buildPendingRecordingFile(pendingGlobalRecordings.removeAt(index))
+  }
+
+  override fun discardPendingChunk(id: String) {
+    val index = pendingGlobalRecordings.indexOfFirst { it.videoFile.name == id }
+    if (index < 0) return
+    val recording = pendingGlobalRecordings.removeAt(index)
+    recording.videoFile.delete()
+    recording.audioFile?.delete()
+    Log.d(TAG, "🗑️ Discarded pending chunk: $id")
+  }
+
+  // --- Pause / Resume ---
+
+  override fun pauseRecording(): Promise<Unit> {
+    return Promise.async {
+      val service = globalRecordingService
+      if (service == null || !service.hasActiveSession()) {
+        throw Error("NO_ACTIVE_RECORDING_SESSION")
+      }
+      service.pauseRecording()
+    }
+  }
+
+  override fun resumeRecording(): Promise<Unit> {
+    return Promise.async {
+      val service = globalRecordingService
+      if (service == null || !service.hasActiveSession()) {
+        throw Error("NO_ACTIVE_RECORDING_SESSION")
+      }
+      service.resumeRecording()
+    }
+  }
+
   // --- Chunking ---
 
   override fun markChunkStart(chunkId: String?): Promise<Double> {
@@ -598,74 +865,111 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
         throw Error("NO_ACTIVE_RECORDING_SESSION")
       }
       
-      var chunkFile = service.finalizeChunk()
-      
-      if (chunkFile == null) {
-        throw Error("NO_FINALIZED_CHUNK_FILE")
+      return@async completeChunk(service, service.finalizeChunk())
+    }
+  }
+
+  override fun rotateChunk(
+    chunkId: String?,
+    nextChunkId: String?,
+    settledTimeMs: Double
+  ): Promise<ScreenRecordingFile?> {
+    return Promise.async {
+      Log.d(TAG, "🔄 rotateChunk called with chunkId=$chunkId, nextChunkId=$nextChunkId")
+
+      val service = globalRecordingService
+      if (service == null) {
+        throw Error("NO_ACTIVE_RECORDING_SESSION")
       }
 
-      if (!chunkFile.exists()) {
-        throw Error("FINALIZED_CHUNK_FILE_MISSING")
+      val chunkFile = service.rotateChunk()
+      try {
+        return@async completeChunk(service, chunkFile)
+      } finally {
+        // The service is already capturing the next chunk
+        currentChunkId = nextChunkId
       }
+    }
+  }
 
-      chunkFile = RecorderUtils.optimizeForStreaming(chunkFile)
+  /**
+   * Prepares a finalized chunk file, queues it as a pending chunk and notifies chunk listeners.
+   */
+  private fun completeChunk(service: ScreenRecordingService, file: File?): ScreenRecordingFile {
+    var chunkFile = file
+    
+    if (chunkFile == null) {
+      throw Error("NO_FINALIZED_CHUNK_FILE")
+    }
 
-      var audioFile: File? = null
-      if (service.isSeparateAudioEnabled() && service.isMicrophoneEnabled()) {
-        val base = NitroModules.applicationContext?.externalCacheDir
-          ?: NitroModules.applicationContext?.filesDir
-        if (base != null) {
-          val recordingsDir = File(base, "recordings")
-          val audioOutputFile = RecorderUtils.createAudioOutputFile(recordingsDir, "chunk_audio")
-          val extracted = RecorderUtils.extractAudioFromVideo(chunkFile, audioOutputFile)
-          if (extracted) {
-            audioFile = audioOutputFile
-          } else {
-            audioOutputFile.delete()
-          }
+    if (!chunkFile.exists()) {
+      throw Error("FINALIZED_CHUNK_FILE_MISSING")
+    }
+
+    chunkFile = RecorderUtils.optimizeForStreaming(chunkFile)
+
+    var audioFile: File? = null
+    if (service.isSeparateAudioEnabled() && service.isMicrophoneEnabled()) {
+      val base = NitroModules.applicationContext?.externalCacheDir
+        ?: NitroModules.applicationContext?.filesDir
+      if (base != null) {
+        val recordingsDir = File(base, "recordings")
+        val audioOutputFile = RecorderUtils.createAudioOutputFile(recordingsDir, "chunk_audio")
+        val extracted = RecorderUtils.extractAudioFromVideo(chunkFile, audioOutputFile)
+        if (extracted) {
+          audioFile = audioOutputFile
+        } else {
+          audioOutputFile.delete()
         }
       }
+    }
 
-      val videoDuration = RecorderUtils.getVideoDuration(chunkFile)
+    val videoDuration = RecorderUtils.getVideoDuration(chunkFile)
 
-      // Store as last recording for retrieval
-      lastGlobalRecording = chunkFile
-      lastGlobalRecordingEnabledMicrophone = service.isMicrophoneEnabled()
-      lastGlobalAudioRecording = audioFile
+    // Store as last recording for retrieval
+    lastGlobalRecording = chunkFile
+    lastGlobalRecordingEnabledMicrophone = service.isMicrophoneEnabled()
+    lastGlobalAudioRecording = audioFile
 
-      pendingGlobalRecordings.add(
-        CompletedGlobalRecording(
-          chunkId = currentChunkId,
-          videoFile = chunkFile,
-          audioFile = audioFile,
-          enabledMicrophone = service.isMicrophoneEnabled()
+    val chunkId = currentChunkId
+    // Pending until it is returned below
+    val pending = CompletedGlobalRecording(
+      chunkId = chunkId,
+      videoFile = chunkFile,
+      audioFile = audioFile,
+      enabledMicrophone = service.isMicrophoneEnabled()
+    )
+    pendingGlobalRecordings.add(pending)
+    currentChunkId = null
+    
+    val audioFileInfo = audioFile?.let { af ->
+      if (af.exists()) {
+        AudioRecordingFile(
+          path = "file://${af.absolutePath}",
+          name = af.name,
+          size = af.length().toDouble(),
+          duration = RecorderUtils.getAudioDuration(af)
         )
-      )
-      currentChunkId = null
-      
-      val audioFileInfo = audioFile?.let { af ->
-        if (af.exists()) {
-          AudioRecordingFile(
-            path = "file://${af.absolutePath}",
-            name = af.name,
-            size = af.length().toDouble(),
-            duration = RecorderUtils.getAudioDuration(af)
-          )
-        } else {
-          null
-        }
+      } else {
+        null
       }
-      
-      return@async ScreenRecordingFile(
-        path = "file://${chunkFile.absolutePath}",
-        name = chunkFile.name,
-        size = chunkFile.length().toDouble(),
-        duration = videoDuration,
-        enabledMicrophone = service.isMicrophoneEnabled(),
-        audioFile = audioFileInfo,
-        appAudioFile = null
-      )
     }
+    
+    val file = ScreenRecordingFile(
+      path = "file://${chunkFile.absolutePath}",
+      name = chunkFile.name,
+      size = chunkFile.length().toDouble(),
+      duration = videoDuration,
+      enabledMicrophone = service.isMicrophoneEnabled(),
+      audioFile = audioFileInfo,
+      appAudioFile = null,
+      markers = null,
+      markersFile = null
+    )
+    notifyChunkListeners(ChunkReadyEvent(chunkId = chunkId, file = file))
+    // The app holds the chunk now, so listPendingChunks() must not report it as orphaned
+    pendingGlobalRecordings.remove(pending)
+    return file
   }
 
   // --- Extension Status ---
@@ -680,6 +984,30 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
     )
   }
 
+  override fun getCurrentChunkSize(): Double {
+    return globalRecordingService?.getCurrentFileSize()?.toDouble() ?: 0.0
+  }
+
+  override fun getRecordingProgress(): RecordingProgress? {
+    val service = globalRecordingService
+    if (service == null || !service.hasActiveSession()) return null
+    // MediaRecorder does not expose frame counts, so they are left undefined
+    return RecordingProgress(
+      type = RecordingEventType.GLOBAL,
+      elapsedSec = service.getElapsedSeconds(),
+      bytesWritten = service.getCurrentFileSize().toDouble(),
+      framesWritten = null,
+      droppedFrames = null
+    )
+  }
+
+  override fun getStorageInfo(): StorageInfo {
+    val ctx = NitroModules.applicationContext ?: throw Error("NO_CONTEXT")
+    val (freeBytes, totalBytes) =
+      RecorderUtils.getStorageBytes(ctx.externalCacheDir ?: ctx.filesDir)
+    return StorageInfo(freeBytes = freeBytes.toDouble(), totalBytes = totalBytes.toDouble())
+  }
+
   override fun isScreenBeingRecorded(): Boolean {
     val service = globalRecordingService
     val hasSession = service?.hasActiveSession() == true
@@ -703,6 +1031,14 @@ class NitroScreenRecorder : HybridNitroScreenRecorderSpec() {
     return emptyArray()
   }
 
+  override fun getExtensionLogEntries(): Array<RawExtensionLogEntry> {
+    return emptyArray()
+  }
+
+  override fun configureExtensionLogs(minLevel: String, maxEntries: Double) {
+    return
+  }
+
   override fun clearExtensionLogs() {
     return
   }
@@ -3,9 +3,12 @@ package com.margelo.nitro.nitroscreenrecorder.utils
 import android.app.NotificationChannel
 import android.app.NotificationManager
 import android.content.Context
+import android.media.MediaCodecList
+import android.media.MediaFormat
 import android.media.MediaMetadataRetriever
 import android.media.MediaRecorder
 import android.os.Build
+import android.os.StatFs
 import android.util.DisplayMetrics
 import android.util.Log
 import android.view.WindowManager
@@ -25,7 +28,8 @@ data class RecordingProfile(
   val width: Int,
   val height: Int,
   val videoBitrate: Int,
-  val frameRate: Int
+  val frameRate: Int,
+  val videoEncoder: Int = MediaRecorder.VideoEncoder.H264
 )
 
 /**
@@ -50,10 +54,46 @@ object RecorderUtils {
       product.contains("sdk")
   }
 
-  fun buildRecordingProfile(screenWidth: Int, screenHeight: Int): RecordingProfile {
-    val maxLongSide = 1920
-    val bitrate = 4 * 1024 * 1024
-    val fps = 24
+  /**
+   * Whether the device has an encoder for the given video MIME type.
+   */
+  private fun hasVideoEncoder(mimeType: String): Boolean {
+    return try {
+      MediaCodecList(MediaCodecList.REGULAR_CODECS).codecInfos.any { info ->
+        info.isEncoder && info.supportedTypes.any { it.equals(mimeType, ignoreCase = true) }
+      }
+    } catch (e: Exception) {
+      Log.w(TAG, "Could not list media codecs: ${e.message}")
+      false
+    }
+  }
+
+  /**
+   * Builds the recording profile for the screen. Requested values of 0 fall
+   * back to the defaults (1920 long side, 4 Mbps, 24 fps, H.264). HEVC falls
+   * back to H.264 when the device has no HEVC encoder.
+   */
+  fun buildRecordingProfile(
+    screenWidth: Int,
+    screenHeight: Int,
+    requestedMaxLongSide: Int = 0,
+    requestedBitrate: Int = 0,
+    requestedFrameRate: Int = 0,
+    preferHevc: Boolean = false
+  ): RecordingProfile {
+    val maxLongSide = if (requestedMaxLongSide > 0) requestedMaxLongSide else 1920
+    val bitrate = if (requestedBitrate > 0) requestedBitrate else 4 * 1024 * 1024
+    val fps = if (requestedFrameRate > 0) requestedFrameRate else 24
+    val videoEncoder = if (
+      preferHevc &&
+      Build.VERSION.SDK_INT >= Build.VERSION_CODES.N &&
+      hasVideoEncoder(MediaFormat.MIMETYPE_VIDEO_HEVC)
+    ) {
+      MediaRecorder.VideoEncoder.HEVC
+    } else {
+      if (preferHevc) Log.w(TAG, "⚠️ No HEVC encoder available, using H.264")
+      MediaRecorder.VideoEncoder.H264
+    }
 
     val isLandscape = screenWidth >= screenHeight
     val longSide = if (isLandscape) screenWidth else screenHeight
@@ -73,7 +113,8 @@ object RecorderUtils {
       width = profileWidth.coerceAtLeast(2),
       height = profileHeight.coerceAtLeast(2),
       videoBitrate = bitrate,
-      frameRate = fps
+      frameRate = fps,
+      videoEncoder = videoEncoder
     )
   }
 
@@ -203,7 +244,8 @@ object RecorderUtils {
     screenWidth: Int,
     screenHeight: Int,
     videoBitrate: Int,
-    videoFrameRate: Int
+    videoFrameRate: Int,
+    videoEncoder: Int = MediaRecorder.VideoEncoder.H264
   ): MediaRecorder {
     Log.d(TAG, "🎬 Setting up MediaRecorder: enableMic=$enableMicrophone")
 
@@ -222,7 +264,7 @@ object RecorderUtils {
         }
 
         setOutputFormat(MediaRecorder.OutputFormat.MPEG_4)
-        setVideoEncoder(MediaRecorder.VideoEncoder.H264)
+        setVideoEncoder(videoEncoder)
         if (enableMicrophone) {
           setAudioEncoder(MediaRecorder.AudioEncoder.AAC)
         }
@@ -365,6 +407,133 @@ object RecorderUtils {
     }
   }
 
+  /**
+   * Appends the given videos back to back into [outputFile], dropping the first
+   * [startOffsetSec] seconds. The cut snaps to the previous keyframe.
+   *
+   * Track layout (video and optional audio) is taken from the first input.
+   *
+   * @return true if the output contains an audio track, false if it is video only
+   */
+  fun concatenateVideos(inputs: List<File>, outputFile: File, startOffsetSec: Double): Boolean {
+    val muxer = android.media.MediaMuxer(
+      outputFile.absolutePath,
+      android.media.MediaMuxer.OutputFormat.MUXER_OUTPUT_MPEG_4
+    )
+    var muxerStarted = false
+
+    try {
+      Log.d(TAG, "🎬 Concatenating ${inputs.size} videos into ${outputFile.name}")
+
+      var videoTrack = -1
+      var audioTrack = -1
+      val first = android.media.MediaExtractor()
+      try {
+        first.setDataSource(inputs.first().absolutePath)
+        for (i in 0 until first.trackCount) {
+          val format = first.getTrackFormat(i)
+          val mime = format.getString(android.media.MediaFormat.KEY_MIME) ?: continue
+          if (mime.startsWith("video/") && videoTrack < 0) {
+            videoTrack = muxer.addTrack(format)
+          } else if (mime.startsWith("audio/") && audioTrack < 0) {
+            audioTrack = muxer.addTrack(format)
+          }
+        }
+      } finally {
+        first.release()
+      }
+      muxer.start()
+      muxerStarted = true
+
+      val buffer = java.nio.ByteBuffer.allocate(4 * 1024 * 1024)
+      val bufferInfo = android.media.MediaCodec.BufferInfo()
+      var remainingSkipUs = (startOffsetSec * 1_000_000).toLong()
+      var timeOffsetUs = 0L
+
+      for ((index, input) in inputs.withIndex()) {
+        // Skip whole files that fall inside the offset
+        val durationUs = (getVideoDuration(input) * 1_000_000).toLong()
+        if (remainingSkipUs >= durationUs && index < inputs.lastIndex) {
+          remainingSkipUs -= durationUs
+          continue
+        }
+
+        val extractor = android.media.MediaExtractor()
+        try {
+          extractor.setDataSource(input.absolutePath)
+          val trackMap = mutableMapOf<Int, Int>()
+          for (i in 0 until extractor.trackCount) {
+            val mime = extractor.getTrackFormat(i).getString(android.media.MediaFormat.KEY_MIME)
+            val target = when {
+              mime?.startsWith("video/") == true -> videoTrack
+              mime?.startsWith("audio/") == true -> audioTrack
+              else -> -1
+            }
+            if (target >= 0 && target !in trackMap.values) {
+              trackMap[i] = target
+              extractor.selectTrack(i)
+            }
+          }
+
+          var startUs = 0L
+          if (remainingSkipUs > 0) {
+            extractor.seekTo(remainingSkipUs, android.media.MediaExtractor.SEEK_TO_PREVIOUS_SYNC)
+            startUs = extractor.sampleTime.coerceAtLeast(0L)
+            remainingSkipUs = 0L
+          }
+
+          var lastSampleUs = 0L
+          while (true) {
+            val sampleSize = extractor.readSampleData(buffer, 0)
+            if (sampleSize < 0) break
+
+            val target = trackMap[extractor.sampleTrackIndex]
+            val sampleUs = extractor.sampleTime - startUs
+            if (target != null && sampleUs >= 0) {
+              bufferInfo.offset = 0
+              bufferInfo.size = sampleSize
+              bufferInfo.presentationTimeUs = timeOffsetUs + sampleUs
+              bufferInfo.flags = extractor.sampleFlags
+              muxer.writeSampleData(target, buffer, bufferInfo)
+              lastSampleUs = maxOf(lastSampleUs, sampleUs)
+            }
+            extractor.advance()
+          }
+          // Leave one frame of space so the next file does not overlap
+          timeOffsetUs += lastSampleUs + 33_333L
+        } finally {
+          extractor.release()
+        }
+      }
+
+      Log.d(TAG, "✅ Concatenation complete: ${outputFile.name}")
+      return audioTrack >= 0
+    } catch (e: Exception) {
+      Log.e(TAG, "❌ Error concatenating videos: ${e.message}")
+      throw e
+    } finally {
+      try {
+        if (muxerStarted) muxer.stop()
+        muxer.release()
+      } catch (e: Exception) {
+        Log.w(TAG, "Warning during muxer cleanup: ${e.message}")
+      }
+    }
+  }
+
+  /**
+   * Returns the free and total bytes of the volume holding [directory].
+   */
+  fun getStorageBytes(directory: File): Pair<Long, Long> {
+    return try {
+      val stat = StatFs(directory.absolutePath)
+      stat.availableBytes to stat.totalBytes
+    } catch (e: IllegalArgumentException) {
+      Log.w(TAG, "⚠️ Could not read storage of ${directory.absolutePath}: ${e.message}")
+      0L to 0L
+    }
+  }
+
   /**
    * Deletes all .mp4 and .m4a files in a given directory.
    */
@@ -27,6 +27,7 @@ class ScreenRecordingService : Service() {
   private var mediaRecorder: MediaRecorder? = null
   private var virtualDisplay: VirtualDisplay? = null
   private var isRecording = false
+  private var isPaused = false
   private var currentRecordingFile: File? = null
   private var enableMic = false
   
@@ -40,6 +41,21 @@ class ScreenRecordingService : Service() {
   private var isCapturing = false
   private var chunkStartedAt: Double = 0.0
   private var recordingStartedAt: Double = 0.0
+  // Pause bookkeeping for getElapsedSeconds()
+  private var pausedAt: Double = 0.0
+  private var pausedSeconds: Double = 0.0
+
+  // Recording limits requested from JS (0 = no limit)
+  private var maxDurationSec: Double = 0.0
+  private var maxFileSizeBytes: Double = 0.0
+  private var minFreeBytes: Double = 0.0
+  private var lowStorageReported = false
+  private val limitCheckRunnable = object : Runnable {
+    override fun run() {
+      if (checkRecordingLimits()) return
+      mainHandler.postDelayed(this, LIMIT_CHECK_INTERVAL_MS)
+    }
+  }
   
   // Capture mode (Android 14+)
   // Defaults to ENTIRESCREEN on Android 14+, updated to SINGLEAPP when visibility callback fires with false
@@ -78,6 +94,7 @@ class ScreenRecordingService : Service() {
         Log.d(TAG, "📱 isVisible=false → Confirmed SINGLE APP mode")
         isSingleAppMode = true
         captureMode = CaptureMode.SINGLEAPP
+        NitroScreenRecorder.notifyExtensionStatusChanged()
       } else {
         // isVisible=true fires for both modes initially, not conclusive
         Log.d(TAG, "📱 isVisible=true → Could be either mode, keeping current: $captureMode")
@@ -99,6 +116,7 @@ class ScreenRecordingService : Service() {
     private const val TAG = "ScreenRecordingService"
     private const val NOTIFICATION_ID = 1001
     private const val CHANNEL_ID = "screen_recording_channel"
+    private const val LIMIT_CHECK_INTERVAL_MS = 500L
     const val ACTION_START_RECORDING = "START_RECORDING"
     const val ACTION_STOP_RECORDING = "STOP_RECORDING"
     const val ACTION_MARK_CHUNK_START = "MARK_CHUNK_START"
@@ -107,6 +125,13 @@ class ScreenRecordingService : Service() {
     const val EXTRA_RESULT_DATA = "RESULT_DATA"
     const val EXTRA_ENABLE_MIC = "ENABLE_MIC"
     const val EXTRA_SEPARATE_AUDIO = "SEPARATE_AUDIO"
+    const val EXTRA_VIDEO_MAX_LONG_SIDE = "VIDEO_MAX_LONG_SIDE"
+    const val EXTRA_VIDEO_BITRATE = "VIDEO_BITRATE"
+    const val EXTRA_VIDEO_FRAME_RATE = "VIDEO_FRAME_RATE"
+    const val EXTRA_VIDEO_PREFER_HEVC = "VIDEO_PREFER_HEVC"
+    const val EXTRA_MAX_DURATION_SEC = "MAX_DURATION_SEC"
+    const val EXTRA_MAX_FILE_SIZE_BYTES = "MAX_FILE_SIZE_BYTES"
+    const val EXTRA_MIN_FREE_BYTES = "MIN_FREE_BYTES"
   }
 
   inner class LocalBinder : Binder() {
@@ -148,6 +173,26 @@ class ScreenRecordingService : Service() {
         val enableMicrophone = intent.getBooleanExtra(EXTRA_ENABLE_MIC, false)
         val separateAudio = intent.getBooleanExtra(EXTRA_SEPARATE_AUDIO, false)
 
+        // Video quality requested from JS (0 = default)
+        recordingProfile = RecorderUtils.buildRecordingProfile(
+          screenWidth,
+          screenHeight,
+          intent.getIntExtra(EXTRA_VIDEO_MAX_LONG_SIDE, 0),
+          intent.getIntExtra(EXTRA_VIDEO_BITRATE, 0),
+          intent.getIntExtra(EXTRA_VIDEO_FRAME_RATE, 0),
+          intent.getBooleanExtra(EXTRA_VIDEO_PREFER_HEVC, false)
+        )
+        Log.d(TAG, "🎞️ Recording profile: $recordingProfile")
+
+        maxDurationSec = intent.getDoubleExtra(EXTRA_MAX_DURATION_SEC, 0.0)
+        maxFileSizeBytes = intent.getDoubleExtra(EXTRA_MAX_FILE_SIZE_BYTES, 0.0)
+        minFreeBytes = intent.getDoubleExtra(EXTRA_MIN_FREE_BYTES, 0.0)
+        lowStorageReported = false
+        Log.d(
+          TAG,
+          "⏱️ Limits: maxDurationSec=$maxDurationSec, maxFileSizeBytes=$maxFileSizeBytes, minFreeBytes=$minFreeBytes"
+        )
+
         Log.d(
           TAG,
           "🎬 Start recording: resultCode=$resultCode, enableMic=$enableMicrophone, separateAudio=$separateAudio"
@@ -245,7 +290,10 @@ class ScreenRecordingService : Service() {
       this.enableMic = enableMicrophone
       this.separateAudioFile = separateAudio
       
-      // Reset chunking state
+      // Reset chunking and pause state
+      isPaused = false
+      pausedAt = 0.0
+      pausedSeconds = 0.0
       isCapturing = false
       chunkStartedAt = 0.0
       
@@ -287,7 +335,8 @@ class ScreenRecordingService : Service() {
         recordingProfile.width,
         recordingProfile.height,
         recordingProfile.videoBitrate,
-        recordingProfile.frameRate
+        recordingProfile.frameRate,
+        recordingProfile.videoEncoder
       )
       mediaRecorder?.prepare()
 
@@ -314,6 +363,11 @@ class ScreenRecordingService : Service() {
         reason = RecordingEventReason.BEGAN
       )
       NitroScreenRecorder.notifyGlobalRecordingEvent(event)
+      NitroScreenRecorder.notifyExtensionStatusChanged()
+
+      if (maxDurationSec > 0 || maxFileSizeBytes > 0 || minFreeBytes > 0) {
+        mainHandler.postDelayed(limitCheckRunnable, LIMIT_CHECK_INTERVAL_MS)
+      }
 
       Log.d(TAG, "🎉 Global screen recording started successfully")
       Log.d(TAG, "📺 Capture mode: $captureMode (will update to SINGLEAPP if user navigates away)")
@@ -422,37 +476,7 @@ class ScreenRecordingService : Service() {
       val oldRecorder = mediaRecorder
       val oldFile = currentRecordingFile
 
-      // Create new recording file for the chunk
-      val base = applicationContext.externalCacheDir ?: applicationContext.filesDir
-      val recordingsDir = File(base, "recordings")
-      val newRecordingFile = RecorderUtils.createOutputFile(recordingsDir, "chunk")
-
-      // Create and prepare new MediaRecorder
-      val newRecorder = RecorderUtils.setupMediaRecorder(
-        this,
-        enableMic,
-        newRecordingFile,
-        recordingProfile.width,
-        recordingProfile.height,
-        recordingProfile.videoBitrate,
-        recordingProfile.frameRate
-      )
-      newRecorder.prepare()
-
-      // IMPORTANT: Start the new recorder BEFORE swapping the surface
-      // This ensures frames are written to a fully initialized recorder
-      newRecorder.start()
-      Log.d(TAG, "📍 New chunk recorder started")
-
-      // SEAMLESS SWAP: Update the VirtualDisplay surface to point to new recorder
-      // This redirects the screen capture to the running recorder
-      virtualDisplay?.setSurface(newRecorder.surface)
-      Log.d(TAG, "📍 VirtualDisplay surface swapped to new recorder")
-
-      // Update references
-      mediaRecorder = newRecorder
-      currentRecordingFile = newRecordingFile
-      isRecording = true
+      swapToNewChunkRecorder()
 
       // Clean up old recorder if it exists (content is pre-chunk, discard it)
       if (oldRecorder != null) {
@@ -474,6 +498,7 @@ class ScreenRecordingService : Service() {
       // Update chunking state
       isCapturing = true
       chunkStartedAt = System.currentTimeMillis() / 1000.0
+      NitroScreenRecorder.notifyExtensionStatusChanged()
 
       Log.d(TAG, "📍 Chunk started at $chunkStartedAt (seamless surface swap)")
 
@@ -488,6 +513,98 @@ class ScreenRecordingService : Service() {
     }
   }
 
+  /**
+   * Starts a new MediaRecorder for the next chunk and points the VirtualDisplay at it.
+   * The previous recorder (if any) keeps its file and is left for the caller to stop.
+   */
+  private fun swapToNewChunkRecorder() {
+    // Create new recording file for the chunk
+    val base = applicationContext.externalCacheDir ?: applicationContext.filesDir
+    val recordingsDir = File(base, "recordings")
+    val newRecordingFile = RecorderUtils.createOutputFile(recordingsDir, "chunk")
+
+    // Create and prepare new MediaRecorder
+    val newRecorder = RecorderUtils.setupMediaRecorder(
+      this,
+      enableMic,
+      newRecordingFile,
+      recordingProfile.width,
+      recordingProfile.height,
+      recordingProfile.videoBitrate,
+      recordingProfile.frameRate,
+      recordingProfile.videoEncoder
+    )
+    newRecorder.prepare()
+
+    // IMPORTANT: Start the new recorder BEFORE swapping the surface
+    // This ensures frames are written to a fully initialized recorder
+    newRecorder.start()
+    // Keep the session paused across the swap
+    if (isPaused) {
+      newRecorder.pause()
+    }
+    Log.d(TAG, "📍 New chunk recorder started")
+
+    // SEAMLESS SWAP: Update the VirtualDisplay surface to point to new recorder
+    // This redirects the screen capture to the running recorder
+    virtualDisplay?.setSurface(newRecorder.surface)
+    Log.d(TAG, "📍 VirtualDisplay surface swapped to new recorder")
+
+    // Update references
+    mediaRecorder = newRecorder
+    currentRecordingFile = newRecordingFile
+    isRecording = true
+  }
+
+  /**
+   * Finalizes the current chunk and keeps capturing into the next one, using the same
+   * seamless surface swap as markChunkStart() but keeping the old file instead of
+   * discarding it. Unlike finalizeChunk(), there is no gap between the two chunks.
+   */
+  fun rotateChunk(): File? {
+    Log.d(TAG, "🔄 rotateChunk called")
+
+    if (!isCapturing) {
+      Log.w(TAG, "⚠️ rotateChunk: Not currently capturing a chunk (markChunkStart not called)")
+      return null
+    }
+
+    val oldRecorder = mediaRecorder
+    if (oldRecorder == null) {
+      Log.w(TAG, "⚠️ rotateChunk: No active recorder")
+      return null
+    }
+    val chunkFile = currentRecordingFile
+
+    try {
+      swapToNewChunkRecorder()
+    } catch (e: Exception) {
+      Log.e(TAG, "❌ Error in rotateChunk: ${e.message}")
+      e.printStackTrace()
+      val error = RecordingError(
+        name = "ChunkFinalizeError",
+        message = e.message ?: "Failed to rotate chunk"
+      )
+      NitroScreenRecorder.notifyGlobalRecordingError(error)
+      return null
+    }
+
+    try {
+      oldRecorder.stop()
+      oldRecorder.release()
+    } catch (e: Exception) {
+      Log.e(TAG, "❌ Error stopping rotated recorder: ${e.message}")
+      chunkFile?.delete()
+      return null
+    } finally {
+      chunkStartedAt = System.currentTimeMillis() / 1000.0
+      NitroScreenRecorder.notifyExtensionStatusChanged()
+    }
+
+    Log.d(TAG, "🔄 Chunk rotated: ${chunkFile?.absolutePath}")
+    return chunkFile
+  }
+
   /**
    * Finalizes the current chunk by stopping the recorder and returning the file.
    * 
@@ -533,6 +650,7 @@ class ScreenRecordingService : Service() {
       // Update state - chunk done, but recording session still active
       isCapturing = false
       chunkStartedAt = 0.0
+      NitroScreenRecorder.notifyExtensionStatusChanged()
       // Keep isRecording = false to indicate paused state
       // MediaProjection stays alive for next markChunkStart()
       isRecording = false
@@ -553,6 +671,42 @@ class ScreenRecordingService : Service() {
     return chunkFile
   }
 
+  /**
+   * Pauses the active recorder. Paused time is not written to the output, so the
+   * resulting file (or chunk) only contains the recorded sections.
+   */
+  fun pauseRecording() {
+    Log.d(TAG, "⏸️ pauseRecording called")
+    if (isPaused) return
+
+    // Between chunks there is no recorder to pause; the flag is applied to the next one
+    mediaRecorder?.pause()
+    isPaused = true
+    pausedAt = System.currentTimeMillis() / 1000.0
+
+    val event = ScreenRecordingEvent(
+      type = RecordingEventType.GLOBAL,
+      reason = RecordingEventReason.PAUSED
+    )
+    NitroScreenRecorder.notifyGlobalRecordingEvent(event)
+  }
+
+  fun resumeRecording() {
+    Log.d(TAG, "▶️ resumeRecording called")
+    if (!isPaused) return
+
+    mediaRecorder?.resume()
+    isPaused = false
+    pausedSeconds += System.currentTimeMillis() / 1000.0 - pausedAt
+    pausedAt = 0.0
+
+    val event = ScreenRecordingEvent(
+      type = RecordingEventType.GLOBAL,
+      reason = RecordingEventReason.RESUMED
+    )
+    NitroScreenRecorder.notifyGlobalRecordingEvent(event)
+  }
+
   // Status getters for NitroScreenRecorder
   fun isCapturingChunk(): Boolean = isCapturing
   fun getChunkStartedAt(): Double = chunkStartedAt
@@ -560,7 +714,62 @@ class ScreenRecordingService : Service() {
   fun isMicrophoneEnabled(): Boolean = enableMic
   fun isSeparateAudioEnabled(): Boolean = separateAudioFile
   fun getLastAudioFile(): File? = currentAudioFile
+  fun isRecordingPaused(): Boolean = isPaused
+  fun getCurrentFileSize(): Long = currentRecordingFile?.length() ?: 0L
+
+  /** Recorded time of the session in seconds, excluding paused time */
+  fun getElapsedSeconds(): Double {
+    if (recordingStartedAt == 0.0) return 0.0
+    val end = if (isPaused) pausedAt else System.currentTimeMillis() / 1000.0
+    return maxOf(0.0, end - recordingStartedAt - pausedSeconds)
+  }
   
+  /**
+   * Stops the session with a LIMITREACHED event once maxDurationSec or maxFileSizeBytes
+   * is reached, or free storage falls to half of minFreeBytes, and emits LOWSTORAGE once
+   * free storage drops below minFreeBytes. The file is delivered the same way as for a
+   * manual stop. Returns true when the session was stopped.
+   */
+  private fun checkRecordingLimits(): Boolean {
+    if (!hasActiveSession()) return true
+    if (isPaused) return false
+
+    val durationReached = maxDurationSec > 0 && getElapsedSeconds() >= maxDurationSec
+    // Between chunks there is no file being written
+    val sizeReached = maxFileSizeBytes > 0 && isRecording && getCurrentFileSize() >= maxFileSizeBytes
+    var storageReached = false
+    if (minFreeBytes > 0) {
+      val base = applicationContext.externalCacheDir ?: applicationContext.filesDir
+      val freeBytes = RecorderUtils.getStorageBytes(base).first.toDouble()
+      if (freeBytes < minFreeBytes && !lowStorageReported) {
+        lowStorageReported = true
+        Log.w(TAG, "💾 Free storage below minFreeBytes (${freeBytes.toLong()} bytes left)")
+        NitroScreenRecorder.notifyGlobalRecordingEvent(
+          ScreenRecordingEvent(
+            type = RecordingEventType.GLOBAL,
+            reason = RecordingEventReason.LOWSTORAGE
+          )
+        )
+      }
+      storageReached = freeBytes < minFreeBytes / 2
+    }
+    if (!durationReached && !sizeReached && !storageReached) return false
+
+    val limit = when {
+      durationReached -> "maxDurationSec"
+      sizeReached -> "maxFileSizeBytes"
+      else -> "minFreeBytes"
+    }
+    Log.d(TAG, "⏱️ $limit reached, stopping recording")
+    val event = ScreenRecordingEvent(
+      type = RecordingEventType.GLOBAL,
+      reason = RecordingEventReason.LIMITREACHED
+    )
+    NitroScreenRecorder.notifyGlobalRecordingEvent(event)
+    stopRecording()
+    return true
+  }
+
   /** Returns true if we have an active MediaProjection session (even if paused between chunks) */
   fun hasActiveSession(): Boolean = mediaProjection != null
 
@@ -581,6 +790,12 @@ class ScreenRecordingService : Service() {
       isCapturing = false
       chunkStartedAt = 0.0
       recordingStartedAt = 0.0
+
+      // Stop checking limits
+      mainHandler.removeCallbacks(limitCheckRunnable)
+      maxDurationSec = 0.0
+      maxFileSizeBytes = 0.0
+      minFreeBytes = 0.0
       
       // Reset capture mode
       captureMode = CaptureMode.UNKNOWN
@@ -591,6 +806,7 @@ class ScreenRecordingService : Service() {
       mediaProjection?.stop()
       mediaProjection = null
 
+      NitroScreenRecorder.notifyExtensionStatusChanged()
       Log.d(TAG, "✅ Cleanup completed")
     } catch (e: Exception) {
       Log.e(TAG, "❌ Error during cleanup: ${e.message}")
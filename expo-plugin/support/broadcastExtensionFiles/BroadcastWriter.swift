@@ -34,6 +34,28 @@ extension Int {
   }
 }
 
+/// Video quality settings chosen by the host app. `0` means "use the default".
+public struct VideoSettings {
+  public var maxLongSide: Int = 0
+  public var bitrate: Int = 0
+  public var fps: Int = 0
+  /// "auto", "hevc" or "h264"
+  public var codec: String = "auto"
+  public var keyframeIntervalSec: Double = 0
+
+  public init() {}
+}
+
+/// What `BroadcastWriter.processSampleBuffer` did with a sample.
+public enum SampleResult {
+  /// Written to the file, or held until the session starts
+  case appended
+  /// Dropped on purpose, while paused or above the requested fps
+  case skipped
+  /// Could not be written
+  case failed
+}
+
 enum Error: Swift.Error {
   case wrongAssetWriterStatus(AVAssetWriter.Status)
   case selfDeallocated
@@ -150,6 +172,12 @@ public final class BroadcastWriter {
   private var lastAppAudioPTS: CMTime?
   private var micMonotonicityViolations: Int = 0
   private var appAudioMonotonicityViolations: Int = 0
+
+  // Pause handling: samples are dropped while paused, and everything after a resume
+  // is shifted back by the total paused time so the file has no gap
+  private var isPaused = false
+  private var resumePending = false
+  private var pausedTimeOffset: CMTime = .zero
   private lazy var defaultAudioFormatDescription: CMFormatDescription? = {
     let fallbackSampleRate = audioSampleRate > 0 ? audioSampleRate : 48_000
     var asbd = AudioStreamBasicDescription(
@@ -192,15 +220,26 @@ public final class BroadcastWriter {
   private var appAudioAssetWriterSessionStarted: Bool = false
 
   private lazy var videoInput: AVAssetWriterInput = { [unowned self] in
-    let videoWidth = screenSize.width * screenScale
-    let videoHeight = screenSize.height * screenScale
+    var videoWidth = screenSize.width * screenScale
+    var videoHeight = screenSize.height * screenScale
+
+    // Scale down (never up) to fit the requested long side
+    let longSide = max(videoWidth, videoHeight)
+    if videoSettings.maxLongSide > 0, longSide > CGFloat(videoSettings.maxLongSide) {
+      let scale = CGFloat(videoSettings.maxLongSide) / longSide
+      videoWidth *= scale
+      videoHeight *= scale
+    }
 
     // Ensure encoder-friendly even dimensions
     let w = (Int(videoWidth) / 2) * 2
     let h = (Int(videoHeight) / 2) * 2
 
-    // Decide codec: prefer HEVC when available
+    // Decide codec: prefer HEVC when available, unless H.264 was requested
     let hevcSupported: Bool = {
+      if videoSettings.codec == "h264" {
+        return false
+      }
       if #available(iOS 11.0, *) {
         return self.assetWriter.canApply(
           outputSettings: [AVVideoCodecKey: AVVideoCodecType.hevc],
@@ -213,8 +252,15 @@ public final class BroadcastWriter {
     let codec: AVVideoCodecType = hevcSupported ? .hevc : .h264
 
     var compressionProperties: [String: Any] = [
-      AVVideoExpectedSourceFrameRateKey: 30.nsNumber
+      AVVideoExpectedSourceFrameRateKey: (videoSettings.fps > 0 ? videoSettings.fps : 30).nsNumber
     ]
+    if videoSettings.bitrate > 0 {
+      compressionProperties[AVVideoAverageBitRateKey] = videoSettings.bitrate.nsNumber
+    }
+    if videoSettings.keyframeIntervalSec > 0 {
+      compressionProperties[AVVideoMaxKeyFrameIntervalDurationKey] =
+        NSNumber(value: videoSettings.keyframeIntervalSec)
+    }
     if hevcSupported {
       // Works broadly; adjust if you need different profiles
       compressionProperties[AVVideoProfileLevelKey] = "HEVC_Main_AutoLevel"
@@ -327,6 +373,7 @@ public final class BroadcastWriter {
 
   private let screenSize: CGSize
   private let screenScale: CGFloat
+  private let videoSettings: VideoSettings
 
   public init(
     outputURL url: URL,
@@ -335,7 +382,8 @@ public final class BroadcastWriter {
     assetWriterQueue queue: DispatchQueue = .init(label: "BroadcastSampleHandler.assetWriterQueue"),
     screenSize: CGSize,
     screenScale: CGFloat,
-    separateAudioFile: Bool = false
+    separateAudioFile: Bool = false,
+    videoSettings: VideoSettings = .init()
   ) throws {
     assetWriterQueue = queue
     assetWriter = try .init(url: url, fileType: .mp4)
@@ -343,6 +391,7 @@ public final class BroadcastWriter {
 
     self.screenSize = screenSize
     self.screenScale = screenScale
+    self.videoSettings = videoSettings
     self.separateAudioFile = separateAudioFile
     self.audioOutputURL = audioOutputURL
     self.appAudioOutputURL = appAudioOutputURL
@@ -416,7 +465,7 @@ public final class BroadcastWriter {
   public func processSampleBuffer(
     _ sampleBuffer: CMSampleBuffer,
     with sampleBufferType: RPSampleBufferType
-  ) throws -> Bool {
+  ) throws -> SampleResult {
 
     guard sampleBuffer.isValid,
       CMSampleBufferDataIsReady(sampleBuffer)
@@ -425,7 +474,7 @@ public final class BroadcastWriter {
         "sampleBuffer.isValid", sampleBuffer.isValid,
         "CMSampleBufferDataIsReady(sampleBuffer)", CMSampleBufferDataIsReady(sampleBuffer)
       )
-      return false
+      return .failed
     }
 
     let isWriting = assetWriterQueue.sync {
@@ -439,7 +488,16 @@ public final class BroadcastWriter {
         "assetWriter.error:",
         assetWriter.error ?? "no error"
       )
-      return false
+      return .failed
+    }
+
+    guard
+      let sampleBuffer = assetWriterQueue.sync(execute: {
+        pauseAdjustedSampleBuffer(sampleBuffer, type: sampleBufferType)
+      })
+    else {
+      // Dropped on purpose while paused
+      return .skipped
     }
 
     if sampleBufferType == .video {
@@ -450,9 +508,10 @@ public final class BroadcastWriter {
       // Buffer early audio until video starts instead of dropping
       let hasSessionStart = assetWriterQueue.sync { sessionStartTime != nil }
       if !hasSessionStart {
-        return assetWriterQueue.sync {
+        let buffered = assetWriterQueue.sync {
           bufferEarlyAudio(sampleBuffer, type: sampleBufferType)
         }
+        return buffered ? .appended : .failed
       }
     }
 
@@ -468,11 +527,9 @@ public final class BroadcastWriter {
           sampleBuffer,
           audioType: .audioApp
         )
-        if separateAudioFile {
-          _ = captureAppAudioOutput(adjustedBuffer)
-        }
-        // Return early - don't write app audio to main video file
-        return true
+        // Don't write app audio to main video file
+        guard separateAudioFile else { return .skipped }
+        return captureAppAudioOutput(adjustedBuffer) ? .appended : .failed
       }
     case .audioMic:
       // Also write to separate mic audio file if enabled
@@ -484,20 +541,59 @@ public final class BroadcastWriter {
         if separateAudioFile {
           _ = captureSeparateAudioOutput(adjustedBuffer)
         }
-        return captureMicrophoneOutput(adjustedBuffer)
+        return captureMicrophoneOutput(adjustedBuffer) ? .appended : .failed
       }
     @unknown default:
       debugPrint(#file, "Unknown type of sample buffer, \(sampleBufferType)")
-      return false
+      return .failed
     }
   }
 
   public func pause() {
-    // TODO: Pause
+    assetWriterQueue.sync {
+      isPaused = true
+      resumePending = false
+    }
   }
 
   public func resume() {
-    // TODO: Resume
+    assetWriterQueue.sync {
+      guard isPaused else { return }
+      isPaused = false
+      // Nothing to close if no frame was written before the pause
+      resumePending = sessionStartTime != nil
+    }
+  }
+
+  /// Returns nil for samples that must be dropped because the writer is paused,
+  /// otherwise the sample shifted back by the time spent paused.
+  /// Must be called on assetWriterQueue.
+  private func pauseAdjustedSampleBuffer(
+    _ sampleBuffer: CMSampleBuffer,
+    type: RPSampleBufferType
+  ) -> CMSampleBuffer? {
+    if isPaused {
+      return nil
+    }
+    if resumePending {
+      // Measure the gap on the first video frame after resuming; audio waits for it
+      guard type == .video else { return nil }
+      let pts = CMSampleBufferGetPresentationTimeStamp(sampleBuffer)
+      let gap = CMTimeSubtract(CMTimeSubtract(pts, pausedTimeOffset), lastVideoEndTime)
+      if isPositiveTime(gap) {
+        pausedTimeOffset = CMTimeAdd(pausedTimeOffset, gap)
+        debugPrint("⏯️ Resumed after \(gap.seconds)s pause (total offset \(pausedTimeOffset.seconds)s)")
+      }
+      resumePending = false
+    }
+    guard isPositiveTime(pausedTimeOffset) else {
+      return sampleBuffer
+    }
+    return sampleBufferByApplyingTimeOffset(
+      sampleBuffer,
+      offset: CMTimeSubtract(.zero, pausedTimeOffset),
+      minPTS: nil
+    )
   }
 
   /// Returns diagnostic info about the writer state for debugging
@@ -1019,7 +1115,15 @@ extension BroadcastWriter {
     appAudioAssetWriterSessionStarted = true
   }
 
-  fileprivate func captureVideoOutput(_ sampleBuffer: CMSampleBuffer) -> Bool {
+  fileprivate func captureVideoOutput(_ sampleBuffer: CMSampleBuffer) -> SampleResult {
+    // ReplayKit delivers up to 60fps - skip frames that arrive faster than requested
+    if videoSettings.fps > 0, let lastPTS = lastVideoPTS {
+      let minInterval = 1.0 / Double(videoSettings.fps)
+      let delta = CMTimeSubtract(CMSampleBufferGetPresentationTimeStamp(sampleBuffer), lastPTS)
+      if delta.seconds < minInterval * 0.9 {
+        return .skipped
+      }
+    }
     if !videoInput.isReadyForMoreMediaData {
       videoBackpressureHits += 1
       // Brief wait for video - critical for sync
@@ -1028,7 +1132,7 @@ extension BroadcastWriter {
         debugPrint(
           "⚠️ videoInput backpressure drop (hits: \(videoBackpressureHits), drops: \(videoBackpressureDrops))"
         )
-        return false
+        return .failed
       }
     }
     let pts = CMSampleBufferGetPresentationTimeStamp(sampleBuffer)
@@ -1064,7 +1168,7 @@ extension BroadcastWriter {
         lastVideoEndTime = endTime
       }
     }
-    return appended
+    return appended ? .appended : .failed
   }
 
   fileprivate func captureAudioOutput(_ sampleBuffer: CMSampleBuffer) -> Bool {
@@ -28,8 +28,11 @@ final class SampleHandler: RPBroadcastSampleHandler {
 
   // MARK: - Extension Logging
 
-  /// Maximum number of log entries to keep (ring buffer)
-  private static let maxLogEntries = 200
+  /// Number of log entries to keep (ring buffer) unless the app configured another size
+  private static let defaultMaxLogEntries = 200
+
+  /// Log levels from least to most severe
+  private static let logLevels = ["DEBUG", "INFO", "WARN", "ERROR"]
 
   /// Logs a message to shared UserDefaults for debugging from the main app
   private func extensionLog(_ message: String, level: String = "INFO") {
@@ -40,6 +43,18 @@ final class SampleHandler: RPBroadcastSampleHandler {
       return
     }
 
+    // Levels below the one set with configureExtensionLogs() are not stored
+    let minLevel = defaults.string(forKey: "ExtensionLogMinLevel") ?? "DEBUG"
+    let levelRank = SampleHandler.logLevels.firstIndex(of: level) ?? 0
+    let minLevelRank = SampleHandler.logLevels.firstIndex(of: minLevel) ?? 0
+    guard levelRank >= minLevelRank else {
+      debugPrint("[\(level)] \(message)")
+      return
+    }
+    let configuredMaxEntries = defaults.integer(forKey: "ExtensionLogMaxEntries")
+    let maxEntries =
+      configuredMaxEntries > 0 ? configuredMaxEntries : SampleHandler.defaultMaxLogEntries
+
     let timestamp = Date().timeIntervalSince1970
     let dateFormatter = ISO8601DateFormatter()
     dateFormatter.formatOptions = [.withInternetDateTime, .withFractionalSeconds]
@@ -56,8 +71,8 @@ final class SampleHandler: RPBroadcastSampleHandler {
     logs.append(entry)
 
     // Keep only the last N entries (ring buffer)
-    if logs.count > SampleHandler.maxLogEntries {
-      logs = Array(logs.suffix(SampleHandler.maxLogEntries))
+    if logs.count > maxEntries {
+      logs = Array(logs.suffix(maxEntries))
     }
 
     defaults.set(logs, forKey: "ExtensionLogs")
@@ -132,6 +147,12 @@ final class SampleHandler: RPBroadcastSampleHandler {
   private static let finalizeChunkNotificationName = CFNotificationName(
     finalizeChunkNotificationString)
 
+  private static let pauseNotificationString = "com.nitroscreenrecorder.pauseBroadcast" as CFString
+  private static let pauseNotificationName = CFNotificationName(pauseNotificationString)
+
+  private static let resumeNotificationString = "com.nitroscreenrecorder.resumeBroadcast" as CFString
+  private static let resumeNotificationName = CFNotificationName(resumeNotificationString)
+
   private lazy var hostAppGroupIdentifier: String? = {
     return appGroupIDFromPlist()
   }()
@@ -145,10 +166,36 @@ final class SampleHandler: RPBroadcastSampleHandler {
   private var appAudioNodeURL: URL  // App/system audio
   private var sawMicBuffers = false
   private var separateAudioFile: Bool = false
+  private var videoSettings = VideoSettings()
   private var isBroadcastActive = false
   private var isCapturing = false
+  private var isPaused = false
   private var chunkStartedAt: Double = 0
 
+  // Status last announced to the host app, so statusChanged only fires on real changes
+  private struct ExtensionStatusSnapshot: Equatable {
+    let micActive: Bool
+    let capturing: Bool
+    let paused: Bool
+    let chunkStartedAt: Double
+  }
+  private var lastPostedStatus: ExtensionStatusSnapshot?
+
+  // Session progress reported to the host app
+  private var broadcastStartedAt: Double = 0
+  private var pausedAt: Double = 0
+  private var pausedSeconds: Double = 0
+  private var writtenVideoFrames: Int = 0
+  private var droppedVideoFrames: Int = 0
+
+  // Recording limits chosen by the host app (0 = no limit)
+  private var maxDurationSec: Double = 0
+  private var maxFileSizeBytes: Double = 0
+  private var minFreeBytes: Double = 0
+  private var limitReached = false
+  private var lowStorageReported = false
+  private var lastStorageCheckAt: Double = 0
+
   // Serial queue for thread-safe writer operations
   private let writerQueue = DispatchQueue(label: "com.nitroscreenrecorder.writerQueue")
 
@@ -192,6 +239,8 @@ final class SampleHandler: RPBroadcastSampleHandler {
       center, observer, SampleHandler.markChunkNotificationName, nil)
     CFNotificationCenterRemoveObserver(
       center, observer, SampleHandler.finalizeChunkNotificationName, nil)
+    CFNotificationCenterRemoveObserver(center, observer, SampleHandler.pauseNotificationName, nil)
+    CFNotificationCenterRemoveObserver(center, observer, SampleHandler.resumeNotificationName, nil)
   }
 
   private func startListeningForNotifications() {
@@ -243,6 +292,33 @@ final class SampleHandler: RPBroadcastSampleHandler {
       nil,
       .deliverImmediately
     )
+
+    // Listen for pause/resume signals from the host app
+    CFNotificationCenterAddObserver(
+      center,
+      observer,
+      { _, observer, name, _, _ in
+        guard let observer, let name, name == SampleHandler.pauseNotificationName else { return }
+        let me = Unmanaged<SampleHandler>.fromOpaque(observer).takeUnretainedValue()
+        me.broadcastPaused()
+      },
+      SampleHandler.pauseNotificationString,
+      nil,
+      .deliverImmediately
+    )
+
+    CFNotificationCenterAddObserver(
+      center,
+      observer,
+      { _, observer, name, _, _ in
+        guard let observer, let name, name == SampleHandler.resumeNotificationName else { return }
+        let me = Unmanaged<SampleHandler>.fromOpaque(observer).takeUnretainedValue()
+        me.broadcastResumed()
+      },
+      SampleHandler.resumeNotificationString,
+      nil,
+      .deliverImmediately
+    )
   }
 
   // MARK: – Broadcast lifecycle
@@ -251,6 +327,7 @@ final class SampleHandler: RPBroadcastSampleHandler {
 
     // Mark broadcast as active
     isBroadcastActive = true
+    broadcastStartedAt = Date().timeIntervalSince1970
     updateExtensionStatus()
 
     // Reset mark token tracking for fresh session
@@ -288,9 +365,32 @@ final class SampleHandler: RPBroadcastSampleHandler {
     // Check if separate audio file is requested
     if let userDefaults = UserDefaults(suiteName: groupID) {
       separateAudioFile = userDefaults.bool(forKey: "SeparateAudioFileEnabled")
+
+      // Video quality chosen by the host app (0 = writer default)
+      videoSettings.maxLongSide = userDefaults.integer(forKey: "VideoMaxLongSide")
+      videoSettings.bitrate = userDefaults.integer(forKey: "VideoBitrate")
+      videoSettings.fps = userDefaults.integer(forKey: "VideoFrameRate")
+      videoSettings.codec = userDefaults.string(forKey: "VideoCodec") ?? "auto"
+      videoSettings.keyframeIntervalSec = userDefaults.double(forKey: "VideoKeyframeInterval")
+
+      // Limits only apply to the broadcast they were requested for
+      maxDurationSec = userDefaults.double(forKey: "RecordingMaxDuration")
+      maxFileSizeBytes = userDefaults.double(forKey: "RecordingMaxFileSize")
+      minFreeBytes = userDefaults.double(forKey: "RecordingMinFreeBytes")
+      userDefaults.removeObject(forKey: "RecordingMaxDuration")
+      userDefaults.removeObject(forKey: "RecordingMaxFileSize")
+      userDefaults.removeObject(forKey: "RecordingMinFreeBytes")
+      limitReached = false
+      lowStorageReported = false
     }
 
     logInfo("broadcastStarted: separateAudioFile=\(separateAudioFile), appGroup=\(groupID)")
+    logInfo(
+      "broadcastStarted: maxDurationSec=\(maxDurationSec), maxFileSizeBytes=\(maxFileSizeBytes), minFreeBytes=\(minFreeBytes)"
+    )
+    logInfo(
+      "broadcastStarted: video maxLongSide=\(videoSettings.maxLongSide), bitrate=\(videoSettings.bitrate), fps=\(videoSettings.fps), codec=\(videoSettings.codec), keyframeInterval=\(videoSettings.keyframeIntervalSec)"
+    )
 
     // Clean up old recordings
     cleanupOldRecordings(in: groupID)
@@ -304,7 +404,8 @@ final class SampleHandler: RPBroadcastSampleHandler {
         appAudioOutputURL: separateAudioFile ? appAudioNodeURL : nil,
         screenSize: screen.bounds.size,
         screenScale: screen.scale,
-        separateAudioFile: separateAudioFile
+        separateAudioFile: separateAudioFile,
+        videoSettings: videoSettings
       )
       try writer?.start()
       logInfo("broadcastStarted: Writer started successfully, output=\(nodeURL.lastPathComponent)")
@@ -338,6 +439,7 @@ final class SampleHandler: RPBroadcastSampleHandler {
     if let defaults = UserDefaults(suiteName: groupID) {
       defaults.removeObject(forKey: "PendingChunks")
       defaults.removeObject(forKey: "CurrentChunkId")
+      defaults.removeObject(forKey: "RotateChunk")
       defaults.removeObject(forKey: "MarkChunkToken")
       defaults.removeObject(forKey: "LastProcessedMarkToken")
       defaults.synchronize()
@@ -359,6 +461,7 @@ final class SampleHandler: RPBroadcastSampleHandler {
       guard let writer = self.writer else {
         // Log if we're dropping frames because writer is nil
         if sampleBufferType == .video {
+          self.droppedVideoFrames += 1
           self.logWarning("processSampleBuffer: VIDEO frame dropped - writer is nil!")
         }
         return
@@ -395,12 +498,21 @@ final class SampleHandler: RPBroadcastSampleHandler {
         if self.frameCount >= self.statusUpdateInterval {
           self.frameCount = 0
           self.updateExtensionStatus()
+          self.checkRecordingLimits()
         }
       }
 
       do {
-        let success = try writer.processSampleBuffer(sampleBuffer, with: sampleBufferType)
-        if sampleBufferType == .video && !success && self.videoFramesThisWriter <= 3 {
+        let result = try writer.processSampleBuffer(sampleBuffer, with: sampleBufferType)
+        // Frames skipped while paused or by the fps limit are neither written nor dropped
+        if sampleBufferType == .video {
+          if result == .appended {
+            self.writtenVideoFrames += 1
+          } else if result == .failed {
+            self.droppedVideoFrames += 1
+          }
+        }
+        if sampleBufferType == .video && result == .failed && self.videoFramesThisWriter <= 3 {
           self.logWarning(
             "processSampleBuffer: Video frame \(self.videoFramesThisWriter) NOT appended")
         }
@@ -419,16 +531,116 @@ final class SampleHandler: RPBroadcastSampleHandler {
 
     defaults.set(sawMicBuffers, forKey: "ExtensionMicActive")
     defaults.set(isCapturing, forKey: "ExtensionCapturing")
+    defaults.set(isPaused, forKey: "ExtensionPaused")
     defaults.set(chunkStartedAt, forKey: "ExtensionChunkStartedAt")
+    defaults.set(currentChunkBytes(), forKey: "ExtensionChunkBytes")
+    defaults.set(broadcastStartedAt, forKey: "ExtensionRecordingStartedAt")
+    defaults.set(pausedAt, forKey: "ExtensionPausedAt")
+    defaults.set(pausedSeconds, forKey: "ExtensionPausedSeconds")
+    defaults.set(writtenVideoFrames, forKey: "ExtensionFramesWritten")
+    defaults.set(droppedVideoFrames, forKey: "ExtensionDroppedFrames")
     defaults.synchronize()  // Force sync for cross-process visibility
+
+    let status = ExtensionStatusSnapshot(
+      micActive: sawMicBuffers,
+      capturing: isCapturing,
+      paused: isPaused,
+      chunkStartedAt: chunkStartedAt
+    )
+    if status != lastPostedStatus {
+      lastPostedStatus = status
+      postStatusChanged()
+    }
+  }
+
+  /// Tells the host app to re-read the extension status from UserDefaults
+  private func postStatusChanged() {
+    let notif = "com.nitroscreenrecorder.statusChanged" as CFString
+    CFNotificationCenterPostNotification(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      CFNotificationName(notif),
+      nil,
+      nil,
+      true
+    )
+  }
+
+  /// Stops the broadcast once maxDurationSec or maxFileSizeBytes is reached, or free
+  /// storage falls to half of minFreeBytes. Called on writerQueue together with the status updates.
+  private func checkRecordingLimits() {
+    guard !limitReached, !isPaused else { return }
+    let now = Date().timeIntervalSince1970
+    let elapsed = now - broadcastStartedAt - pausedSeconds
+    let durationReached = maxDurationSec > 0 && elapsed >= maxDurationSec
+    let sizeReached = maxFileSizeBytes > 0 && currentChunkBytes() >= maxFileSizeBytes
+
+    // Querying the volume is slower than the other checks, so only do it once a second
+    var storageReached = false
+    if minFreeBytes > 0 && now - lastStorageCheckAt >= 1 {
+      lastStorageCheckAt = now
+      let values = try? nodeURL.deletingLastPathComponent().resourceValues(forKeys: [
+        .volumeAvailableCapacityForImportantUsageKey
+      ])
+      let freeBytes = Double(values?.volumeAvailableCapacityForImportantUsage ?? 0)
+      if freeBytes < minFreeBytes && !lowStorageReported {
+        lowStorageReported = true
+        logWarning("checkRecordingLimits: Free storage below minFreeBytes (\(Int(freeBytes)) bytes left)")
+        postHostNotification("com.nitroscreenrecorder.lowStorage")
+      }
+      storageReached = freeBytes < minFreeBytes / 2
+    }
+    guard durationReached || sizeReached || storageReached else { return }
+
+    limitReached = true
+    let limit = durationReached ? "maxDurationSec" : sizeReached ? "maxFileSizeBytes" : "minFreeBytes"
+    logInfo("checkRecordingLimits: \(limit) reached, stopping broadcast")
+
+    // Tell the host app why the recording is about to end
+    postHostNotification("com.nitroscreenrecorder.limitReached")
+
+    // broadcastFinished saves the file as for a manual stop; leave writerQueue first
+    DispatchQueue.main.async { [weak self] in
+      self?.stopBroadcastGracefully()
+    }
+  }
+
+  private func postHostNotification(_ name: String) {
+    CFNotificationCenterPostNotification(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      CFNotificationName(name as CFString),
+      nil,
+      nil,
+      true
+    )
+  }
+
+  /// Size of the file the current writer is producing, so the host app can rotate by size
+  private func currentChunkBytes() -> Double {
+    let attrs = try? fileManager.attributesOfItem(atPath: nodeURL.path)
+    return (attrs?[.size] as? NSNumber)?.doubleValue ?? 0
   }
 
   override func broadcastPaused() {
-    writer?.pause()
+    writerQueue.async { [weak self] in
+      guard let self = self, !self.isPaused else { return }
+      self.isPaused = true
+      self.pausedAt = Date().timeIntervalSince1970
+      self.writer?.pause()
+      self.updateExtensionStatus()
+      self.logInfo("broadcastPaused: Writer paused")
+    }
   }
 
   override func broadcastResumed() {
-    writer?.resume()
+    writerQueue.async { [weak self] in
+      guard let self = self, self.isPaused else { return }
+      self.isPaused = false
+      self.pausedSeconds += Date().timeIntervalSince1970 - self.pausedAt
+      self.pausedAt = 0
+      self.writer?.resume()
+      self.updateExtensionStatus()
+      self.logInfo("broadcastResumed: Writer resumed")
+    }
   }
 
   private func stopBroadcastGracefully() {
@@ -483,6 +695,7 @@ final class SampleHandler: RPBroadcastSampleHandler {
       )
       self.isCapturing = true
       self.chunkStartedAt = Date().timeIntervalSince1970
+      self.updateExtensionStatus()
 
       // Capture chunkId at the START of this chunk (before it could be overwritten)
       // Note: Already synchronized at start of this function
@@ -543,6 +756,18 @@ final class SampleHandler: RPBroadcastSampleHandler {
     let finalizeStartTime = Date()
 
     writerQueue.sync {
+      // rotateChunk: the main app wants the next chunk captured from the fresh writer on
+      var rotating = false
+      var nextChunkId: String?
+      if let groupID = hostAppGroupIdentifier,
+         let defaults = UserDefaults(suiteName: groupID)
+      {
+        defaults.synchronize()
+        rotating = defaults.bool(forKey: "RotateChunk")
+        nextChunkId = defaults.string(forKey: "CurrentChunkId")
+        defaults.removeObject(forKey: "RotateChunk")
+      }
+
       // Debounce: ignore if this notification arrived within threshold of the last one
       if arrivalTime - self.lastFinalizeChunkArrivalTime < self.debounceThreshold {
         self.logDebug(
@@ -565,9 +790,17 @@ final class SampleHandler: RPBroadcastSampleHandler {
         "handleFinalizeChunk: Saving current chunk, chunkId=\(self.pendingChunkId ?? "nil"), frames=\(self.videoFramesThisWriter), hasWriter=\(self.writer != nil)"
       )
 
-      // Mark capturing as done (will restart with next markChunkStart)
-      self.isCapturing = false
-      self.chunkStartedAt = 0
+      // Mark capturing as done (will restart with next markChunkStart), unless rotating
+      self.isCapturing = rotating
+      self.chunkStartedAt = rotating ? Date().timeIntervalSince1970 : 0
+      self.updateExtensionStatus()
+      // Runs once the current chunk is saved under its own ID
+      defer {
+        if rotating {
+          self.pendingChunkId = nextChunkId
+          self.logInfo("handleFinalizeChunk: Rotated to chunkId=\(nextChunkId ?? "nil")")
+        }
+      }
 
       // Helper to send notification (call before any early return)
       func sendChunkNotification() {
@@ -727,9 +960,14 @@ final class SampleHandler: RPBroadcastSampleHandler {
           appAudioOutputURL: separateAudioFile ? appAudioNodeURL : nil,
           screenSize: screen.bounds.size,
           screenScale: screen.scale,
-          separateAudioFile: separateAudioFile
+          separateAudioFile: separateAudioFile,
+          videoSettings: videoSettings
         )
         try writer?.start()
+        // Chunks created while paused stay paused until resumed
+        if isPaused {
+          writer?.pause()
+        }
         logInfo(
           "createNewWriter: New writer created and started (attempt \(attempts)), output=\(nodeURL.lastPathComponent)"
         )
@@ -1061,8 +1299,18 @@ final class SampleHandler: RPBroadcastSampleHandler {
 
     defaults.removeObject(forKey: "ExtensionMicActive")
     defaults.removeObject(forKey: "ExtensionCapturing")
+    defaults.removeObject(forKey: "ExtensionPaused")
     defaults.removeObject(forKey: "ExtensionChunkStartedAt")
+    defaults.removeObject(forKey: "ExtensionChunkBytes")
+    defaults.removeObject(forKey: "ExtensionRecordingStartedAt")
+    defaults.removeObject(forKey: "ExtensionPausedAt")
+    defaults.removeObject(forKey: "ExtensionPausedSeconds")
+    defaults.removeObject(forKey: "ExtensionFramesWritten")
+    defaults.removeObject(forKey: "ExtensionDroppedFrames")
     defaults.synchronize()
+
+    lastPostedStatus = nil
+    postStatusChanged()
   }
 }
 
@@ -11,6 +11,8 @@ enum RecorderError: Error {
 typealias RecordingFinishedCallback = (ScreenRecordingFile) -> Void
 typealias ScreenRecordingListener = (ScreenRecordingEvent) -> Void
 typealias BroadcastPickerViewListener = (BroadcastPickerPresentationEvent) -> Void
+typealias ChunkReadyListener = (ChunkReadyEvent) -> Void
+typealias ExtensionStatusListener = (RawExtensionStatus) -> Void
 
 struct Listener<T> {
   let id: Double
@@ -32,6 +34,10 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
   private var onInAppRecordingFinishedCallback: RecordingFinishedCallback?
   private var recordingEventListeners: [ScreenRecordingListenerType] = []
   public var broadcastPickerEventListeners: [Listener<BroadcastPickerViewListener>] = []
+  private var chunkReadyListeners: [Listener<ChunkReadyListener>] = []
+  private var extensionStatusListeners: [Listener<ExtensionStatusListener>] = []
+  // Last status delivered to extensionStatusListeners
+  private var lastEmittedExtensionStatus: RawExtensionStatus?
   private var nextListenerId: Double = 0
 
   // Separate audio file recording
@@ -49,12 +55,33 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
   // Guard against concurrent finalizeChunk calls
   private var isFinalizingChunk: Bool = false
 
+  // Pause tracking. In-app recordings are trimmed after they stop, so we keep
+  // the paused ranges relative to when the recording started.
+  private var isRecordingPaused: Bool = false
+  private var inAppRecordingStartedAt: Date?
+  private var inAppPausedAt: Date?
+  private var inAppPausedRanges: [CMTimeRange] = []
+
+  // Enforces maxDurationSec and minFreeBytes for in-app recordings
+  private var inAppLimitTimer: Timer?
+  private var inAppLowStorageReported = false
+
   // Continuation for waiting on chunkSaved notification
   private var chunkSavedContinuation: CheckedContinuation<Void, Never>?
 
+  // Chunk retrieved in response to the last chunkSaved notification, handed to
+  // the finalizeChunk/stopGlobalRecording call that was waiting for it
+  private var lastReadyChunk: ChunkReadyEvent?
+
   // Darwin notification names
   private static let chunkSavedNotificationString = "com.nitroscreenrecorder.chunkSaved"
   private static let chunkSavedNotificationName = CFNotificationName("com.nitroscreenrecorder.chunkSaved" as CFString)
+  private static let statusChangedNotificationString = "com.nitroscreenrecorder.statusChanged"
+  private static let statusChangedNotificationName = CFNotificationName("com.nitroscreenrecorder.statusChanged" as CFString)
+  private static let limitReachedNotificationString = "com.nitroscreenrecorder.limitReached"
+  private static let limitReachedNotificationName = CFNotificationName("com.nitroscreenrecorder.limitReached" as CFString)
+  private static let lowStorageNotificationString = "com.nitroscreenrecorder.lowStorage"
+  private static let lowStorageNotificationName = CFNotificationName("com.nitroscreenrecorder.lowStorage" as CFString)
 
   override init() {
     super.init()
@@ -74,6 +101,65 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       name: UIScreen.capturedDidChangeNotification,
       object: nil
     )
+
+    CFNotificationCenterAddObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      { _, observer, _, _, _ in
+        guard let observer else { return }
+        let me = Unmanaged<NitroScreenRecorder>.fromOpaque(observer).takeUnretainedValue()
+        me.handleChunkSaved()
+      },
+      NitroScreenRecorder.chunkSavedNotificationString as CFString,
+      nil,
+      .deliverImmediately
+    )
+
+    CFNotificationCenterAddObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      { _, observer, _, _, _ in
+        guard let observer else { return }
+        let me = Unmanaged<NitroScreenRecorder>.fromOpaque(observer).takeUnretainedValue()
+        DispatchQueue.main.async {
+          me.emitExtensionStatusIfChanged()
+        }
+      },
+      NitroScreenRecorder.statusChangedNotificationString as CFString,
+      nil,
+      .deliverImmediately
+    )
+
+    // The extension posts this right before it stops itself at a recording limit
+    CFNotificationCenterAddObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      { _, observer, _, _, _ in
+        guard let observer else { return }
+        let me = Unmanaged<NitroScreenRecorder>.fromOpaque(observer).takeUnretainedValue()
+        DispatchQueue.main.async {
+          me.notifyRecordingListeners(ScreenRecordingEvent(type: .global, reason: .limitreached))
+        }
+      },
+      NitroScreenRecorder.limitReachedNotificationString as CFString,
+      nil,
+      .deliverImmediately
+    )
+
+    CFNotificationCenterAddObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      { _, observer, _, _, _ in
+        guard let observer else { return }
+        let me = Unmanaged<NitroScreenRecorder>.fromOpaque(observer).takeUnretainedValue()
+        DispatchQueue.main.async {
+          me.notifyRecordingListeners(ScreenRecordingEvent(type: .global, reason: .lowstorage))
+        }
+      },
+      NitroScreenRecorder.lowStorageNotificationString as CFString,
+      nil,
+      .deliverImmediately
+    )
   }
 
   func unregisterListener() {
@@ -82,6 +168,34 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       name: UIScreen.capturedDidChangeNotification,
       object: nil
     )
+
+    CFNotificationCenterRemoveObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      NitroScreenRecorder.chunkSavedNotificationName,
+      nil
+    )
+
+    CFNotificationCenterRemoveObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      NitroScreenRecorder.statusChangedNotificationName,
+      nil
+    )
+
+    CFNotificationCenterRemoveObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      NitroScreenRecorder.limitReachedNotificationName,
+      nil
+    )
+
+    CFNotificationCenterRemoveObserver(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      Unmanaged.passUnretained(self).toOpaque(),
+      NitroScreenRecorder.lowStorageNotificationName,
+      nil
+    )
   }
 
   private func setupAppStateObservers() {
@@ -188,7 +302,12 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       }
     }
 
-    let event = ScreenRecordingEvent(type: type, reason: reason)
+    isRecordingPaused = false
+    notifyRecordingListeners(ScreenRecordingEvent(type: type, reason: reason))
+  }
+
+  private func notifyRecordingListeners(_ event: ScreenRecordingEvent) {
+    let type = event.type
 
     // Filter listeners based on their ignore preference
     recordingEventListeners.forEach { listener in
@@ -261,6 +380,7 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     cameraPreviewStyle: RecorderCameraStyle,
     cameraDevice: CameraDevice,
     separateAudioFile: Bool,
+    limits: RecordingLimits,
     onRecordingFinished: @escaping RecordingFinishedCallback
   ) throws {
     safelyClearInAppRecordingFiles()
@@ -306,6 +426,9 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       recorder.cameraPosition = device
     }
     inAppRecordingActive = true
+    inAppRecordingStartedAt = nil
+    inAppPausedAt = nil
+    inAppPausedRanges = []
 
     // Start separate audio recording if enabled and mic is enabled
     if separateAudioFile && enableMic {
@@ -320,10 +443,18 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
         self.stopSeparateAudioRecording()
         return
       }
+      self.inAppRecordingStartedAt = Date()
       print(
         "✅ In-app recording started (mic:\(enableMic) camera:\(enableCamera) separateAudio:\(separateAudioFile))"
       )
 
+      // ReplayKit only writes the file on stop, so the file size limit can't be enforced
+      if limits.maxDurationSec > 0 || limits.minFreeBytes > 0 {
+        DispatchQueue.main.async {
+          self.startInAppLimitTimer(limits: limits)
+        }
+      }
+
       if enableCamera {
         DispatchQueue.main.async {
           self.setupAndDisplayCamera(style: cameraPreviewStyle)
@@ -332,6 +463,52 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     }
   }
 
+  /// Stops the in-app recording with a `limitReached` event once `maxDurationSec` is recorded
+  /// or free storage falls to half of `minFreeBytes`, and reports `lowStorage` below `minFreeBytes`.
+  private func startInAppLimitTimer(limits: RecordingLimits) {
+    inAppLimitTimer?.invalidate()
+    inAppLowStorageReported = false
+    inAppLimitTimer = Timer.scheduledTimer(withTimeInterval: 0.5, repeats: true) {
+      [weak self] timer in
+      guard let self = self else {
+        timer.invalidate()
+        return
+      }
+      guard let elapsed = self.inAppElapsedSeconds() else { return }
+
+      var reachedLimit = limits.maxDurationSec > 0 && elapsed >= limits.maxDurationSec
+      if limits.minFreeBytes > 0 {
+        let freeBytes = self.storageInfo(at: FileManager.default.temporaryDirectory).freeBytes
+        if freeBytes < limits.minFreeBytes && !self.inAppLowStorageReported {
+          self.inAppLowStorageReported = true
+          print("💾 Free storage below minFreeBytes (\(freeBytes) bytes left)")
+          self.notifyRecordingListeners(ScreenRecordingEvent(type: .withinapp, reason: .lowstorage))
+        }
+        reachedLimit = reachedLimit || freeBytes < limits.minFreeBytes / 2
+      }
+      guard reachedLimit else { return }
+
+      print("⏱️ In-app recording reached a recording limit, stopping")
+      self.stopInAppLimitTimer()
+      self.notifyRecordingListeners(ScreenRecordingEvent(type: .withinapp, reason: .limitreached))
+      // The file is delivered through onRecordingFinished as with a manual stop
+      _ = try? self.stopInAppRecording()
+    }
+  }
+
+  private func stopInAppLimitTimer() {
+    inAppLimitTimer?.invalidate()
+    inAppLimitTimer = nil
+  }
+
+  /// Recorded time of the in-app recording excluding pauses, or nil if none is running.
+  private func inAppElapsedSeconds() -> Double? {
+    guard let startedAt = inAppRecordingStartedAt else { return nil }
+    let pausedRanges = inAppPausedRanges.reduce(0) { $0 + CMTimeGetSeconds($1.duration) }
+    let end = inAppPausedAt ?? Date()
+    return max(0, end.timeIntervalSince(startedAt) - pausedRanges)
+  }
+
   private func startSeparateAudioRecording() {
     let fileName = "audio_capture_\(UUID().uuidString).m4a"
     audioFileURL = FileManager.default.temporaryDirectory.appendingPathComponent(fileName)
@@ -397,9 +574,11 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
 
   public func stopInAppRecording() throws -> Promise<ScreenRecordingFile?> {
     return Promise.async {
+      await MainActor.run { self.stopInAppLimitTimer() }
       return await withCheckedContinuation { continuation in
         // Stop separate audio recording first if enabled
         let audioFile = self.separateAudioFileEnabled ? self.stopSeparateAudioRecording() : nil
+        let pausedRanges = self.takeInAppPausedRanges()
 
         // build a unique temp URL
         let fileName = "screen_capture_\(UUID().uuidString).mp4"
@@ -423,33 +602,38 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
             return
           }
 
-          do {
-            // read file attributes
-            let attrs = try FileManager.default.attributesOfItem(atPath: outputURL.path)
-            let asset = AVURLAsset(url: outputURL)
-            let duration = CMTimeGetSeconds(asset.duration)
-
-            // build your ScreenRecordingFile
-            let file = ScreenRecordingFile(
-              path: outputURL.absoluteString,
-              name: outputURL.lastPathComponent,
-              size: attrs[.size] as? Double ?? 0,
-              duration: duration,
-              enabledMicrophone: self.recorder.isMicrophoneEnabled,
-              audioFile: audioFile,
-              appAudioFile: nil  // In-app recording doesn't capture app audio separately
-            )
-
-            print("✅ Recording finished and saved to:", outputURL.path)
-            if let audioFile = audioFile {
-              print("✅ Separate audio file saved to:", audioFile.path)
+          // Cut out paused sections so the duration only reflects recorded time
+          self.removeTimeRanges(pausedRanges, from: outputURL) { finalURL in
+            do {
+              // read file attributes
+              let attrs = try FileManager.default.attributesOfItem(atPath: finalURL.path)
+              let asset = AVURLAsset(url: finalURL)
+              let duration = CMTimeGetSeconds(asset.duration)
+
+              // build your ScreenRecordingFile
+              let file = ScreenRecordingFile(
+                path: finalURL.absoluteString,
+                name: finalURL.lastPathComponent,
+                size: attrs[.size] as? Double ?? 0,
+                duration: duration,
+                enabledMicrophone: self.recorder.isMicrophoneEnabled,
+                audioFile: audioFile,
+                appAudioFile: nil,  // In-app recording doesn't capture app audio separately
+                markers: nil,
+                markersFile: nil
+              )
+
+              print("✅ Recording finished and saved to:", finalURL.path)
+              if let audioFile = audioFile {
+                print("✅ Separate audio file saved to:", audioFile.path)
+              }
+              self.onInAppRecordingFinishedCallback?(file)
+              self.separateAudioFileEnabled = false
+              continuation.resume(returning: file)
+            } catch {
+              print("⚠️ Failed to build ScreenRecordingFile:", error.localizedDescription)
+              continuation.resume(returning: nil)
             }
-            self.onInAppRecordingFinishedCallback?(file)
-            self.separateAudioFileEnabled = false
-            continuation.resume(returning: file)
-          } catch {
-            print("⚠️ Failed to build ScreenRecordingFile:", error.localizedDescription)
-            continuation.resume(returning: nil)
           }
         }
       }
@@ -458,12 +642,14 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
 
   public func cancelInAppRecording() throws -> Promise<Void> {
     return Promise.async {
+      await MainActor.run { self.stopInAppLimitTimer() }
       return await withCheckedContinuation { continuation in
         // Stop separate audio recording if active
         if self.separateAudioFileEnabled {
           _ = self.stopSeparateAudioRecording()
           self.separateAudioFileEnabled = false
         }
+        _ = self.takeInAppPausedRanges()
 
         // If a recording session is in progress, stop it and write out to a temp URL
         if self.recorder.isRecording {
@@ -504,6 +690,111 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     broadcastPickerEventListeners.removeAll { $0.id == id }
   }
 
+  func addChunkListener(callback: @escaping (ChunkReadyEvent) -> Void) throws -> Double {
+    let listener = Listener(id: nextListenerId, callback: callback)
+    chunkReadyListeners.append(listener)
+    nextListenerId += 1
+    return listener.id
+  }
+
+  func removeChunkListener(id: Double) throws {
+    chunkReadyListeners.removeAll { $0.id == id }
+  }
+
+  func addExtensionStatusListener(callback: @escaping (RawExtensionStatus) -> Void) throws -> Double {
+    let listener = Listener(id: nextListenerId, callback: callback)
+    extensionStatusListeners.append(listener)
+    nextListenerId += 1
+    return listener.id
+  }
+
+  func removeExtensionStatusListener(id: Double) throws {
+    extensionStatusListeners.removeAll { $0.id == id }
+  }
+
+  /**
+   Called for every statusChanged notification from the extension. Re-reads the
+   status from the app group and notifies listeners if any field changed.
+   */
+  private func emitExtensionStatusIfChanged() {
+    guard !extensionStatusListeners.isEmpty, let status = try? getExtensionStatus() else { return }
+    if let last = lastEmittedExtensionStatus,
+      last.isMicrophoneEnabled == status.isMicrophoneEnabled,
+      last.isCapturingChunk == status.isCapturingChunk,
+      last.chunkStartedAt == status.chunkStartedAt,
+      last.captureMode == status.captureMode
+    {
+      return
+    }
+    lastEmittedExtensionStatus = status
+    extensionStatusListeners.forEach { $0.callback(status) }
+  }
+
+  /**
+   Called for every chunkSaved notification from the extension. When someone is
+   waiting for the chunk (chunk listeners or a pending finalize/stop), the newest
+   queued chunk is retrieved once and shared with all of them.
+   */
+  private func handleChunkSaved() {
+    if !chunkReadyListeners.isEmpty || chunkSavedContinuation != nil,
+      let event = retrieveNewestChunk()
+    {
+      lastReadyChunk = event
+      chunkReadyListeners.forEach { $0.callback(event) }
+    }
+
+    if let cont = chunkSavedContinuation {
+      chunkSavedContinuation = nil
+      cont.resume()
+    }
+  }
+
+  private func retrieveNewestChunk() -> ChunkReadyEvent? {
+    guard let appGroupId = try? getAppGroupIdentifier(),
+      let defaults = UserDefaults(suiteName: appGroupId),
+      let newest = (defaults.array(forKey: "PendingChunks") as? [[String: Any]])?.last
+    else { return nil }
+
+    let chunkId = newest["chunkId"] as? String
+    do {
+      guard let file = try retrieveGlobalRecording(chunkId: chunkId) else { return nil }
+      return ChunkReadyEvent(chunkId: chunkId, file: file)
+    } catch {
+      print("❌ retrieveGlobalRecording failed after chunkSaved:", error)
+      return nil
+    }
+  }
+
+  /// Runs `trigger` and suspends until the extension posts chunkSaved or `timeoutMs` passes.
+  private func waitForChunkSaved(timeoutMs: Double, after trigger: () -> Void) async {
+    lastReadyChunk = nil
+    await withCheckedContinuation { (continuation: CheckedContinuation<Void, Never>) in
+      // Register before triggering so a fast chunkSaved is not missed
+      self.chunkSavedContinuation = continuation
+      trigger()
+
+      Task {
+        try? await Task.sleep(nanoseconds: UInt64(max(0, timeoutMs) * 1_000_000))
+        // If continuation still exists, we timed out
+        if let cont = self.chunkSavedContinuation {
+          self.chunkSavedContinuation = nil
+          cont.resume()
+        }
+      }
+    }
+  }
+
+  /// Returns the chunk delivered with the last chunkSaved notification, if any.
+  private func takeReadyChunk(chunkId: String?) -> ScreenRecordingFile? {
+    guard let ready = lastReadyChunk else { return nil }
+    lastReadyChunk = nil
+    if let chunkId, ready.chunkId != chunkId {
+      // Same as the LIFO fallback in retrieveGlobalRecording
+      print("⚠️ Ready chunk '\(ready.chunkId ?? "nil")' does not match '\(chunkId)', using it anyway")
+    }
+    return ready.file
+  }
+
   /**
    Attaches a micro PickerView button off-screen and presses that button to open the broadcast.
    */
@@ -560,7 +851,8 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
   }
 
   func startGlobalRecording(
-    enableMic: Bool, separateAudioFile: Bool, onRecordingError: @escaping (RecordingError) -> Void
+    enableMic: Bool, separateAudioFile: Bool, videoSettings: RecordingVideoSettings,
+    limits: RecordingLimits, onRecordingError: @escaping (RecordingError) -> Void
   )
     throws
   {
@@ -601,6 +893,19 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     self.separateAudioFileEnabled = separateAudioFile
     UserDefaults(suiteName: appGroupId)?.set(separateAudioFile, forKey: "SeparateAudioFileEnabled")
 
+    // Store the video settings for the broadcast extension (0 = extension default)
+    let sharedDefaults = UserDefaults(suiteName: appGroupId)
+    sharedDefaults?.set(videoSettings.maxLongSide, forKey: "VideoMaxLongSide")
+    sharedDefaults?.set(videoSettings.bitrate, forKey: "VideoBitrate")
+    sharedDefaults?.set(videoSettings.fps, forKey: "VideoFrameRate")
+    sharedDefaults?.set(videoSettings.codec.stringValue, forKey: "VideoCodec")
+    sharedDefaults?.set(videoSettings.keyframeIntervalSec, forKey: "VideoKeyframeInterval")
+
+    // The extension stops itself when a limit is reached (0 = no limit)
+    sharedDefaults?.set(limits.maxDurationSec, forKey: "RecordingMaxDuration")
+    sharedDefaults?.set(limits.maxFileSizeBytes, forKey: "RecordingMaxFileSize")
+    sharedDefaults?.set(limits.minFreeBytes, forKey: "RecordingMinFreeBytes")
+
     // Present the broadcast picker
     presentGlobalBroadcastModal(enableMicrophone: enableMic)
 
@@ -629,21 +934,24 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
         }
       }
 
-      let notif = "com.nitroscreenrecorder.stopBroadcast" as CFString
-      CFNotificationCenterPostNotification(
-        CFNotificationCenterGetDarwinNotifyCenter(),
-        CFNotificationName(notif),
-        nil,
-        nil,
-        true
-      )
+      // Wait for the extension to save the file, with the settle time as an upper bound.
+      await self.waitForChunkSaved(timeoutMs: settledTimeMs) {
+        let notif = "com.nitroscreenrecorder.stopBroadcast" as CFString
+        CFNotificationCenterPostNotification(
+          CFNotificationCenterGetDarwinNotifyCenter(),
+          CFNotificationName(notif),
+          nil,
+          nil,
+          true
+        )
+      }
       // Reflect intent locally.
       self.isGlobalRecordingActive = false
       self.globalRecordingInitiatedByThisPackage = false
 
-      // Wait for the specified settle time to allow the broadcast to finish writing the file.
-      let settleTimeNanoseconds = UInt64(settledTimeMs * 1_000_000)  // Convert ms to nanoseconds
-      try? await Task.sleep(nanoseconds: settleTimeNanoseconds)
+      if let file = self.takeReadyChunk(chunkId: nil) {
+        return file
+      }
 
       do {
         return try self.retrieveLastGlobalRecording()
@@ -654,6 +962,96 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     }
   }
 
+  // MARK: - Pause / Resume
+
+  func pauseRecording() throws -> Promise<Void> {
+    return Promise.async {
+      guard !self.isRecordingPaused else { return }
+      let type = try await self.activeRecordingType(action: "pause")
+
+      if type == .withinapp {
+        self.inAppPausedAt = Date()
+        self.audioRecorder?.pause()
+      } else {
+        self.postBroadcastNotification("com.nitroscreenrecorder.pauseBroadcast")
+      }
+      self.isRecordingPaused = true
+      print("⏸️ \(type.stringValue) recording paused")
+      await MainActor.run {
+        self.notifyRecordingListeners(ScreenRecordingEvent(type: type, reason: .paused))
+      }
+    }
+  }
+
+  func resumeRecording() throws -> Promise<Void> {
+    return Promise.async {
+      guard self.isRecordingPaused else { return }
+      let type = try await self.activeRecordingType(action: "resume")
+
+      if type == .withinapp {
+        self.closeInAppPausedRange()
+        self.audioRecorder?.record()
+      } else {
+        self.postBroadcastNotification("com.nitroscreenrecorder.resumeBroadcast")
+      }
+      self.isRecordingPaused = false
+      print("▶️ \(type.stringValue) recording resumed")
+      await MainActor.run {
+        self.notifyRecordingListeners(ScreenRecordingEvent(type: type, reason: .resumed))
+      }
+    }
+  }
+
+  /// Returns which recording pause/resume applies to, or throws if nothing is recording.
+  private func activeRecordingType(action: String) async throws -> RecordingEventType {
+    if inAppRecordingActive {
+      return .withinapp
+    }
+    let isScreenCaptured = await MainActor.run { UIScreen.main.isCaptured }
+    guard isGlobalRecordingActive || isScreenCaptured else {
+      throw RecorderError.error(
+        name: "NO_ACTIVE_RECORDING_SESSION",
+        message: "There is no active recording to \(action)."
+      )
+    }
+    return .global
+  }
+
+  private func postBroadcastNotification(_ name: String) {
+    CFNotificationCenterPostNotification(
+      CFNotificationCenterGetDarwinNotifyCenter(),
+      CFNotificationName(name as CFString),
+      nil,
+      nil,
+      true
+    )
+  }
+
+  /// Records the end of the current in-app pause, if any.
+  private func closeInAppPausedRange() {
+    guard let pausedAt = inAppPausedAt, let startedAt = inAppRecordingStartedAt else {
+      inAppPausedAt = nil
+      return
+    }
+    let start = CMTime(seconds: pausedAt.timeIntervalSince(startedAt), preferredTimescale: 600)
+    let end = CMTime(seconds: Date().timeIntervalSince(startedAt), preferredTimescale: 600)
+    inAppPausedRanges.append(CMTimeRange(start: start, end: end))
+    inAppPausedAt = nil
+  }
+
+  /// Returns the paused ranges of the in-app recording and resets pause tracking.
+  private func takeInAppPausedRanges() -> [CMTimeRange] {
+    if isRecordingPaused {
+      closeInAppPausedRange()
+      audioRecorder?.record()
+    }
+    let ranges = inAppPausedRanges
+    inAppPausedRanges = []
+    inAppRecordingStartedAt = nil
+    isRecordingPaused = false
+    return ranges
+  }
+
   // MARK: - Chunk Management for Global Recording
 
   /**
@@ -753,9 +1151,30 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
    Uses event-driven waiting: listens for chunkSaved notification from extension.
    
    - Parameter chunkId: The chunk identifier that was passed to markChunkStart(). Must match for correct retrieval.
-   - Parameter settledTimeMs: Time to wait before retrieving the file. Default = 500ms.
+   - Parameter settledTimeMs: Maximum time to wait for the chunkSaved notification. Default = 500ms.
    */
   func finalizeChunk(chunkId: String?, settledTimeMs: Double) throws -> Promise<ScreenRecordingFile?> {
+    return finalizeChunk(chunkId: chunkId, settledTimeMs: settledTimeMs, rotating: false, nextChunkId: nil)
+  }
+
+  /**
+   Finalizes the current recording chunk like finalizeChunk() and starts capturing the next one
+   in the same extension pass, so no content is discarded between the two chunks.
+
+   - Parameter chunkId: The chunk identifier of the chunk being finalized.
+   - Parameter nextChunkId: Optional identifier for the chunk that starts now.
+   - Parameter settledTimeMs: Maximum time to wait for the chunkSaved notification.
+   */
+  func rotateChunk(chunkId: String?, nextChunkId: String?, settledTimeMs: Double) throws -> Promise<ScreenRecordingFile?> {
+    return finalizeChunk(chunkId: chunkId, settledTimeMs: settledTimeMs, rotating: true, nextChunkId: nextChunkId)
+  }
+
+  private func finalizeChunk(
+    chunkId: String?,
+    settledTimeMs: Double,
+    rotating: Bool,
+    nextChunkId: String?
+  ) -> Promise<ScreenRecordingFile?> {
     return Promise.async {
       // Guard against concurrent calls
       guard !self.isFinalizingChunk else {
@@ -774,61 +1193,36 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
         return nil
       }
 
+      if rotating {
+        guard let appGroupId = try? self.getAppGroupIdentifier(),
+              let defaults = UserDefaults(suiteName: appGroupId) else {
+          throw RecorderError.error(name: "MARK_CHUNK_FAILED", message: "Could not access app group")
+        }
+        // The extension starts capturing this chunk right after saving the current one
+        if let id = nextChunkId {
+          defaults.set(id, forKey: "CurrentChunkId")
+        } else {
+          defaults.removeObject(forKey: "CurrentChunkId")
+        }
+        defaults.set(true, forKey: "RotateChunk")
+        defaults.synchronize()
+        self.currentChunkId = nextChunkId
+      }
+
       // Use the chunkId passed by caller (explicit is better than implicit)
       let chunkIdToRetrieve = chunkId
 
-      // Setup listener for chunkSaved notification BEFORE sending finalizeChunk
-      let center = CFNotificationCenterGetDarwinNotifyCenter()
-      let observer = UnsafeMutableRawPointer(Unmanaged.passUnretained(self).toOpaque())
-
-      CFNotificationCenterAddObserver(
-        center,
-        observer,
-        { _, observer, name, _, _ in
-          guard let observer else { return }
-          let me = Unmanaged<NitroScreenRecorder>.fromOpaque(observer).takeUnretainedValue()
-          // Resume continuation if waiting
-          if let cont = me.chunkSavedContinuation {
-            me.chunkSavedContinuation = nil
-            cont.resume()
-          }
-        },
-        NitroScreenRecorder.chunkSavedNotificationString as CFString,
-        nil,
-        .deliverImmediately
-      )
-
-      // Send finalizeChunk notification to extension (single notification only)
-      let notif = "com.nitroscreenrecorder.finalizeChunk" as CFString
-      let darwinCenter = CFNotificationCenterGetDarwinNotifyCenter()
-      CFNotificationCenterPostNotification(darwinCenter, CFNotificationName(notif), nil, nil, true)
-
-      // Wait for chunkSaved signal OR timeout - then fall back to polling
-      // Wait 500ms for notification, then poll aggressively
-      let notificationWaitNs = UInt64(500_000_000)  // 500ms for notification
-
-      // Race between notification and timeout
-      await withCheckedContinuation { (continuation: CheckedContinuation<Void, Never>) in
-        self.chunkSavedContinuation = continuation
-
-        // Start timeout task (short wait)
-        Task {
-          try? await Task.sleep(nanoseconds: notificationWaitNs)
-          // If continuation still exists, we timed out
-          if let cont = self.chunkSavedContinuation {
-            self.chunkSavedContinuation = nil
-            cont.resume()
-          }
-        }
+      // Send finalizeChunk to the extension (single notification only) and wait for
+      // chunkSaved, with the settle time as an upper bound - then fall back to polling
+      await self.waitForChunkSaved(timeoutMs: settledTimeMs) {
+        let notif = "com.nitroscreenrecorder.finalizeChunk" as CFString
+        let darwinCenter = CFNotificationCenterGetDarwinNotifyCenter()
+        CFNotificationCenterPostNotification(darwinCenter, CFNotificationName(notif), nil, nil, true)
       }
 
-      // Remove observer
-      CFNotificationCenterRemoveObserver(
-        center,
-        observer,
-        NitroScreenRecorder.chunkSavedNotificationName,
-        nil
-      )
+      if let file = self.takeReadyChunk(chunkId: chunkIdToRetrieve) {
+        return file
+      }
 
       // Try to retrieve with aggressive polling if first attempt fails
       do {
@@ -1029,7 +1423,9 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       duration: duration,
       enabledMicrophone: micEnabled,
       audioFile: audioFile,
-      appAudioFile: appAudioFile
+      appAudioFile: appAudioFile,
+      markers: nil,
+      markersFile: nil
     )
   }
 
@@ -1040,22 +1436,10 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
    Returns nil if no matching chunk is found.
    */
   func retrieveGlobalRecording(chunkId: String?) throws -> ScreenRecordingFile? {
-    let fm = FileManager.default
-
-    guard let appGroupId = try? getAppGroupIdentifier(),
-      let docsURL = fm
-        .containerURL(forSecurityApplicationGroupIdentifier: appGroupId)?
-        .appendingPathComponent("Library/Documents/", isDirectory: true),
-      let defaults = UserDefaults(suiteName: appGroupId)
-    else {
-      throw RecorderError.error(
-        name: "APP_GROUP_ACCESS_FAILED",
-        message: "Could not access app group container"
-      )
-    }
+    let (docsURL, defaults) = try pendingChunksContainer()
 
     // Read queue
-    var chunks = defaults.array(forKey: "PendingChunks") as? [[String: Any]] ?? []
+    let chunks = defaults.array(forKey: "PendingChunks") as? [[String: Any]] ?? []
 
     if chunks.isEmpty {
       print("⚠️ retrieveGlobalRecording: Queue is empty - extension may not have saved the chunk")
@@ -1064,29 +1448,43 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
 
     // Find chunk to retrieve
     let chunkIndex: Int
-    let chunkEntry: [String: Any]
 
     if let targetId = chunkId {
       // Find by ID
       if let idx = chunks.firstIndex(where: { ($0["chunkId"] as? String) == targetId }) {
         chunkIndex = idx
-        chunkEntry = chunks[idx]
         print("📦 retrieveGlobalRecording: Found chunk by ID '\(targetId)' at index \(idx)")
       } else {
         print("⚠️ retrieveGlobalRecording: Chunk not found with ID '\(targetId)'")
         print("   Available chunks: \(chunks.compactMap { $0["chunkId"] as? String })")
         // Fallback to LIFO if ID not found
         chunkIndex = chunks.count - 1
-        chunkEntry = chunks[chunkIndex]
         print("📦 retrieveGlobalRecording: Falling back to LIFO (index \(chunkIndex))")
       }
     } else {
       // LIFO fallback: get newest (last in array)
       chunkIndex = chunks.count - 1
-      chunkEntry = chunks[chunkIndex]
       print("📦 retrieveGlobalRecording: No ID specified, using LIFO (index \(chunkIndex))")
     }
 
+    return try claimQueuedChunk(at: chunkIndex, from: chunks, defaults: defaults, docsURL: docsURL)
+  }
+
+  /**
+   Copies the queued chunk at `chunkIndex` into the caches directory, removes it
+   from the PendingChunks queue and deletes its files from the app group container.
+   Returns nil (and drops the entry) if its video file no longer exists.
+   */
+  private func claimQueuedChunk(
+    at chunkIndex: Int,
+    from queue: [[String: Any]],
+    defaults: UserDefaults,
+    docsURL: URL
+  ) throws -> ScreenRecordingFile? {
+    let fm = FileManager.default
+    var chunks = queue
+    let chunkEntry = chunks[chunkIndex]
+
     // Extract chunk info
     guard let videoFileName = chunkEntry["video"] as? String else {
       print("❌ retrieveGlobalRecording: Chunk entry missing 'video' field")
@@ -1229,10 +1627,82 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
       duration: duration,
       enabledMicrophone: micEnabled,
       audioFile: audioFile,
-      appAudioFile: appAudioFile
+      appAudioFile: appAudioFile,
+      markers: nil,
+      markersFile: nil
     )
   }
 
+  // MARK: - Pending Chunks
+
+  private func pendingChunksContainer() throws -> (docsURL: URL, defaults: UserDefaults) {
+    guard let appGroupId = try? getAppGroupIdentifier(),
+      let docsURL = FileManager.default
+        .containerURL(forSecurityApplicationGroupIdentifier: appGroupId)?
+        .appendingPathComponent("Library/Documents/", isDirectory: true),
+      let defaults = UserDefaults(suiteName: appGroupId)
+    else {
+      throw RecorderError.error(
+        name: "APP_GROUP_ACCESS_FAILED",
+        message: "Could not access app group container"
+      )
+    }
+    return (docsURL, defaults)
+  }
+
+  /**
+   Lists the PendingChunks queue written by the extension, oldest first.
+   Entries are identified by their video file name, which is unique per chunk.
+   */
+  func listPendingChunks() throws -> [PendingChunk] {
+    let (docsURL, defaults) = try pendingChunksContainer()
+    let chunks = defaults.array(forKey: "PendingChunks") as? [[String: Any]] ?? []
+
+    return chunks.compactMap { entry in
+      guard let videoFileName = entry["video"] as? String else { return nil }
+      let videoURL = docsURL.appendingPathComponent(videoFileName)
+      guard let attrs = try? FileManager.default.attributesOfItem(atPath: videoURL.path) else {
+        return nil
+      }
+      let timestamp = entry["timestamp"] as? Double ?? 0
+      return PendingChunk(
+        id: videoFileName,
+        chunkId: entry["chunkId"] as? String,
+        createdAt: timestamp * 1000,
+        size: (attrs[.size] as? NSNumber)?.doubleValue ?? 0.0,
+        enabledMicrophone: entry["micEnabled"] as? Bool ?? false
+      )
+    }
+  }
+
+  func claimPendingChunk(id: String) throws -> ScreenRecordingFile? {
+    let (docsURL, defaults) = try pendingChunksContainer()
+    let chunks = defaults.array(forKey: "PendingChunks") as? [[String: Any]] ?? []
+
+    guard let index = chunks.firstIndex(where: { ($0["video"] as? String) == id }) else {
+      print("⚠️ claimPendingChunk: No pending chunk '\(id)'")
+      return nil
+    }
+    return try claimQueuedChunk(at: index, from: chunks, defaults: defaults, docsURL: docsURL)
+  }
+
+  func discardPendingChunk(id: String) throws {
+    let (docsURL, defaults) = try pendingChunksContainer()
+    var chunks = defaults.array(forKey: "PendingChunks") as? [[String: Any]] ?? []
+
+    guard let index = chunks.firstIndex(where: { ($0["video"] as? String) == id }) else { return }
+    let entry = chunks.remove(at: index)
+    defaults.set(chunks, forKey: "PendingChunks")
+    defaults.synchronize()
+
+    for key in ["video", "micAudio", "appAudio"] {
+      if let fileName = entry[key] as? String {
+        try? FileManager.default.removeItem(at: docsURL.appendingPathComponent(fileName))
+      }
+    }
+    print("🗑️ Discarded pending chunk: \(id)")
+  }
+
   func safelyClearGlobalRecordingFiles() throws {
     let fm = FileManager.default
 
@@ -1271,6 +1741,7 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     if let defaults = UserDefaults(suiteName: appGroupId) {
       defaults.removeObject(forKey: "PendingChunks")
       defaults.removeObject(forKey: "CurrentChunkId")
+      defaults.removeObject(forKey: "RotateChunk")
       defaults.removeObject(forKey: "MarkChunkToken")
       defaults.removeObject(forKey: "LastProcessedMarkToken")
       defaults.synchronize()
@@ -1289,6 +1760,172 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     safelyClearInAppRecordingFiles()
   }
 
+  func concatenateRecordings(paths: [String], startOffsetSec: Double) throws -> Promise<
+    ScreenRecordingFile
+  > {
+    return Promise.async {
+      let fm = FileManager.default
+      let inputURLs = paths.map { self.fileURL(from: $0) }
+      guard !inputURLs.isEmpty, inputURLs.allSatisfy({ fm.fileExists(atPath: $0.path) }) else {
+        throw RecorderError.error(
+          name: "RECORDING_FILE_MISSING",
+          message: "One or more recordings to concatenate do not exist"
+        )
+      }
+
+      let cachesURL = try fm.url(
+        for: .cachesDirectory, in: .userDomainMask, appropriateFor: nil, create: true)
+      let recordingsDir = cachesURL.appendingPathComponent("ScreenRecordings", isDirectory: true)
+      try fm.createDirectory(at: recordingsDir, withIntermediateDirectories: true)
+      let outputURL = recordingsDir.appendingPathComponent(
+        "replay-\(Int(Date().timeIntervalSince1970 * 1000)).mp4")
+
+      let hasAudio = try await self.concatenateVideos(
+        inputURLs, startOffset: startOffsetSec, to: outputURL)
+
+      let attrs = try fm.attributesOfItem(atPath: outputURL.path)
+      let duration = CMTimeGetSeconds(AVURLAsset(url: outputURL).duration)
+      print("✅ Concatenated \(inputURLs.count) recordings into \(outputURL.lastPathComponent)")
+
+      return ScreenRecordingFile(
+        path: outputURL.absoluteString,
+        name: outputURL.lastPathComponent,
+        size: (attrs[.size] as? NSNumber)?.doubleValue ?? 0.0,
+        duration: duration,
+        enabledMicrophone: hasAudio,
+        audioFile: nil,
+        appAudioFile: nil,
+        markers: nil,
+        markersFile: nil
+      )
+    }
+  }
+
+  func deleteRecordingFile(path: String) throws {
+    let url = fileURL(from: path)
+    guard FileManager.default.fileExists(atPath: url.path) else { return }
+    do {
+      try FileManager.default.removeItem(at: url)
+      print("🗑️ Deleted: \(url.lastPathComponent)")
+    } catch {
+      throw RecorderError.error(
+        name: "CLEANUP_FAILED",
+        message: "Could not delete \(url.lastPathComponent): \(error.localizedDescription)"
+      )
+    }
+  }
+
+  func renameRecordingFile(path: String, name: String) throws -> String {
+    let fm = FileManager.default
+    let url = fileURL(from: path)
+    guard fm.fileExists(atPath: url.path) else {
+      throw RecorderError.error(
+        name: "RECORDING_FILE_MISSING",
+        message: "\(url.lastPathComponent) does not exist"
+      )
+    }
+    let destination = url.deletingLastPathComponent().appendingPathComponent(name)
+    guard !fm.fileExists(atPath: destination.path) else {
+      throw RecorderError.error(
+        name: "RENAME_FAILED",
+        message: "A recording named \(name) already exists"
+      )
+    }
+    do {
+      try fm.moveItem(at: url, to: destination)
+      print("✏️ Renamed \(url.lastPathComponent) to \(name)")
+    } catch {
+      throw RecorderError.error(
+        name: "RENAME_FAILED",
+        message: "Could not rename \(url.lastPathComponent): \(error.localizedDescription)"
+      )
+    }
+    return path.hasPrefix("file://") ? destination.absoluteString : destination.path
+  }
+
+  func moveRecordingFile(path: String, directory: String, name: String) throws -> String {
+    let fm = FileManager.default
+    let url = fileURL(from: path)
+    guard fm.fileExists(atPath: url.path) else {
+      throw RecorderError.error(
+        name: "RECORDING_FILE_MISSING",
+        message: "\(url.lastPathComponent) does not exist"
+      )
+    }
+    do {
+      let directoryURL = fileURL(from: directory)
+      try fm.createDirectory(at: directoryURL, withIntermediateDirectories: true)
+
+      // Never overwrite: foo.mp4 -> foo-1.mp4 -> foo-2.mp4
+      let base = (name as NSString).deletingPathExtension
+      let ext = (name as NSString).pathExtension
+      var destination = directoryURL.appendingPathComponent(name)
+      var suffix = 0
+      while fm.fileExists(atPath: destination.path) {
+        suffix += 1
+        let candidate = ext.isEmpty ? "\(base)-\(suffix)" : "\(base)-\(suffix).\(ext)"
+        destination = directoryURL.appendingPathComponent(candidate)
+      }
+
+      try fm.moveItem(at: url, to: destination)
+      print("📁 Moved \(url.lastPathComponent) to \(destination.path)")
+      return path.hasPrefix("file://") ? destination.absoluteString : destination.path
+    } catch {
+      throw RecorderError.error(
+        name: "MOVE_FAILED",
+        message: "Could not move \(url.lastPathComponent): \(error.localizedDescription)"
+      )
+    }
+  }
+
+  func recordingFileExists(path: String) throws -> Bool {
+    return FileManager.default.fileExists(atPath: fileURL(from: path).path)
+  }
+
+  func writeRecordingSidecar(path: String, extension: String, contents: String) throws -> String {
+    let sidecarURL = fileURL(from: path)
+      .deletingPathExtension()
+      .appendingPathExtension(`extension`)
+    do {
+      try contents.write(to: sidecarURL, atomically: true, encoding: .utf8)
+    } catch {
+      throw RecorderError.error(
+        name: "SIDECAR_WRITE_FAILED",
+        message: "Could not write \(sidecarURL.lastPathComponent): \(error.localizedDescription)"
+      )
+    }
+    return path.hasPrefix("file://") ? sidecarURL.absoluteString : sidecarURL.path
+  }
+
+  // MARK: - Recording Library
+
+  /// The manifest lives in Application Support so clearing caches never drops it.
+  private func recordingLibraryURL() throws -> URL {
+    let fm = FileManager.default
+    let supportURL = try fm.url(
+      for: .applicationSupportDirectory, in: .userDomainMask, appropriateFor: nil, create: true)
+    let libraryDir = supportURL.appendingPathComponent("NitroScreenRecorder", isDirectory: true)
+    try fm.createDirectory(at: libraryDir, withIntermediateDirectories: true)
+    return libraryDir.appendingPathComponent("recording-library.json")
+  }
+
+  func readRecordingLibrary() throws -> String {
+    let url = try recordingLibraryURL()
+    guard let data = FileManager.default.contents(atPath: url.path) else { return "" }
+    return String(data: data, encoding: .utf8) ?? ""
+  }
+
+  func writeRecordingLibrary(manifest: String) throws {
+    do {
+      try manifest.write(to: try recordingLibraryURL(), atomically: true, encoding: .utf8)
+    } catch {
+      throw RecorderError.error(
+        name: "LIBRARY_WRITE_FAILED",
+        message: "Could not save the recording library: \(error.localizedDescription)"
+      )
+    }
+  }
+
   // MARK: - Extension Status & Logs
 
   /**
@@ -1316,6 +1953,41 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     }
   }
 
+  /**
+   Returns the stored extension log entries, oldest first.
+   */
+  func getExtensionLogEntries() throws -> [RawExtensionLogEntry] {
+    guard let appGroupId = try? getAppGroupIdentifier(),
+          let defaults = UserDefaults(suiteName: appGroupId),
+          let logs = defaults.array(forKey: "ExtensionLogs") as? [[String: Any]]
+    else {
+      return []
+    }
+
+    return logs.compactMap { entry in
+      guard let timestamp = entry["timestamp"] as? Double,
+            let level = entry["level"] as? String,
+            let message = entry["message"] as? String
+      else { return nil }
+      return RawExtensionLogEntry(timestamp: timestamp, level: level, message: message)
+    }
+  }
+
+  /**
+   Stores the minimum level and ring buffer size the extension applies to new log entries.
+   */
+  func configureExtensionLogs(minLevel: String, maxEntries: Double) throws {
+    guard let appGroupId = try? getAppGroupIdentifier(),
+          let defaults = UserDefaults(suiteName: appGroupId)
+    else {
+      return
+    }
+
+    defaults.set(minLevel, forKey: "ExtensionLogMinLevel")
+    defaults.set(Int(maxEntries), forKey: "ExtensionLogMaxEntries")
+    defaults.synchronize()
+  }
+
   /**
    Clears all extension logs from UserDefaults.
    */
@@ -1397,6 +2069,73 @@ class NitroScreenRecorder: HybridNitroScreenRecorderSpec {
     )
   }
 
+  /**
+   Returns the size of the chunk the broadcast extension is writing.
+   The extension refreshes this value together with the rest of its status.
+   */
+  func getCurrentChunkSize() throws -> Double {
+    guard let appGroupId = try? getAppGroupIdentifier(),
+      let defaults = UserDefaults(suiteName: appGroupId)
+    else {
+      return 0
+    }
+    return defaults.double(forKey: "ExtensionChunkBytes")
+  }
+
+  /**
+   Returns the progress of the active recording. In-app recordings only report
+   elapsed time because ReplayKit writes their file when they stop; global
+   recordings report the counters the extension refreshes with its status.
+   */
+  func getRecordingProgress() throws -> RecordingProgress? {
+    if let elapsed = inAppElapsedSeconds() {
+      return RecordingProgress(
+        type: .withinapp,
+        elapsedSec: elapsed,
+        bytesWritten: 0,
+        framesWritten: nil,
+        droppedFrames: nil
+      )
+    }
+
+    guard UIScreen.main.isCaptured,
+      let appGroupId = try? getAppGroupIdentifier(),
+      let defaults = UserDefaults(suiteName: appGroupId)
+    else { return nil }
+
+    let startedAt = defaults.double(forKey: "ExtensionRecordingStartedAt")
+    guard startedAt > 0 else { return nil }
+    let pausedAt = defaults.double(forKey: "ExtensionPausedAt")
+    let end = pausedAt > 0 ? pausedAt : Date().timeIntervalSince1970
+    let elapsed = end - startedAt - defaults.double(forKey: "ExtensionPausedSeconds")
+
+    return RecordingProgress(
+      type: .global,
+      elapsedSec: max(0, elapsed),
+      bytesWritten: defaults.double(forKey: "ExtensionChunkBytes"),
+      framesWritten: defaults.double(forKey: "ExtensionFramesWritten"),
+      droppedFrames: defaults.double(forKey: "ExtensionDroppedFrames")
+    )
+  }
+
+  /**
+   Returns the free and total bytes of the volume recordings are written to.
+   */
+  func getStorageInfo() throws -> StorageInfo {
+    return storageInfo(at: FileManager.default.temporaryDirectory)
+  }
+
+  /// Free space counts what the system can purge for important writes, like a recording.
+  private func storageInfo(at url: URL) -> StorageInfo {
+    let values = try? url.resourceValues(forKeys: [
+      .volumeAvailableCapacityForImportantUsageKey, .volumeTotalCapacityKey,
+    ])
+    return StorageInfo(
+      freeBytes: Double(values?.volumeAvailableCapacityForImportantUsage ?? 0),
+      totalBytes: Double(values?.volumeTotalCapacity ?? 0)
+    )
+  }
+
   /**
    Returns whether the screen is currently being recorded.
    Uses UIScreen.main.isCaptured which is instant and reliable.
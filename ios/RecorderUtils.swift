@@ -128,4 +128,117 @@ func getBroadcastExtensionBundleId() -> String? {
       }
     }
   
+  /// Removes the given time ranges from the video at `url` and calls
+  /// `completion` with the trimmed file. Falls back to the original file when
+  /// there is nothing to remove or the export fails.
+  func removeTimeRanges(
+    _ ranges: [CMTimeRange], from url: URL, completion: @escaping (URL) -> Void
+  ) {
+    guard !ranges.isEmpty else {
+      completion(url)
+      return
+    }
+
+    let asset = AVURLAsset(url: url)
+    let composition = AVMutableComposition()
+    do {
+      try composition.insertTimeRange(
+        CMTimeRange(start: .zero, duration: asset.duration), of: asset, at: .zero)
+    } catch {
+      print("⚠️ Failed to build composition for trimming:", error.localizedDescription)
+      completion(url)
+      return
+    }
+
+    // Remove from the end so earlier ranges keep their offsets
+    for range in ranges.sorted(by: { $0.start > $1.start }) {
+      let clamped = CMTimeRangeGetIntersection(
+        range, otherRange: CMTimeRange(start: .zero, duration: composition.duration))
+      if !clamped.isEmpty {
+        composition.removeTimeRange(clamped)
+      }
+    }
+
+    guard
+      let export = AVAssetExportSession(
+        asset: composition, presetName: AVAssetExportPresetPassthrough)
+    else {
+      completion(url)
+      return
+    }
+
+    let trimmedURL = url.deletingLastPathComponent()
+      .appendingPathComponent("trimmed_\(url.deletingPathExtension().lastPathComponent).mp4")
+    try? FileManager.default.removeItem(at: trimmedURL)
+    export.outputURL = trimmedURL
+    export.outputFileType = .mp4
+    export.shouldOptimizeForNetworkUse = true
+    export.exportAsynchronously {
+      if export.status == .completed {
+        try? FileManager.default.removeItem(at: url)
+        completion(trimmedURL)
+      } else {
+        print("⚠️ Failed to remove paused sections:", export.error?.localizedDescription ?? "unknown")
+        completion(url)
+      }
+    }
+  }
+  /// Accepts both `file://` URLs (as returned in `ScreenRecordingFile.path`) and plain paths.
+  func fileURL(from path: String) -> URL {
+    if path.hasPrefix("file://"), let url = URL(string: path) {
+      return url
+    }
+    return URL(fileURLWithPath: path)
+  }
+
+  /// Appends the videos at `urls` back to back, drops the first `startOffset`
+  /// seconds and exports the result to `outputURL`.
+  ///
+  /// - Returns: Whether the output contains an audio track
+  func concatenateVideos(_ urls: [URL], startOffset: Double, to outputURL: URL) async throws
+    -> Bool
+  {
+    let composition = AVMutableComposition()
+    for url in urls {
+      let asset = AVURLAsset(url: url)
+      try composition.insertTimeRange(
+        CMTimeRange(start: .zero, duration: asset.duration), of: asset,
+        at: composition.duration)
+    }
+
+    if startOffset > 0 {
+      let offset = CMTime(seconds: startOffset, preferredTimescale: 600)
+      composition.removeTimeRange(
+        CMTimeRange(start: .zero, duration: CMTimeMinimum(offset, composition.duration)))
+    }
+
+    guard
+      let export = AVAssetExportSession(
+        asset: composition, presetName: AVAssetExportPresetPassthrough)
+    else {
+      throw RecorderError.error(
+        name: "CONCATENATE_FAILED", message: "Could not create an export session")
+    }
+
+    try? FileManager.default.removeItem(at: outputURL)
+    export.outputURL = outputURL
+    export.outputFileType = .mp4
+    export.shouldOptimizeForNetworkUse = true
+
+    try await withCheckedThrowingContinuation { (continuation: CheckedContinuation<Void, Error>) in
+      export.exportAsynchronously {
+        if export.status == .completed {
+          continuation.resume()
+        } else {
+          continuation.resume(
+            throwing: RecorderError.error(
+              name: "CONCATENATE_FAILED",
+              message: export.error?.localizedDescription ?? "Export did not complete"
+            ))
+        }
+      }
+    }
+
+    return !composition.tracks(withMediaType: .audio).isEmpty
+  }
 }
\ No newline at end of file
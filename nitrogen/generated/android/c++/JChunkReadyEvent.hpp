@@ -0,0 +1,71 @@
+///
+/// JChunkReadyEvent.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "ChunkReadyEvent.hpp"
+
+#include "AudioRecordingFile.hpp"
+#include "JAudioRecordingFile.hpp"
+#include "JRecordingMarker.hpp"
+#include "JScreenRecordingFile.hpp"
+#include "RecordingMarker.hpp"
+#include "ScreenRecordingFile.hpp"
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
+#include <optional>
+#include <string>
+#include <vector>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "ChunkReadyEvent" and the the Kotlin data class "ChunkReadyEvent".
+   */
+  struct JChunkReadyEvent final: public jni::JavaClass<JChunkReadyEvent> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/ChunkReadyEvent;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct ChunkReadyEvent by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    ChunkReadyEvent toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldChunkId = clazz->getField<jni::JString>("chunkId");
+      jni::local_ref<jni::JString> chunkId = this->getFieldValue(fieldChunkId);
+      static const auto fieldFile = clazz->getField<JScreenRecordingFile>("file");
+      jni::local_ref<JScreenRecordingFile> file = this->getFieldValue(fieldFile);
+      return ChunkReadyEvent(
+        chunkId != nullptr ? std::make_optional(chunkId->toStdString()) : std::nullopt,
+        file->toCpp()
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JChunkReadyEvent::javaobject> fromCpp(const ChunkReadyEvent& value) {
+      using JSignature = JChunkReadyEvent(jni::alias_ref<jni::JString>, jni::alias_ref<JScreenRecordingFile>);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        value.chunkId.has_value() ? jni::make_jstring(value.chunkId.value()) : nullptr,
+        JScreenRecordingFile::fromCpp(value.file)
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
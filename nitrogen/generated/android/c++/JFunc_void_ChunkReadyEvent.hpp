@@ -0,0 +1,87 @@
+///
+/// JFunc_void_ChunkReadyEvent.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include <functional>
+
+#include "ChunkReadyEvent.hpp"
+#include <functional>
+#include "JChunkReadyEvent.hpp"
+#include <string>
+#include <optional>
+#include "ScreenRecordingFile.hpp"
+#include "JScreenRecordingFile.hpp"
+#include "AudioRecordingFile.hpp"
+#include "JAudioRecordingFile.hpp"
+#include "RecordingMarker.hpp"
+#include <vector>
+#include "JRecordingMarker.hpp"
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * Represents the Java/Kotlin callback `(event: ChunkReadyEvent) -> Unit`.
+   * This can be passed around between C++ and Java/Kotlin.
+   */
+  struct JFunc_void_ChunkReadyEvent: public jni::JavaClass<JFunc_void_ChunkReadyEvent> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/Func_void_ChunkReadyEvent;";
+
+  public:
+    /**
+     * Invokes the function this `JFunc_void_ChunkReadyEvent` instance holds through JNI.
+     */
+    void invoke(const ChunkReadyEvent& event) const {
+      static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<JChunkReadyEvent> /* event */)>("invoke");
+      method(self(), JChunkReadyEvent::fromCpp(event));
+    }
+  };
+
+  /**
+   * An implementation of Func_void_ChunkReadyEvent that is backed by a C++ implementation (using `std::function<...>`)
+   */
+  struct JFunc_void_ChunkReadyEvent_cxx final: public jni::HybridClass<JFunc_void_ChunkReadyEvent_cxx, JFunc_void_ChunkReadyEvent> {
+  public:
+    static jni::local_ref<JFunc_void_ChunkReadyEvent::javaobject> fromCpp(const std::function<void(const ChunkReadyEvent& /* event */)>& func) {
+      return JFunc_void_ChunkReadyEvent_cxx::newObjectCxxArgs(func);
+    }
+
+  public:
+    /**
+     * Invokes the C++ `std::function<...>` this `JFunc_void_ChunkReadyEvent_cxx` instance holds.
+     */
+    void invoke_cxx(jni::alias_ref<JChunkReadyEvent> event) {
+      _func(event->toCpp());
+    }
+
+  public:
+    [[nodiscard]]
+    inline const std::function<void(const ChunkReadyEvent& /* event */)>& getFunction() const {
+      return _func;
+    }
+
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/Func_void_ChunkReadyEvent_cxx;";
+    static void registerNatives() {
+      registerHybrid({makeNativeMethod("invoke_cxx", JFunc_void_ChunkReadyEvent_cxx::invoke_cxx)});
+    }
+
+  private:
+    explicit JFunc_void_ChunkReadyEvent_cxx(const std::function<void(const ChunkReadyEvent& /* event */)>& func): _func(func) { }
+
+  private:
+    friend HybridBase;
+    std::function<void(const ChunkReadyEvent& /* event */)> _func;
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
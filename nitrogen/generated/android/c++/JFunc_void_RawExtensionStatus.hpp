@@ -0,0 +1,78 @@
+///
+/// JFunc_void_RawExtensionStatus.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include <functional>
+
+#include "RawExtensionStatus.hpp"
+#include <functional>
+#include "JRawExtensionStatus.hpp"
+#include "CaptureMode.hpp"
+#include "JCaptureMode.hpp"
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * Represents the Java/Kotlin callback `(status: RawExtensionStatus) -> Unit`.
+   * This can be passed around between C++ and Java/Kotlin.
+   */
+  struct JFunc_void_RawExtensionStatus: public jni::JavaClass<JFunc_void_RawExtensionStatus> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/Func_void_RawExtensionStatus;";
+
+  public:
+    /**
+     * Invokes the function this `JFunc_void_RawExtensionStatus` instance holds through JNI.
+     */
+    void invoke(const RawExtensionStatus& status) const {
+      static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<JRawExtensionStatus> /* status */)>("invoke");
+      method(self(), JRawExtensionStatus::fromCpp(status));
+    }
+  };
+
+  /**
+   * An implementation of Func_void_RawExtensionStatus that is backed by a C++ implementation (using `std::function<...>`)
+   */
+  struct JFunc_void_RawExtensionStatus_cxx final: public jni::HybridClass<JFunc_void_RawExtensionStatus_cxx, JFunc_void_RawExtensionStatus> {
+  public:
+    static jni::local_ref<JFunc_void_RawExtensionStatus::javaobject> fromCpp(const std::function<void(const RawExtensionStatus& /* status */)>& func) {
+      return JFunc_void_RawExtensionStatus_cxx::newObjectCxxArgs(func);
+    }
+
+  public:
+    /**
+     * Invokes the C++ `std::function<...>` this `JFunc_void_RawExtensionStatus_cxx` instance holds.
+     */
+    void invoke_cxx(jni::alias_ref<JRawExtensionStatus> status) {
+      _func(status->toCpp());
+    }
+
+  public:
+    [[nodiscard]]
+    inline const std::function<void(const RawExtensionStatus& /* status */)>& getFunction() const {
+      return _func;
+    }
+
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/Func_void_RawExtensionStatus_cxx;";
+    static void registerNatives() {
+      registerHybrid({makeNativeMethod("invoke_cxx", JFunc_void_RawExtensionStatus_cxx::invoke_cxx)});
+    }
+
+  private:
+    explicit JFunc_void_RawExtensionStatus_cxx(const std::function<void(const RawExtensionStatus& /* status */)>& func): _func(func) { }
+
+  private:
+    friend HybridBase;
+    std::function<void(const RawExtensionStatus& /* status */)> _func;
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -17,6 +17,11 @@
 #include "AudioRecordingFile.hpp"
 #include <optional>
 #include "JAudioRecordingFile.hpp"
+#include "RecordingMarker.hpp"
+#include <vector>
+#include "JRecordingMarker.hpp"
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
 
 namespace margelo::nitro::nitroscreenrecorder {
 
@@ -15,22 +15,40 @@ namespace margelo::nitro::nitroscreenrecorder { struct PermissionResponse; }
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
 // Forward declaration of `AudioRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct AudioRecordingFile; }
+// Forward declaration of `RecordingMarker` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingMarker; }
+// Forward declaration of `PendingChunk` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct PendingChunk; }
 // Forward declaration of `RawExtensionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 // Forward declaration of `CaptureMode` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class CaptureMode; }
-// Forward declaration of `ScreenRecordingEvent` to properly resolve imports.
-namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingEvent; }
+// Forward declaration of `RecordingProgress` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingProgress; }
 // Forward declaration of `RecordingEventType` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventType; }
+// Forward declaration of `StorageInfo` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct StorageInfo; }
+// Forward declaration of `RawExtensionLogEntry` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionLogEntry; }
+// Forward declaration of `ScreenRecordingEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingEvent; }
 // Forward declaration of `RecordingEventReason` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventReason; }
 // Forward declaration of `BroadcastPickerPresentationEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class BroadcastPickerPresentationEvent; }
+// Forward declaration of `ChunkReadyEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ChunkReadyEvent; }
 // Forward declaration of `RecorderCameraStyle` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RecorderCameraStyle; }
 // Forward declaration of `CameraDevice` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class CameraDevice; }
+// Forward declaration of `RecordingLimits` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingLimits; }
+// Forward declaration of `RecordingVideoSettings` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingVideoSettings; }
+// Forward declaration of `VideoCodec` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class VideoCodec; }
 // Forward declaration of `RecordingError` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
 
@@ -46,27 +64,49 @@ namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
 #include <string>
 #include "AudioRecordingFile.hpp"
 #include "JAudioRecordingFile.hpp"
+#include "RecordingMarker.hpp"
+#include <vector>
+#include "JRecordingMarker.hpp"
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
+#include "PendingChunk.hpp"
+#include "JPendingChunk.hpp"
 #include "RawExtensionStatus.hpp"
 #include "JRawExtensionStatus.hpp"
 #include "CaptureMode.hpp"
 #include "JCaptureMode.hpp"
-#include <vector>
+#include "RecordingProgress.hpp"
+#include "JRecordingProgress.hpp"
+#include "RecordingEventType.hpp"
+#include "JRecordingEventType.hpp"
+#include "StorageInfo.hpp"
+#include "JStorageInfo.hpp"
+#include "RawExtensionLogEntry.hpp"
+#include "JRawExtensionLogEntry.hpp"
 #include "ScreenRecordingEvent.hpp"
 #include <functional>
 #include "JFunc_void_ScreenRecordingEvent.hpp"
 #include "JScreenRecordingEvent.hpp"
-#include "RecordingEventType.hpp"
-#include "JRecordingEventType.hpp"
 #include "RecordingEventReason.hpp"
 #include "JRecordingEventReason.hpp"
 #include "BroadcastPickerPresentationEvent.hpp"
 #include "JFunc_void_BroadcastPickerPresentationEvent.hpp"
 #include "JBroadcastPickerPresentationEvent.hpp"
+#include "ChunkReadyEvent.hpp"
+#include "JFunc_void_ChunkReadyEvent.hpp"
+#include "JChunkReadyEvent.hpp"
+#include "JFunc_void_RawExtensionStatus.hpp"
 #include "RecorderCameraStyle.hpp"
 #include "JRecorderCameraStyle.hpp"
 #include "CameraDevice.hpp"
 #include "JCameraDevice.hpp"
+#include "RecordingLimits.hpp"
+#include "JRecordingLimits.hpp"
 #include "JFunc_void_ScreenRecordingFile.hpp"
+#include "RecordingVideoSettings.hpp"
+#include "JRecordingVideoSettings.hpp"
+#include "VideoCodec.hpp"
+#include "JVideoCodec.hpp"
 #include "RecordingError.hpp"
 #include "JFunc_void_RecordingError.hpp"
 #include "JRecordingError.hpp"
@@ -163,9 +203,27 @@ namespace margelo::nitro::nitroscreenrecorder {
     static const auto method = javaClassStatic()->getMethod<void(double /* id */)>("removeBroadcastPickerListener");
     method(_javaPart, id);
   }
-  void JHybridNitroScreenRecorderSpec::startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) {
-    static const auto method = javaClassStatic()->getMethod<void(jboolean /* enableMic */, jboolean /* enableCamera */, jni::alias_ref<JRecorderCameraStyle> /* cameraPreviewStyle */, jni::alias_ref<JCameraDevice> /* cameraDevice */, jboolean /* separateAudioFile */, jni::alias_ref<JFunc_void_ScreenRecordingFile::javaobject> /* onRecordingFinished */)>("startInAppRecording_cxx");
-    method(_javaPart, enableMic, enableCamera, JRecorderCameraStyle::fromCpp(cameraPreviewStyle), JCameraDevice::fromCpp(cameraDevice), separateAudioFile, JFunc_void_ScreenRecordingFile_cxx::fromCpp(onRecordingFinished));
+  double JHybridNitroScreenRecorderSpec::addChunkListener(const std::function<void(const ChunkReadyEvent& /* event */)>& callback) {
+    static const auto method = javaClassStatic()->getMethod<double(jni::alias_ref<JFunc_void_ChunkReadyEvent::javaobject> /* callback */)>("addChunkListener_cxx");
+    auto __result = method(_javaPart, JFunc_void_ChunkReadyEvent_cxx::fromCpp(callback));
+    return __result;
+  }
+  void JHybridNitroScreenRecorderSpec::removeChunkListener(double id) {
+    static const auto method = javaClassStatic()->getMethod<void(double /* id */)>("removeChunkListener");
+    method(_javaPart, id);
+  }
+  double JHybridNitroScreenRecorderSpec::addExtensionStatusListener(const std::function<void(const RawExtensionStatus& /* status */)>& callback) {
+    static const auto method = javaClassStatic()->getMethod<double(jni::alias_ref<JFunc_void_RawExtensionStatus::javaobject> /* callback */)>("addExtensionStatusListener_cxx");
+    auto __result = method(_javaPart, JFunc_void_RawExtensionStatus_cxx::fromCpp(callback));
+    return __result;
+  }
+  void JHybridNitroScreenRecorderSpec::removeExtensionStatusListener(double id) {
+    static const auto method = javaClassStatic()->getMethod<void(double /* id */)>("removeExtensionStatusListener");
+    method(_javaPart, id);
+  }
+  void JHybridNitroScreenRecorderSpec::startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const RecordingLimits& limits, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) {
+    static const auto method = javaClassStatic()->getMethod<void(jboolean /* enableMic */, jboolean /* enableCamera */, jni::alias_ref<JRecorderCameraStyle> /* cameraPreviewStyle */, jni::alias_ref<JCameraDevice> /* cameraDevice */, jboolean /* separateAudioFile */, jni::alias_ref<JRecordingLimits> /* limits */, jni::alias_ref<JFunc_void_ScreenRecordingFile::javaobject> /* onRecordingFinished */)>("startInAppRecording_cxx");
+    method(_javaPart, enableMic, enableCamera, JRecorderCameraStyle::fromCpp(cameraPreviewStyle), JCameraDevice::fromCpp(cameraDevice), separateAudioFile, JRecordingLimits::fromCpp(limits), JFunc_void_ScreenRecordingFile_cxx::fromCpp(onRecordingFinished));
   }
   std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> JHybridNitroScreenRecorderSpec::stopInAppRecording() {
     static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>()>("stopInAppRecording");
@@ -198,9 +256,9 @@ namespace margelo::nitro::nitroscreenrecorder {
       return __promise;
     }();
   }
-  void JHybridNitroScreenRecorderSpec::startGlobalRecording(bool enableMic, bool separateAudioFile, const std::function<void(const RecordingError& /* error */)>& onRecordingError) {
-    static const auto method = javaClassStatic()->getMethod<void(jboolean /* enableMic */, jboolean /* separateAudioFile */, jni::alias_ref<JFunc_void_RecordingError::javaobject> /* onRecordingError */)>("startGlobalRecording_cxx");
-    method(_javaPart, enableMic, separateAudioFile, JFunc_void_RecordingError_cxx::fromCpp(onRecordingError));
+  void JHybridNitroScreenRecorderSpec::startGlobalRecording(bool enableMic, bool separateAudioFile, const RecordingVideoSettings& videoSettings, const RecordingLimits& limits, const std::function<void(const RecordingError& /* error */)>& onRecordingError) {
+    static const auto method = javaClassStatic()->getMethod<void(jboolean /* enableMic */, jboolean /* separateAudioFile */, jni::alias_ref<JRecordingVideoSettings> /* videoSettings */, jni::alias_ref<JRecordingLimits> /* limits */, jni::alias_ref<JFunc_void_RecordingError::javaobject> /* onRecordingError */)>("startGlobalRecording_cxx");
+    method(_javaPart, enableMic, separateAudioFile, JRecordingVideoSettings::fromCpp(videoSettings), JRecordingLimits::fromCpp(limits), JFunc_void_RecordingError_cxx::fromCpp(onRecordingError));
   }
   std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> JHybridNitroScreenRecorderSpec::stopGlobalRecording(double settledTimeMs) {
     static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>(double /* settledTimeMs */)>("stopGlobalRecording");
@@ -250,6 +308,22 @@ namespace margelo::nitro::nitroscreenrecorder {
       return __promise;
     }();
   }
+  std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> JHybridNitroScreenRecorderSpec::rotateChunk(const std::optional<std::string>& chunkId, const std::optional<std::string>& nextChunkId, double settledTimeMs) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>(jni::alias_ref<jni::JString> /* chunkId */, jni::alias_ref<jni::JString> /* nextChunkId */, double /* settledTimeMs */)>("rotateChunk");
+    auto __result = method(_javaPart, chunkId.has_value() ? jni::make_jstring(chunkId.value()) : nullptr, nextChunkId.has_value() ? jni::make_jstring(nextChunkId.value()) : nullptr, settledTimeMs);
+    return [&]() {
+      auto __promise = Promise<std::optional<ScreenRecordingFile>>::create();
+      __result->cthis()->addOnResolvedListener([=](const jni::alias_ref<jni::JObject>& __boxedResult) {
+        auto __result = jni::static_ref_cast<JScreenRecordingFile>(__boxedResult);
+        __promise->resolve(__result != nullptr ? std::make_optional(__result->toCpp()) : std::nullopt);
+      });
+      __result->cthis()->addOnRejectedListener([=](const jni::alias_ref<jni::JThrowable>& __throwable) {
+        jni::JniException __jniError(__throwable);
+        __promise->reject(std::make_exception_ptr(__jniError));
+      });
+      return __promise;
+    }();
+  }
   std::optional<ScreenRecordingFile> JHybridNitroScreenRecorderSpec::retrieveLastGlobalRecording() {
     static const auto method = javaClassStatic()->getMethod<jni::local_ref<JScreenRecordingFile>()>("retrieveLastGlobalRecording");
     auto __result = method(_javaPart);
@@ -260,6 +334,59 @@ namespace margelo::nitro::nitroscreenrecorder {
     auto __result = method(_javaPart, chunkId.has_value() ? jni::make_jstring(chunkId.value()) : nullptr);
     return __result != nullptr ? std::make_optional(__result->toCpp()) : std::nullopt;
   }
+  std::vector<PendingChunk> JHybridNitroScreenRecorderSpec::listPendingChunks() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JArrayClass<JPendingChunk>>()>("listPendingChunks");
+    auto __result = method(_javaPart);
+    return [&]() {
+      size_t __size = __result->size();
+      std::vector<PendingChunk> __vector;
+      __vector.reserve(__size);
+      for (size_t __i = 0; __i < __size; __i++) {
+        auto __element = __result->getElement(__i);
+        __vector.push_back(__element->toCpp());
+      }
+      return __vector;
+    }();
+  }
+  std::optional<ScreenRecordingFile> JHybridNitroScreenRecorderSpec::claimPendingChunk(const std::string& id) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JScreenRecordingFile>(jni::alias_ref<jni::JString> /* id */)>("claimPendingChunk");
+    auto __result = method(_javaPart, jni::make_jstring(id));
+    return __result != nullptr ? std::make_optional(__result->toCpp()) : std::nullopt;
+  }
+  void JHybridNitroScreenRecorderSpec::discardPendingChunk(const std::string& id) {
+    static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<jni::JString> /* id */)>("discardPendingChunk");
+    method(_javaPart, jni::make_jstring(id));
+  }
+  std::shared_ptr<Promise<void>> JHybridNitroScreenRecorderSpec::pauseRecording() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>()>("pauseRecording");
+    auto __result = method(_javaPart);
+    return [&]() {
+      auto __promise = Promise<void>::create();
+      __result->cthis()->addOnResolvedListener([=](const jni::alias_ref<jni::JObject>& /* unit */) {
+        __promise->resolve();
+      });
+      __result->cthis()->addOnRejectedListener([=](const jni::alias_ref<jni::JThrowable>& __throwable) {
+        jni::JniException __jniError(__throwable);
+        __promise->reject(std::make_exception_ptr(__jniError));
+      });
+      return __promise;
+    }();
+  }
+  std::shared_ptr<Promise<void>> JHybridNitroScreenRecorderSpec::resumeRecording() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>()>("resumeRecording");
+    auto __result = method(_javaPart);
+    return [&]() {
+      auto __promise = Promise<void>::create();
+      __result->cthis()->addOnResolvedListener([=](const jni::alias_ref<jni::JObject>& /* unit */) {
+        __promise->resolve();
+      });
+      __result->cthis()->addOnRejectedListener([=](const jni::alias_ref<jni::JThrowable>& __throwable) {
+        jni::JniException __jniError(__throwable);
+        __promise->reject(std::make_exception_ptr(__jniError));
+      });
+      return __promise;
+    }();
+  }
   RawExtensionStatus JHybridNitroScreenRecorderSpec::getExtensionStatus() {
     static const auto method = javaClassStatic()->getMethod<jni::local_ref<JRawExtensionStatus>()>("getExtensionStatus");
     auto __result = method(_javaPart);
@@ -270,6 +397,21 @@ namespace margelo::nitro::nitroscreenrecorder {
     auto __result = method(_javaPart);
     return static_cast<bool>(__result);
   }
+  double JHybridNitroScreenRecorderSpec::getCurrentChunkSize() {
+    static const auto method = javaClassStatic()->getMethod<double()>("getCurrentChunkSize");
+    auto __result = method(_javaPart);
+    return __result;
+  }
+  std::optional<RecordingProgress> JHybridNitroScreenRecorderSpec::getRecordingProgress() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JRecordingProgress>()>("getRecordingProgress");
+    auto __result = method(_javaPart);
+    return __result != nullptr ? std::make_optional(__result->toCpp()) : std::nullopt;
+  }
+  StorageInfo JHybridNitroScreenRecorderSpec::getStorageInfo() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JStorageInfo>()>("getStorageInfo");
+    auto __result = method(_javaPart);
+    return __result->toCpp();
+  }
   std::vector<std::string> JHybridNitroScreenRecorderSpec::getExtensionLogs() {
     static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JArrayClass<jni::JString>>()>("getExtensionLogs");
     auto __result = method(_javaPart);
@@ -284,6 +426,24 @@ namespace margelo::nitro::nitroscreenrecorder {
       return __vector;
     }();
   }
+  std::vector<RawExtensionLogEntry> JHybridNitroScreenRecorderSpec::getExtensionLogEntries() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JArrayClass<JRawExtensionLogEntry>>()>("getExtensionLogEntries");
+    auto __result = method(_javaPart);
+    return [&]() {
+      size_t __size = __result->size();
+      std::vector<RawExtensionLogEntry> __vector;
+      __vector.reserve(__size);
+      for (size_t __i = 0; __i < __size; __i++) {
+        auto __element = __result->getElement(__i);
+        __vector.push_back(__element->toCpp());
+      }
+      return __vector;
+    }();
+  }
+  void JHybridNitroScreenRecorderSpec::configureExtensionLogs(const std::string& minLevel, double maxEntries) {
+    static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<jni::JString> /* minLevel */, double /* maxEntries */)>("configureExtensionLogs");
+    method(_javaPart, jni::make_jstring(minLevel), maxEntries);
+  }
   void JHybridNitroScreenRecorderSpec::clearExtensionLogs() {
     static const auto method = javaClassStatic()->getMethod<void()>("clearExtensionLogs");
     method(_javaPart);
@@ -301,5 +461,62 @@ namespace margelo::nitro::nitroscreenrecorder {
     static const auto method = javaClassStatic()->getMethod<void()>("clearRecordingCache");
     method(_javaPart);
   }
+  std::shared_ptr<Promise<ScreenRecordingFile>> JHybridNitroScreenRecorderSpec::concatenateRecordings(const std::vector<std::string>& paths, double startOffsetSec) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<JPromise::javaobject>(jni::alias_ref<jni::JArrayClass<jni::JString>> /* paths */, double /* startOffsetSec */)>("concatenateRecordings");
+    auto __result = method(_javaPart, [&]() {
+      size_t __size = paths.size();
+      jni::local_ref<jni::JArrayClass<jni::JString>> __array = jni::JArrayClass<jni::JString>::newArray(__size);
+      for (size_t __i = 0; __i < __size; __i++) {
+        const auto& __element = paths[__i];
+        __array->setElement(__i, *jni::make_jstring(__element));
+      }
+      return __array;
+    }(), startOffsetSec);
+    return [&]() {
+      auto __promise = Promise<ScreenRecordingFile>::create();
+      __result->cthis()->addOnResolvedListener([=](const jni::alias_ref<jni::JObject>& __boxedResult) {
+        auto __result = jni::static_ref_cast<JScreenRecordingFile>(__boxedResult);
+        __promise->resolve(__result->toCpp());
+      });
+      __result->cthis()->addOnRejectedListener([=](const jni::alias_ref<jni::JThrowable>& __throwable) {
+        jni::JniException __jniError(__throwable);
+        __promise->reject(std::make_exception_ptr(__jniError));
+      });
+      return __promise;
+    }();
+  }
+  void JHybridNitroScreenRecorderSpec::deleteRecordingFile(const std::string& path) {
+    static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<jni::JString> /* path */)>("deleteRecordingFile");
+    method(_javaPart, jni::make_jstring(path));
+  }
+  std::string JHybridNitroScreenRecorderSpec::renameRecordingFile(const std::string& path, const std::string& name) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JString>(jni::alias_ref<jni::JString> /* path */, jni::alias_ref<jni::JString> /* name */)>("renameRecordingFile");
+    auto __result = method(_javaPart, jni::make_jstring(path), jni::make_jstring(name));
+    return __result->toStdString();
+  }
+  std::string JHybridNitroScreenRecorderSpec::moveRecordingFile(const std::string& path, const std::string& directory, const std::string& name) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JString>(jni::alias_ref<jni::JString> /* path */, jni::alias_ref<jni::JString> /* directory */, jni::alias_ref<jni::JString> /* name */)>("moveRecordingFile");
+    auto __result = method(_javaPart, jni::make_jstring(path), jni::make_jstring(directory), jni::make_jstring(name));
+    return __result->toStdString();
+  }
+  bool JHybridNitroScreenRecorderSpec::recordingFileExists(const std::string& path) {
+    static const auto method = javaClassStatic()->getMethod<jboolean(jni::alias_ref<jni::JString> /* path */)>("recordingFileExists");
+    auto __result = method(_javaPart, jni::make_jstring(path));
+    return static_cast<bool>(__result);
+  }
+  std::string JHybridNitroScreenRecorderSpec::writeRecordingSidecar(const std::string& path, const std::string& extension, const std::string& contents) {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JString>(jni::alias_ref<jni::JString> /* path */, jni::alias_ref<jni::JString> /* extension */, jni::alias_ref<jni::JString> /* contents */)>("writeRecordingSidecar");
+    auto __result = method(_javaPart, jni::make_jstring(path), jni::make_jstring(extension), jni::make_jstring(contents));
+    return __result->toStdString();
+  }
+  std::string JHybridNitroScreenRecorderSpec::readRecordingLibrary() {
+    static const auto method = javaClassStatic()->getMethod<jni::local_ref<jni::JString>()>("readRecordingLibrary");
+    auto __result = method(_javaPart);
+    return __result->toStdString();
+  }
+  void JHybridNitroScreenRecorderSpec::writeRecordingLibrary(const std::string& manifest) {
+    static const auto method = javaClassStatic()->getMethod<void(jni::alias_ref<jni::JString> /* manifest */)>("writeRecordingLibrary");
+    method(_javaPart, jni::make_jstring(manifest));
+  }
 
 } // namespace margelo::nitro::nitroscreenrecorder
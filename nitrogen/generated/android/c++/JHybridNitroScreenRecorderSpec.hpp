@@ -62,22 +62,45 @@ namespace margelo::nitro::nitroscreenrecorder {
     void removeScreenRecordingListener(double id) override;
     double addBroadcastPickerListener(const std::function<void(BroadcastPickerPresentationEvent /* event */)>& callback) override;
     void removeBroadcastPickerListener(double id) override;
-    void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) override;
+    double addChunkListener(const std::function<void(const ChunkReadyEvent& /* event */)>& callback) override;
+    void removeChunkListener(double id) override;
+    double addExtensionStatusListener(const std::function<void(const RawExtensionStatus& /* status */)>& callback) override;
+    void removeExtensionStatusListener(double id) override;
+    void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const RecordingLimits& limits, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) override;
     std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> stopInAppRecording() override;
     std::shared_ptr<Promise<void>> cancelInAppRecording() override;
-    void startGlobalRecording(bool enableMic, bool separateAudioFile, const std::function<void(const RecordingError& /* error */)>& onRecordingError) override;
+    void startGlobalRecording(bool enableMic, bool separateAudioFile, const RecordingVideoSettings& videoSettings, const RecordingLimits& limits, const std::function<void(const RecordingError& /* error */)>& onRecordingError) override;
     std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> stopGlobalRecording(double settledTimeMs) override;
     std::shared_ptr<Promise<double>> markChunkStart(const std::optional<std::string>& chunkId) override;
     std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> finalizeChunk(const std::optional<std::string>& chunkId, double settledTimeMs) override;
+    std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> rotateChunk(const std::optional<std::string>& chunkId, const std::optional<std::string>& nextChunkId, double settledTimeMs) override;
     std::optional<ScreenRecordingFile> retrieveLastGlobalRecording() override;
     std::optional<ScreenRecordingFile> retrieveGlobalRecording(const std::optional<std::string>& chunkId) override;
+    std::vector<PendingChunk> listPendingChunks() override;
+    std::optional<ScreenRecordingFile> claimPendingChunk(const std::string& id) override;
+    void discardPendingChunk(const std::string& id) override;
+    std::shared_ptr<Promise<void>> pauseRecording() override;
+    std::shared_ptr<Promise<void>> resumeRecording() override;
     RawExtensionStatus getExtensionStatus() override;
     bool isScreenBeingRecorded() override;
+    double getCurrentChunkSize() override;
+    std::optional<RecordingProgress> getRecordingProgress() override;
+    StorageInfo getStorageInfo() override;
     std::vector<std::string> getExtensionLogs() override;
+    std::vector<RawExtensionLogEntry> getExtensionLogEntries() override;
+    void configureExtensionLogs(const std::string& minLevel, double maxEntries) override;
     void clearExtensionLogs() override;
     std::string getExtensionAudioMetrics() override;
     void clearExtensionAudioMetrics() override;
     void clearRecordingCache() override;
+    std::shared_ptr<Promise<ScreenRecordingFile>> concatenateRecordings(const std::vector<std::string>& paths, double startOffsetSec) override;
+    void deleteRecordingFile(const std::string& path) override;
+    std::string renameRecordingFile(const std::string& path, const std::string& name) override;
+    std::string moveRecordingFile(const std::string& path, const std::string& directory, const std::string& name) override;
+    bool recordingFileExists(const std::string& path) override;
+    std::string writeRecordingSidecar(const std::string& path, const std::string& extension, const std::string& contents) override;
+    std::string readRecordingLibrary() override;
+    void writeRecordingLibrary(const std::string& manifest) override;
 
   private:
     friend HybridBase;
@@ -0,0 +1,74 @@
+///
+/// JPendingChunk.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "PendingChunk.hpp"
+
+#include <optional>
+#include <string>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "PendingChunk" and the the Kotlin data class "PendingChunk".
+   */
+  struct JPendingChunk final: public jni::JavaClass<JPendingChunk> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/PendingChunk;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct PendingChunk by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    PendingChunk toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldId = clazz->getField<jni::JString>("id");
+      jni::local_ref<jni::JString> id = this->getFieldValue(fieldId);
+      static const auto fieldChunkId = clazz->getField<jni::JString>("chunkId");
+      jni::local_ref<jni::JString> chunkId = this->getFieldValue(fieldChunkId);
+      static const auto fieldCreatedAt = clazz->getField<double>("createdAt");
+      double createdAt = this->getFieldValue(fieldCreatedAt);
+      static const auto fieldSize = clazz->getField<double>("size");
+      double size = this->getFieldValue(fieldSize);
+      static const auto fieldEnabledMicrophone = clazz->getField<jboolean>("enabledMicrophone");
+      jboolean enabledMicrophone = this->getFieldValue(fieldEnabledMicrophone);
+      return PendingChunk(
+        id->toStdString(),
+        chunkId != nullptr ? std::make_optional(chunkId->toStdString()) : std::nullopt,
+        createdAt,
+        size,
+        static_cast<bool>(enabledMicrophone)
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JPendingChunk::javaobject> fromCpp(const PendingChunk& value) {
+      using JSignature = JPendingChunk(jni::alias_ref<jni::JString>, jni::alias_ref<jni::JString>, double, double, jboolean);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        jni::make_jstring(value.id),
+        value.chunkId.has_value() ? jni::make_jstring(value.chunkId.value()) : nullptr,
+        value.createdAt,
+        value.size,
+        value.enabledMicrophone
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
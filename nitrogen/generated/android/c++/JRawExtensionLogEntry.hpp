@@ -0,0 +1,65 @@
+///
+/// JRawExtensionLogEntry.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "RawExtensionLogEntry.hpp"
+
+#include <string>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "RawExtensionLogEntry" and the the Kotlin data class "RawExtensionLogEntry".
+   */
+  struct JRawExtensionLogEntry final: public jni::JavaClass<JRawExtensionLogEntry> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/RawExtensionLogEntry;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct RawExtensionLogEntry by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    RawExtensionLogEntry toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldTimestamp = clazz->getField<double>("timestamp");
+      double timestamp = this->getFieldValue(fieldTimestamp);
+      static const auto fieldLevel = clazz->getField<jni::JString>("level");
+      jni::local_ref<jni::JString> level = this->getFieldValue(fieldLevel);
+      static const auto fieldMessage = clazz->getField<jni::JString>("message");
+      jni::local_ref<jni::JString> message = this->getFieldValue(fieldMessage);
+      return RawExtensionLogEntry(
+        timestamp,
+        level->toStdString(),
+        message->toStdString()
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JRawExtensionLogEntry::javaobject> fromCpp(const RawExtensionLogEntry& value) {
+      using JSignature = JRawExtensionLogEntry(double, jni::alias_ref<jni::JString>, jni::alias_ref<jni::JString>);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        value.timestamp,
+        jni::make_jstring(value.level),
+        jni::make_jstring(value.message)
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -43,12 +43,24 @@ namespace margelo::nitro::nitroscreenrecorder {
       static const auto clazz = javaClassStatic();
       static const auto fieldBEGAN = clazz->getStaticField<JRecordingEventReason>("BEGAN");
       static const auto fieldENDED = clazz->getStaticField<JRecordingEventReason>("ENDED");
+      static const auto fieldPAUSED = clazz->getStaticField<JRecordingEventReason>("PAUSED");
+      static const auto fieldRESUMED = clazz->getStaticField<JRecordingEventReason>("RESUMED");
+      static const auto fieldLIMITREACHED = clazz->getStaticField<JRecordingEventReason>("LIMITREACHED");
+      static const auto fieldLOWSTORAGE = clazz->getStaticField<JRecordingEventReason>("LOWSTORAGE");
       
       switch (value) {
         case RecordingEventReason::BEGAN:
           return clazz->getStaticFieldValue(fieldBEGAN);
         case RecordingEventReason::ENDED:
           return clazz->getStaticFieldValue(fieldENDED);
+        case RecordingEventReason::PAUSED:
+          return clazz->getStaticFieldValue(fieldPAUSED);
+        case RecordingEventReason::RESUMED:
+          return clazz->getStaticFieldValue(fieldRESUMED);
+        case RecordingEventReason::LIMITREACHED:
+          return clazz->getStaticFieldValue(fieldLIMITREACHED);
+        case RecordingEventReason::LOWSTORAGE:
+          return clazz->getStaticFieldValue(fieldLOWSTORAGE);
         default:
           std::string stringValue = std::to_string(static_cast<int>(value));
           throw std::invalid_argument("Invalid enum value (" + stringValue + "!");
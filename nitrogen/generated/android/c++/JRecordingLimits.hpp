@@ -0,0 +1,65 @@
+///
+/// JRecordingLimits.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "RecordingLimits.hpp"
+
+
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "RecordingLimits" and the the Kotlin data class "RecordingLimits".
+   */
+  struct JRecordingLimits final: public jni::JavaClass<JRecordingLimits> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/RecordingLimits;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct RecordingLimits by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    RecordingLimits toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldMaxDurationSec = clazz->getField<double>("maxDurationSec");
+      double maxDurationSec = this->getFieldValue(fieldMaxDurationSec);
+      static const auto fieldMaxFileSizeBytes = clazz->getField<double>("maxFileSizeBytes");
+      double maxFileSizeBytes = this->getFieldValue(fieldMaxFileSizeBytes);
+      static const auto fieldMinFreeBytes = clazz->getField<double>("minFreeBytes");
+      double minFreeBytes = this->getFieldValue(fieldMinFreeBytes);
+      return RecordingLimits(
+        maxDurationSec,
+        maxFileSizeBytes,
+        minFreeBytes
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JRecordingLimits::javaobject> fromCpp(const RecordingLimits& value) {
+      using JSignature = JRecordingLimits(double, double, double);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        value.maxDurationSec,
+        value.maxFileSizeBytes,
+        value.minFreeBytes
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -0,0 +1,72 @@
+///
+/// JRecordingMarker.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "RecordingMarker.hpp"
+
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
+#include <optional>
+#include <string>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "RecordingMarker" and the the Kotlin data class "RecordingMarker".
+   */
+  struct JRecordingMarker final: public jni::JavaClass<JRecordingMarker> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/RecordingMarker;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct RecordingMarker by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    RecordingMarker toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldLabel = clazz->getField<jni::JString>("label");
+      jni::local_ref<jni::JString> label = this->getFieldValue(fieldLabel);
+      static const auto fieldTimeSec = clazz->getField<double>("timeSec");
+      double timeSec = this->getFieldValue(fieldTimeSec);
+      static const auto fieldCreatedAt = clazz->getField<double>("createdAt");
+      double createdAt = this->getFieldValue(fieldCreatedAt);
+      static const auto fieldMetadata = clazz->getField<JAnyMap::javaobject>("metadata");
+      jni::local_ref<JAnyMap::javaobject> metadata = this->getFieldValue(fieldMetadata);
+      return RecordingMarker(
+        label->toStdString(),
+        timeSec,
+        createdAt,
+        metadata != nullptr ? std::make_optional(metadata->cthis()->getMap()) : std::nullopt
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JRecordingMarker::javaobject> fromCpp(const RecordingMarker& value) {
+      using JSignature = JRecordingMarker(jni::alias_ref<jni::JString>, double, double, jni::alias_ref<JAnyMap::javaobject>);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        jni::make_jstring(value.label),
+        value.timeSec,
+        value.createdAt,
+        value.metadata.has_value() ? JAnyMap::create(value.metadata.value()) : nullptr
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -0,0 +1,75 @@
+///
+/// JRecordingProgress.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "RecordingProgress.hpp"
+
+#include "JRecordingEventType.hpp"
+#include "RecordingEventType.hpp"
+#include <optional>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "RecordingProgress" and the the Kotlin data class "RecordingProgress".
+   */
+  struct JRecordingProgress final: public jni::JavaClass<JRecordingProgress> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/RecordingProgress;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct RecordingProgress by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    RecordingProgress toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldType = clazz->getField<JRecordingEventType>("type");
+      jni::local_ref<JRecordingEventType> type = this->getFieldValue(fieldType);
+      static const auto fieldElapsedSec = clazz->getField<double>("elapsedSec");
+      double elapsedSec = this->getFieldValue(fieldElapsedSec);
+      static const auto fieldBytesWritten = clazz->getField<double>("bytesWritten");
+      double bytesWritten = this->getFieldValue(fieldBytesWritten);
+      static const auto fieldFramesWritten = clazz->getField<jni::JDouble>("framesWritten");
+      jni::local_ref<jni::JDouble> framesWritten = this->getFieldValue(fieldFramesWritten);
+      static const auto fieldDroppedFrames = clazz->getField<jni::JDouble>("droppedFrames");
+      jni::local_ref<jni::JDouble> droppedFrames = this->getFieldValue(fieldDroppedFrames);
+      return RecordingProgress(
+        type->toCpp(),
+        elapsedSec,
+        bytesWritten,
+        framesWritten != nullptr ? std::make_optional(framesWritten->value()) : std::nullopt,
+        droppedFrames != nullptr ? std::make_optional(droppedFrames->value()) : std::nullopt
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JRecordingProgress::javaobject> fromCpp(const RecordingProgress& value) {
+      using JSignature = JRecordingProgress(jni::alias_ref<JRecordingEventType>, double, double, jni::alias_ref<jni::JDouble>, jni::alias_ref<jni::JDouble>);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        JRecordingEventType::fromCpp(value.type),
+        value.elapsedSec,
+        value.bytesWritten,
+        value.framesWritten.has_value() ? jni::JDouble::valueOf(value.framesWritten.value()) : nullptr,
+        value.droppedFrames.has_value() ? jni::JDouble::valueOf(value.droppedFrames.value()) : nullptr
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -0,0 +1,74 @@
+///
+/// JRecordingVideoSettings.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "RecordingVideoSettings.hpp"
+
+#include "JVideoCodec.hpp"
+#include "VideoCodec.hpp"
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "RecordingVideoSettings" and the the Kotlin data class "RecordingVideoSettings".
+   */
+  struct JRecordingVideoSettings final: public jni::JavaClass<JRecordingVideoSettings> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/RecordingVideoSettings;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct RecordingVideoSettings by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    RecordingVideoSettings toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldMaxLongSide = clazz->getField<double>("maxLongSide");
+      double maxLongSide = this->getFieldValue(fieldMaxLongSide);
+      static const auto fieldBitrate = clazz->getField<double>("bitrate");
+      double bitrate = this->getFieldValue(fieldBitrate);
+      static const auto fieldFps = clazz->getField<double>("fps");
+      double fps = this->getFieldValue(fieldFps);
+      static const auto fieldCodec = clazz->getField<JVideoCodec>("codec");
+      jni::local_ref<JVideoCodec> codec = this->getFieldValue(fieldCodec);
+      static const auto fieldKeyframeIntervalSec = clazz->getField<double>("keyframeIntervalSec");
+      double keyframeIntervalSec = this->getFieldValue(fieldKeyframeIntervalSec);
+      return RecordingVideoSettings(
+        maxLongSide,
+        bitrate,
+        fps,
+        codec->toCpp(),
+        keyframeIntervalSec
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JRecordingVideoSettings::javaobject> fromCpp(const RecordingVideoSettings& value) {
+      using JSignature = JRecordingVideoSettings(double, double, double, jni::alias_ref<JVideoCodec>, double);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        value.maxLongSide,
+        value.bitrate,
+        value.fps,
+        JVideoCodec::fromCpp(value.codec),
+        value.keyframeIntervalSec
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -12,8 +12,13 @@
 
 #include "AudioRecordingFile.hpp"
 #include "JAudioRecordingFile.hpp"
+#include "JRecordingMarker.hpp"
+#include "RecordingMarker.hpp"
+#include <NitroModules/AnyMap.hpp>
+#include <NitroModules/JAnyMap.hpp>
 #include <optional>
 #include <string>
+#include <vector>
 
 namespace margelo::nitro::nitroscreenrecorder {
 
@@ -48,6 +53,10 @@ namespace margelo::nitro::nitroscreenrecorder {
       jni::local_ref<JAudioRecordingFile> audioFile = this->getFieldValue(fieldAudioFile);
       static const auto fieldAppAudioFile = clazz->getField<JAudioRecordingFile>("appAudioFile");
       jni::local_ref<JAudioRecordingFile> appAudioFile = this->getFieldValue(fieldAppAudioFile);
+      static const auto fieldMarkers = clazz->getField<jni::JArrayClass<JRecordingMarker>>("markers");
+      jni::local_ref<jni::JArrayClass<JRecordingMarker>> markers = this->getFieldValue(fieldMarkers);
+      static const auto fieldMarkersFile = clazz->getField<jni::JString>("markersFile");
+      jni::local_ref<jni::JString> markersFile = this->getFieldValue(fieldMarkersFile);
       return ScreenRecordingFile(
         path->toStdString(),
         name->toStdString(),
@@ -55,7 +64,18 @@ namespace margelo::nitro::nitroscreenrecorder {
         duration,
         static_cast<bool>(enabledMicrophone),
         audioFile != nullptr ? std::make_optional(audioFile->toCpp()) : std::nullopt,
-        appAudioFile != nullptr ? std::make_optional(appAudioFile->toCpp()) : std::nullopt
+        appAudioFile != nullptr ? std::make_optional(appAudioFile->toCpp()) : std::nullopt,
+        markers != nullptr ? std::make_optional([&]() {
+          size_t __size = markers->size();
+          std::vector<RecordingMarker> __vector;
+          __vector.reserve(__size);
+          for (size_t __i = 0; __i < __size; __i++) {
+            auto __element = markers->getElement(__i);
+            __vector.push_back(__element->toCpp());
+          }
+          return __vector;
+        }()) : std::nullopt,
+        markersFile != nullptr ? std::make_optional(markersFile->toStdString()) : std::nullopt
       );
     }
 
@@ -65,7 +85,7 @@ namespace margelo::nitro::nitroscreenrecorder {
      */
     [[maybe_unused]]
     static jni::local_ref<JScreenRecordingFile::javaobject> fromCpp(const ScreenRecordingFile& value) {
-      using JSignature = JScreenRecordingFile(jni::alias_ref<jni::JString>, jni::alias_ref<jni::JString>, double, double, jboolean, jni::alias_ref<JAudioRecordingFile>, jni::alias_ref<JAudioRecordingFile>);
+      using JSignature = JScreenRecordingFile(jni::alias_ref<jni::JString>, jni::alias_ref<jni::JString>, double, double, jboolean, jni::alias_ref<JAudioRecordingFile>, jni::alias_ref<JAudioRecordingFile>, jni::alias_ref<jni::JArrayClass<JRecordingMarker>>, jni::alias_ref<jni::JString>);
       static const auto clazz = javaClassStatic();
       static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
       return create(
@@ -76,7 +96,17 @@ namespace margelo::nitro::nitroscreenrecorder {
         value.duration,
         value.enabledMicrophone,
         value.audioFile.has_value() ? JAudioRecordingFile::fromCpp(value.audioFile.value()) : nullptr,
-        value.appAudioFile.has_value() ? JAudioRecordingFile::fromCpp(value.appAudioFile.value()) : nullptr
+        value.appAudioFile.has_value() ? JAudioRecordingFile::fromCpp(value.appAudioFile.value()) : nullptr,
+        value.markers.has_value() ? [&]() {
+          size_t __size = value.markers.value().size();
+          jni::local_ref<jni::JArrayClass<JRecordingMarker>> __array = jni::JArrayClass<JRecordingMarker>::newArray(__size);
+          for (size_t __i = 0; __i < __size; __i++) {
+            const auto& __element = value.markers.value()[__i];
+            __array->setElement(__i, *JRecordingMarker::fromCpp(__element));
+          }
+          return __array;
+        }() : nullptr,
+        value.markersFile.has_value() ? jni::make_jstring(value.markersFile.value()) : nullptr
       );
     }
   };
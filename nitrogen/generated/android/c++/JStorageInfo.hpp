@@ -0,0 +1,61 @@
+///
+/// JStorageInfo.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "StorageInfo.hpp"
+
+
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ struct "StorageInfo" and the the Kotlin data class "StorageInfo".
+   */
+  struct JStorageInfo final: public jni::JavaClass<JStorageInfo> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/StorageInfo;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based struct to the C++ struct StorageInfo by copying all values to C++.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    StorageInfo toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldFreeBytes = clazz->getField<double>("freeBytes");
+      double freeBytes = this->getFieldValue(fieldFreeBytes);
+      static const auto fieldTotalBytes = clazz->getField<double>("totalBytes");
+      double totalBytes = this->getFieldValue(fieldTotalBytes);
+      return StorageInfo(
+        freeBytes,
+        totalBytes
+      );
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based struct by copying all values from the given C++ struct to Java.
+     */
+    [[maybe_unused]]
+    static jni::local_ref<JStorageInfo::javaobject> fromCpp(const StorageInfo& value) {
+      using JSignature = JStorageInfo(double, double);
+      static const auto clazz = javaClassStatic();
+      static const auto create = clazz->getStaticMethod<JSignature>("fromCpp");
+      return create(
+        clazz,
+        value.freeBytes,
+        value.totalBytes
+      );
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -0,0 +1,62 @@
+///
+/// JVideoCodec.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#include <fbjni/fbjni.h>
+#include "VideoCodec.hpp"
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  using namespace facebook;
+
+  /**
+   * The C++ JNI bridge between the C++ enum "VideoCodec" and the the Kotlin enum "VideoCodec".
+   */
+  struct JVideoCodec final: public jni::JavaClass<JVideoCodec> {
+  public:
+    static auto constexpr kJavaDescriptor = "Lcom/margelo/nitro/nitroscreenrecorder/VideoCodec;";
+
+  public:
+    /**
+     * Convert this Java/Kotlin-based enum to the C++ enum VideoCodec.
+     */
+    [[maybe_unused]]
+    [[nodiscard]]
+    VideoCodec toCpp() const {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldOrdinal = clazz->getField<int>("value");
+      int ordinal = this->getFieldValue(fieldOrdinal);
+      return static_cast<VideoCodec>(ordinal);
+    }
+
+  public:
+    /**
+     * Create a Java/Kotlin-based enum with the given C++ enum's value.
+     */
+    [[maybe_unused]]
+    static jni::alias_ref<JVideoCodec> fromCpp(VideoCodec value) {
+      static const auto clazz = javaClassStatic();
+      static const auto fieldAUTO = clazz->getStaticField<JVideoCodec>("AUTO");
+      static const auto fieldHEVC = clazz->getStaticField<JVideoCodec>("HEVC");
+      static const auto fieldH264 = clazz->getStaticField<JVideoCodec>("H264");
+      
+      switch (value) {
+        case VideoCodec::AUTO:
+          return clazz->getStaticFieldValue(fieldAUTO);
+        case VideoCodec::HEVC:
+          return clazz->getStaticFieldValue(fieldHEVC);
+        case VideoCodec::H264:
+          return clazz->getStaticFieldValue(fieldH264);
+        default:
+          std::string stringValue = std::to_string(static_cast<int>(value));
+          throw std::invalid_argument("Invalid enum value (" + stringValue + "!");
+      }
+    }
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
@@ -0,0 +1,41 @@
+///
+/// ChunkReadyEvent.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "ChunkReadyEvent".
+ */
+@DoNotStrip
+@Keep
+data class ChunkReadyEvent(
+  @DoNotStrip
+  @Keep
+  val chunkId: String?,
+  @DoNotStrip
+  @Keep
+  val file: ScreenRecordingFile
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(chunkId: String?, file: ScreenRecordingFile): ChunkReadyEvent {
+      return ChunkReadyEvent(chunkId, file)
+    }
+  }
+}
@@ -88,12 +88,38 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @Keep
   abstract fun removeBroadcastPickerListener(id: Double): Unit
   
-  abstract fun startInAppRecording(enableMic: Boolean, enableCamera: Boolean, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Boolean, onRecordingFinished: (file: ScreenRecordingFile) -> Unit): Unit
+  abstract fun addChunkListener(callback: (event: ChunkReadyEvent) -> Unit): Double
   
   @DoNotStrip
   @Keep
-  private fun startInAppRecording_cxx(enableMic: Boolean, enableCamera: Boolean, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Boolean, onRecordingFinished: Func_void_ScreenRecordingFile): Unit {
-    val __result = startInAppRecording(enableMic, enableCamera, cameraPreviewStyle, cameraDevice, separateAudioFile, onRecordingFinished)
+  private fun addChunkListener_cxx(callback: Func_void_ChunkReadyEvent): Double {
+    val __result = addChunkListener(callback)
+    return __result
+  }
+  
+  @DoNotStrip
+  @Keep
+  abstract fun removeChunkListener(id: Double): Unit
+  
+  abstract fun addExtensionStatusListener(callback: (status: RawExtensionStatus) -> Unit): Double
+  
+  @DoNotStrip
+  @Keep
+  private fun addExtensionStatusListener_cxx(callback: Func_void_RawExtensionStatus): Double {
+    val __result = addExtensionStatusListener(callback)
+    return __result
+  }
+  
+  @DoNotStrip
+  @Keep
+  abstract fun removeExtensionStatusListener(id: Double): Unit
+  
+  abstract fun startInAppRecording(enableMic: Boolean, enableCamera: Boolean, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Boolean, limits: RecordingLimits, onRecordingFinished: (file: ScreenRecordingFile) -> Unit): Unit
+  
+  @DoNotStrip
+  @Keep
+  private fun startInAppRecording_cxx(enableMic: Boolean, enableCamera: Boolean, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Boolean, limits: RecordingLimits, onRecordingFinished: Func_void_ScreenRecordingFile): Unit {
+    val __result = startInAppRecording(enableMic, enableCamera, cameraPreviewStyle, cameraDevice, separateAudioFile, limits, onRecordingFinished)
     return __result
   }
   
@@ -105,12 +131,12 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @Keep
   abstract fun cancelInAppRecording(): Promise<Unit>
   
-  abstract fun startGlobalRecording(enableMic: Boolean, separateAudioFile: Boolean, onRecordingError: (error: RecordingError) -> Unit): Unit
+  abstract fun startGlobalRecording(enableMic: Boolean, separateAudioFile: Boolean, videoSettings: RecordingVideoSettings, limits: RecordingLimits, onRecordingError: (error: RecordingError) -> Unit): Unit
   
   @DoNotStrip
   @Keep
-  private fun startGlobalRecording_cxx(enableMic: Boolean, separateAudioFile: Boolean, onRecordingError: Func_void_RecordingError): Unit {
-    val __result = startGlobalRecording(enableMic, separateAudioFile, onRecordingError)
+  private fun startGlobalRecording_cxx(enableMic: Boolean, separateAudioFile: Boolean, videoSettings: RecordingVideoSettings, limits: RecordingLimits, onRecordingError: Func_void_RecordingError): Unit {
+    val __result = startGlobalRecording(enableMic, separateAudioFile, videoSettings, limits, onRecordingError)
     return __result
   }
   
@@ -126,6 +152,10 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @Keep
   abstract fun finalizeChunk(chunkId: String?, settledTimeMs: Double): Promise<ScreenRecordingFile?>
   
+  @DoNotStrip
+  @Keep
+  abstract fun rotateChunk(chunkId: String?, nextChunkId: String?, settledTimeMs: Double): Promise<ScreenRecordingFile?>
+  
   @DoNotStrip
   @Keep
   abstract fun retrieveLastGlobalRecording(): ScreenRecordingFile?
@@ -134,6 +164,26 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @Keep
   abstract fun retrieveGlobalRecording(chunkId: String?): ScreenRecordingFile?
   
+  @DoNotStrip
+  @Keep
+  abstract fun listPendingChunks(): Array<PendingChunk>
+  
+  @DoNotStrip
+  @Keep
+  abstract fun claimPendingChunk(id: String): ScreenRecordingFile?
+  
+  @DoNotStrip
+  @Keep
+  abstract fun discardPendingChunk(id: String): Unit
+  
+  @DoNotStrip
+  @Keep
+  abstract fun pauseRecording(): Promise<Unit>
+  
+  @DoNotStrip
+  @Keep
+  abstract fun resumeRecording(): Promise<Unit>
+  
   @DoNotStrip
   @Keep
   abstract fun getExtensionStatus(): RawExtensionStatus
@@ -142,10 +192,30 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @Keep
   abstract fun isScreenBeingRecorded(): Boolean
   
+  @DoNotStrip
+  @Keep
+  abstract fun getCurrentChunkSize(): Double
+  
+  @DoNotStrip
+  @Keep
+  abstract fun getRecordingProgress(): RecordingProgress?
+  
+  @DoNotStrip
+  @Keep
+  abstract fun getStorageInfo(): StorageInfo
+  
   @DoNotStrip
   @Keep
   abstract fun getExtensionLogs(): Array<String>
   
+  @DoNotStrip
+  @Keep
+  abstract fun getExtensionLogEntries(): Array<RawExtensionLogEntry>
+  
+  @DoNotStrip
+  @Keep
+  abstract fun configureExtensionLogs(minLevel: String, maxEntries: Double): Unit
+  
   @DoNotStrip
   @Keep
   abstract fun clearExtensionLogs(): Unit
@@ -161,6 +231,38 @@ abstract class HybridNitroScreenRecorderSpec: HybridObject() {
   @DoNotStrip
   @Keep
   abstract fun clearRecordingCache(): Unit
+  
+  @DoNotStrip
+  @Keep
+  abstract fun concatenateRecordings(paths: Array<String>, startOffsetSec: Double): Promise<ScreenRecordingFile>
+  
+  @DoNotStrip
+  @Keep
+  abstract fun deleteRecordingFile(path: String): Unit
+  
+  @DoNotStrip
+  @Keep
+  abstract fun renameRecordingFile(path: String, name: String): String
+  
+  @DoNotStrip
+  @Keep
+  abstract fun moveRecordingFile(path: String, directory: String, name: String): String
+  
+  @DoNotStrip
+  @Keep
+  abstract fun recordingFileExists(path: String): Boolean
+  
+  @DoNotStrip
+  @Keep
+  abstract fun writeRecordingSidecar(path: String, extension: String, contents: String): String
+  
+  @DoNotStrip
+  @Keep
+  abstract fun readRecordingLibrary(): String
+  
+  @DoNotStrip
+  @Keep
+  abstract fun writeRecordingLibrary(manifest: String): Unit
 
   private external fun initHybrid(): HybridData
 
@@ -0,0 +1,50 @@
+///
+/// PendingChunk.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "PendingChunk".
+ */
+@DoNotStrip
+@Keep
+data class PendingChunk(
+  @DoNotStrip
+  @Keep
+  val id: String,
+  @DoNotStrip
+  @Keep
+  val chunkId: String?,
+  @DoNotStrip
+  @Keep
+  val createdAt: Double,
+  @DoNotStrip
+  @Keep
+  val size: Double,
+  @DoNotStrip
+  @Keep
+  val enabledMicrophone: Boolean
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(id: String, chunkId: String?, createdAt: Double, size: Double, enabledMicrophone: Boolean): PendingChunk {
+      return PendingChunk(id, chunkId, createdAt, size, enabledMicrophone)
+    }
+  }
+}
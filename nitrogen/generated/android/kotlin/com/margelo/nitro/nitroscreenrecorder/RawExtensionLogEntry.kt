@@ -0,0 +1,44 @@
+///
+/// RawExtensionLogEntry.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "RawExtensionLogEntry".
+ */
+@DoNotStrip
+@Keep
+data class RawExtensionLogEntry(
+  @DoNotStrip
+  @Keep
+  val timestamp: Double,
+  @DoNotStrip
+  @Keep
+  val level: String,
+  @DoNotStrip
+  @Keep
+  val message: String
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(timestamp: Double, level: String, message: String): RawExtensionLogEntry {
+      return RawExtensionLogEntry(timestamp, level, message)
+    }
+  }
+}
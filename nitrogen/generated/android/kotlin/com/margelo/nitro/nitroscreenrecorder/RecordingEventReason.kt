@@ -17,5 +17,9 @@ import com.facebook.proguard.annotations.DoNotStrip
 @Keep
 enum class RecordingEventReason(@DoNotStrip @Keep val value: Int) {
   BEGAN(0),
-  ENDED(1);
+  ENDED(1),
+  PAUSED(2),
+  RESUMED(3),
+  LIMITREACHED(4),
+  LOWSTORAGE(5);
 }
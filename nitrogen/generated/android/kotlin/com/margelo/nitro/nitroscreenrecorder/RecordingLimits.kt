@@ -0,0 +1,44 @@
+///
+/// RecordingLimits.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "RecordingLimits".
+ */
+@DoNotStrip
+@Keep
+data class RecordingLimits(
+  @DoNotStrip
+  @Keep
+  val maxDurationSec: Double,
+  @DoNotStrip
+  @Keep
+  val maxFileSizeBytes: Double,
+  @DoNotStrip
+  @Keep
+  val minFreeBytes: Double
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(maxDurationSec: Double, maxFileSizeBytes: Double, minFreeBytes: Double): RecordingLimits {
+      return RecordingLimits(maxDurationSec, maxFileSizeBytes, minFreeBytes)
+    }
+  }
+}
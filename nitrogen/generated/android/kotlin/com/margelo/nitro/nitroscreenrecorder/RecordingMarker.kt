@@ -0,0 +1,47 @@
+///
+/// RecordingMarker.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+import com.margelo.nitro.core.AnyMap
+
+/**
+ * Represents the JavaScript object/struct "RecordingMarker".
+ */
+@DoNotStrip
+@Keep
+data class RecordingMarker(
+  @DoNotStrip
+  @Keep
+  val label: String,
+  @DoNotStrip
+  @Keep
+  val timeSec: Double,
+  @DoNotStrip
+  @Keep
+  val createdAt: Double,
+  @DoNotStrip
+  @Keep
+  val metadata: AnyMap?
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(label: String, timeSec: Double, createdAt: Double, metadata: AnyMap?): RecordingMarker {
+      return RecordingMarker(label, timeSec, createdAt, metadata)
+    }
+  }
+}
@@ -0,0 +1,50 @@
+///
+/// RecordingProgress.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "RecordingProgress".
+ */
+@DoNotStrip
+@Keep
+data class RecordingProgress(
+  @DoNotStrip
+  @Keep
+  val type: RecordingEventType,
+  @DoNotStrip
+  @Keep
+  val elapsedSec: Double,
+  @DoNotStrip
+  @Keep
+  val bytesWritten: Double,
+  @DoNotStrip
+  @Keep
+  val framesWritten: Double?,
+  @DoNotStrip
+  @Keep
+  val droppedFrames: Double?
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(type: RecordingEventType, elapsedSec: Double, bytesWritten: Double, framesWritten: Double?, droppedFrames: Double?): RecordingProgress {
+      return RecordingProgress(type, elapsedSec, bytesWritten, framesWritten, droppedFrames)
+    }
+  }
+}
@@ -0,0 +1,50 @@
+///
+/// RecordingVideoSettings.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "RecordingVideoSettings".
+ */
+@DoNotStrip
+@Keep
+data class RecordingVideoSettings(
+  @DoNotStrip
+  @Keep
+  val maxLongSide: Double,
+  @DoNotStrip
+  @Keep
+  val bitrate: Double,
+  @DoNotStrip
+  @Keep
+  val fps: Double,
+  @DoNotStrip
+  @Keep
+  val codec: VideoCodec,
+  @DoNotStrip
+  @Keep
+  val keyframeIntervalSec: Double
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(maxLongSide: Double, bitrate: Double, fps: Double, codec: VideoCodec, keyframeIntervalSec: Double): RecordingVideoSettings {
+      return RecordingVideoSettings(maxLongSide, bitrate, fps, codec, keyframeIntervalSec)
+    }
+  }
+}
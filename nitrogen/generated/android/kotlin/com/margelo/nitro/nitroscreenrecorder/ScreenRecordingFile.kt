@@ -37,7 +37,13 @@ data class ScreenRecordingFile(
   val audioFile: AudioRecordingFile?,
   @DoNotStrip
   @Keep
-  val appAudioFile: AudioRecordingFile?
+  val appAudioFile: AudioRecordingFile?,
+  @DoNotStrip
+  @Keep
+  val markers: Array<RecordingMarker>?,
+  @DoNotStrip
+  @Keep
+  val markersFile: String?
 ) {
   /* primary constructor */
 
@@ -49,8 +55,8 @@ data class ScreenRecordingFile(
     @Keep
     @Suppress("unused")
     @JvmStatic
-    private fun fromCpp(path: String, name: String, size: Double, duration: Double, enabledMicrophone: Boolean, audioFile: AudioRecordingFile?, appAudioFile: AudioRecordingFile?): ScreenRecordingFile {
-      return ScreenRecordingFile(path, name, size, duration, enabledMicrophone, audioFile, appAudioFile)
+    private fun fromCpp(path: String, name: String, size: Double, duration: Double, enabledMicrophone: Boolean, audioFile: AudioRecordingFile?, appAudioFile: AudioRecordingFile?, markers: Array<RecordingMarker>?, markersFile: String?): ScreenRecordingFile {
+      return ScreenRecordingFile(path, name, size, duration, enabledMicrophone, audioFile, appAudioFile, markers, markersFile)
     }
   }
 }
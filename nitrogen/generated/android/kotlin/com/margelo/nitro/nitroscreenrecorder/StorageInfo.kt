@@ -0,0 +1,41 @@
+///
+/// StorageInfo.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+
+/**
+ * Represents the JavaScript object/struct "StorageInfo".
+ */
+@DoNotStrip
+@Keep
+data class StorageInfo(
+  @DoNotStrip
+  @Keep
+  val freeBytes: Double,
+  @DoNotStrip
+  @Keep
+  val totalBytes: Double
+) {
+  /* primary constructor */
+
+  private companion object {
+    /**
+     * Constructor called from C++
+     */
+    @DoNotStrip
+    @Keep
+    @Suppress("unused")
+    @JvmStatic
+    private fun fromCpp(freeBytes: Double, totalBytes: Double): StorageInfo {
+      return StorageInfo(freeBytes, totalBytes)
+    }
+  }
+}
@@ -0,0 +1,22 @@
+///
+/// VideoCodec.kt
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+package com.margelo.nitro.nitroscreenrecorder
+
+import androidx.annotation.Keep
+import com.facebook.proguard.annotations.DoNotStrip
+
+/**
+ * Represents the JavaScript enum/union "VideoCodec".
+ */
+@DoNotStrip
+@Keep
+enum class VideoCodec(@DoNotStrip @Keep val value: Int) {
+  AUTO(0),
+  HEVC(1),
+  H264(2);
+}
@@ -18,6 +18,8 @@
 #include "JHybridNitroScreenRecorderSpec.hpp"
 #include "JFunc_void_ScreenRecordingEvent.hpp"
 #include "JFunc_void_BroadcastPickerPresentationEvent.hpp"
+#include "JFunc_void_ChunkReadyEvent.hpp"
+#include "JFunc_void_RawExtensionStatus.hpp"
 #include "JFunc_void_ScreenRecordingFile.hpp"
 #include "JFunc_void_RecordingError.hpp"
 #include <NitroModules/DefaultConstructableObject.hpp>
@@ -34,6 +36,8 @@ int initialize(JavaVM* vm) {
     margelo::nitro::nitroscreenrecorder::JHybridNitroScreenRecorderSpec::registerNatives();
     margelo::nitro::nitroscreenrecorder::JFunc_void_ScreenRecordingEvent_cxx::registerNatives();
     margelo::nitro::nitroscreenrecorder::JFunc_void_BroadcastPickerPresentationEvent_cxx::registerNatives();
+    margelo::nitro::nitroscreenrecorder::JFunc_void_ChunkReadyEvent_cxx::registerNatives();
+    margelo::nitro::nitroscreenrecorder::JFunc_void_RawExtensionStatus_cxx::registerNatives();
     margelo::nitro::nitroscreenrecorder::JFunc_void_ScreenRecordingFile_cxx::registerNatives();
     margelo::nitro::nitroscreenrecorder::JFunc_void_RecordingError_cxx::registerNatives();
 
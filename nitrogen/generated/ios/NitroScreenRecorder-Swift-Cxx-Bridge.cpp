@@ -45,6 +45,22 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     };
   }
   
+  // pragma MARK: std::function<void(const ChunkReadyEvent& /* event */)>
+  Func_void_ChunkReadyEvent create_Func_void_ChunkReadyEvent(void* NON_NULL swiftClosureWrapper) noexcept {
+    auto swiftClosure = NitroScreenRecorder::Func_void_ChunkReadyEvent::fromUnsafe(swiftClosureWrapper);
+    return [swiftClosure = std::move(swiftClosure)](const ChunkReadyEvent& event) mutable -> void {
+      swiftClosure.call(event);
+    };
+  }
+  
+  // pragma MARK: std::function<void(const RawExtensionStatus& /* status */)>
+  Func_void_RawExtensionStatus create_Func_void_RawExtensionStatus(void* NON_NULL swiftClosureWrapper) noexcept {
+    auto swiftClosure = NitroScreenRecorder::Func_void_RawExtensionStatus::fromUnsafe(swiftClosureWrapper);
+    return [swiftClosure = std::move(swiftClosure)](const RawExtensionStatus& status) mutable -> void {
+      swiftClosure.call(status);
+    };
+  }
+  
   // pragma MARK: std::function<void(const ScreenRecordingFile& /* file */)>
   Func_void_ScreenRecordingFile create_Func_void_ScreenRecordingFile(void* NON_NULL swiftClosureWrapper) noexcept {
     auto swiftClosure = NitroScreenRecorder::Func_void_ScreenRecordingFile::fromUnsafe(swiftClosureWrapper);
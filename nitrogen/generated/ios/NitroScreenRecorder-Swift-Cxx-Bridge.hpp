@@ -12,12 +12,20 @@
 namespace margelo::nitro::nitroscreenrecorder { struct AudioRecordingFile; }
 // Forward declaration of `BroadcastPickerPresentationEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class BroadcastPickerPresentationEvent; }
+// Forward declaration of `CaptureMode` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class CaptureMode; }
+// Forward declaration of `ChunkReadyEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ChunkReadyEvent; }
 // Forward declaration of `HybridNitroScreenRecorderSpec` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { class HybridNitroScreenRecorderSpec; }
+// Forward declaration of `PendingChunk` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct PendingChunk; }
 // Forward declaration of `PermissionResponse` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct PermissionResponse; }
 // Forward declaration of `PermissionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class PermissionStatus; }
+// Forward declaration of `RawExtensionLogEntry` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionLogEntry; }
 // Forward declaration of `RawExtensionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 // Forward declaration of `RecordingError` to properly resolve imports.
@@ -26,10 +34,16 @@ namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventReason; }
 // Forward declaration of `RecordingEventType` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventType; }
+// Forward declaration of `RecordingMarker` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingMarker; }
+// Forward declaration of `RecordingProgress` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingProgress; }
 // Forward declaration of `ScreenRecordingEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingEvent; }
 // Forward declaration of `ScreenRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
+// Forward declaration of `StorageInfo` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct StorageInfo; }
 
 // Forward declarations of Swift defined types
 // Forward declaration of `HybridNitroScreenRecorderSpec_cxx` to properly resolve imports.
@@ -38,15 +52,23 @@ namespace NitroScreenRecorder { class HybridNitroScreenRecorderSpec_cxx; }
 // Include C++ defined types
 #include "AudioRecordingFile.hpp"
 #include "BroadcastPickerPresentationEvent.hpp"
+#include "CaptureMode.hpp"
+#include "ChunkReadyEvent.hpp"
 #include "HybridNitroScreenRecorderSpec.hpp"
+#include "PendingChunk.hpp"
 #include "PermissionResponse.hpp"
 #include "PermissionStatus.hpp"
+#include "RawExtensionLogEntry.hpp"
 #include "RawExtensionStatus.hpp"
 #include "RecordingError.hpp"
 #include "RecordingEventReason.hpp"
 #include "RecordingEventType.hpp"
+#include "RecordingMarker.hpp"
+#include "RecordingProgress.hpp"
 #include "ScreenRecordingEvent.hpp"
 #include "ScreenRecordingFile.hpp"
+#include "StorageInfo.hpp"
+#include <NitroModules/AnyMap.hpp>
 #include <NitroModules/Promise.hpp>
 #include <NitroModules/PromiseHolder.hpp>
 #include <NitroModules/Result.hpp>
@@ -163,18 +185,18 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return Func_void_BroadcastPickerPresentationEvent_Wrapper(std::move(value));
   }
   
-  // pragma MARK: std::optional<double>
+  // pragma MARK: std::optional<std::string>
   /**
-   * Specialized version of `std::optional<double>`.
+   * Specialized version of `std::optional<std::string>`.
    */
-  using std__optional_double_ = std::optional<double>;
-  inline std::optional<double> create_std__optional_double_(const double& value) noexcept {
-    return std::optional<double>(value);
+  using std__optional_std__string_ = std::optional<std::string>;
+  inline std::optional<std::string> create_std__optional_std__string_(const std::string& value) noexcept {
+    return std::optional<std::string>(value);
   }
-  inline bool has_value_std__optional_double_(const std::optional<double>& optional) noexcept {
+  inline bool has_value_std__optional_std__string_(const std::optional<std::string>& optional) noexcept {
     return optional.has_value();
   }
-  inline double get_std__optional_double_(const std::optional<double>& optional) noexcept {
+  inline std::string get_std__optional_std__string_(const std::optional<std::string>& optional) noexcept {
     return *optional;
   }
   
@@ -193,6 +215,106 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return *optional;
   }
   
+  // pragma MARK: std::optional<std::shared_ptr<AnyMap>>
+  /**
+   * Specialized version of `std::optional<std::shared_ptr<AnyMap>>`.
+   */
+  using std__optional_std__shared_ptr_AnyMap__ = std::optional<std::shared_ptr<AnyMap>>;
+  inline std::optional<std::shared_ptr<AnyMap>> create_std__optional_std__shared_ptr_AnyMap__(const std::shared_ptr<AnyMap>& value) noexcept {
+    return std::optional<std::shared_ptr<AnyMap>>(value);
+  }
+  inline bool has_value_std__optional_std__shared_ptr_AnyMap__(const std::optional<std::shared_ptr<AnyMap>>& optional) noexcept {
+    return optional.has_value();
+  }
+  inline std::shared_ptr<AnyMap> get_std__optional_std__shared_ptr_AnyMap__(const std::optional<std::shared_ptr<AnyMap>>& optional) noexcept {
+    return *optional;
+  }
+  
+  // pragma MARK: std::vector<RecordingMarker>
+  /**
+   * Specialized version of `std::vector<RecordingMarker>`.
+   */
+  using std__vector_RecordingMarker_ = std::vector<RecordingMarker>;
+  inline std::vector<RecordingMarker> create_std__vector_RecordingMarker_(size_t size) noexcept {
+    std::vector<RecordingMarker> vector;
+    vector.reserve(size);
+    return vector;
+  }
+  
+  // pragma MARK: std::optional<std::vector<RecordingMarker>>
+  /**
+   * Specialized version of `std::optional<std::vector<RecordingMarker>>`.
+   */
+  using std__optional_std__vector_RecordingMarker__ = std::optional<std::vector<RecordingMarker>>;
+  inline std::optional<std::vector<RecordingMarker>> create_std__optional_std__vector_RecordingMarker__(const std::vector<RecordingMarker>& value) noexcept {
+    return std::optional<std::vector<RecordingMarker>>(value);
+  }
+  inline bool has_value_std__optional_std__vector_RecordingMarker__(const std::optional<std::vector<RecordingMarker>>& optional) noexcept {
+    return optional.has_value();
+  }
+  inline std::vector<RecordingMarker> get_std__optional_std__vector_RecordingMarker__(const std::optional<std::vector<RecordingMarker>>& optional) noexcept {
+    return *optional;
+  }
+  
+  // pragma MARK: std::function<void(const ChunkReadyEvent& /* event */)>
+  /**
+   * Specialized version of `std::function<void(const ChunkReadyEvent&)>`.
+   */
+  using Func_void_ChunkReadyEvent = std::function<void(const ChunkReadyEvent& /* event */)>;
+  /**
+   * Wrapper class for a `std::function<void(const ChunkReadyEvent& / * event * /)>`, this can be used from Swift.
+   */
+  class Func_void_ChunkReadyEvent_Wrapper final {
+  public:
+    explicit Func_void_ChunkReadyEvent_Wrapper(std::function<void(const ChunkReadyEvent& /* event */)>&& func): _function(std::make_unique<std::function<void(const ChunkReadyEvent& /* event */)>>(std::move(func))) {}
+    inline void call(ChunkReadyEvent event) const noexcept {
+      _function->operator()(event);
+    }
+  private:
+    std::unique_ptr<std::function<void(const ChunkReadyEvent& /* event */)>> _function;
+  } SWIFT_NONCOPYABLE;
+  Func_void_ChunkReadyEvent create_Func_void_ChunkReadyEvent(void* NON_NULL swiftClosureWrapper) noexcept;
+  inline Func_void_ChunkReadyEvent_Wrapper wrap_Func_void_ChunkReadyEvent(Func_void_ChunkReadyEvent value) noexcept {
+    return Func_void_ChunkReadyEvent_Wrapper(std::move(value));
+  }
+  
+  // pragma MARK: std::function<void(const RawExtensionStatus& /* status */)>
+  /**
+   * Specialized version of `std::function<void(const RawExtensionStatus&)>`.
+   */
+  using Func_void_RawExtensionStatus = std::function<void(const RawExtensionStatus& /* status */)>;
+  /**
+   * Wrapper class for a `std::function<void(const RawExtensionStatus& / * status * /)>`, this can be used from Swift.
+   */
+  class Func_void_RawExtensionStatus_Wrapper final {
+  public:
+    explicit Func_void_RawExtensionStatus_Wrapper(std::function<void(const RawExtensionStatus& /* status */)>&& func): _function(std::make_unique<std::function<void(const RawExtensionStatus& /* status */)>>(std::move(func))) {}
+    inline void call(RawExtensionStatus status) const noexcept {
+      _function->operator()(status);
+    }
+  private:
+    std::unique_ptr<std::function<void(const RawExtensionStatus& /* status */)>> _function;
+  } SWIFT_NONCOPYABLE;
+  Func_void_RawExtensionStatus create_Func_void_RawExtensionStatus(void* NON_NULL swiftClosureWrapper) noexcept;
+  inline Func_void_RawExtensionStatus_Wrapper wrap_Func_void_RawExtensionStatus(Func_void_RawExtensionStatus value) noexcept {
+    return Func_void_RawExtensionStatus_Wrapper(std::move(value));
+  }
+  
+  // pragma MARK: std::optional<double>
+  /**
+   * Specialized version of `std::optional<double>`.
+   */
+  using std__optional_double_ = std::optional<double>;
+  inline std::optional<double> create_std__optional_double_(const double& value) noexcept {
+    return std::optional<double>(value);
+  }
+  inline bool has_value_std__optional_double_(const std::optional<double>& optional) noexcept {
+    return optional.has_value();
+  }
+  inline double get_std__optional_double_(const std::optional<double>& optional) noexcept {
+    return *optional;
+  }
+  
   // pragma MARK: std::function<void(const ScreenRecordingFile& /* file */)>
   /**
    * Specialized version of `std::function<void(const ScreenRecordingFile&)>`.
@@ -354,18 +476,29 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return Func_void_double_Wrapper(std::move(value));
   }
   
-  // pragma MARK: std::optional<std::string>
+  // pragma MARK: std::vector<PendingChunk>
   /**
-   * Specialized version of `std::optional<std::string>`.
+   * Specialized version of `std::vector<PendingChunk>`.
    */
-  using std__optional_std__string_ = std::optional<std::string>;
-  inline std::optional<std::string> create_std__optional_std__string_(const std::string& value) noexcept {
-    return std::optional<std::string>(value);
+  using std__vector_PendingChunk_ = std::vector<PendingChunk>;
+  inline std::vector<PendingChunk> create_std__vector_PendingChunk_(size_t size) noexcept {
+    std::vector<PendingChunk> vector;
+    vector.reserve(size);
+    return vector;
   }
-  inline bool has_value_std__optional_std__string_(const std::optional<std::string>& optional) noexcept {
+  
+  // pragma MARK: std::optional<RecordingProgress>
+  /**
+   * Specialized version of `std::optional<RecordingProgress>`.
+   */
+  using std__optional_RecordingProgress_ = std::optional<RecordingProgress>;
+  inline std::optional<RecordingProgress> create_std__optional_RecordingProgress_(const RecordingProgress& value) noexcept {
+    return std::optional<RecordingProgress>(value);
+  }
+  inline bool has_value_std__optional_RecordingProgress_(const std::optional<RecordingProgress>& optional) noexcept {
     return optional.has_value();
   }
-  inline std::string get_std__optional_std__string_(const std::optional<std::string>& optional) noexcept {
+  inline RecordingProgress get_std__optional_RecordingProgress_(const std::optional<RecordingProgress>& optional) noexcept {
     return *optional;
   }
   
@@ -380,6 +513,29 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return vector;
   }
   
+  // pragma MARK: std::vector<RawExtensionLogEntry>
+  /**
+   * Specialized version of `std::vector<RawExtensionLogEntry>`.
+   */
+  using std__vector_RawExtensionLogEntry_ = std::vector<RawExtensionLogEntry>;
+  inline std::vector<RawExtensionLogEntry> create_std__vector_RawExtensionLogEntry_(size_t size) noexcept {
+    std::vector<RawExtensionLogEntry> vector;
+    vector.reserve(size);
+    return vector;
+  }
+  
+  // pragma MARK: std::shared_ptr<Promise<ScreenRecordingFile>>
+  /**
+   * Specialized version of `std::shared_ptr<Promise<ScreenRecordingFile>>`.
+   */
+  using std__shared_ptr_Promise_ScreenRecordingFile__ = std::shared_ptr<Promise<ScreenRecordingFile>>;
+  inline std::shared_ptr<Promise<ScreenRecordingFile>> create_std__shared_ptr_Promise_ScreenRecordingFile__() noexcept {
+    return Promise<ScreenRecordingFile>::create();
+  }
+  inline PromiseHolder<ScreenRecordingFile> wrap_std__shared_ptr_Promise_ScreenRecordingFile__(std::shared_ptr<Promise<ScreenRecordingFile>> promise) noexcept {
+    return PromiseHolder<ScreenRecordingFile>(std::move(promise));
+  }
+  
   // pragma MARK: std::shared_ptr<HybridNitroScreenRecorderSpec>
   /**
    * Specialized version of `std::shared_ptr<HybridNitroScreenRecorderSpec>`.
@@ -464,6 +620,15 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return Result<std::optional<ScreenRecordingFile>>::withError(error);
   }
   
+  // pragma MARK: Result<std::vector<PendingChunk>>
+  using Result_std__vector_PendingChunk__ = Result<std::vector<PendingChunk>>;
+  inline Result_std__vector_PendingChunk__ create_Result_std__vector_PendingChunk__(const std::vector<PendingChunk>& value) noexcept {
+    return Result<std::vector<PendingChunk>>::withValue(value);
+  }
+  inline Result_std__vector_PendingChunk__ create_Result_std__vector_PendingChunk__(const std::exception_ptr& error) noexcept {
+    return Result<std::vector<PendingChunk>>::withError(error);
+  }
+  
   // pragma MARK: Result<RawExtensionStatus>
   using Result_RawExtensionStatus_ = Result<RawExtensionStatus>;
   inline Result_RawExtensionStatus_ create_Result_RawExtensionStatus_(const RawExtensionStatus& value) noexcept {
@@ -482,6 +647,24 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return Result<bool>::withError(error);
   }
   
+  // pragma MARK: Result<std::optional<RecordingProgress>>
+  using Result_std__optional_RecordingProgress__ = Result<std::optional<RecordingProgress>>;
+  inline Result_std__optional_RecordingProgress__ create_Result_std__optional_RecordingProgress__(const std::optional<RecordingProgress>& value) noexcept {
+    return Result<std::optional<RecordingProgress>>::withValue(value);
+  }
+  inline Result_std__optional_RecordingProgress__ create_Result_std__optional_RecordingProgress__(const std::exception_ptr& error) noexcept {
+    return Result<std::optional<RecordingProgress>>::withError(error);
+  }
+  
+  // pragma MARK: Result<StorageInfo>
+  using Result_StorageInfo_ = Result<StorageInfo>;
+  inline Result_StorageInfo_ create_Result_StorageInfo_(const StorageInfo& value) noexcept {
+    return Result<StorageInfo>::withValue(value);
+  }
+  inline Result_StorageInfo_ create_Result_StorageInfo_(const std::exception_ptr& error) noexcept {
+    return Result<StorageInfo>::withError(error);
+  }
+  
   // pragma MARK: Result<std::vector<std::string>>
   using Result_std__vector_std__string__ = Result<std::vector<std::string>>;
   inline Result_std__vector_std__string__ create_Result_std__vector_std__string__(const std::vector<std::string>& value) noexcept {
@@ -491,6 +674,15 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
     return Result<std::vector<std::string>>::withError(error);
   }
   
+  // pragma MARK: Result<std::vector<RawExtensionLogEntry>>
+  using Result_std__vector_RawExtensionLogEntry__ = Result<std::vector<RawExtensionLogEntry>>;
+  inline Result_std__vector_RawExtensionLogEntry__ create_Result_std__vector_RawExtensionLogEntry__(const std::vector<RawExtensionLogEntry>& value) noexcept {
+    return Result<std::vector<RawExtensionLogEntry>>::withValue(value);
+  }
+  inline Result_std__vector_RawExtensionLogEntry__ create_Result_std__vector_RawExtensionLogEntry__(const std::exception_ptr& error) noexcept {
+    return Result<std::vector<RawExtensionLogEntry>>::withError(error);
+  }
+  
   // pragma MARK: Result<std::string>
   using Result_std__string_ = Result<std::string>;
   inline Result_std__string_ create_Result_std__string_(const std::string& value) noexcept {
@@ -499,5 +691,14 @@ namespace margelo::nitro::nitroscreenrecorder::bridge::swift {
   inline Result_std__string_ create_Result_std__string_(const std::exception_ptr& error) noexcept {
     return Result<std::string>::withError(error);
   }
+  
+  // pragma MARK: Result<std::shared_ptr<Promise<ScreenRecordingFile>>>
+  using Result_std__shared_ptr_Promise_ScreenRecordingFile___ = Result<std::shared_ptr<Promise<ScreenRecordingFile>>>;
+  inline Result_std__shared_ptr_Promise_ScreenRecordingFile___ create_Result_std__shared_ptr_Promise_ScreenRecordingFile___(const std::shared_ptr<Promise<ScreenRecordingFile>>& value) noexcept {
+    return Result<std::shared_ptr<Promise<ScreenRecordingFile>>>::withValue(value);
+  }
+  inline Result_std__shared_ptr_Promise_ScreenRecordingFile___ create_Result_std__shared_ptr_Promise_ScreenRecordingFile___(const std::exception_ptr& error) noexcept {
+    return Result<std::shared_ptr<Promise<ScreenRecordingFile>>>::withError(error);
+  }
 
 } // namespace margelo::nitro::nitroscreenrecorder::bridge::swift
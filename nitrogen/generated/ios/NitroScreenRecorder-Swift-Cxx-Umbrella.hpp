@@ -16,12 +16,18 @@ namespace margelo::nitro::nitroscreenrecorder { enum class BroadcastPickerPresen
 namespace margelo::nitro::nitroscreenrecorder { enum class CameraDevice; }
 // Forward declaration of `CaptureMode` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class CaptureMode; }
+// Forward declaration of `ChunkReadyEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ChunkReadyEvent; }
 // Forward declaration of `HybridNitroScreenRecorderSpec` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { class HybridNitroScreenRecorderSpec; }
+// Forward declaration of `PendingChunk` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct PendingChunk; }
 // Forward declaration of `PermissionResponse` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct PermissionResponse; }
 // Forward declaration of `PermissionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class PermissionStatus; }
+// Forward declaration of `RawExtensionLogEntry` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionLogEntry; }
 // Forward declaration of `RawExtensionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 // Forward declaration of `RecorderCameraStyle` to properly resolve imports.
@@ -32,26 +38,48 @@ namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventReason; }
 // Forward declaration of `RecordingEventType` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventType; }
+// Forward declaration of `RecordingLimits` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingLimits; }
+// Forward declaration of `RecordingMarker` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingMarker; }
+// Forward declaration of `RecordingProgress` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingProgress; }
+// Forward declaration of `RecordingVideoSettings` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingVideoSettings; }
 // Forward declaration of `ScreenRecordingEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingEvent; }
 // Forward declaration of `ScreenRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
+// Forward declaration of `StorageInfo` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct StorageInfo; }
+// Forward declaration of `VideoCodec` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class VideoCodec; }
 
 // Include C++ defined types
 #include "AudioRecordingFile.hpp"
 #include "BroadcastPickerPresentationEvent.hpp"
 #include "CameraDevice.hpp"
 #include "CaptureMode.hpp"
+#include "ChunkReadyEvent.hpp"
 #include "HybridNitroScreenRecorderSpec.hpp"
+#include "PendingChunk.hpp"
 #include "PermissionResponse.hpp"
 #include "PermissionStatus.hpp"
+#include "RawExtensionLogEntry.hpp"
 #include "RawExtensionStatus.hpp"
 #include "RecorderCameraStyle.hpp"
 #include "RecordingError.hpp"
 #include "RecordingEventReason.hpp"
 #include "RecordingEventType.hpp"
+#include "RecordingLimits.hpp"
+#include "RecordingMarker.hpp"
+#include "RecordingProgress.hpp"
+#include "RecordingVideoSettings.hpp"
 #include "ScreenRecordingEvent.hpp"
 #include "ScreenRecordingFile.hpp"
+#include "StorageInfo.hpp"
+#include "VideoCodec.hpp"
+#include <NitroModules/AnyMap.hpp>
 #include <NitroModules/Promise.hpp>
 #include <NitroModules/Result.hpp>
 #include <exception>
@@ -24,20 +24,38 @@ namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventType; }
 namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventReason; }
 // Forward declaration of `BroadcastPickerPresentationEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class BroadcastPickerPresentationEvent; }
-// Forward declaration of `RecorderCameraStyle` to properly resolve imports.
-namespace margelo::nitro::nitroscreenrecorder { struct RecorderCameraStyle; }
-// Forward declaration of `CameraDevice` to properly resolve imports.
-namespace margelo::nitro::nitroscreenrecorder { enum class CameraDevice; }
+// Forward declaration of `ChunkReadyEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ChunkReadyEvent; }
 // Forward declaration of `ScreenRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
 // Forward declaration of `AudioRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct AudioRecordingFile; }
-// Forward declaration of `RecordingError` to properly resolve imports.
-namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
+// Forward declaration of `RecordingMarker` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingMarker; }
 // Forward declaration of `RawExtensionStatus` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 // Forward declaration of `CaptureMode` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class CaptureMode; }
+// Forward declaration of `RecorderCameraStyle` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecorderCameraStyle; }
+// Forward declaration of `CameraDevice` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class CameraDevice; }
+// Forward declaration of `RecordingLimits` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingLimits; }
+// Forward declaration of `RecordingVideoSettings` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingVideoSettings; }
+// Forward declaration of `VideoCodec` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class VideoCodec; }
+// Forward declaration of `RecordingError` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
+// Forward declaration of `PendingChunk` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct PendingChunk; }
+// Forward declaration of `RecordingProgress` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingProgress; }
+// Forward declaration of `StorageInfo` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct StorageInfo; }
+// Forward declaration of `RawExtensionLogEntry` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionLogEntry; }
 
 #include "PermissionStatus.hpp"
 #include "PermissionResponse.hpp"
@@ -47,16 +65,26 @@ namespace margelo::nitro::nitroscreenrecorder { enum class CaptureMode; }
 #include "RecordingEventType.hpp"
 #include "RecordingEventReason.hpp"
 #include "BroadcastPickerPresentationEvent.hpp"
-#include "RecorderCameraStyle.hpp"
+#include "ChunkReadyEvent.hpp"
+#include <string>
 #include <optional>
-#include "CameraDevice.hpp"
 #include "ScreenRecordingFile.hpp"
-#include <string>
 #include "AudioRecordingFile.hpp"
-#include "RecordingError.hpp"
+#include "RecordingMarker.hpp"
+#include <vector>
+#include <NitroModules/AnyMap.hpp>
 #include "RawExtensionStatus.hpp"
 #include "CaptureMode.hpp"
-#include <vector>
+#include "RecorderCameraStyle.hpp"
+#include "CameraDevice.hpp"
+#include "RecordingLimits.hpp"
+#include "RecordingVideoSettings.hpp"
+#include "VideoCodec.hpp"
+#include "RecordingError.hpp"
+#include "PendingChunk.hpp"
+#include "RecordingProgress.hpp"
+#include "StorageInfo.hpp"
+#include "RawExtensionLogEntry.hpp"
 
 #include "NitroScreenRecorder-Swift-Cxx-Umbrella.hpp"
 
@@ -162,8 +190,36 @@ namespace margelo::nitro::nitroscreenrecorder {
         std::rethrow_exception(__result.error());
       }
     }
-    inline void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) override {
-      auto __result = _swiftPart.startInAppRecording(std::forward<decltype(enableMic)>(enableMic), std::forward<decltype(enableCamera)>(enableCamera), std::forward<decltype(cameraPreviewStyle)>(cameraPreviewStyle), static_cast<int>(cameraDevice), std::forward<decltype(separateAudioFile)>(separateAudioFile), onRecordingFinished);
+    inline double addChunkListener(const std::function<void(const ChunkReadyEvent& /* event */)>& callback) override {
+      auto __result = _swiftPart.addChunkListener(callback);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void removeChunkListener(double id) override {
+      auto __result = _swiftPart.removeChunkListener(std::forward<decltype(id)>(id));
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
+    inline double addExtensionStatusListener(const std::function<void(const RawExtensionStatus& /* status */)>& callback) override {
+      auto __result = _swiftPart.addExtensionStatusListener(callback);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void removeExtensionStatusListener(double id) override {
+      auto __result = _swiftPart.removeExtensionStatusListener(std::forward<decltype(id)>(id));
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
+    inline void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const RecordingLimits& limits, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) override {
+      auto __result = _swiftPart.startInAppRecording(std::forward<decltype(enableMic)>(enableMic), std::forward<decltype(enableCamera)>(enableCamera), std::forward<decltype(cameraPreviewStyle)>(cameraPreviewStyle), static_cast<int>(cameraDevice), std::forward<decltype(separateAudioFile)>(separateAudioFile), std::forward<decltype(limits)>(limits), onRecordingFinished);
       if (__result.hasError()) [[unlikely]] {
         std::rethrow_exception(__result.error());
       }
@@ -184,8 +240,8 @@ namespace margelo::nitro::nitroscreenrecorder {
       auto __value = std::move(__result.value());
       return __value;
     }
-    inline void startGlobalRecording(bool enableMic, bool separateAudioFile, const std::function<void(const RecordingError& /* error */)>& onRecordingError) override {
-      auto __result = _swiftPart.startGlobalRecording(std::forward<decltype(enableMic)>(enableMic), std::forward<decltype(separateAudioFile)>(separateAudioFile), onRecordingError);
+    inline void startGlobalRecording(bool enableMic, bool separateAudioFile, const RecordingVideoSettings& videoSettings, const RecordingLimits& limits, const std::function<void(const RecordingError& /* error */)>& onRecordingError) override {
+      auto __result = _swiftPart.startGlobalRecording(std::forward<decltype(enableMic)>(enableMic), std::forward<decltype(separateAudioFile)>(separateAudioFile), std::forward<decltype(videoSettings)>(videoSettings), std::forward<decltype(limits)>(limits), onRecordingError);
       if (__result.hasError()) [[unlikely]] {
         std::rethrow_exception(__result.error());
       }
@@ -214,6 +270,14 @@ namespace margelo::nitro::nitroscreenrecorder {
       auto __value = std::move(__result.value());
       return __value;
     }
+    inline std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> rotateChunk(const std::optional<std::string>& chunkId, const std::optional<std::string>& nextChunkId, double settledTimeMs) override {
+      auto __result = _swiftPart.rotateChunk(chunkId, nextChunkId, std::forward<decltype(settledTimeMs)>(settledTimeMs));
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
     inline std::optional<ScreenRecordingFile> retrieveLastGlobalRecording() override {
       auto __result = _swiftPart.retrieveLastGlobalRecording();
       if (__result.hasError()) [[unlikely]] {
@@ -230,6 +294,44 @@ namespace margelo::nitro::nitroscreenrecorder {
       auto __value = std::move(__result.value());
       return __value;
     }
+    inline std::vector<PendingChunk> listPendingChunks() override {
+      auto __result = _swiftPart.listPendingChunks();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::optional<ScreenRecordingFile> claimPendingChunk(const std::string& id) override {
+      auto __result = _swiftPart.claimPendingChunk(id);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void discardPendingChunk(const std::string& id) override {
+      auto __result = _swiftPart.discardPendingChunk(id);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
+    inline std::shared_ptr<Promise<void>> pauseRecording() override {
+      auto __result = _swiftPart.pauseRecording();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::shared_ptr<Promise<void>> resumeRecording() override {
+      auto __result = _swiftPart.resumeRecording();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
     inline RawExtensionStatus getExtensionStatus() override {
       auto __result = _swiftPart.getExtensionStatus();
       if (__result.hasError()) [[unlikely]] {
@@ -246,6 +348,30 @@ namespace margelo::nitro::nitroscreenrecorder {
       auto __value = std::move(__result.value());
       return __value;
     }
+    inline double getCurrentChunkSize() override {
+      auto __result = _swiftPart.getCurrentChunkSize();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::optional<RecordingProgress> getRecordingProgress() override {
+      auto __result = _swiftPart.getRecordingProgress();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline StorageInfo getStorageInfo() override {
+      auto __result = _swiftPart.getStorageInfo();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
     inline std::vector<std::string> getExtensionLogs() override {
       auto __result = _swiftPart.getExtensionLogs();
       if (__result.hasError()) [[unlikely]] {
@@ -254,6 +380,20 @@ namespace margelo::nitro::nitroscreenrecorder {
       auto __value = std::move(__result.value());
       return __value;
     }
+    inline std::vector<RawExtensionLogEntry> getExtensionLogEntries() override {
+      auto __result = _swiftPart.getExtensionLogEntries();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void configureExtensionLogs(const std::string& minLevel, double maxEntries) override {
+      auto __result = _swiftPart.configureExtensionLogs(minLevel, std::forward<decltype(maxEntries)>(maxEntries));
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
     inline void clearExtensionLogs() override {
       auto __result = _swiftPart.clearExtensionLogs();
       if (__result.hasError()) [[unlikely]] {
@@ -280,6 +420,66 @@ namespace margelo::nitro::nitroscreenrecorder {
         std::rethrow_exception(__result.error());
       }
     }
+    inline std::shared_ptr<Promise<ScreenRecordingFile>> concatenateRecordings(const std::vector<std::string>& paths, double startOffsetSec) override {
+      auto __result = _swiftPart.concatenateRecordings(paths, std::forward<decltype(startOffsetSec)>(startOffsetSec));
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void deleteRecordingFile(const std::string& path) override {
+      auto __result = _swiftPart.deleteRecordingFile(path);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
+    inline std::string renameRecordingFile(const std::string& path, const std::string& name) override {
+      auto __result = _swiftPart.renameRecordingFile(path, name);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::string moveRecordingFile(const std::string& path, const std::string& directory, const std::string& name) override {
+      auto __result = _swiftPart.moveRecordingFile(path, directory, name);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline bool recordingFileExists(const std::string& path) override {
+      auto __result = _swiftPart.recordingFileExists(path);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::string writeRecordingSidecar(const std::string& path, const std::string& extension, const std::string& contents) override {
+      auto __result = _swiftPart.writeRecordingSidecar(path, extension, contents);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline std::string readRecordingLibrary() override {
+      auto __result = _swiftPart.readRecordingLibrary();
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+      auto __value = std::move(__result.value());
+      return __value;
+    }
+    inline void writeRecordingLibrary(const std::string& manifest) override {
+      auto __result = _swiftPart.writeRecordingLibrary(manifest);
+      if (__result.hasError()) [[unlikely]] {
+        std::rethrow_exception(__result.error());
+      }
+    }
 
   private:
     NitroScreenRecorder::HybridNitroScreenRecorderSpec_cxx _swiftPart;
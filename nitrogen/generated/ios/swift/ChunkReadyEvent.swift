@@ -0,0 +1,65 @@
+///
+/// ChunkReadyEvent.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `ChunkReadyEvent`, backed by a C++ struct.
+ */
+public typealias ChunkReadyEvent = margelo.nitro.nitroscreenrecorder.ChunkReadyEvent
+
+public extension ChunkReadyEvent {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `ChunkReadyEvent`.
+   */
+  init(chunkId: String?, file: ScreenRecordingFile) {
+    self.init({ () -> bridge.std__optional_std__string_ in
+      if let __unwrappedValue = chunkId {
+        return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+      } else {
+        return .init()
+      }
+    }(), file)
+  }
+
+  var chunkId: String? {
+    @inline(__always)
+    get {
+      return { () -> String? in
+        if bridge.has_value_std__optional_std__string_(self.__chunkId) {
+          let __unwrapped = bridge.get_std__optional_std__string_(self.__chunkId)
+          return String(__unwrapped)
+        } else {
+          return nil
+        }
+      }()
+    }
+    @inline(__always)
+    set {
+      self.__chunkId = { () -> bridge.std__optional_std__string_ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+  
+  var file: ScreenRecordingFile {
+    @inline(__always)
+    get {
+      return self.__file
+    }
+    @inline(__always)
+    set {
+      self.__file = newValue
+    }
+  }
+}
@@ -0,0 +1,47 @@
+///
+/// Func_void_ChunkReadyEvent.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+
+/**
+ * Wraps a Swift `(_ event: ChunkReadyEvent) -> Void` as a class.
+ * This class can be used from C++, e.g. to wrap the Swift closure as a `std::function`.
+ */
+public final class Func_void_ChunkReadyEvent {
+  public typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  private let closure: (_ event: ChunkReadyEvent) -> Void
+
+  public init(_ closure: @escaping (_ event: ChunkReadyEvent) -> Void) {
+    self.closure = closure
+  }
+
+  @inline(__always)
+  public func call(event: ChunkReadyEvent) -> Void {
+    self.closure(event)
+  }
+
+  /**
+   * Casts this instance to a retained unsafe raw pointer.
+   * This acquires one additional strong reference on the object!
+   */
+  @inline(__always)
+  public func toUnsafe() -> UnsafeMutableRawPointer {
+    return Unmanaged.passRetained(self).toOpaque()
+  }
+
+  /**
+   * Casts an unsafe pointer to a `Func_void_ChunkReadyEvent`.
+   * The pointer has to be a retained opaque `Unmanaged<Func_void_ChunkReadyEvent>`.
+   * This removes one strong reference from the object!
+   */
+  @inline(__always)
+  public static func fromUnsafe(_ pointer: UnsafeMutableRawPointer) -> Func_void_ChunkReadyEvent {
+    return Unmanaged<Func_void_ChunkReadyEvent>.fromOpaque(pointer).takeRetainedValue()
+  }
+}
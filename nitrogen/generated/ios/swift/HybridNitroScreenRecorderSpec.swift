@@ -23,22 +23,45 @@ public protocol HybridNitroScreenRecorderSpec_protocol: HybridObject {
   func removeScreenRecordingListener(id: Double) throws -> Void
   func addBroadcastPickerListener(callback: @escaping (_ event: BroadcastPickerPresentationEvent) -> Void) throws -> Double
   func removeBroadcastPickerListener(id: Double) throws -> Void
-  func startInAppRecording(enableMic: Bool, enableCamera: Bool, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Bool, onRecordingFinished: @escaping (_ file: ScreenRecordingFile) -> Void) throws -> Void
+  func addChunkListener(callback: @escaping (_ event: ChunkReadyEvent) -> Void) throws -> Double
+  func removeChunkListener(id: Double) throws -> Void
+  func addExtensionStatusListener(callback: @escaping (_ status: RawExtensionStatus) -> Void) throws -> Double
+  func removeExtensionStatusListener(id: Double) throws -> Void
+  func startInAppRecording(enableMic: Bool, enableCamera: Bool, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: CameraDevice, separateAudioFile: Bool, limits: RecordingLimits, onRecordingFinished: @escaping (_ file: ScreenRecordingFile) -> Void) throws -> Void
   func stopInAppRecording() throws -> Promise<ScreenRecordingFile?>
   func cancelInAppRecording() throws -> Promise<Void>
-  func startGlobalRecording(enableMic: Bool, separateAudioFile: Bool, onRecordingError: @escaping (_ error: RecordingError) -> Void) throws -> Void
+  func startGlobalRecording(enableMic: Bool, separateAudioFile: Bool, videoSettings: RecordingVideoSettings, limits: RecordingLimits, onRecordingError: @escaping (_ error: RecordingError) -> Void) throws -> Void
   func stopGlobalRecording(settledTimeMs: Double) throws -> Promise<ScreenRecordingFile?>
   func markChunkStart(chunkId: String?) throws -> Promise<Double>
   func finalizeChunk(chunkId: String?, settledTimeMs: Double) throws -> Promise<ScreenRecordingFile?>
+  func rotateChunk(chunkId: String?, nextChunkId: String?, settledTimeMs: Double) throws -> Promise<ScreenRecordingFile?>
   func retrieveLastGlobalRecording() throws -> ScreenRecordingFile?
   func retrieveGlobalRecording(chunkId: String?) throws -> ScreenRecordingFile?
+  func listPendingChunks() throws -> [PendingChunk]
+  func claimPendingChunk(id: String) throws -> ScreenRecordingFile?
+  func discardPendingChunk(id: String) throws -> Void
+  func pauseRecording() throws -> Promise<Void>
+  func resumeRecording() throws -> Promise<Void>
   func getExtensionStatus() throws -> RawExtensionStatus
   func isScreenBeingRecorded() throws -> Bool
+  func getCurrentChunkSize() throws -> Double
+  func getRecordingProgress() throws -> RecordingProgress?
+  func getStorageInfo() throws -> StorageInfo
   func getExtensionLogs() throws -> [String]
+  func getExtensionLogEntries() throws -> [RawExtensionLogEntry]
+  func configureExtensionLogs(minLevel: String, maxEntries: Double) throws -> Void
   func clearExtensionLogs() throws -> Void
   func getExtensionAudioMetrics() throws -> String
   func clearExtensionAudioMetrics() throws -> Void
   func clearRecordingCache() throws -> Void
+  func concatenateRecordings(paths: [String], startOffsetSec: Double) throws -> Promise<ScreenRecordingFile>
+  func deleteRecordingFile(path: String) throws -> Void
+  func renameRecordingFile(path: String, name: String) throws -> String
+  func moveRecordingFile(path: String, directory: String, name: String) throws -> String
+  func recordingFileExists(path: String) throws -> Bool
+  func writeRecordingSidecar(path: String, extension: String, contents: String) throws -> String
+  func readRecordingLibrary() throws -> String
+  func writeRecordingLibrary(manifest: String) throws -> Void
 }
 
 public extension HybridNitroScreenRecorderSpec_protocol {
@@ -237,9 +237,65 @@ open class HybridNitroScreenRecorderSpec_cxx {
   }
   
   @inline(__always)
-  public final func startInAppRecording(enableMic: Bool, enableCamera: Bool, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: Int32, separateAudioFile: Bool, onRecordingFinished: bridge.Func_void_ScreenRecordingFile) -> bridge.Result_void_ {
+  public final func addChunkListener(callback: bridge.Func_void_ChunkReadyEvent) -> bridge.Result_double_ {
     do {
-      try self.__implementation.startInAppRecording(enableMic: enableMic, enableCamera: enableCamera, cameraPreviewStyle: cameraPreviewStyle, cameraDevice: margelo.nitro.nitroscreenrecorder.CameraDevice(rawValue: cameraDevice)!, separateAudioFile: separateAudioFile, onRecordingFinished: { () -> (ScreenRecordingFile) -> Void in
+      let __result = try self.__implementation.addChunkListener(callback: { () -> (ChunkReadyEvent) -> Void in
+        let __wrappedFunction = bridge.wrap_Func_void_ChunkReadyEvent(callback)
+        return { (__event: ChunkReadyEvent) -> Void in
+          __wrappedFunction.call(__event)
+        }
+      }())
+      let __resultCpp = __result
+      return bridge.create_Result_double_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_double_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func removeChunkListener(id: Double) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.removeChunkListener(id: id)
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func addExtensionStatusListener(callback: bridge.Func_void_RawExtensionStatus) -> bridge.Result_double_ {
+    do {
+      let __result = try self.__implementation.addExtensionStatusListener(callback: { () -> (RawExtensionStatus) -> Void in
+        let __wrappedFunction = bridge.wrap_Func_void_RawExtensionStatus(callback)
+        return { (__status: RawExtensionStatus) -> Void in
+          __wrappedFunction.call(__status)
+        }
+      }())
+      let __resultCpp = __result
+      return bridge.create_Result_double_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_double_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func removeExtensionStatusListener(id: Double) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.removeExtensionStatusListener(id: id)
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func startInAppRecording(enableMic: Bool, enableCamera: Bool, cameraPreviewStyle: RecorderCameraStyle, cameraDevice: Int32, separateAudioFile: Bool, limits: RecordingLimits, onRecordingFinished: bridge.Func_void_ScreenRecordingFile) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.startInAppRecording(enableMic: enableMic, enableCamera: enableCamera, cameraPreviewStyle: cameraPreviewStyle, cameraDevice: margelo.nitro.nitroscreenrecorder.CameraDevice(rawValue: cameraDevice)!, separateAudioFile: separateAudioFile, limits: limits, onRecordingFinished: { () -> (ScreenRecordingFile) -> Void in
         let __wrappedFunction = bridge.wrap_Func_void_ScreenRecordingFile(onRecordingFinished)
         return { (__file: ScreenRecordingFile) -> Void in
           __wrappedFunction.call(__file)
@@ -297,9 +353,9 @@ open class HybridNitroScreenRecorderSpec_cxx {
   }
   
   @inline(__always)
-  public final func startGlobalRecording(enableMic: Bool, separateAudioFile: Bool, onRecordingError: bridge.Func_void_RecordingError) -> bridge.Result_void_ {
+  public final func startGlobalRecording(enableMic: Bool, separateAudioFile: Bool, videoSettings: RecordingVideoSettings, limits: RecordingLimits, onRecordingError: bridge.Func_void_RecordingError) -> bridge.Result_void_ {
     do {
-      try self.__implementation.startGlobalRecording(enableMic: enableMic, separateAudioFile: separateAudioFile, onRecordingError: { () -> (RecordingError) -> Void in
+      try self.__implementation.startGlobalRecording(enableMic: enableMic, separateAudioFile: separateAudioFile, videoSettings: videoSettings, limits: limits, onRecordingError: { () -> (RecordingError) -> Void in
         let __wrappedFunction = bridge.wrap_Func_void_RecordingError(onRecordingError)
         return { (__error: RecordingError) -> Void in
           __wrappedFunction.call(__error)
@@ -395,6 +451,45 @@ open class HybridNitroScreenRecorderSpec_cxx {
     }
   }
   
+  @inline(__always)
+  public final func rotateChunk(chunkId: bridge.std__optional_std__string_, nextChunkId: bridge.std__optional_std__string_, settledTimeMs: Double) -> bridge.Result_std__shared_ptr_Promise_std__optional_ScreenRecordingFile____ {
+    do {
+      let __result = try self.__implementation.rotateChunk(chunkId: { () -> String? in
+        if bridge.has_value_std__optional_std__string_(chunkId) {
+          let __unwrapped = bridge.get_std__optional_std__string_(chunkId)
+          return String(__unwrapped)
+        } else {
+          return nil
+        }
+      }(), nextChunkId: { () -> String? in
+        if bridge.has_value_std__optional_std__string_(nextChunkId) {
+          let __unwrapped = bridge.get_std__optional_std__string_(nextChunkId)
+          return String(__unwrapped)
+        } else {
+          return nil
+        }
+      }(), settledTimeMs: settledTimeMs)
+      let __resultCpp = { () -> bridge.std__shared_ptr_Promise_std__optional_ScreenRecordingFile___ in
+        let __promise = bridge.create_std__shared_ptr_Promise_std__optional_ScreenRecordingFile___()
+        let __promiseHolder = bridge.wrap_std__shared_ptr_Promise_std__optional_ScreenRecordingFile___(__promise)
+        __result
+          .then({ __result in __promiseHolder.resolve({ () -> bridge.std__optional_ScreenRecordingFile_ in
+              if let __unwrappedValue = __result {
+                return bridge.create_std__optional_ScreenRecordingFile_(__unwrappedValue)
+              } else {
+                return .init()
+              }
+            }()) })
+          .catch({ __error in __promiseHolder.reject(__error.toCpp()) })
+        return __promise
+      }()
+      return bridge.create_Result_std__shared_ptr_Promise_std__optional_ScreenRecordingFile____(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__shared_ptr_Promise_std__optional_ScreenRecordingFile____(__exceptionPtr)
+    }
+  }
+  
   @inline(__always)
   public final func retrieveLastGlobalRecording() -> bridge.Result_std__optional_ScreenRecordingFile__ {
     do {
@@ -438,6 +533,91 @@ open class HybridNitroScreenRecorderSpec_cxx {
     }
   }
   
+  @inline(__always)
+  public final func listPendingChunks() -> bridge.Result_std__vector_PendingChunk__ {
+    do {
+      let __result = try self.__implementation.listPendingChunks()
+      let __resultCpp = { () -> bridge.std__vector_PendingChunk_ in
+        var __vector = bridge.create_std__vector_PendingChunk_(__result.count)
+        for __item in __result {
+          __vector.push_back(__item)
+        }
+        return __vector
+      }()
+      return bridge.create_Result_std__vector_PendingChunk__(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__vector_PendingChunk__(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func claimPendingChunk(id: std.string) -> bridge.Result_std__optional_ScreenRecordingFile__ {
+    do {
+      let __result = try self.__implementation.claimPendingChunk(id: String(id))
+      let __resultCpp = { () -> bridge.std__optional_ScreenRecordingFile_ in
+        if let __unwrappedValue = __result {
+          return bridge.create_std__optional_ScreenRecordingFile_(__unwrappedValue)
+        } else {
+          return .init()
+        }
+      }()
+      return bridge.create_Result_std__optional_ScreenRecordingFile__(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__optional_ScreenRecordingFile__(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func discardPendingChunk(id: std.string) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.discardPendingChunk(id: String(id))
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func pauseRecording() -> bridge.Result_std__shared_ptr_Promise_void___ {
+    do {
+      let __result = try self.__implementation.pauseRecording()
+      let __resultCpp = { () -> bridge.std__shared_ptr_Promise_void__ in
+        let __promise = bridge.create_std__shared_ptr_Promise_void__()
+        let __promiseHolder = bridge.wrap_std__shared_ptr_Promise_void__(__promise)
+        __result
+          .then({ __result in __promiseHolder.resolve() })
+          .catch({ __error in __promiseHolder.reject(__error.toCpp()) })
+        return __promise
+      }()
+      return bridge.create_Result_std__shared_ptr_Promise_void___(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__shared_ptr_Promise_void___(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func resumeRecording() -> bridge.Result_std__shared_ptr_Promise_void___ {
+    do {
+      let __result = try self.__implementation.resumeRecording()
+      let __resultCpp = { () -> bridge.std__shared_ptr_Promise_void__ in
+        let __promise = bridge.create_std__shared_ptr_Promise_void__()
+        let __promiseHolder = bridge.wrap_std__shared_ptr_Promise_void__(__promise)
+        __result
+          .then({ __result in __promiseHolder.resolve() })
+          .catch({ __error in __promiseHolder.reject(__error.toCpp()) })
+        return __promise
+      }()
+      return bridge.create_Result_std__shared_ptr_Promise_void___(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__shared_ptr_Promise_void___(__exceptionPtr)
+    }
+  }
+  
   @inline(__always)
   public final func getExtensionStatus() -> bridge.Result_RawExtensionStatus_ {
     do {
@@ -462,6 +642,48 @@ open class HybridNitroScreenRecorderSpec_cxx {
     }
   }
   
+  @inline(__always)
+  public final func getCurrentChunkSize() -> bridge.Result_double_ {
+    do {
+      let __result = try self.__implementation.getCurrentChunkSize()
+      let __resultCpp = __result
+      return bridge.create_Result_double_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_double_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func getRecordingProgress() -> bridge.Result_std__optional_RecordingProgress__ {
+    do {
+      let __result = try self.__implementation.getRecordingProgress()
+      let __resultCpp = { () -> bridge.std__optional_RecordingProgress_ in
+        if let __unwrappedValue = __result {
+          return bridge.create_std__optional_RecordingProgress_(__unwrappedValue)
+        } else {
+          return .init()
+        }
+      }()
+      return bridge.create_Result_std__optional_RecordingProgress__(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__optional_RecordingProgress__(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func getStorageInfo() -> bridge.Result_StorageInfo_ {
+    do {
+      let __result = try self.__implementation.getStorageInfo()
+      let __resultCpp = __result
+      return bridge.create_Result_StorageInfo_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_StorageInfo_(__exceptionPtr)
+    }
+  }
+  
   @inline(__always)
   public final func getExtensionLogs() -> bridge.Result_std__vector_std__string__ {
     do {
@@ -480,6 +702,35 @@ open class HybridNitroScreenRecorderSpec_cxx {
     }
   }
   
+  @inline(__always)
+  public final func getExtensionLogEntries() -> bridge.Result_std__vector_RawExtensionLogEntry__ {
+    do {
+      let __result = try self.__implementation.getExtensionLogEntries()
+      let __resultCpp = { () -> bridge.std__vector_RawExtensionLogEntry_ in
+        var __vector = bridge.create_std__vector_RawExtensionLogEntry_(__result.count)
+        for __item in __result {
+          __vector.push_back(__item)
+        }
+        return __vector
+      }()
+      return bridge.create_Result_std__vector_RawExtensionLogEntry__(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__vector_RawExtensionLogEntry__(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func configureExtensionLogs(minLevel: std.string, maxEntries: Double) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.configureExtensionLogs(minLevel: String(minLevel), maxEntries: maxEntries)
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
+  
   @inline(__always)
   public final func clearExtensionLogs() -> bridge.Result_void_ {
     do {
@@ -524,4 +775,105 @@ open class HybridNitroScreenRecorderSpec_cxx {
       return bridge.create_Result_void_(__exceptionPtr)
     }
   }
+  
+  @inline(__always)
+  public final func concatenateRecordings(paths: bridge.std__vector_std__string_, startOffsetSec: Double) -> bridge.Result_std__shared_ptr_Promise_ScreenRecordingFile___ {
+    do {
+      let __result = try self.__implementation.concatenateRecordings(paths: paths.map({ __item in String(__item) }), startOffsetSec: startOffsetSec)
+      let __resultCpp = { () -> bridge.std__shared_ptr_Promise_ScreenRecordingFile__ in
+        let __promise = bridge.create_std__shared_ptr_Promise_ScreenRecordingFile__()
+        let __promiseHolder = bridge.wrap_std__shared_ptr_Promise_ScreenRecordingFile__(__promise)
+        __result
+          .then({ __result in __promiseHolder.resolve(__result) })
+          .catch({ __error in __promiseHolder.reject(__error.toCpp()) })
+        return __promise
+      }()
+      return bridge.create_Result_std__shared_ptr_Promise_ScreenRecordingFile___(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__shared_ptr_Promise_ScreenRecordingFile___(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func deleteRecordingFile(path: std.string) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.deleteRecordingFile(path: String(path))
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func renameRecordingFile(path: std.string, name: std.string) -> bridge.Result_std__string_ {
+    do {
+      let __result = try self.__implementation.renameRecordingFile(path: String(path), name: String(name))
+      let __resultCpp = std.string(__result)
+      return bridge.create_Result_std__string_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__string_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func moveRecordingFile(path: std.string, directory: std.string, name: std.string) -> bridge.Result_std__string_ {
+    do {
+      let __result = try self.__implementation.moveRecordingFile(path: String(path), directory: String(directory), name: String(name))
+      let __resultCpp = std.string(__result)
+      return bridge.create_Result_std__string_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__string_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func recordingFileExists(path: std.string) -> bridge.Result_bool_ {
+    do {
+      let __result = try self.__implementation.recordingFileExists(path: String(path))
+      let __resultCpp = __result
+      return bridge.create_Result_bool_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_bool_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func writeRecordingSidecar(path: std.string, extension: std.string, contents: std.string) -> bridge.Result_std__string_ {
+    do {
+      let __result = try self.__implementation.writeRecordingSidecar(path: String(path), extension: String(extension), contents: String(contents))
+      let __resultCpp = std.string(__result)
+      return bridge.create_Result_std__string_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__string_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func readRecordingLibrary() -> bridge.Result_std__string_ {
+    do {
+      let __result = try self.__implementation.readRecordingLibrary()
+      let __resultCpp = std.string(__result)
+      return bridge.create_Result_std__string_(__resultCpp)
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_std__string_(__exceptionPtr)
+    }
+  }
+  
+  @inline(__always)
+  public final func writeRecordingLibrary(manifest: std.string) -> bridge.Result_void_ {
+    do {
+      try self.__implementation.writeRecordingLibrary(manifest: String(manifest))
+      return bridge.create_Result_void_()
+    } catch (let __error) {
+      let __exceptionPtr = __error.toCpp()
+      return bridge.create_Result_void_(__exceptionPtr)
+    }
+  }
 }
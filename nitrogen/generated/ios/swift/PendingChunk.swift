@@ -0,0 +1,98 @@
+///
+/// PendingChunk.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `PendingChunk`, backed by a C++ struct.
+ */
+public typealias PendingChunk = margelo.nitro.nitroscreenrecorder.PendingChunk
+
+public extension PendingChunk {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `PendingChunk`.
+   */
+  init(id: String, chunkId: String?, createdAt: Double, size: Double, enabledMicrophone: Bool) {
+    self.init(std.string(id), { () -> bridge.std__optional_std__string_ in
+      if let __unwrappedValue = chunkId {
+        return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+      } else {
+        return .init()
+      }
+    }(), createdAt, size, enabledMicrophone)
+  }
+
+  var id: String {
+    @inline(__always)
+    get {
+      return String(self.__id)
+    }
+    @inline(__always)
+    set {
+      self.__id = std.string(newValue)
+    }
+  }
+  
+  var chunkId: String? {
+    @inline(__always)
+    get {
+      return { () -> String? in
+        if bridge.has_value_std__optional_std__string_(self.__chunkId) {
+          let __unwrapped = bridge.get_std__optional_std__string_(self.__chunkId)
+          return String(__unwrapped)
+        } else {
+          return nil
+        }
+      }()
+    }
+    @inline(__always)
+    set {
+      self.__chunkId = { () -> bridge.std__optional_std__string_ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+  
+  var createdAt: Double {
+    @inline(__always)
+    get {
+      return self.__createdAt
+    }
+    @inline(__always)
+    set {
+      self.__createdAt = newValue
+    }
+  }
+  
+  var size: Double {
+    @inline(__always)
+    get {
+      return self.__size
+    }
+    @inline(__always)
+    set {
+      self.__size = newValue
+    }
+  }
+  
+  var enabledMicrophone: Bool {
+    @inline(__always)
+    get {
+      return self.__enabledMicrophone
+    }
+    @inline(__always)
+    set {
+      self.__enabledMicrophone = newValue
+    }
+  }
+}
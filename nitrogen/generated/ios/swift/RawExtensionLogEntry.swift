@@ -0,0 +1,57 @@
+///
+/// RawExtensionLogEntry.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `RawExtensionLogEntry`, backed by a C++ struct.
+ */
+public typealias RawExtensionLogEntry = margelo.nitro.nitroscreenrecorder.RawExtensionLogEntry
+
+public extension RawExtensionLogEntry {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `RawExtensionLogEntry`.
+   */
+  init(timestamp: Double, level: String, message: String) {
+    self.init(timestamp, std.string(level), std.string(message))
+  }
+
+  var timestamp: Double {
+    @inline(__always)
+    get {
+      return self.__timestamp
+    }
+    @inline(__always)
+    set {
+      self.__timestamp = newValue
+    }
+  }
+  
+  var level: String {
+    @inline(__always)
+    get {
+      return String(self.__level)
+    }
+    @inline(__always)
+    set {
+      self.__level = std.string(newValue)
+    }
+  }
+  
+  var message: String {
+    @inline(__always)
+    get {
+      return String(self.__message)
+    }
+    @inline(__always)
+    set {
+      self.__message = std.string(newValue)
+    }
+  }
+}
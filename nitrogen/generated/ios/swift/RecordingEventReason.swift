@@ -21,6 +21,14 @@ public extension RecordingEventReason {
         self = .began
       case "ended":
         self = .ended
+      case "paused":
+        self = .paused
+      case "resumed":
+        self = .resumed
+      case "limitReached":
+        self = .limitreached
+      case "lowStorage":
+        self = .lowstorage
       default:
         return nil
     }
@@ -35,6 +43,14 @@ public extension RecordingEventReason {
         return "began"
       case .ended:
         return "ended"
+      case .paused:
+        return "paused"
+      case .resumed:
+        return "resumed"
+      case .limitreached:
+        return "limitReached"
+      case .lowstorage:
+        return "lowStorage"
     }
   }
 }
@@ -0,0 +1,57 @@
+///
+/// RecordingLimits.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `RecordingLimits`, backed by a C++ struct.
+ */
+public typealias RecordingLimits = margelo.nitro.nitroscreenrecorder.RecordingLimits
+
+public extension RecordingLimits {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `RecordingLimits`.
+   */
+  init(maxDurationSec: Double, maxFileSizeBytes: Double, minFreeBytes: Double) {
+    self.init(maxDurationSec, maxFileSizeBytes, minFreeBytes)
+  }
+
+  var maxDurationSec: Double {
+    @inline(__always)
+    get {
+      return self.__maxDurationSec
+    }
+    @inline(__always)
+    set {
+      self.__maxDurationSec = newValue
+    }
+  }
+  
+  var maxFileSizeBytes: Double {
+    @inline(__always)
+    get {
+      return self.__maxFileSizeBytes
+    }
+    @inline(__always)
+    set {
+      self.__maxFileSizeBytes = newValue
+    }
+  }
+  
+  var minFreeBytes: Double {
+    @inline(__always)
+    get {
+      return self.__minFreeBytes
+    }
+    @inline(__always)
+    set {
+      self.__minFreeBytes = newValue
+    }
+  }
+}
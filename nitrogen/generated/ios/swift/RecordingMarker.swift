@@ -0,0 +1,87 @@
+///
+/// RecordingMarker.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `RecordingMarker`, backed by a C++ struct.
+ */
+public typealias RecordingMarker = margelo.nitro.nitroscreenrecorder.RecordingMarker
+
+public extension RecordingMarker {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `RecordingMarker`.
+   */
+  init(label: String, timeSec: Double, createdAt: Double, metadata: AnyMap?) {
+    self.init(std.string(label), timeSec, createdAt, { () -> bridge.std__optional_std__shared_ptr_AnyMap__ in
+      if let __unwrappedValue = metadata {
+        return bridge.create_std__optional_std__shared_ptr_AnyMap__(__unwrappedValue.cppPart)
+      } else {
+        return .init()
+      }
+    }())
+  }
+
+  var label: String {
+    @inline(__always)
+    get {
+      return String(self.__label)
+    }
+    @inline(__always)
+    set {
+      self.__label = std.string(newValue)
+    }
+  }
+  
+  var timeSec: Double {
+    @inline(__always)
+    get {
+      return self.__timeSec
+    }
+    @inline(__always)
+    set {
+      self.__timeSec = newValue
+    }
+  }
+  
+  var createdAt: Double {
+    @inline(__always)
+    get {
+      return self.__createdAt
+    }
+    @inline(__always)
+    set {
+      self.__createdAt = newValue
+    }
+  }
+  
+  var metadata: AnyMap? {
+    @inline(__always)
+    get {
+      return { () -> AnyMap? in
+        if bridge.has_value_std__optional_std__shared_ptr_AnyMap__(self.__metadata) {
+          let __unwrapped = bridge.get_std__optional_std__shared_ptr_AnyMap__(self.__metadata)
+          return AnyMap(withCppPart: __unwrapped)
+        } else {
+          return nil
+        }
+      }()
+    }
+    @inline(__always)
+    set {
+      self.__metadata = { () -> bridge.std__optional_std__shared_ptr_AnyMap__ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_std__shared_ptr_AnyMap__(__unwrappedValue.cppPart)
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+}
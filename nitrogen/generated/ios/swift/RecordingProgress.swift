@@ -0,0 +1,103 @@
+///
+/// RecordingProgress.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `RecordingProgress`, backed by a C++ struct.
+ */
+public typealias RecordingProgress = margelo.nitro.nitroscreenrecorder.RecordingProgress
+
+public extension RecordingProgress {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `RecordingProgress`.
+   */
+  init(type: RecordingEventType, elapsedSec: Double, bytesWritten: Double, framesWritten: Double?, droppedFrames: Double?) {
+    self.init(type, elapsedSec, bytesWritten, { () -> bridge.std__optional_double_ in
+      if let __unwrappedValue = framesWritten {
+        return bridge.create_std__optional_double_(__unwrappedValue)
+      } else {
+        return .init()
+      }
+    }(), { () -> bridge.std__optional_double_ in
+      if let __unwrappedValue = droppedFrames {
+        return bridge.create_std__optional_double_(__unwrappedValue)
+      } else {
+        return .init()
+      }
+    }())
+  }
+
+  var type: RecordingEventType {
+    @inline(__always)
+    get {
+      return self.__type
+    }
+    @inline(__always)
+    set {
+      self.__type = newValue
+    }
+  }
+  
+  var elapsedSec: Double {
+    @inline(__always)
+    get {
+      return self.__elapsedSec
+    }
+    @inline(__always)
+    set {
+      self.__elapsedSec = newValue
+    }
+  }
+  
+  var bytesWritten: Double {
+    @inline(__always)
+    get {
+      return self.__bytesWritten
+    }
+    @inline(__always)
+    set {
+      self.__bytesWritten = newValue
+    }
+  }
+  
+  var framesWritten: Double? {
+    @inline(__always)
+    get {
+      return self.__framesWritten.value
+    }
+    @inline(__always)
+    set {
+      self.__framesWritten = { () -> bridge.std__optional_double_ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_double_(__unwrappedValue)
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+  
+  var droppedFrames: Double? {
+    @inline(__always)
+    get {
+      return self.__droppedFrames.value
+    }
+    @inline(__always)
+    set {
+      self.__droppedFrames = { () -> bridge.std__optional_double_ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_double_(__unwrappedValue)
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+}
@@ -0,0 +1,79 @@
+///
+/// RecordingVideoSettings.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `RecordingVideoSettings`, backed by a C++ struct.
+ */
+public typealias RecordingVideoSettings = margelo.nitro.nitroscreenrecorder.RecordingVideoSettings
+
+public extension RecordingVideoSettings {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `RecordingVideoSettings`.
+   */
+  init(maxLongSide: Double, bitrate: Double, fps: Double, codec: VideoCodec, keyframeIntervalSec: Double) {
+    self.init(maxLongSide, bitrate, fps, codec, keyframeIntervalSec)
+  }
+
+  var maxLongSide: Double {
+    @inline(__always)
+    get {
+      return self.__maxLongSide
+    }
+    @inline(__always)
+    set {
+      self.__maxLongSide = newValue
+    }
+  }
+  
+  var bitrate: Double {
+    @inline(__always)
+    get {
+      return self.__bitrate
+    }
+    @inline(__always)
+    set {
+      self.__bitrate = newValue
+    }
+  }
+  
+  var fps: Double {
+    @inline(__always)
+    get {
+      return self.__fps
+    }
+    @inline(__always)
+    set {
+      self.__fps = newValue
+    }
+  }
+  
+  var codec: VideoCodec {
+    @inline(__always)
+    get {
+      return self.__codec
+    }
+    @inline(__always)
+    set {
+      self.__codec = newValue
+    }
+  }
+  
+  var keyframeIntervalSec: Double {
+    @inline(__always)
+    get {
+      return self.__keyframeIntervalSec
+    }
+    @inline(__always)
+    set {
+      self.__keyframeIntervalSec = newValue
+    }
+  }
+}
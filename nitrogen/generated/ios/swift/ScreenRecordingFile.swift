@@ -18,7 +18,7 @@ public extension ScreenRecordingFile {
   /**
    * Create a new instance of `ScreenRecordingFile`.
    */
-  init(path: String, name: String, size: Double, duration: Double, enabledMicrophone: Bool, audioFile: AudioRecordingFile?, appAudioFile: AudioRecordingFile?) {
+  init(path: String, name: String, size: Double, duration: Double, enabledMicrophone: Bool, audioFile: AudioRecordingFile?, appAudioFile: AudioRecordingFile?, markers: [RecordingMarker]?, markersFile: String?) {
     self.init(std.string(path), std.string(name), size, duration, enabledMicrophone, { () -> bridge.std__optional_AudioRecordingFile_ in
       if let __unwrappedValue = audioFile {
         return bridge.create_std__optional_AudioRecordingFile_(__unwrappedValue)
@@ -31,6 +31,24 @@ public extension ScreenRecordingFile {
       } else {
         return .init()
       }
+    }(), { () -> bridge.std__optional_std__vector_RecordingMarker__ in
+      if let __unwrappedValue = markers {
+        return bridge.create_std__optional_std__vector_RecordingMarker__({ () -> bridge.std__vector_RecordingMarker_ in
+          var __vector = bridge.create_std__vector_RecordingMarker_(__unwrappedValue.count)
+          for __item in __unwrappedValue {
+            __vector.push_back(__item)
+          }
+          return __vector
+        }())
+      } else {
+        return .init()
+      }
+    }(), { () -> bridge.std__optional_std__string_ in
+      if let __unwrappedValue = markersFile {
+        return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+      } else {
+        return .init()
+      }
     }())
   }
 
@@ -122,4 +140,58 @@ public extension ScreenRecordingFile {
       }()
     }
   }
+  
+  var markers: [RecordingMarker]? {
+    @inline(__always)
+    get {
+      return { () -> [RecordingMarker]? in
+        if bridge.has_value_std__optional_std__vector_RecordingMarker__(self.__markers) {
+          let __unwrapped = bridge.get_std__optional_std__vector_RecordingMarker__(self.__markers)
+          return __unwrapped.map({ __item in __item })
+        } else {
+          return nil
+        }
+      }()
+    }
+    @inline(__always)
+    set {
+      self.__markers = { () -> bridge.std__optional_std__vector_RecordingMarker__ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_std__vector_RecordingMarker__({ () -> bridge.std__vector_RecordingMarker_ in
+            var __vector = bridge.create_std__vector_RecordingMarker_(__unwrappedValue.count)
+            for __item in __unwrappedValue {
+              __vector.push_back(__item)
+            }
+            return __vector
+          }())
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
+  
+  var markersFile: String? {
+    @inline(__always)
+    get {
+      return { () -> String? in
+        if bridge.has_value_std__optional_std__string_(self.__markersFile) {
+          let __unwrapped = bridge.get_std__optional_std__string_(self.__markersFile)
+          return String(__unwrapped)
+        } else {
+          return nil
+        }
+      }()
+    }
+    @inline(__always)
+    set {
+      self.__markersFile = { () -> bridge.std__optional_std__string_ in
+        if let __unwrappedValue = newValue {
+          return bridge.create_std__optional_std__string_(std.string(__unwrappedValue))
+        } else {
+          return .init()
+        }
+      }()
+    }
+  }
 }
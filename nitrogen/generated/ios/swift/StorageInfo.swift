@@ -0,0 +1,46 @@
+///
+/// StorageInfo.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+import NitroModules
+
+/**
+ * Represents an instance of `StorageInfo`, backed by a C++ struct.
+ */
+public typealias StorageInfo = margelo.nitro.nitroscreenrecorder.StorageInfo
+
+public extension StorageInfo {
+  private typealias bridge = margelo.nitro.nitroscreenrecorder.bridge.swift
+
+  /**
+   * Create a new instance of `StorageInfo`.
+   */
+  init(freeBytes: Double, totalBytes: Double) {
+    self.init(freeBytes, totalBytes)
+  }
+
+  var freeBytes: Double {
+    @inline(__always)
+    get {
+      return self.__freeBytes
+    }
+    @inline(__always)
+    set {
+      self.__freeBytes = newValue
+    }
+  }
+  
+  var totalBytes: Double {
+    @inline(__always)
+    get {
+      return self.__totalBytes
+    }
+    @inline(__always)
+    set {
+      self.__totalBytes = newValue
+    }
+  }
+}
@@ -0,0 +1,44 @@
+///
+/// VideoCodec.swift
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+/**
+ * Represents the JS union `VideoCodec`, backed by a C++ enum.
+ */
+public typealias VideoCodec = margelo.nitro.nitroscreenrecorder.VideoCodec
+
+public extension VideoCodec {
+  /**
+   * Get a VideoCodec for the given String value, or
+   * return `nil` if the given value was invalid/unknown.
+   */
+  init?(fromString string: String) {
+    switch string {
+      case "auto":
+        self = .auto
+      case "hevc":
+        self = .hevc
+      case "h264":
+        self = .h264
+      default:
+        return nil
+    }
+  }
+
+  /**
+   * Get the String value this VideoCodec represents.
+   */
+  var stringValue: String {
+    switch self {
+      case .auto:
+        return "auto"
+      case .hevc:
+        return "hevc"
+      case .h264:
+        return "h264"
+    }
+  }
+}
@@ -0,0 +1,82 @@
+///
+/// ChunkReadyEvent.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+// Forward declaration of `ScreenRecordingFile` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
+
+#include <string>
+#include <optional>
+#include "ScreenRecordingFile.hpp"
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (ChunkReadyEvent).
+   */
+  struct ChunkReadyEvent {
+  public:
+    std::optional<std::string> chunkId     SWIFT_PRIVATE;
+    ScreenRecordingFile file     SWIFT_PRIVATE;
+
+  public:
+    ChunkReadyEvent() = default;
+    explicit ChunkReadyEvent(std::optional<std::string> chunkId, ScreenRecordingFile file): chunkId(chunkId), file(file) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ ChunkReadyEvent <> JS ChunkReadyEvent (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::ChunkReadyEvent> final {
+    static inline margelo::nitro::nitroscreenrecorder::ChunkReadyEvent fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::ChunkReadyEvent(
+        JSIConverter<std::optional<std::string>>::fromJSI(runtime, obj.getProperty(runtime, "chunkId")),
+        JSIConverter<margelo::nitro::nitroscreenrecorder::ScreenRecordingFile>::fromJSI(runtime, obj.getProperty(runtime, "file"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::ChunkReadyEvent& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "chunkId", JSIConverter<std::optional<std::string>>::toJSI(runtime, arg.chunkId));
+      obj.setProperty(runtime, "file", JSIConverter<margelo::nitro::nitroscreenrecorder::ScreenRecordingFile>::toJSI(runtime, arg.file));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<std::optional<std::string>>::canConvert(runtime, obj.getProperty(runtime, "chunkId"))) return false;
+      if (!JSIConverter<margelo::nitro::nitroscreenrecorder::ScreenRecordingFile>::canConvert(runtime, obj.getProperty(runtime, "file"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
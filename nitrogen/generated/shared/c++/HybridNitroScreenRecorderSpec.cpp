@@ -22,6 +22,10 @@ namespace margelo::nitro::nitroscreenrecorder {
       prototype.registerHybridMethod("removeScreenRecordingListener", &HybridNitroScreenRecorderSpec::removeScreenRecordingListener);
       prototype.registerHybridMethod("addBroadcastPickerListener", &HybridNitroScreenRecorderSpec::addBroadcastPickerListener);
       prototype.registerHybridMethod("removeBroadcastPickerListener", &HybridNitroScreenRecorderSpec::removeBroadcastPickerListener);
+      prototype.registerHybridMethod("addChunkListener", &HybridNitroScreenRecorderSpec::addChunkListener);
+      prototype.registerHybridMethod("removeChunkListener", &HybridNitroScreenRecorderSpec::removeChunkListener);
+      prototype.registerHybridMethod("addExtensionStatusListener", &HybridNitroScreenRecorderSpec::addExtensionStatusListener);
+      prototype.registerHybridMethod("removeExtensionStatusListener", &HybridNitroScreenRecorderSpec::removeExtensionStatusListener);
       prototype.registerHybridMethod("startInAppRecording", &HybridNitroScreenRecorderSpec::startInAppRecording);
       prototype.registerHybridMethod("stopInAppRecording", &HybridNitroScreenRecorderSpec::stopInAppRecording);
       prototype.registerHybridMethod("cancelInAppRecording", &HybridNitroScreenRecorderSpec::cancelInAppRecording);
@@ -29,15 +33,34 @@ namespace margelo::nitro::nitroscreenrecorder {
       prototype.registerHybridMethod("stopGlobalRecording", &HybridNitroScreenRecorderSpec::stopGlobalRecording);
       prototype.registerHybridMethod("markChunkStart", &HybridNitroScreenRecorderSpec::markChunkStart);
       prototype.registerHybridMethod("finalizeChunk", &HybridNitroScreenRecorderSpec::finalizeChunk);
+      prototype.registerHybridMethod("rotateChunk", &HybridNitroScreenRecorderSpec::rotateChunk);
       prototype.registerHybridMethod("retrieveLastGlobalRecording", &HybridNitroScreenRecorderSpec::retrieveLastGlobalRecording);
       prototype.registerHybridMethod("retrieveGlobalRecording", &HybridNitroScreenRecorderSpec::retrieveGlobalRecording);
+      prototype.registerHybridMethod("listPendingChunks", &HybridNitroScreenRecorderSpec::listPendingChunks);
+      prototype.registerHybridMethod("claimPendingChunk", &HybridNitroScreenRecorderSpec::claimPendingChunk);
+      prototype.registerHybridMethod("discardPendingChunk", &HybridNitroScreenRecorderSpec::discardPendingChunk);
+      prototype.registerHybridMethod("pauseRecording", &HybridNitroScreenRecorderSpec::pauseRecording);
+      prototype.registerHybridMethod("resumeRecording", &HybridNitroScreenRecorderSpec::resumeRecording);
       prototype.registerHybridMethod("getExtensionStatus", &HybridNitroScreenRecorderSpec::getExtensionStatus);
       prototype.registerHybridMethod("isScreenBeingRecorded", &HybridNitroScreenRecorderSpec::isScreenBeingRecorded);
+      prototype.registerHybridMethod("getCurrentChunkSize", &HybridNitroScreenRecorderSpec::getCurrentChunkSize);
+      prototype.registerHybridMethod("getRecordingProgress", &HybridNitroScreenRecorderSpec::getRecordingProgress);
+      prototype.registerHybridMethod("getStorageInfo", &HybridNitroScreenRecorderSpec::getStorageInfo);
       prototype.registerHybridMethod("getExtensionLogs", &HybridNitroScreenRecorderSpec::getExtensionLogs);
+      prototype.registerHybridMethod("getExtensionLogEntries", &HybridNitroScreenRecorderSpec::getExtensionLogEntries);
+      prototype.registerHybridMethod("configureExtensionLogs", &HybridNitroScreenRecorderSpec::configureExtensionLogs);
       prototype.registerHybridMethod("clearExtensionLogs", &HybridNitroScreenRecorderSpec::clearExtensionLogs);
       prototype.registerHybridMethod("getExtensionAudioMetrics", &HybridNitroScreenRecorderSpec::getExtensionAudioMetrics);
       prototype.registerHybridMethod("clearExtensionAudioMetrics", &HybridNitroScreenRecorderSpec::clearExtensionAudioMetrics);
       prototype.registerHybridMethod("clearRecordingCache", &HybridNitroScreenRecorderSpec::clearRecordingCache);
+      prototype.registerHybridMethod("concatenateRecordings", &HybridNitroScreenRecorderSpec::concatenateRecordings);
+      prototype.registerHybridMethod("deleteRecordingFile", &HybridNitroScreenRecorderSpec::deleteRecordingFile);
+      prototype.registerHybridMethod("renameRecordingFile", &HybridNitroScreenRecorderSpec::renameRecordingFile);
+      prototype.registerHybridMethod("moveRecordingFile", &HybridNitroScreenRecorderSpec::moveRecordingFile);
+      prototype.registerHybridMethod("recordingFileExists", &HybridNitroScreenRecorderSpec::recordingFileExists);
+      prototype.registerHybridMethod("writeRecordingSidecar", &HybridNitroScreenRecorderSpec::writeRecordingSidecar);
+      prototype.registerHybridMethod("readRecordingLibrary", &HybridNitroScreenRecorderSpec::readRecordingLibrary);
+      prototype.registerHybridMethod("writeRecordingLibrary", &HybridNitroScreenRecorderSpec::writeRecordingLibrary);
     });
   }
 
@@ -21,16 +21,30 @@ namespace margelo::nitro::nitroscreenrecorder { struct PermissionResponse; }
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingEvent; }
 // Forward declaration of `BroadcastPickerPresentationEvent` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class BroadcastPickerPresentationEvent; }
+// Forward declaration of `ChunkReadyEvent` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct ChunkReadyEvent; }
+// Forward declaration of `RawExtensionStatus` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 // Forward declaration of `RecorderCameraStyle` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RecorderCameraStyle; }
 // Forward declaration of `CameraDevice` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { enum class CameraDevice; }
+// Forward declaration of `RecordingLimits` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingLimits; }
 // Forward declaration of `ScreenRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct ScreenRecordingFile; }
+// Forward declaration of `RecordingVideoSettings` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingVideoSettings; }
 // Forward declaration of `RecordingError` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct RecordingError; }
-// Forward declaration of `RawExtensionStatus` to properly resolve imports.
-namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
+// Forward declaration of `PendingChunk` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct PendingChunk; }
+// Forward declaration of `RecordingProgress` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingProgress; }
+// Forward declaration of `StorageInfo` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct StorageInfo; }
+// Forward declaration of `RawExtensionLogEntry` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionLogEntry; }
 
 #include "PermissionStatus.hpp"
 #include "PermissionResponse.hpp"
@@ -38,14 +52,21 @@ namespace margelo::nitro::nitroscreenrecorder { struct RawExtensionStatus; }
 #include "ScreenRecordingEvent.hpp"
 #include <functional>
 #include "BroadcastPickerPresentationEvent.hpp"
+#include "ChunkReadyEvent.hpp"
+#include "RawExtensionStatus.hpp"
 #include "RecorderCameraStyle.hpp"
 #include "CameraDevice.hpp"
+#include "RecordingLimits.hpp"
 #include "ScreenRecordingFile.hpp"
 #include <optional>
+#include "RecordingVideoSettings.hpp"
 #include "RecordingError.hpp"
 #include <string>
-#include "RawExtensionStatus.hpp"
+#include "PendingChunk.hpp"
 #include <vector>
+#include "RecordingProgress.hpp"
+#include "StorageInfo.hpp"
+#include "RawExtensionLogEntry.hpp"
 
 namespace margelo::nitro::nitroscreenrecorder {
 
@@ -86,22 +107,45 @@ namespace margelo::nitro::nitroscreenrecorder {
       virtual void removeScreenRecordingListener(double id) = 0;
       virtual double addBroadcastPickerListener(const std::function<void(BroadcastPickerPresentationEvent /* event */)>& callback) = 0;
       virtual void removeBroadcastPickerListener(double id) = 0;
-      virtual void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) = 0;
+      virtual double addChunkListener(const std::function<void(const ChunkReadyEvent& /* event */)>& callback) = 0;
+      virtual void removeChunkListener(double id) = 0;
+      virtual double addExtensionStatusListener(const std::function<void(const RawExtensionStatus& /* status */)>& callback) = 0;
+      virtual void removeExtensionStatusListener(double id) = 0;
+      virtual void startInAppRecording(bool enableMic, bool enableCamera, const RecorderCameraStyle& cameraPreviewStyle, CameraDevice cameraDevice, bool separateAudioFile, const RecordingLimits& limits, const std::function<void(const ScreenRecordingFile& /* file */)>& onRecordingFinished) = 0;
       virtual std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> stopInAppRecording() = 0;
       virtual std::shared_ptr<Promise<void>> cancelInAppRecording() = 0;
-      virtual void startGlobalRecording(bool enableMic, bool separateAudioFile, const std::function<void(const RecordingError& /* error */)>& onRecordingError) = 0;
+      virtual void startGlobalRecording(bool enableMic, bool separateAudioFile, const RecordingVideoSettings& videoSettings, const RecordingLimits& limits, const std::function<void(const RecordingError& /* error */)>& onRecordingError) = 0;
       virtual std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> stopGlobalRecording(double settledTimeMs) = 0;
       virtual std::shared_ptr<Promise<double>> markChunkStart(const std::optional<std::string>& chunkId) = 0;
       virtual std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> finalizeChunk(const std::optional<std::string>& chunkId, double settledTimeMs) = 0;
+      virtual std::shared_ptr<Promise<std::optional<ScreenRecordingFile>>> rotateChunk(const std::optional<std::string>& chunkId, const std::optional<std::string>& nextChunkId, double settledTimeMs) = 0;
       virtual std::optional<ScreenRecordingFile> retrieveLastGlobalRecording() = 0;
       virtual std::optional<ScreenRecordingFile> retrieveGlobalRecording(const std::optional<std::string>& chunkId) = 0;
+      virtual std::vector<PendingChunk> listPendingChunks() = 0;
+      virtual std::optional<ScreenRecordingFile> claimPendingChunk(const std::string& id) = 0;
+      virtual void discardPendingChunk(const std::string& id) = 0;
+      virtual std::shared_ptr<Promise<void>> pauseRecording() = 0;
+      virtual std::shared_ptr<Promise<void>> resumeRecording() = 0;
       virtual RawExtensionStatus getExtensionStatus() = 0;
       virtual bool isScreenBeingRecorded() = 0;
+      virtual double getCurrentChunkSize() = 0;
+      virtual std::optional<RecordingProgress> getRecordingProgress() = 0;
+      virtual StorageInfo getStorageInfo() = 0;
       virtual std::vector<std::string> getExtensionLogs() = 0;
+      virtual std::vector<RawExtensionLogEntry> getExtensionLogEntries() = 0;
+      virtual void configureExtensionLogs(const std::string& minLevel, double maxEntries) = 0;
       virtual void clearExtensionLogs() = 0;
       virtual std::string getExtensionAudioMetrics() = 0;
       virtual void clearExtensionAudioMetrics() = 0;
       virtual void clearRecordingCache() = 0;
+      virtual std::shared_ptr<Promise<ScreenRecordingFile>> concatenateRecordings(const std::vector<std::string>& paths, double startOffsetSec) = 0;
+      virtual void deleteRecordingFile(const std::string& path) = 0;
+      virtual std::string renameRecordingFile(const std::string& path, const std::string& name) = 0;
+      virtual std::string moveRecordingFile(const std::string& path, const std::string& directory, const std::string& name) = 0;
+      virtual bool recordingFileExists(const std::string& path) = 0;
+      virtual std::string writeRecordingSidecar(const std::string& path, const std::string& extension, const std::string& contents) = 0;
+      virtual std::string readRecordingLibrary() = 0;
+      virtual void writeRecordingLibrary(const std::string& manifest) = 0;
 
     protected:
       // Hybrid Setup
@@ -0,0 +1,92 @@
+///
+/// PendingChunk.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+
+
+#include <string>
+#include <optional>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (PendingChunk).
+   */
+  struct PendingChunk {
+  public:
+    std::string id     SWIFT_PRIVATE;
+    std::optional<std::string> chunkId     SWIFT_PRIVATE;
+    double createdAt     SWIFT_PRIVATE;
+    double size     SWIFT_PRIVATE;
+    bool enabledMicrophone     SWIFT_PRIVATE;
+
+  public:
+    PendingChunk() = default;
+    explicit PendingChunk(std::string id, std::optional<std::string> chunkId, double createdAt, double size, bool enabledMicrophone): id(id), chunkId(chunkId), createdAt(createdAt), size(size), enabledMicrophone(enabledMicrophone) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ PendingChunk <> JS PendingChunk (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::PendingChunk> final {
+    static inline margelo::nitro::nitroscreenrecorder::PendingChunk fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::PendingChunk(
+        JSIConverter<std::string>::fromJSI(runtime, obj.getProperty(runtime, "id")),
+        JSIConverter<std::optional<std::string>>::fromJSI(runtime, obj.getProperty(runtime, "chunkId")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "createdAt")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "size")),
+        JSIConverter<bool>::fromJSI(runtime, obj.getProperty(runtime, "enabledMicrophone"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::PendingChunk& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "id", JSIConverter<std::string>::toJSI(runtime, arg.id));
+      obj.setProperty(runtime, "chunkId", JSIConverter<std::optional<std::string>>::toJSI(runtime, arg.chunkId));
+      obj.setProperty(runtime, "createdAt", JSIConverter<double>::toJSI(runtime, arg.createdAt));
+      obj.setProperty(runtime, "size", JSIConverter<double>::toJSI(runtime, arg.size));
+      obj.setProperty(runtime, "enabledMicrophone", JSIConverter<bool>::toJSI(runtime, arg.enabledMicrophone));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<std::string>::canConvert(runtime, obj.getProperty(runtime, "id"))) return false;
+      if (!JSIConverter<std::optional<std::string>>::canConvert(runtime, obj.getProperty(runtime, "chunkId"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "createdAt"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "size"))) return false;
+      if (!JSIConverter<bool>::canConvert(runtime, obj.getProperty(runtime, "enabledMicrophone"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
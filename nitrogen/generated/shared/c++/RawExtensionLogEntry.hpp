@@ -0,0 +1,83 @@
+///
+/// RawExtensionLogEntry.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+
+
+#include <string>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (RawExtensionLogEntry).
+   */
+  struct RawExtensionLogEntry {
+  public:
+    double timestamp     SWIFT_PRIVATE;
+    std::string level     SWIFT_PRIVATE;
+    std::string message     SWIFT_PRIVATE;
+
+  public:
+    RawExtensionLogEntry() = default;
+    explicit RawExtensionLogEntry(double timestamp, std::string level, std::string message): timestamp(timestamp), level(level), message(message) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ RawExtensionLogEntry <> JS RawExtensionLogEntry (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::RawExtensionLogEntry> final {
+    static inline margelo::nitro::nitroscreenrecorder::RawExtensionLogEntry fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::RawExtensionLogEntry(
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "timestamp")),
+        JSIConverter<std::string>::fromJSI(runtime, obj.getProperty(runtime, "level")),
+        JSIConverter<std::string>::fromJSI(runtime, obj.getProperty(runtime, "message"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::RawExtensionLogEntry& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "timestamp", JSIConverter<double>::toJSI(runtime, arg.timestamp));
+      obj.setProperty(runtime, "level", JSIConverter<std::string>::toJSI(runtime, arg.level));
+      obj.setProperty(runtime, "message", JSIConverter<std::string>::toJSI(runtime, arg.message));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "timestamp"))) return false;
+      if (!JSIConverter<std::string>::canConvert(runtime, obj.getProperty(runtime, "level"))) return false;
+      if (!JSIConverter<std::string>::canConvert(runtime, obj.getProperty(runtime, "message"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
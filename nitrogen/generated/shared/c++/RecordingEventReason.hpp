@@ -31,6 +31,10 @@ namespace margelo::nitro::nitroscreenrecorder {
   enum class RecordingEventReason {
     BEGAN      SWIFT_NAME(began) = 0,
     ENDED      SWIFT_NAME(ended) = 1,
+    PAUSED      SWIFT_NAME(paused) = 2,
+    RESUMED      SWIFT_NAME(resumed) = 3,
+    LIMITREACHED      SWIFT_NAME(limitreached) = 4,
+    LOWSTORAGE      SWIFT_NAME(lowstorage) = 5,
   } CLOSED_ENUM;
 
 } // namespace margelo::nitro::nitroscreenrecorder
@@ -45,6 +49,10 @@ namespace margelo::nitro {
       switch (hashString(unionValue.c_str(), unionValue.size())) {
         case hashString("began"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::BEGAN;
         case hashString("ended"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::ENDED;
+        case hashString("paused"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::PAUSED;
+        case hashString("resumed"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::RESUMED;
+        case hashString("limitReached"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::LIMITREACHED;
+        case hashString("lowStorage"): return margelo::nitro::nitroscreenrecorder::RecordingEventReason::LOWSTORAGE;
         default: [[unlikely]]
           throw std::invalid_argument("Cannot convert \"" + unionValue + "\" to enum RecordingEventReason - invalid value!");
       }
@@ -53,6 +61,10 @@ namespace margelo::nitro {
       switch (arg) {
         case margelo::nitro::nitroscreenrecorder::RecordingEventReason::BEGAN: return JSIConverter<std::string>::toJSI(runtime, "began");
         case margelo::nitro::nitroscreenrecorder::RecordingEventReason::ENDED: return JSIConverter<std::string>::toJSI(runtime, "ended");
+        case margelo::nitro::nitroscreenrecorder::RecordingEventReason::PAUSED: return JSIConverter<std::string>::toJSI(runtime, "paused");
+        case margelo::nitro::nitroscreenrecorder::RecordingEventReason::RESUMED: return JSIConverter<std::string>::toJSI(runtime, "resumed");
+        case margelo::nitro::nitroscreenrecorder::RecordingEventReason::LIMITREACHED: return JSIConverter<std::string>::toJSI(runtime, "limitReached");
+        case margelo::nitro::nitroscreenrecorder::RecordingEventReason::LOWSTORAGE: return JSIConverter<std::string>::toJSI(runtime, "lowStorage");
         default: [[unlikely]]
           throw std::invalid_argument("Cannot convert RecordingEventReason to JS - invalid value: "
                                     + std::to_string(static_cast<int>(arg)) + "!");
@@ -66,6 +78,10 @@ namespace margelo::nitro {
       switch (hashString(unionValue.c_str(), unionValue.size())) {
         case hashString("began"):
         case hashString("ended"):
+        case hashString("paused"):
+        case hashString("resumed"):
+        case hashString("limitReached"):
+        case hashString("lowStorage"):
           return true;
         default:
           return false;
@@ -0,0 +1,83 @@
+///
+/// RecordingLimits.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+
+
+
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (RecordingLimits).
+   */
+  struct RecordingLimits {
+  public:
+    double maxDurationSec     SWIFT_PRIVATE;
+    double maxFileSizeBytes     SWIFT_PRIVATE;
+    double minFreeBytes     SWIFT_PRIVATE;
+
+  public:
+    RecordingLimits() = default;
+    explicit RecordingLimits(double maxDurationSec, double maxFileSizeBytes, double minFreeBytes): maxDurationSec(maxDurationSec), maxFileSizeBytes(maxFileSizeBytes), minFreeBytes(minFreeBytes) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ RecordingLimits <> JS RecordingLimits (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingLimits> final {
+    static inline margelo::nitro::nitroscreenrecorder::RecordingLimits fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::RecordingLimits(
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "maxDurationSec")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "maxFileSizeBytes")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "minFreeBytes"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::RecordingLimits& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "maxDurationSec", JSIConverter<double>::toJSI(runtime, arg.maxDurationSec));
+      obj.setProperty(runtime, "maxFileSizeBytes", JSIConverter<double>::toJSI(runtime, arg.maxFileSizeBytes));
+      obj.setProperty(runtime, "minFreeBytes", JSIConverter<double>::toJSI(runtime, arg.minFreeBytes));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "maxDurationSec"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "maxFileSizeBytes"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "minFreeBytes"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
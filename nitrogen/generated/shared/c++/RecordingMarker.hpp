@@ -0,0 +1,89 @@
+///
+/// RecordingMarker.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+
+
+#include <string>
+#include <NitroModules/AnyMap.hpp>
+#include <optional>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (RecordingMarker).
+   */
+  struct RecordingMarker {
+  public:
+    std::string label     SWIFT_PRIVATE;
+    double timeSec     SWIFT_PRIVATE;
+    double createdAt     SWIFT_PRIVATE;
+    std::optional<std::shared_ptr<AnyMap>> metadata     SWIFT_PRIVATE;
+
+  public:
+    RecordingMarker() = default;
+    explicit RecordingMarker(std::string label, double timeSec, double createdAt, std::optional<std::shared_ptr<AnyMap>> metadata): label(label), timeSec(timeSec), createdAt(createdAt), metadata(metadata) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ RecordingMarker <> JS RecordingMarker (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingMarker> final {
+    static inline margelo::nitro::nitroscreenrecorder::RecordingMarker fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::RecordingMarker(
+        JSIConverter<std::string>::fromJSI(runtime, obj.getProperty(runtime, "label")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "timeSec")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "createdAt")),
+        JSIConverter<std::optional<std::shared_ptr<AnyMap>>>::fromJSI(runtime, obj.getProperty(runtime, "metadata"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::RecordingMarker& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "label", JSIConverter<std::string>::toJSI(runtime, arg.label));
+      obj.setProperty(runtime, "timeSec", JSIConverter<double>::toJSI(runtime, arg.timeSec));
+      obj.setProperty(runtime, "createdAt", JSIConverter<double>::toJSI(runtime, arg.createdAt));
+      obj.setProperty(runtime, "metadata", JSIConverter<std::optional<std::shared_ptr<AnyMap>>>::toJSI(runtime, arg.metadata));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<std::string>::canConvert(runtime, obj.getProperty(runtime, "label"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "timeSec"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "createdAt"))) return false;
+      if (!JSIConverter<std::optional<std::shared_ptr<AnyMap>>>::canConvert(runtime, obj.getProperty(runtime, "metadata"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
@@ -0,0 +1,93 @@
+///
+/// RecordingProgress.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+// Forward declaration of `RecordingEventType` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class RecordingEventType; }
+
+#include "RecordingEventType.hpp"
+#include <optional>
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (RecordingProgress).
+   */
+  struct RecordingProgress {
+  public:
+    RecordingEventType type     SWIFT_PRIVATE;
+    double elapsedSec     SWIFT_PRIVATE;
+    double bytesWritten     SWIFT_PRIVATE;
+    std::optional<double> framesWritten     SWIFT_PRIVATE;
+    std::optional<double> droppedFrames     SWIFT_PRIVATE;
+
+  public:
+    RecordingProgress() = default;
+    explicit RecordingProgress(RecordingEventType type, double elapsedSec, double bytesWritten, std::optional<double> framesWritten, std::optional<double> droppedFrames): type(type), elapsedSec(elapsedSec), bytesWritten(bytesWritten), framesWritten(framesWritten), droppedFrames(droppedFrames) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ RecordingProgress <> JS RecordingProgress (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingProgress> final {
+    static inline margelo::nitro::nitroscreenrecorder::RecordingProgress fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::RecordingProgress(
+        JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingEventType>::fromJSI(runtime, obj.getProperty(runtime, "type")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "elapsedSec")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "bytesWritten")),
+        JSIConverter<std::optional<double>>::fromJSI(runtime, obj.getProperty(runtime, "framesWritten")),
+        JSIConverter<std::optional<double>>::fromJSI(runtime, obj.getProperty(runtime, "droppedFrames"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::RecordingProgress& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "type", JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingEventType>::toJSI(runtime, arg.type));
+      obj.setProperty(runtime, "elapsedSec", JSIConverter<double>::toJSI(runtime, arg.elapsedSec));
+      obj.setProperty(runtime, "bytesWritten", JSIConverter<double>::toJSI(runtime, arg.bytesWritten));
+      obj.setProperty(runtime, "framesWritten", JSIConverter<std::optional<double>>::toJSI(runtime, arg.framesWritten));
+      obj.setProperty(runtime, "droppedFrames", JSIConverter<std::optional<double>>::toJSI(runtime, arg.droppedFrames));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingEventType>::canConvert(runtime, obj.getProperty(runtime, "type"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "elapsedSec"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "bytesWritten"))) return false;
+      if (!JSIConverter<std::optional<double>>::canConvert(runtime, obj.getProperty(runtime, "framesWritten"))) return false;
+      if (!JSIConverter<std::optional<double>>::canConvert(runtime, obj.getProperty(runtime, "droppedFrames"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
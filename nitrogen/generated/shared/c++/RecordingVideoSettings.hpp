@@ -0,0 +1,92 @@
+///
+/// RecordingVideoSettings.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+// Forward declaration of `VideoCodec` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { enum class VideoCodec; }
+
+#include "VideoCodec.hpp"
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (RecordingVideoSettings).
+   */
+  struct RecordingVideoSettings {
+  public:
+    double maxLongSide     SWIFT_PRIVATE;
+    double bitrate     SWIFT_PRIVATE;
+    double fps     SWIFT_PRIVATE;
+    VideoCodec codec     SWIFT_PRIVATE;
+    double keyframeIntervalSec     SWIFT_PRIVATE;
+
+  public:
+    RecordingVideoSettings() = default;
+    explicit RecordingVideoSettings(double maxLongSide, double bitrate, double fps, VideoCodec codec, double keyframeIntervalSec): maxLongSide(maxLongSide), bitrate(bitrate), fps(fps), codec(codec), keyframeIntervalSec(keyframeIntervalSec) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ RecordingVideoSettings <> JS RecordingVideoSettings (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::RecordingVideoSettings> final {
+    static inline margelo::nitro::nitroscreenrecorder::RecordingVideoSettings fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::RecordingVideoSettings(
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "maxLongSide")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "bitrate")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "fps")),
+        JSIConverter<margelo::nitro::nitroscreenrecorder::VideoCodec>::fromJSI(runtime, obj.getProperty(runtime, "codec")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "keyframeIntervalSec"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::RecordingVideoSettings& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "maxLongSide", JSIConverter<double>::toJSI(runtime, arg.maxLongSide));
+      obj.setProperty(runtime, "bitrate", JSIConverter<double>::toJSI(runtime, arg.bitrate));
+      obj.setProperty(runtime, "fps", JSIConverter<double>::toJSI(runtime, arg.fps));
+      obj.setProperty(runtime, "codec", JSIConverter<margelo::nitro::nitroscreenrecorder::VideoCodec>::toJSI(runtime, arg.codec));
+      obj.setProperty(runtime, "keyframeIntervalSec", JSIConverter<double>::toJSI(runtime, arg.keyframeIntervalSec));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "maxLongSide"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "bitrate"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "fps"))) return false;
+      if (!JSIConverter<margelo::nitro::nitroscreenrecorder::VideoCodec>::canConvert(runtime, obj.getProperty(runtime, "codec"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "keyframeIntervalSec"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
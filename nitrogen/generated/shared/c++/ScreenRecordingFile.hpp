@@ -25,10 +25,14 @@
 
 // Forward declaration of `AudioRecordingFile` to properly resolve imports.
 namespace margelo::nitro::nitroscreenrecorder { struct AudioRecordingFile; }
+// Forward declaration of `RecordingMarker` to properly resolve imports.
+namespace margelo::nitro::nitroscreenrecorder { struct RecordingMarker; }
 
 #include <string>
 #include "AudioRecordingFile.hpp"
 #include <optional>
+#include "RecordingMarker.hpp"
+#include <vector>
 
 namespace margelo::nitro::nitroscreenrecorder {
 
@@ -44,10 +48,12 @@ namespace margelo::nitro::nitroscreenrecorder {
     bool enabledMicrophone     SWIFT_PRIVATE;
     std::optional<AudioRecordingFile> audioFile     SWIFT_PRIVATE;
     std::optional<AudioRecordingFile> appAudioFile     SWIFT_PRIVATE;
+    std::optional<std::vector<RecordingMarker>> markers     SWIFT_PRIVATE;
+    std::optional<std::string> markersFile     SWIFT_PRIVATE;
 
   public:
     ScreenRecordingFile() = default;
-    explicit ScreenRecordingFile(std::string path, std::string name, double size, double duration, bool enabledMicrophone, std::optional<AudioRecordingFile> audioFile, std::optional<AudioRecordingFile> appAudioFile): path(path), name(name), size(size), duration(duration), enabledMicrophone(enabledMicrophone), audioFile(audioFile), appAudioFile(appAudioFile) {}
+    explicit ScreenRecordingFile(std::string path, std::string name, double size, double duration, bool enabledMicrophone, std::optional<AudioRecordingFile> audioFile, std::optional<AudioRecordingFile> appAudioFile, std::optional<std::vector<RecordingMarker>> markers, std::optional<std::string> markersFile): path(path), name(name), size(size), duration(duration), enabledMicrophone(enabledMicrophone), audioFile(audioFile), appAudioFile(appAudioFile), markers(markers), markersFile(markersFile) {}
   };
 
 } // namespace margelo::nitro::nitroscreenrecorder
@@ -66,7 +72,9 @@ namespace margelo::nitro {
         JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "duration")),
         JSIConverter<bool>::fromJSI(runtime, obj.getProperty(runtime, "enabledMicrophone")),
         JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::fromJSI(runtime, obj.getProperty(runtime, "audioFile")),
-        JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::fromJSI(runtime, obj.getProperty(runtime, "appAudioFile"))
+        JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::fromJSI(runtime, obj.getProperty(runtime, "appAudioFile")),
+        JSIConverter<std::optional<std::vector<margelo::nitro::nitroscreenrecorder::RecordingMarker>>>::fromJSI(runtime, obj.getProperty(runtime, "markers")),
+        JSIConverter<std::optional<std::string>>::fromJSI(runtime, obj.getProperty(runtime, "markersFile"))
       );
     }
     static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::ScreenRecordingFile& arg) {
@@ -78,6 +86,8 @@ namespace margelo::nitro {
       obj.setProperty(runtime, "enabledMicrophone", JSIConverter<bool>::toJSI(runtime, arg.enabledMicrophone));
       obj.setProperty(runtime, "audioFile", JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::toJSI(runtime, arg.audioFile));
       obj.setProperty(runtime, "appAudioFile", JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::toJSI(runtime, arg.appAudioFile));
+      obj.setProperty(runtime, "markers", JSIConverter<std::optional<std::vector<margelo::nitro::nitroscreenrecorder::RecordingMarker>>>::toJSI(runtime, arg.markers));
+      obj.setProperty(runtime, "markersFile", JSIConverter<std::optional<std::string>>::toJSI(runtime, arg.markersFile));
       return obj;
     }
     static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
@@ -95,6 +105,8 @@ namespace margelo::nitro {
       if (!JSIConverter<bool>::canConvert(runtime, obj.getProperty(runtime, "enabledMicrophone"))) return false;
       if (!JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::canConvert(runtime, obj.getProperty(runtime, "audioFile"))) return false;
       if (!JSIConverter<std::optional<margelo::nitro::nitroscreenrecorder::AudioRecordingFile>>::canConvert(runtime, obj.getProperty(runtime, "appAudioFile"))) return false;
+      if (!JSIConverter<std::optional<std::vector<margelo::nitro::nitroscreenrecorder::RecordingMarker>>>::canConvert(runtime, obj.getProperty(runtime, "markers"))) return false;
+      if (!JSIConverter<std::optional<std::string>>::canConvert(runtime, obj.getProperty(runtime, "markersFile"))) return false;
       return true;
     }
   };
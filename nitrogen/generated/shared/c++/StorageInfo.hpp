@@ -0,0 +1,79 @@
+///
+/// StorageInfo.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIHelpers.hpp>)
+#include <NitroModules/JSIHelpers.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+
+
+
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * A struct which can be represented as a JavaScript object (StorageInfo).
+   */
+  struct StorageInfo {
+  public:
+    double freeBytes     SWIFT_PRIVATE;
+    double totalBytes     SWIFT_PRIVATE;
+
+  public:
+    StorageInfo() = default;
+    explicit StorageInfo(double freeBytes, double totalBytes): freeBytes(freeBytes), totalBytes(totalBytes) {}
+  };
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ StorageInfo <> JS StorageInfo (object)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::StorageInfo> final {
+    static inline margelo::nitro::nitroscreenrecorder::StorageInfo fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      jsi::Object obj = arg.asObject(runtime);
+      return margelo::nitro::nitroscreenrecorder::StorageInfo(
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "freeBytes")),
+        JSIConverter<double>::fromJSI(runtime, obj.getProperty(runtime, "totalBytes"))
+      );
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, const margelo::nitro::nitroscreenrecorder::StorageInfo& arg) {
+      jsi::Object obj(runtime);
+      obj.setProperty(runtime, "freeBytes", JSIConverter<double>::toJSI(runtime, arg.freeBytes));
+      obj.setProperty(runtime, "totalBytes", JSIConverter<double>::toJSI(runtime, arg.totalBytes));
+      return obj;
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isObject()) {
+        return false;
+      }
+      jsi::Object obj = value.getObject(runtime);
+      if (!nitro::isPlainObject(runtime, obj)) {
+        return false;
+      }
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "freeBytes"))) return false;
+      if (!JSIConverter<double>::canConvert(runtime, obj.getProperty(runtime, "totalBytes"))) return false;
+      return true;
+    }
+  };
+
+} // namespace margelo::nitro
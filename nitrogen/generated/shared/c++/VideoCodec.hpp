@@ -0,0 +1,80 @@
+///
+/// VideoCodec.hpp
+/// This file was generated by nitrogen. DO NOT MODIFY THIS FILE.
+/// https://github.com/mrousavy/nitro
+/// Copyright © 2026 Marc Rousavy @ Margelo
+///
+
+#pragma once
+
+#if __has_include(<NitroModules/NitroHash.hpp>)
+#include <NitroModules/NitroHash.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/JSIConverter.hpp>)
+#include <NitroModules/JSIConverter.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+#if __has_include(<NitroModules/NitroDefines.hpp>)
+#include <NitroModules/NitroDefines.hpp>
+#else
+#error NitroModules cannot be found! Are you sure you installed NitroModules properly?
+#endif
+
+namespace margelo::nitro::nitroscreenrecorder {
+
+  /**
+   * An enum which can be represented as a JavaScript union (VideoCodec).
+   */
+  enum class VideoCodec {
+    AUTO      SWIFT_NAME(auto) = 0,
+    HEVC      SWIFT_NAME(hevc) = 1,
+    H264      SWIFT_NAME(h264) = 2,
+  } CLOSED_ENUM;
+
+} // namespace margelo::nitro::nitroscreenrecorder
+
+namespace margelo::nitro {
+
+  // C++ VideoCodec <> JS VideoCodec (union)
+  template <>
+  struct JSIConverter<margelo::nitro::nitroscreenrecorder::VideoCodec> final {
+    static inline margelo::nitro::nitroscreenrecorder::VideoCodec fromJSI(jsi::Runtime& runtime, const jsi::Value& arg) {
+      std::string unionValue = JSIConverter<std::string>::fromJSI(runtime, arg);
+      switch (hashString(unionValue.c_str(), unionValue.size())) {
+        case hashString("auto"): return margelo::nitro::nitroscreenrecorder::VideoCodec::AUTO;
+        case hashString("hevc"): return margelo::nitro::nitroscreenrecorder::VideoCodec::HEVC;
+        case hashString("h264"): return margelo::nitro::nitroscreenrecorder::VideoCodec::H264;
+        default: [[unlikely]]
+          throw std::invalid_argument("Cannot convert \"" + unionValue + "\" to enum VideoCodec - invalid value!");
+      }
+    }
+    static inline jsi::Value toJSI(jsi::Runtime& runtime, margelo::nitro::nitroscreenrecorder::VideoCodec arg) {
+      switch (arg) {
+        case margelo::nitro::nitroscreenrecorder::VideoCodec::AUTO: return JSIConverter<std::string>::toJSI(runtime, "auto");
+        case margelo::nitro::nitroscreenrecorder::VideoCodec::HEVC: return JSIConverter<std::string>::toJSI(runtime, "hevc");
+        case margelo::nitro::nitroscreenrecorder::VideoCodec::H264: return JSIConverter<std::string>::toJSI(runtime, "h264");
+        default: [[unlikely]]
+          throw std::invalid_argument("Cannot convert VideoCodec to JS - invalid value: "
+                                    + std::to_string(static_cast<int>(arg)) + "!");
+      }
+    }
+    static inline bool canConvert(jsi::Runtime& runtime, const jsi::Value& value) {
+      if (!value.isString()) {
+        return false;
+      }
+      std::string unionValue = JSIConverter<std::string>::fromJSI(runtime, value);
+      switch (hashString(unionValue.c_str(), unionValue.size())) {
+        case hashString("auto"):
+        case hashString("hevc"):
+        case hashString("h264"):
+          return true;
+        default:
+          return false;
+      }
+    }
+  };
+
+} // namespace margelo::nitro
@@ -8,7 +8,14 @@ import type {
   PermissionStatus,
   RecordingError,
   BroadcastPickerPresentationEvent,
+  RawExtensionLogEntry,
   RawExtensionStatus,
+  RecordingVideoSettings,
+  ChunkReadyEvent,
+  PendingChunk,
+  RecordingProgress,
+  RecordingLimits,
+  StorageInfo,
 } from './types';
 
 /**
@@ -47,6 +54,18 @@ export interface NitroScreenRecorder
   ): number;
   removeBroadcastPickerListener(id: number): void;
 
+  addChunkListener(callback: (event: ChunkReadyEvent) => void): number;
+  removeChunkListener(id: number): void;
+
+  /**
+   * Called when the recorder status changes (chunk started/finalized,
+   * microphone toggled, capture mode changed, recording ended).
+   */
+  addExtensionStatusListener(
+    callback: (status: RawExtensionStatus) => void
+  ): number;
+  removeExtensionStatusListener(id: number): void;
+
   // ============================================================================
   // IN-APP RECORDING
   // ============================================================================
@@ -57,6 +76,7 @@ export interface NitroScreenRecorder
     cameraPreviewStyle: RecorderCameraStyle,
     cameraDevice: CameraDevice,
     separateAudioFile: boolean,
+    limits: RecordingLimits,
     onRecordingFinished: (file: ScreenRecordingFile) => void
     // onRecordingError: (error: RecordingError) => void
   ): void;
@@ -70,6 +90,8 @@ export interface NitroScreenRecorder
   startGlobalRecording(
     enableMic: boolean,
     separateAudioFile: boolean,
+    videoSettings: RecordingVideoSettings,
+    limits: RecordingLimits,
     onRecordingError: (error: RecordingError) => void
   ): void;
   stopGlobalRecording(
@@ -80,17 +102,71 @@ export interface NitroScreenRecorder
     chunkId: string | undefined,
     settledTimeMs: number
   ): Promise<ScreenRecordingFile | undefined>;
+  /**
+   * Finalizes the current chunk and starts capturing `nextChunkId` in the
+   * same step, so no content is lost between the two chunks.
+   */
+  rotateChunk(
+    chunkId: string | undefined,
+    nextChunkId: string | undefined,
+    settledTimeMs: number
+  ): Promise<ScreenRecordingFile | undefined>;
   retrieveLastGlobalRecording(): ScreenRecordingFile | undefined;
   retrieveGlobalRecording(
     chunkId: string | undefined
   ): ScreenRecordingFile | undefined;
 
+  // ============================================================================
+  // PENDING CHUNKS
+  // ============================================================================
+
+  /**
+   * Lists finalized chunks that have not been retrieved yet, oldest first.
+   */
+  listPendingChunks(): PendingChunk[];
+  /**
+   * Removes a pending chunk from the queue and returns its file.
+   * Returns undefined if no chunk with this `id` is queued.
+   */
+  claimPendingChunk(id: string): ScreenRecordingFile | undefined;
+  /**
+   * Removes a pending chunk from the queue and deletes its files.
+   */
+  discardPendingChunk(id: string): void;
+
+  // ============================================================================
+  // PAUSE / RESUME
+  // ============================================================================
+
+  /**
+   * Pauses the active in-app or global recording.
+   */
+  pauseRecording(): Promise<void>;
+  /**
+   * Resumes a recording paused with `pauseRecording`.
+   */
+  resumeRecording(): Promise<void>;
+
   // ============================================================================
   // EXTENSION STATUS
   // ============================================================================
 
   getExtensionStatus(): RawExtensionStatus;
   isScreenBeingRecorded(): boolean;
+  /**
+   * Bytes written to the file of the current global recording (or chunk) so far.
+   * Returns 0 when nothing is being recorded.
+   */
+  getCurrentChunkSize(): number;
+  /**
+   * Progress of the active in-app or global recording, or undefined when
+   * nothing is being recorded.
+   */
+  getRecordingProgress(): RecordingProgress | undefined;
+  /**
+   * Free and total bytes of the volume recordings are written to.
+   */
+  getStorageInfo(): StorageInfo;
 
   // ============================================================================
   // EXTENSION LOGS (iOS only - for debugging broadcast extension)
@@ -102,6 +178,19 @@ export interface NitroScreenRecorder
    */
   getExtensionLogs(): string[];
 
+  /**
+   * Returns the stored extension log entries, oldest first.
+   * @platform iOS-only
+   */
+  getExtensionLogEntries(): RawExtensionLogEntry[];
+
+  /**
+   * Sets the minimum level (`DEBUG`, `INFO`, `WARN` or `ERROR`) and the
+   * ring buffer size of the extension log.
+   * @platform iOS-only
+   */
+  configureExtensionLogs(minLevel: string, maxEntries: number): void;
+
   /**
    * Clears all extension logs from UserDefaults.
    * @platform iOS-only
@@ -126,4 +215,53 @@ export interface NitroScreenRecorder
   // ============================================================================
 
   clearRecordingCache(): void;
+  /**
+   * Joins recordings into a single file, dropping the first `startOffsetSec`
+   * seconds of the result.
+   */
+  concatenateRecordings(
+    paths: string[],
+    startOffsetSec: number
+  ): Promise<ScreenRecordingFile>;
+  /**
+   * Deletes a recording file. Missing files are ignored.
+   */
+  deleteRecordingFile(path: string): void;
+  /**
+   * Renames a recording file within its directory and returns the new path.
+   */
+  renameRecordingFile(path: string, name: string): string;
+  /**
+   * Moves a recording file into `directory` (created if missing) under
+   * `name`, adding a numeric suffix if the name is taken, and returns the
+   * new path.
+   */
+  moveRecordingFile(path: string, directory: string, name: string): string;
+  /**
+   * Returns whether a recording file exists.
+   */
+  recordingFileExists(path: string): boolean;
+  /**
+   * Writes `contents` to a file next to a recording, named like it with
+   * `extension` instead of its own, and returns the file's path.
+   */
+  writeRecordingSidecar(
+    path: string,
+    extension: string,
+    contents: string
+  ): string;
+
+  // ============================================================================
+  // RECORDING LIBRARY
+  // ============================================================================
+
+  /**
+   * Returns the persisted recording library manifest, or an empty string if
+   * none has been written yet.
+   */
+  readRecordingLibrary(): string;
+  /**
+   * Persists the recording library manifest.
+   */
+  writeRecordingLibrary(manifest: string): void;
 }
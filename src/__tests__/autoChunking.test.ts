@@ -0,0 +1,64 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../mock';
+import {
+  isAutoChunkingActive,
+  startAutoChunking,
+  stopAutoChunking,
+} from '../functions';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('auto-chunking', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.restoreAllMocks();
+    resetMockScreenRecorder();
+    mockScreenRecorder.beginGlobalRecording();
+  });
+
+  afterEach(async () => {
+    await stopAutoChunking({ finalize: false });
+    jest.useRealTimers();
+  });
+
+  it('rotates chunks in one native call', async () => {
+    const markChunkStart = jest.spyOn(mockScreenRecorder, 'markChunkStart');
+    const finalizeChunk = jest.spyOn(mockScreenRecorder, 'finalizeChunk');
+    const rotateChunk = jest.spyOn(mockScreenRecorder, 'rotateChunk');
+    await startAutoChunking({ maxDurationSec: 2, onChunk: jest.fn() });
+
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(markChunkStart).toHaveBeenCalledTimes(1);
+    expect(
+      rotateChunk.mock.calls.map(([chunkId, next]) => [chunkId, next])
+    ).toEqual([
+      ['chunk-1', 'chunk-2'],
+      ['chunk-2', 'chunk-3'],
+    ]);
+    expect(finalizeChunk).not.toHaveBeenCalled();
+  });
+
+  it('delivers every chunk with its ID and index', async () => {
+    const onChunk = jest.fn();
+    await startAutoChunking({
+      maxDurationSec: 2,
+      chunkIdPrefix: 'part',
+      onChunk,
+    });
+
+    await jest.advanceTimersByTimeAsync(4000);
+    const last = await stopAutoChunking();
+
+    expect(onChunk.mock.calls.map(([, chunk]) => chunk)).toEqual([
+      { chunkId: 'part-1', index: 1 },
+      { chunkId: 'part-2', index: 2 },
+      { chunkId: 'part-3', index: 3 },
+    ]);
+    expect(onChunk).toHaveBeenLastCalledWith(last, expect.anything());
+    expect(isAutoChunkingActive()).toBe(false);
+  });
+});
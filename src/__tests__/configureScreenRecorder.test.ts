@@ -0,0 +1,91 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../mock';
+import { configureScreenRecorder } from '../functions';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('configureScreenRecorder', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+  const forwarded = () =>
+    [logger.debug, logger.info, logger.warn, logger.error]
+      .flatMap((log) => log.mock.calls)
+      .filter(([, fields]) => fields?.source === 'extension')
+      .map(([message]) => message);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 0, 1) });
+    jest.clearAllMocks();
+    resetMockScreenRecorder();
+    configureScreenRecorder({ logger });
+  });
+
+  afterEach(() => {
+    configureScreenRecorder({ logger: console, forwardExtensionLogs: false });
+    jest.useRealTimers();
+  });
+
+  it('sends library warnings to the configured logger', () => {
+    configureScreenRecorder({
+      forwardExtensionLogs: { intervalMs: -1 },
+    });
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('`forwardExtensionLogs.intervalMs`'),
+      { value: -1 }
+    );
+  });
+
+  it('forwards new extension log entries at their level', () => {
+    mockScreenRecorder.logFromExtension('INFO', 'Logged before forwarding');
+    jest.advanceTimersByTime(1);
+    configureScreenRecorder({ forwardExtensionLogs: { intervalMs: 1000 } });
+
+    mockScreenRecorder.logFromExtension('DEBUG', 'Below minLevel');
+    mockScreenRecorder.logFromExtension(
+      'WARN',
+      'handleFinalizeChunk: No active writer'
+    );
+    jest.advanceTimersByTime(1000);
+
+    expect(forwarded()).toEqual(['No active writer']);
+    expect(logger.warn).toHaveBeenCalledWith('No active writer', {
+      source: 'extension',
+      context: 'handleFinalizeChunk',
+      timestamp: Date.UTC(2026, 0, 1) + 1,
+    });
+  });
+
+  it('forwards each entry once, including entries sharing a timestamp', () => {
+    configureScreenRecorder({ forwardExtensionLogs: { intervalMs: 1000 } });
+    jest.advanceTimersByTime(1000);
+    const loggedAt = Date.now();
+
+    mockScreenRecorder.logFromExtension('INFO', 'first');
+    mockScreenRecorder.logFromExtension('INFO', 'second');
+    jest.advanceTimersByTime(1000);
+    // Logged in the same millisecond as the forwarded entries, after the poll
+    jest.setSystemTime(loggedAt);
+    mockScreenRecorder.logFromExtension('ERROR', 'third');
+    jest.advanceTimersByTime(2000);
+
+    expect(forwarded()).toEqual(['first', 'second', 'third']);
+  });
+
+  it('stops forwarding when turned off', () => {
+    configureScreenRecorder({ forwardExtensionLogs: { intervalMs: 1000 } });
+
+    configureScreenRecorder({ forwardExtensionLogs: false });
+    mockScreenRecorder.logFromExtension('ERROR', 'Writer failed');
+    jest.advanceTimersByTime(5000);
+
+    expect(forwarded()).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  ChunkMissingError,
+  DiskFullError,
+  ExtensionNotRunningError,
+  NoActiveSessionError,
+  PermissionDeniedError,
+  ScreenRecorderError,
+  toScreenRecorderError,
+} from '../errors';
+import type { ScreenRecorderErrorCode } from '../types';
+
+describe('toScreenRecorderError', () => {
+  it.each<[string, ScreenRecorderErrorCode]>([
+    ['SCREEN_RECORDER_UNAVAILABLE', 'RECORDER_UNAVAILABLE'],
+    ['CAMERA_PERMISSION_DENIED', 'PERMISSION_DENIED'],
+    ['MIC_PERMISSION_DENIED', 'PERMISSION_DENIED'],
+    ['BROADCAST_ALREADY_ACTIVE', 'ALREADY_RECORDING'],
+    ['APP_GROUP_IDENTIFIER_MISSING', 'APP_GROUP_UNAVAILABLE'],
+    ['APP_GROUP_ACCESS_FAILED', 'APP_GROUP_UNAVAILABLE'],
+    ['APP_GROUP_CONTAINER_FAILED', 'APP_GROUP_UNAVAILABLE'],
+    ['MARK_CHUNK_FAILED', 'EXTENSION_NOT_RUNNING'],
+    ['NO_ACTIVE_RECORDING_SESSION', 'NO_ACTIVE_SESSION'],
+    ['NO_RECORDING_FILE_AFTER_STOP', 'CHUNK_MISSING'],
+    ['NO_FINALIZED_CHUNK_FILE', 'CHUNK_MISSING'],
+    ['FINALIZED_CHUNK_FILE_MISSING', 'CHUNK_MISSING'],
+    ['NO_CONTEXT', 'RECORDER_UNAVAILABLE'],
+    ['NO_ACTIVITY', 'RECORDER_UNAVAILABLE'],
+    ['GlobalRecordingStartError', 'START_FAILED'],
+    ['RecordingStartError', 'START_FAILED'],
+    ['RecordingStopError', 'STOP_FAILED'],
+    ['ChunkStartError', 'CHUNK_FAILED'],
+    ['ChunkFinalizeError', 'CHUNK_FAILED'],
+    ['RECORDING_FILE_MISSING', 'CHUNK_MISSING'],
+    ['CONCATENATE_FAILED', 'CHUNK_FAILED'],
+    ['CLEANUP_FAILED', 'FILE_OPERATION_FAILED'],
+    ['RENAME_FAILED', 'FILE_OPERATION_FAILED'],
+    ['MOVE_FAILED', 'FILE_OPERATION_FAILED'],
+    ['SIDECAR_WRITE_FAILED', 'FILE_OPERATION_FAILED'],
+    ['LIBRARY_WRITE_FAILED', 'FILE_OPERATION_FAILED'],
+  ])('maps the native name %s to %s', (nativeName, code) => {
+    const payload = { name: nativeName, message: 'Something went wrong' };
+
+    const error = toScreenRecorderError(payload);
+
+    expect(error).toBeInstanceOf(ScreenRecorderError);
+    expect(error).toMatchObject({ code, nativeName, cause: payload });
+  });
+
+  it.each<[string, string, ScreenRecorderErrorCode]>([
+    [
+      'Swift error description',
+      'NitroScreenRecorder.RecorderError.MARK_CHUNK_FAILED',
+      'EXTENSION_NOT_RUNNING',
+    ],
+    [
+      'Android thrown message',
+      'Error: NO_ACTIVE_RECORDING_SESSION',
+      'NO_ACTIVE_SESSION',
+    ],
+    [
+      'name inside a longer message',
+      'Failed to move file: MOVE_FAILED (EEXIST)',
+      'FILE_OPERATION_FAILED',
+    ],
+  ])('finds the native name in a %s', (_, message, code) => {
+    expect(toScreenRecorderError(new Error(message)).code).toBe(code);
+  });
+
+  it('prefers the error name over names found in the message', () => {
+    const error = toScreenRecorderError({
+      name: 'RecordingStopError',
+      message: 'CLEANUP_FAILED after stop',
+    });
+
+    expect(error).toMatchObject({
+      code: 'STOP_FAILED',
+      nativeName: 'RecordingStopError',
+    });
+  });
+
+  it.each([
+    'ENOSPC: no space left on device',
+    'No space left on device',
+    'The device is out of space',
+    'Disk is full',
+    'disk full',
+    'Error Domain=NSCocoaErrorDomain Code=640 "NSFileWriteOutOfSpaceError"',
+  ])('maps "%s" to DISK_FULL', (message) => {
+    const error = toScreenRecorderError({ name: 'RENAME_FAILED', message });
+
+    expect(error).toBeInstanceOf(DiskFullError);
+    expect(error).toMatchObject({
+      code: 'DISK_FULL',
+      nativeName: 'RENAME_FAILED',
+    });
+  });
+
+  it.each([
+    ['Screen recording permission denied', 'PERMISSION_DENIED'],
+    ['User declined: Recording Permission Denied', 'PERMISSION_DENIED'],
+    ['MediaProjection could not be created', 'START_FAILED'],
+  ])('maps GlobalRecordingStartError "%s" to %s', (message, code) => {
+    const error = toScreenRecorderError({
+      name: 'GlobalRecordingStartError',
+      message,
+    });
+
+    expect(error.code).toBe(code);
+  });
+
+  it('only treats screen capture denials of GlobalRecordingStartError as permission errors', () => {
+    const error = toScreenRecorderError({
+      name: 'RecordingStartError',
+      message: 'Screen recording permission denied',
+    });
+
+    expect(error.code).toBe('START_FAILED');
+  });
+
+  it.each([
+    ['CAMERA_PERMISSION_DENIED', 'camera'],
+    ['MIC_PERMISSION_DENIED', 'microphone'],
+  ])('creates a PermissionDeniedError for %s', (name, permission) => {
+    const error = toScreenRecorderError({ name, message: 'Denied' });
+
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error).toMatchObject({ permission });
+  });
+
+  it('creates a screen capture PermissionDeniedError for denied broadcasts', () => {
+    const error = toScreenRecorderError({
+      name: 'GlobalRecordingStartError',
+      message: 'Screen recording permission denied',
+    });
+
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error).toMatchObject({ permission: 'screenCapture' });
+  });
+
+  it.each<[string, new (...args: never[]) => ScreenRecorderError]>([
+    ['NO_ACTIVE_RECORDING_SESSION', NoActiveSessionError],
+    ['RECORDING_FILE_MISSING', ChunkMissingError],
+    ['MARK_CHUNK_FAILED', ExtensionNotRunningError],
+  ])('creates the subclass for %s', (name, type) => {
+    expect(toScreenRecorderError({ name, message: name })).toBeInstanceOf(type);
+  });
+
+  it.each<[string, unknown, string]>([
+    ['an unknown Error', new Error('Something broke'), 'Something broke'],
+    ['a string', 'plain failure', 'plain failure'],
+    ['a number', 42, '42'],
+    ['undefined', undefined, 'undefined'],
+  ])('maps %s to UNKNOWN', (_, value, message) => {
+    const error = toScreenRecorderError(value);
+
+    expect(error).toMatchObject({ code: 'UNKNOWN', message, cause: value });
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty'])(
+    'does not map the object property name %s',
+    (name) => {
+      const error = toScreenRecorderError({ name, message: 'Failed' });
+
+      expect(error).toMatchObject({ code: 'UNKNOWN', nativeName: name });
+    }
+  );
+
+  it('returns ScreenRecorderErrors unchanged', () => {
+    const original = new ScreenRecorderError('TIMEOUT', 'Too slow');
+
+    expect(toScreenRecorderError(original)).toBe(original);
+  });
+
+  it('keeps instanceof working for subclasses', () => {
+    const error = new DiskFullError();
+
+    expect(error).toBeInstanceOf(DiskFullError);
+    expect(error).toBeInstanceOf(ScreenRecorderError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('DiskFullError');
+  });
+});
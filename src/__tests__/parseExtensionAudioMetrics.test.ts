@@ -0,0 +1,214 @@
+import { mockNitroModules } from '../mock';
+import { parseExtensionAudioMetrics } from '../functions';
+import { setLogger } from '../logger';
+import type { ExtensionAudioHealth } from '../types';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+// A finalized chunk with mic audio in sync and nothing dropped
+const HEALTHY_ENTRY = {
+  timestamp: 1705314600.123,
+  context: 'handleFinalizeChunk',
+  chunkId: 'q1',
+  writerStatus: 'completed',
+  sessionStarted: true,
+  totalVideoFrames: 300,
+  totalMicSamples: 470,
+  videoDuration: 10,
+  micDuration: 10.02,
+  firstMicDeltaToVideo: 0.01,
+  audioRouteInputs: ['MicrophoneBuiltIn'],
+};
+
+const json = (...entries: object[]) => JSON.stringify({ metrics: entries });
+
+const healthOf = (entry: object, driftThresholdSec?: number) =>
+  parseExtensionAudioMetrics(json(entry), { driftThresholdSec })[0]!.health;
+
+describe('parseExtensionAudioMetrics', () => {
+  it('parses the entries of the metrics object', () => {
+    const [metrics] = parseExtensionAudioMetrics(json(HEALTHY_ENTRY));
+
+    expect(metrics).toMatchObject({
+      timestamp: 1705314600123,
+      context: 'handleFinalizeChunk',
+      chunkId: 'q1',
+      writerStatus: 'completed',
+      sessionStarted: true,
+      totalVideoFrames: 300,
+      micDuration: 10.02,
+      firstMicDeltaToVideo: 0.01,
+      audioRouteInputs: ['MicrophoneBuiltIn'],
+      raw: HEALTHY_ENTRY,
+    });
+  });
+
+  it('accepts a bare array of entries', () => {
+    const entries = parseExtensionAudioMetrics(
+      JSON.stringify([HEALTHY_ENTRY, { ...HEALTHY_ENTRY, chunkId: 'q2' }])
+    );
+
+    expect(entries.map(({ chunkId }) => chunkId)).toEqual(['q1', 'q2']);
+  });
+
+  it('falls back to defaults for missing and malformed values', () => {
+    const [metrics] = parseExtensionAudioMetrics(
+      json({
+        totalVideoFrames: 'many',
+        micDuration: null,
+        sessionStarted: 'yes',
+        audioRouteInputs: ['MicrophoneBuiltIn', 42],
+        audioRouteOutputs: 'Speaker',
+      })
+    );
+
+    expect(metrics).toMatchObject({
+      timestamp: 0,
+      context: 'unknown',
+      writerStatus: 'unknown',
+      sessionStarted: false,
+      totalVideoFrames: 0,
+      micDuration: 0,
+      sessionStartTime: -1,
+      firstVideoPTS: -1,
+      audioRouteInputs: ['MicrophoneBuiltIn'],
+      audioRouteOutputs: [],
+    });
+    expect(metrics!.firstMicDeltaToVideo).toBeUndefined();
+  });
+
+  it('reads the ISO time when there is no timestamp', () => {
+    const [metrics] = parseExtensionAudioMetrics(
+      json({ time: '2024-01-15T10:30:00.123Z' })
+    );
+
+    expect(metrics!.timestamp).toBe(1705314600123);
+  });
+
+  it('skips entries that are not objects', () => {
+    const entries = parseExtensionAudioMetrics(
+      json(HEALTHY_ENTRY, [1, 2], null as unknown as object)
+    );
+
+    expect(entries).toHaveLength(1);
+  });
+
+  it.each([
+    ['invalid JSON', '{"metrics": ['],
+    ['no metrics', '{"platform": "android"}'],
+    ['a non-array metrics value', '{"metrics": {}}'],
+    ['a number', '42'],
+  ])('returns no entries for %s', (_, input) => {
+    expect(parseExtensionAudioMetrics(input)).toEqual([]);
+  });
+
+  it('ignores an invalid drift threshold with a warning', () => {
+    const warn = jest.fn();
+    setLogger({ debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() });
+
+    const health = healthOf({ ...HEALTHY_ENTRY, micDuration: 10.2 }, -1);
+    setLogger(console);
+
+    expect(health.hasAudioDrift).toBe(true);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '`driftThresholdSec` in `parseExtensionAudioMetrics`'
+      ),
+      { value: -1 }
+    );
+  });
+});
+
+describe('audio health', () => {
+  it('reports a healthy entry', () => {
+    expect(healthOf(HEALTHY_ENTRY)).toEqual<ExtensionAudioHealth>({
+      maxAudioDriftSec: expect.closeTo(0.02),
+      hasAudioDrift: false,
+      droppedBuffers: 0,
+      hasDroppedBuffers: false,
+      hasMonotonicityViolations: false,
+      isHealthy: true,
+    });
+  });
+
+  it.each<[string, object, number, boolean]>([
+    ['mic behind the video', { micDuration: 9.8 }, 0.2, true],
+    ['mic ahead of the video', { micDuration: 10.05 }, 0.05, false],
+    [
+      'app audio drifting',
+      { totalAppAudioSamples: 400, appAudioDuration: 9.5 },
+      0.5,
+      true,
+    ],
+    [
+      'the larger of mic and app audio drift',
+      { micDuration: 10.3, totalAppAudioSamples: 400, appAudioDuration: 9.9 },
+      0.3,
+      true,
+    ],
+    [
+      'durations of tracks without samples',
+      { totalMicSamples: 0, micDuration: 3 },
+      0,
+      false,
+    ],
+    ['no video frames', { totalVideoFrames: 0, micDuration: 3 }, 0, false],
+  ])('measures drift with %s', (_, overrides, drift, hasAudioDrift) => {
+    const health = healthOf({ ...HEALTHY_ENTRY, ...overrides });
+
+    expect(health.maxAudioDriftSec).toBeCloseTo(drift);
+    expect(health.hasAudioDrift).toBe(hasAudioDrift);
+    expect(health.isHealthy).toBe(!hasAudioDrift);
+  });
+
+  it.each<[number, boolean]>([
+    [0.01, true],
+    [0.5, false],
+  ])('compares drift to a threshold of %s', (threshold, hasAudioDrift) => {
+    const health = healthOf({ ...HEALTHY_ENTRY, micDuration: 10.2 }, threshold);
+
+    expect(health.hasAudioDrift).toBe(hasAudioDrift);
+  });
+
+  it('counts buffers dropped while recording', () => {
+    const health = healthOf({
+      ...HEALTHY_ENTRY,
+      videoBackpressureDrops: 1,
+      micBackpressureDrops: 2,
+      separateAudioBackpressureDrops: 3,
+      appAudioBackpressureDrops: 4,
+      micDroppedPTSBelowStart: 5,
+      appAudioDroppedPTSBelowStart: 6,
+    });
+
+    expect(health).toMatchObject({
+      droppedBuffers: 21,
+      hasDroppedBuffers: true,
+      isHealthy: false,
+    });
+  });
+
+  it('does not count buffers dropped before the session or backpressure hits', () => {
+    const health = healthOf({
+      ...HEALTHY_ENTRY,
+      micDroppedBeforeSession: 12,
+      appAudioDroppedBeforeSession: 3,
+      earlyBuffersDropped: 8,
+      micBackpressureHits: 40,
+    });
+
+    expect(health).toMatchObject({ droppedBuffers: 0, isHealthy: true });
+  });
+
+  it.each([['micMonotonicityViolations'], ['appAudioMonotonicityViolations']])(
+    'flags %s',
+    (key) => {
+      const health = healthOf({ ...HEALTHY_ENTRY, [key]: 1 });
+
+      expect(health).toMatchObject({
+        hasMonotonicityViolations: true,
+        isHealthy: false,
+      });
+    }
+  );
+});
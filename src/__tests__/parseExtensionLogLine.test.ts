@@ -0,0 +1,76 @@
+import { mockNitroModules } from '../mock';
+import { parseExtensionLogLine } from '../functions';
+import type { ExtensionLogEntry } from '../types';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+const TIME = '2024-01-15T10:30:00.123Z';
+const TIMESTAMP = Date.parse(TIME);
+
+describe('parseExtensionLogLine', () => {
+  it.each<[string, ExtensionLogEntry]>([
+    [
+      `[INFO] ${TIME}: handleFinalizeChunk: Writer finished`,
+      {
+        timestamp: TIMESTAMP,
+        level: 'info',
+        context: 'handleFinalizeChunk',
+        message: 'Writer finished',
+      },
+    ],
+    [
+      `[DEBUG] ${TIME}: Broadcast started`,
+      { timestamp: TIMESTAMP, level: 'debug', message: 'Broadcast started' },
+    ],
+    [
+      `[WARNING] ${TIME}: SampleHandler.processSampleBuffer: Dropped frame`,
+      {
+        timestamp: TIMESTAMP,
+        level: 'warn',
+        context: 'SampleHandler.processSampleBuffer',
+        message: 'Dropped frame',
+      },
+    ],
+    [
+      `[error] ${TIME}: handleFinalizeChunk: Writer failed: disk full`,
+      {
+        timestamp: TIMESTAMP,
+        level: 'error',
+        context: 'handleFinalizeChunk',
+        message: 'Writer failed: disk full',
+      },
+    ],
+    [
+      `  [WARN] ${TIME}: Stack:\n  frame 1\n  frame 2  `,
+      {
+        timestamp: TIMESTAMP,
+        level: 'warn',
+        context: 'Stack',
+        message: 'frame 1\n  frame 2',
+      },
+    ],
+  ])('parses %j', (line, expected) => {
+    expect(parseExtensionLogLine(line)).toEqual(expected);
+  });
+
+  it('does not take a message with spaces before the colon as context', () => {
+    expect(
+      parseExtensionLogLine(`[INFO] ${TIME}: Chunk q1 saved: 3.2s`)
+    ).toEqual({
+      timestamp: TIMESTAMP,
+      level: 'info',
+      message: 'Chunk q1 saved: 3.2s',
+    });
+  });
+
+  it.each([
+    ['an empty line', ''],
+    ['plain text', 'Broadcast started'],
+    ['an unknown level', `[TRACE] ${TIME}: Broadcast started`],
+    ['an invalid time', '[INFO] yesterday: Broadcast started'],
+    ['a missing time', '[INFO] Broadcast started'],
+    ['a missing level', `${TIME}: Broadcast started`],
+  ])('returns undefined for %s', (_, line) => {
+    expect(parseExtensionLogLine(line)).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../mock';
+import {
+  isReplayBufferActive,
+  saveReplay,
+  startReplayBuffer,
+  stopReplayBuffer,
+} from '../functions';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('replay buffer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.restoreAllMocks();
+    resetMockScreenRecorder();
+    mockScreenRecorder.beginGlobalRecording();
+  });
+
+  afterEach(async () => {
+    await stopReplayBuffer();
+    jest.useRealTimers();
+  });
+
+  it('rotates segments without a gap between them', async () => {
+    const markChunkStart = jest.spyOn(mockScreenRecorder, 'markChunkStart');
+    const rotateChunk = jest.spyOn(mockScreenRecorder, 'rotateChunk');
+    await startReplayBuffer({ windowSeconds: 6, segmentSeconds: 2 });
+
+    await jest.advanceTimersByTimeAsync(4000);
+
+    expect(markChunkStart).toHaveBeenCalledTimes(1);
+    expect(
+      rotateChunk.mock.calls.map(([chunkId, next]) => [chunkId, next])
+    ).toEqual([
+      [expect.stringMatching(/-1$/), expect.stringMatching(/-2$/)],
+      [expect.stringMatching(/-2$/), expect.stringMatching(/-3$/)],
+    ]);
+  });
+
+  it('saves the last windowSeconds and keeps buffering', async () => {
+    await startReplayBuffer({ windowSeconds: 6, segmentSeconds: 2 });
+    await jest.advanceTimersByTimeAsync(10000);
+
+    const replay = await saveReplay();
+
+    expect(replay.duration).toBeCloseTo(6);
+    expect(isReplayBufferActive()).toBe(true);
+    expect(mockScreenRecorder.getExtensionStatus().isCapturingChunk).toBe(true);
+  });
+
+  it('stops when the global recording ends', async () => {
+    await startReplayBuffer({ windowSeconds: 6 });
+
+    mockScreenRecorder.endGlobalRecording();
+
+    expect(isReplayBufferActive()).toBe(false);
+    await expect(saveReplay()).rejects.toMatchObject({
+      code: 'NO_ACTIVE_SESSION',
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../mock';
+import { isScreenBeingRecorded, startGlobalRecordingAsync } from '../functions';
+import { recorderStore } from '../store';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('startGlobalRecordingAsync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('resolves once the recording begins', async () => {
+    await expect(startGlobalRecordingAsync()).resolves.toBeUndefined();
+
+    expect(isScreenBeingRecorded()).toBe(true);
+  });
+
+  it('passes the options to the native recorder', async () => {
+    await startGlobalRecordingAsync({
+      options: { enableMic: true, video: { preset: 'low' } },
+    });
+
+    expect(mockScreenRecorder.lastVideoSettings).toMatchObject({
+      maxLongSide: 1280,
+      fps: 15,
+      codec: 'h264',
+    });
+  });
+
+  it('resolves when capture begins during the picker dismissal grace period', async () => {
+    mockScreenRecorder.globalStartBehavior = 'manual';
+    const started = startGlobalRecordingAsync();
+
+    mockScreenRecorder.emitBroadcastPickerEvent('showing');
+    mockScreenRecorder.emitBroadcastPickerEvent('dismissed');
+    jest.advanceTimersByTime(3000);
+    mockScreenRecorder.beginGlobalRecording();
+
+    await expect(started).resolves.toBeUndefined();
+  });
+
+  it('rejects with PICKER_DISMISSED when the picker closes without recording', async () => {
+    mockScreenRecorder.globalStartBehavior = 'manual';
+    const started = startGlobalRecordingAsync({ pickerDismissalGraceMs: 1000 });
+
+    mockScreenRecorder.emitBroadcastPickerEvent('showing');
+    mockScreenRecorder.emitBroadcastPickerEvent('dismissed');
+    jest.advanceTimersByTime(1000);
+
+    await expect(started).rejects.toMatchObject({ code: 'PICKER_DISMISSED' });
+    expect(recorderStore.getSnapshot().state).toBe('idle');
+  });
+
+  it('restarts the grace period when the picker is opened again', async () => {
+    mockScreenRecorder.globalStartBehavior = 'manual';
+    const onSettled = jest.fn();
+    const started = startGlobalRecordingAsync({ pickerDismissalGraceMs: 1000 });
+    started.then(onSettled, onSettled);
+
+    mockScreenRecorder.emitBroadcastPickerEvent('showing');
+    mockScreenRecorder.emitBroadcastPickerEvent('dismissed');
+    await jest.advanceTimersByTimeAsync(600);
+    mockScreenRecorder.emitBroadcastPickerEvent('showing');
+    await jest.advanceTimersByTimeAsync(2000);
+    mockScreenRecorder.emitBroadcastPickerEvent('dismissed');
+    await jest.advanceTimersByTimeAsync(600);
+    expect(onSettled).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(400);
+    await expect(started).rejects.toMatchObject({ code: 'PICKER_DISMISSED' });
+  });
+
+  it('rejects with TIMEOUT when nothing happens', async () => {
+    mockScreenRecorder.globalStartBehavior = 'manual';
+    const started = startGlobalRecordingAsync({ timeoutMs: 2000 });
+
+    jest.advanceTimersByTime(2000);
+
+    await expect(started).rejects.toMatchObject({ code: 'TIMEOUT' });
+    expect(recorderStore.getSnapshot().state).toBe('error');
+  });
+
+  it('rejects with ALREADY_RECORDING while a recording is running', async () => {
+    mockScreenRecorder.beginGlobalRecording();
+
+    await expect(startGlobalRecordingAsync()).rejects.toMatchObject({
+      code: 'ALREADY_RECORDING',
+    });
+  });
+
+  it('rejects with the native error when starting fails', async () => {
+    mockScreenRecorder.globalStartBehavior = 'deny';
+
+    await expect(startGlobalRecordingAsync()).rejects.toMatchObject({
+      code: 'PERMISSION_DENIED',
+    });
+    expect(recorderStore.getSnapshot().state).toBe('error');
+  });
+});
@@ -0,0 +1,68 @@
+import type { RecorderMode, ScreenRecordingFile } from './types';
+import { recordingLibrary } from './library/RecordingLibrary';
+import { logger } from './logger';
+import { writeMarkersFile } from './markers';
+import type { MarkerDelivery } from './markers';
+import { relocateRecording } from './output';
+
+/**
+ * Most files reach the app twice: in-app recordings through
+ * `onRecordingFinished` and `stopInAppRecording()`, global ones through the
+ * hooks and provider and `stopGlobalRecording()` or the retrieve functions.
+ * Later deliveries of a file return what the first one produced, keyed by
+ * the path the recorder reported.
+ */
+const MAX_REMEMBERED_DELIVERIES = 20;
+const deliveries = new Map<string, ScreenRecordingFile>();
+
+/**
+ * Attaches the markers recorded in a produced file, moves it to where the
+ * session's `output` option wants it, writes its marker sidecar and adds it
+ * to `recordingLibrary`. Failures are logged and never fail the call that
+ * produced the file.
+ *
+ * Every file that reaches the app goes through here, whether it comes from
+ * a function or from the hooks and the provider, so all of them see the
+ * same moved file.
+ */
+export function deliverRecording<T extends ScreenRecordingFile | undefined>(
+  file: T,
+  mode: RecorderMode,
+  chunkId?: string,
+  marked?: MarkerDelivery
+): T {
+  if (!file) return file;
+  const previous = deliveries.get(file.path);
+  if (previous) return previous as T;
+  const markers = marked?.markers.length ? marked.markers : undefined;
+  let delivered: ScreenRecordingFile = markers ? { ...file, markers } : file;
+  try {
+    delivered = relocateRecording(delivered, mode, chunkId);
+  } catch (error) {
+    logger.warn('Failed to move the recording to its output directory', {
+      error,
+    });
+  }
+  if (markers && marked?.format) {
+    try {
+      delivered = {
+        ...delivered,
+        markersFile: writeMarkersFile({ ...delivered, markers }, marked.format),
+      };
+    } catch (error) {
+      logger.warn('Failed to write the markers file of the recording', {
+        error,
+      });
+    }
+  }
+  try {
+    recordingLibrary.add(delivered, { mode, chunkId });
+  } catch (error) {
+    logger.warn('Failed to add the recording to the library', { error });
+  }
+  deliveries.set(file.path, delivered);
+  if (deliveries.size > MAX_REMEMBERED_DELIVERIES) {
+    deliveries.delete(deliveries.keys().next().value!);
+  }
+  return delivered as T;
+}
@@ -0,0 +1,132 @@
+import { Platform } from 'react-native';
+import type { DiagnosticsOptions, DiagnosticsReport } from './types';
+import {
+  getCameraPermissionStatus,
+  getExtensionAudioMetricsEntries,
+  getExtensionLogEntries,
+  getExtensionStatus,
+  getMicrophonePermissionStatus,
+  getRecordingProgress,
+  getStorageInfo,
+  listPendingChunks,
+} from './functions';
+import { recordingLibrary } from './library/RecordingLibrary';
+import { recorderStore } from './store/RecorderStore';
+import { logger } from './logger';
+
+const LIBRARY_NAME = 'react-native-nitro-screen-recorder';
+
+// Directories of absolute paths and file:// URLs, keeping the file name
+const PATH_PATTERN = /(^|[\s"'(=])((?:file:\/\/)?\/(?:[^/\s"'()]+\/)+)/g;
+
+function libraryVersion(): string {
+  try {
+    return require('react-native-nitro-screen-recorder/package.json').version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function redact<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(PATH_PATTERN, '$1<redacted>/') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact) as T;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redact(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Collects everything useful for debugging a recording into one report:
+ * library version, platform, permissions, extension status, recorder state,
+ * extension logs and audio metrics, pending chunks, the last recording and
+ * storage. Never throws; sections that fail are listed in `errors`.
+ *
+ * @platform iOS, Android - extension logs and audio metrics are iOS-only
+ * @param options.redactPaths Replace directories in file paths with `<redacted>`. Default = false
+ * @param options.maxLogEntries Most recent extension log entries to include. Default = 200
+ * @returns The report, ready for `JSON.stringify`
+ * @example
+ * ```typescript
+ * const report = collectDiagnostics({ redactPaths: true });
+ * Sentry.captureMessage('Recording failed', {
+ *   attachments: [
+ *     { filename: 'diagnostics.json', data: JSON.stringify(report) },
+ *   ],
+ * });
+ * ```
+ */
+export function collectDiagnostics(
+  options?: DiagnosticsOptions
+): DiagnosticsReport {
+  let maxLogEntries = 200;
+  if (options?.maxLogEntries !== undefined) {
+    if (
+      typeof options.maxLogEntries !== 'number' ||
+      !Number.isInteger(options.maxLogEntries) ||
+      !(options.maxLogEntries >= 0)
+    ) {
+      logger.warn(
+        'Provided invalid value to `maxLogEntries` in `collectDiagnostics` function, value will be ignored. Please use an integer >=0',
+        { value: options.maxLogEntries }
+      );
+    } else {
+      maxLogEntries = options.maxLogEntries;
+    }
+  }
+  const redactPaths = options?.redactPaths === true;
+
+  const report: DiagnosticsReport = {
+    generatedAt: new Date().toISOString(),
+    library: { name: LIBRARY_NAME, version: libraryVersion() },
+    platform: { os: Platform.OS, version: Platform.Version },
+    pathsRedacted: redactPaths,
+    errors: [],
+  };
+  const collect = <K extends keyof DiagnosticsReport>(
+    section: K,
+    read: () => DiagnosticsReport[K]
+  ) => {
+    try {
+      report[section] = read();
+    } catch (error) {
+      report.errors.push({
+        section,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  collect('permissions', () => ({
+    camera: getCameraPermissionStatus(),
+    microphone: getMicrophonePermissionStatus(),
+  }));
+  collect('extensionStatus', getExtensionStatus);
+  collect('recorder', () => {
+    const { state, mode, chunkId, enteredAt, error } =
+      recorderStore.getSnapshot();
+    return {
+      state,
+      mode,
+      chunkId,
+      enteredAt,
+      error: error && { code: error.code, message: error.message },
+    };
+  });
+  collect('recordingProgress', getRecordingProgress);
+  collect('extensionLogs', () =>
+    getExtensionLogEntries({ limit: maxLogEntries })
+  );
+  collect('audioMetrics', () => getExtensionAudioMetricsEntries());
+  collect('pendingChunks', listPendingChunks);
+  collect('lastRecording', () => recordingLibrary.list({ limit: 1 })[0]);
+  collect('storage', getStorageInfo);
+
+  return redactPaths ? redact(report) : report;
+}
@@ -0,0 +1,288 @@
+import type {
+  RecorderPermission,
+  RecordingError,
+  ScreenRecorderErrorCode,
+} from './types';
+
+/**
+ * Base class for every error raised by this library.
+ * Carries a stable `code` you can `switch` on, plus the original native
+ * error name (if any) for debugging.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await startInAppRecording({ ... });
+ * } catch (error) {
+ *   if (error instanceof ScreenRecorderError) {
+ *     switch (error.code) {
+ *       case 'PERMISSION_DENIED':
+ *         return promptForPermissions();
+ *       case 'ALREADY_RECORDING':
+ *         return;
+ *     }
+ *   }
+ *   throw error;
+ * }
+ * ```
+ */
+export class ScreenRecorderError extends Error {
+  /** Stable error code */
+  readonly code: ScreenRecorderErrorCode;
+  /** Name of the native error this was mapped from, if any */
+  readonly nativeName?: string;
+  /** The original error or native payload */
+  readonly cause?: unknown;
+
+  constructor(
+    code: ScreenRecorderErrorCode,
+    message: string,
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super(message);
+    // Keep `instanceof` working when classes are transpiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ScreenRecorderError';
+    this.code = code;
+    this.nativeName = options?.nativeName;
+    this.cause = options?.cause;
+  }
+}
+
+/**
+ * Raised when a camera, microphone or screen capture permission is missing.
+ */
+export class PermissionDeniedError extends ScreenRecorderError {
+  /** Which permission was not granted */
+  readonly permission: RecorderPermission;
+
+  constructor(
+    permission: RecorderPermission,
+    message?: string,
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super(
+      'PERMISSION_DENIED',
+      message ?? `${PERMISSION_LABELS[permission]} permission not granted.`,
+      options
+    );
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
+
+/**
+ * Raised when an operation requires an active recording session.
+ */
+export class NoActiveSessionError extends ScreenRecorderError {
+  constructor(
+    message = 'No active recording session.',
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super('NO_ACTIVE_SESSION', message, options);
+    this.name = 'NoActiveSessionError';
+  }
+}
+
+/**
+ * Raised when a finalized chunk or recording file cannot be found.
+ */
+export class ChunkMissingError extends ScreenRecorderError {
+  constructor(
+    message = 'The recording file could not be found.',
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super('CHUNK_MISSING', message, options);
+    this.name = 'ChunkMissingError';
+  }
+}
+
+/**
+ * Raised when the iOS broadcast extension does not respond.
+ */
+export class ExtensionNotRunningError extends ScreenRecorderError {
+  constructor(
+    message = 'The broadcast extension is not running.',
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super('EXTENSION_NOT_RUNNING', message, options);
+    this.name = 'ExtensionNotRunningError';
+  }
+}
+
+/**
+ * Raised when the device runs out of storage while recording.
+ */
+export class DiskFullError extends ScreenRecorderError {
+  constructor(
+    message = 'Not enough free storage to write the recording.',
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super('DISK_FULL', message, options);
+    this.name = 'DiskFullError';
+  }
+}
+
+/**
+ * Raised when an operation is not available on the current platform.
+ */
+export class UnsupportedPlatformError extends ScreenRecorderError {
+  constructor(
+    message: string,
+    options?: { nativeName?: string; cause?: unknown }
+  ) {
+    super('UNSUPPORTED_PLATFORM', message, options);
+    this.name = 'UnsupportedPlatformError';
+  }
+}
+
+const PERMISSION_LABELS: Record<RecorderPermission, string> = {
+  camera: 'Camera',
+  microphone: 'Microphone',
+  screenCapture: 'Screen capture',
+};
+
+/**
+ * Native error names (iOS `RecorderError`/`RecordingError` names and Android
+ * thrown messages) and the code they map to.
+ */
+const NATIVE_ERROR_CODES: Record<string, ScreenRecorderErrorCode> = {
+  // iOS
+  SCREEN_RECORDER_UNAVAILABLE: 'RECORDER_UNAVAILABLE',
+  CAMERA_PERMISSION_DENIED: 'PERMISSION_DENIED',
+  MIC_PERMISSION_DENIED: 'PERMISSION_DENIED',
+  BROADCAST_ALREADY_ACTIVE: 'ALREADY_RECORDING',
+  APP_GROUP_IDENTIFIER_MISSING: 'APP_GROUP_UNAVAILABLE',
+  APP_GROUP_ACCESS_FAILED: 'APP_GROUP_UNAVAILABLE',
+  APP_GROUP_CONTAINER_FAILED: 'APP_GROUP_UNAVAILABLE',
+  MARK_CHUNK_FAILED: 'EXTENSION_NOT_RUNNING',
+  // Android
+  NO_ACTIVE_RECORDING_SESSION: 'NO_ACTIVE_SESSION',
+  NO_RECORDING_FILE_AFTER_STOP: 'CHUNK_MISSING',
+  NO_FINALIZED_CHUNK_FILE: 'CHUNK_MISSING',
+  FINALIZED_CHUNK_FILE_MISSING: 'CHUNK_MISSING',
+  NO_CONTEXT: 'RECORDER_UNAVAILABLE',
+  NO_ACTIVITY: 'RECORDER_UNAVAILABLE',
+  GlobalRecordingStartError: 'START_FAILED',
+  RecordingStartError: 'START_FAILED',
+  RecordingStopError: 'STOP_FAILED',
+  ChunkStartError: 'CHUNK_FAILED',
+  ChunkFinalizeError: 'CHUNK_FAILED',
+  // Both
+  RECORDING_FILE_MISSING: 'CHUNK_MISSING',
+  CONCATENATE_FAILED: 'CHUNK_FAILED',
+  CLEANUP_FAILED: 'FILE_OPERATION_FAILED',
+  RENAME_FAILED: 'FILE_OPERATION_FAILED',
+  MOVE_FAILED: 'FILE_OPERATION_FAILED',
+  SIDECAR_WRITE_FAILED: 'FILE_OPERATION_FAILED',
+  LIBRARY_WRITE_FAILED: 'FILE_OPERATION_FAILED',
+};
+
+const DISK_FULL_PATTERN =
+  /ENOSPC|No space left|out of space|disk (is )?full|NSFileWriteOutOfSpaceError/i;
+const SCREEN_CAPTURE_DENIED_PATTERN = /recording permission denied/i;
+
+function findNativeName(text: string): string | undefined {
+  return Object.keys(NATIVE_ERROR_CODES).find((name) => text.includes(name));
+}
+
+function createError(
+  code: ScreenRecorderErrorCode,
+  message: string,
+  nativeName: string | undefined,
+  cause: unknown
+): ScreenRecorderError {
+  const options = { nativeName, cause };
+  switch (code) {
+    case 'PERMISSION_DENIED': {
+      const permission: RecorderPermission =
+        nativeName === 'CAMERA_PERMISSION_DENIED'
+          ? 'camera'
+          : nativeName === 'MIC_PERMISSION_DENIED'
+            ? 'microphone'
+            : 'screenCapture';
+      return new PermissionDeniedError(permission, message, options);
+    }
+    case 'NO_ACTIVE_SESSION':
+      return new NoActiveSessionError(message, options);
+    case 'CHUNK_MISSING':
+      return new ChunkMissingError(message, options);
+    case 'EXTENSION_NOT_RUNNING':
+      return new ExtensionNotRunningError(message, options);
+    case 'DISK_FULL':
+      return new DiskFullError(message, options);
+    case 'UNSUPPORTED_PLATFORM':
+      return new UnsupportedPlatformError(message, options);
+    default:
+      return new ScreenRecorderError(code, message, options);
+  }
+}
+
+/**
+ * Maps anything thrown by (or reported from) the native module onto a
+ * `ScreenRecorderError`. Accepts thrown `Error`s, `RecordingError` payloads
+ * delivered to `onRecordingError`, and arbitrary values.
+ *
+ * Errors that already are `ScreenRecorderError`s are returned as-is.
+ *
+ * @param error The value to map
+ * @returns A `ScreenRecorderError` (or one of its subclasses)
+ * @example
+ * ```typescript
+ * startGlobalRecording({
+ *   onRecordingError: (error) => {
+ *     // error is already mapped, but raw payloads can be mapped manually:
+ *     const mapped = toScreenRecorderError(error);
+ *     console.log(mapped.code);
+ *   },
+ * });
+ * ```
+ */
+export function toScreenRecorderError(error: unknown): ScreenRecorderError {
+  if (error instanceof ScreenRecorderError) {
+    return error;
+  }
+
+  let name: string | undefined;
+  let message: string;
+  if (error instanceof Error) {
+    name = error.name;
+    message = error.message;
+  } else if (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as RecordingError).message === 'string'
+  ) {
+    name = (error as RecordingError).name;
+    message = (error as RecordingError).message;
+  } else {
+    message = String(error);
+  }
+
+  if (DISK_FULL_PATTERN.test(message)) {
+    return new DiskFullError(message, { nativeName: name, cause: error });
+  }
+
+  // Android surfaces its codes as thrown messages, iOS as error names or
+  // inside the stringified Swift error - check both.
+  const nativeName =
+    (name && Object.prototype.hasOwnProperty.call(NATIVE_ERROR_CODES, name)
+      ? name
+      : undefined) ?? findNativeName(message);
+
+  if (nativeName === undefined) {
+    return new ScreenRecorderError('UNKNOWN', message, {
+      nativeName: name,
+      cause: error,
+    });
+  }
+
+  let code = NATIVE_ERROR_CODES[nativeName] ?? 'UNKNOWN';
+  if (
+    nativeName === 'GlobalRecordingStartError' &&
+    SCREEN_CAPTURE_DENIED_PATTERN.test(message)
+  ) {
+    code = 'PERMISSION_DENIED';
+  }
+  return createError(code, message, nativeName, error);
+}
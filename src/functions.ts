@@ -1,5 +1,3 @@
-import { NitroModules } from 'react-native-nitro-modules';
-import type { NitroScreenRecorder } from './NitroScreenRecorder.nitro';
 import type {
   ScreenRecordingFile,
   PermissionResponse,
@@ -7,16 +5,126 @@ import type {
   ScreenRecordingEvent,
   PermissionStatus,
   GlobalRecordingInput,
+  AsyncGlobalRecordingInput,
+  ReplayBufferOptions,
+  AutoChunkingOptions,
   BroadcastPickerPresentationEvent,
+  ChunkReadyEvent,
+  ExtensionAudioHealth,
+  ExtensionAudioMetrics,
+  ExtensionAudioMetricsOptions,
+  ExtensionLogConfig,
+  ExtensionLogForwarding,
+  ExtensionLogEntry,
+  ExtensionLogLevel,
+  ExtensionLogQuery,
+  PendingChunk,
   RawExtensionStatus,
+  RecordingMarker,
+  RecorderSnapshotPatch,
+  RecorderState,
+  RecordingLimits,
+  RecordingProgress,
+  RecordingVideoSettings,
+  ScreenRecorderConfig,
+  StorageInfo,
+  VideoCodec,
+  VideoQualityOptions,
+  VideoQualityPreset,
 } from './types';
 import { Platform } from 'react-native';
-
-const NitroScreenRecorderHybridObject =
-  NitroModules.createHybridObject<NitroScreenRecorder>('NitroScreenRecorder');
+import type { AnyMap } from 'react-native-nitro-modules';
+import {
+  DiskFullError,
+  NoActiveSessionError,
+  PermissionDeniedError,
+  ScreenRecorderError,
+  toScreenRecorderError,
+} from './errors';
+import { NitroScreenRecorderHybridObject } from './hybridObject';
+import { recordingLibrary } from './library/RecordingLibrary';
+import {
+  addMarker,
+  startMarkerFile,
+  startMarkerSession,
+  takeEndedSessionMarkers,
+  takeMarkers,
+} from './markers';
+import { deliverRecording } from './delivery';
+import { startOutputSession } from './output';
+import { recorderStore } from './store/RecorderStore';
+import { logger, setLogger } from './logger';
 
 const isAndroid = Platform.OS === 'android';
 
+/**
+ * Runs a native call and rethrows anything it throws as a `ScreenRecorderError`.
+ */
+async function withRecorderErrors<T>(call: () => Promise<T> | T): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw toScreenRecorderError(error);
+  }
+}
+
+/**
+ * Runs a native call while keeping `recorderStore` in sync: moves to `pending`
+ * (if given) before the call, to `settled` (with `patch`) after it, and to
+ * `'error'` if it throws.
+ */
+async function withRecorderState<T>(
+  states: {
+    pending?: RecorderState;
+    settled: RecorderState;
+    patch?: RecorderSnapshotPatch;
+  },
+  call: () => Promise<T> | T
+): Promise<T> {
+  if (states.pending) {
+    recorderStore.transition(states.pending);
+  }
+  try {
+    const result = await withRecorderErrors(call);
+    recorderStore.transition(states.settled, states.patch);
+    return result;
+  } catch (error) {
+    recorderStore.fail(toScreenRecorderError(error));
+    throw error;
+  }
+}
+
+/**
+ * Runs chunk work for a session one task at a time, so rotations, saves and
+ * stops never finalize the same chunk twice.
+ */
+function enqueueChunkTask<T>(
+  session: { queue: Promise<unknown> },
+  task: () => Promise<T>
+): Promise<T> {
+  const run = session.queue.then(task, task);
+  session.queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Returns true (and warns) if chunks are already driven by the replay
+ * buffer or auto-chunking.
+ */
+function warnIfChunksManaged(functionName: string): boolean {
+  const owner = replayBuffer
+    ? 'the replay buffer'
+    : autoChunking
+      ? 'auto-chunking'
+      : undefined;
+  if (owner) {
+    logger.warn(
+      `\`${functionName}\` was called while chunks are managed by ${owner}, the call will be ignored.`
+    );
+  }
+  return owner !== undefined;
+}
+
 // ============================================================================
 // PERMISSIONS
 // ============================================================================
@@ -95,6 +203,12 @@ export async function requestMicrophonePermission(): Promise<PermissionResponse>
 // IN-APP RECORDING
 // ============================================================================
 
+const IN_APP_START_STATES = {
+  pending: 'starting',
+  settled: 'recording',
+  patch: { mode: 'inApp' },
+} as const;
+
 /**
  * Starts in-app screen recording with the specified configuration.
  * Records only the current app's content, not system-wide screen content.
@@ -102,6 +216,10 @@ export async function requestMicrophonePermission(): Promise<PermissionResponse>
  * @platform iOS
  * @param input Configuration object containing recording options and callbacks
  * @returns Promise that resolves when recording starts successfully
+ * @throws {PermissionDeniedError} If microphone or camera permission is required but not granted
+ * @throws {DiskFullError} If less than `minFreeBytes` of storage is free
+ * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if `output` is invalid
+ * @throws {ScreenRecorderError} If the native recorder fails to start
  * @example
  * ```typescript
  * await startInAppRecording({
@@ -121,7 +239,7 @@ export async function startInAppRecording(
   input: InAppRecordingInput
 ): Promise<void> {
   if (isAndroid) {
-    console.warn('`startInAppRecording` is only supported on iOS.');
+    logger.warn('`startInAppRecording` is only supported on iOS.');
     return;
   }
 
@@ -129,32 +247,64 @@ export async function startInAppRecording(
     input.options.enableMic &&
     getMicrophonePermissionStatus() !== 'granted'
   ) {
-    throw new Error('Microphone permission not granted.');
+    throw new PermissionDeniedError('microphone');
   }
 
   if (input.options.enableCamera && getCameraPermissionStatus() !== 'granted') {
-    throw new Error('Camera permission not granted.');
+    throw new PermissionDeniedError('camera');
   }
+
+  if (input.options.maxFileSizeBytes !== undefined) {
+    logger.warn(
+      '`maxFileSizeBytes` is not supported by `startInAppRecording` and will be ignored. Use `maxDurationSec` instead.'
+    );
+  }
+  const limits: RecordingLimits = {
+    ...resolveRecordingLimits(input.options, 'startInAppRecording'),
+    maxFileSizeBytes: 0,
+  };
+  assertFreeStorage(limits.minFreeBytes);
+  startOutputSession(input.options.output, 'inApp', 'startInAppRecording');
+  startMarkerSession(
+    'inApp',
+    input.options.markersFormat,
+    'startInAppRecording'
+  );
+  const onRecordingFinished = (file: ScreenRecordingFile) => {
+    // A recording stopped natively by `maxDurationSec` never calls stopInAppRecording
+    recorderStore.transition('idle');
+    input.onRecordingFinished(
+      deliverRecording(file, 'inApp', undefined, takeMarkers('inApp'))
+    );
+  };
+
   // Handle camera options based on enableCamera flag
   if (input.options.enableCamera) {
-    return NitroScreenRecorderHybridObject.startInAppRecording(
-      input.options.enableMic,
-      input.options.enableCamera,
-      input.options.cameraPreviewStyle ?? {},
-      input.options.cameraDevice,
-      input.options.separateAudioFile ?? false,
-      input.onRecordingFinished
-      // input.onRecordingError
+    const { cameraPreviewStyle, cameraDevice } = input.options;
+    return withRecorderState(IN_APP_START_STATES, () =>
+      NitroScreenRecorderHybridObject.startInAppRecording(
+        input.options.enableMic,
+        true,
+        cameraPreviewStyle ?? {},
+        cameraDevice,
+        input.options.separateAudioFile ?? false,
+        limits,
+        onRecordingFinished
+        // input.onRecordingError
+      )
     );
   } else {
-    return NitroScreenRecorderHybridObject.startInAppRecording(
-      input.options.enableMic,
-      input.options.enableCamera,
-      {},
-      'front',
-      input.options.separateAudioFile ?? false,
-      input.onRecordingFinished
-      // input.onRecordingError
+    return withRecorderState(IN_APP_START_STATES, () =>
+      NitroScreenRecorderHybridObject.startInAppRecording(
+        input.options.enableMic,
+        false,
+        {},
+        'front',
+        input.options.separateAudioFile ?? false,
+        limits,
+        onRecordingFinished
+        // input.onRecordingError
+      )
     );
   }
 }
@@ -173,10 +323,14 @@ export async function stopInAppRecording(): Promise<
   ScreenRecordingFile | undefined
 > {
   if (isAndroid) {
-    console.warn('`stopInAppRecording` is only supported on iOS.');
+    logger.warn('`stopInAppRecording` is only supported on iOS.');
     return;
   }
-  return NitroScreenRecorderHybridObject.stopInAppRecording();
+  const file = await withRecorderState(
+    { pending: 'stopping', settled: 'idle' },
+    () => NitroScreenRecorderHybridObject.stopInAppRecording()
+  );
+  return deliverRecording(file, 'inApp', undefined, takeMarkers('inApp'));
 }
 
 /**
@@ -191,22 +345,199 @@ export async function stopInAppRecording(): Promise<
  */
 export async function cancelInAppRecording(): Promise<void> {
   if (isAndroid) {
-    console.warn('`cancelInAppRecording` is only supported on iOS.');
+    logger.warn('`cancelInAppRecording` is only supported on iOS.');
     return;
   }
-  return NitroScreenRecorderHybridObject.cancelInAppRecording();
+  return withRecorderState({ pending: 'stopping', settled: 'idle' }, () =>
+    NitroScreenRecorderHybridObject.cancelInAppRecording()
+  );
 }
 
 // ============================================================================
 // GLOBAL RECORDING
 // ============================================================================
 
+// Longest video side accepted, larger than any screen. Presets use it to keep
+// the native resolution, since a `maxResolution` of `0` means 1920 on Android
+const MAX_VIDEO_LONG_SIDE = 7680;
+
+/**
+ * Settings behind each `VideoQualityPreset`.
+ */
+export const VIDEO_QUALITY_PRESETS: Readonly<
+  Record<
+    VideoQualityPreset,
+    Readonly<Required<Omit<VideoQualityOptions, 'preset'>>>
+  >
+> = {
+  low: {
+    maxResolution: 1280,
+    bitrate: 1_500_000,
+    fps: 15,
+    codec: 'h264',
+    keyframeIntervalSec: 2,
+  },
+  balanced: {
+    maxResolution: 1920,
+    bitrate: 4_000_000,
+    fps: 30,
+    codec: 'auto',
+    keyframeIntervalSec: 2,
+  },
+  high: {
+    maxResolution: MAX_VIDEO_LONG_SIDE,
+    bitrate: 10_000_000,
+    fps: 60,
+    codec: 'auto',
+    keyframeIntervalSec: 2,
+  },
+  archival: {
+    maxResolution: MAX_VIDEO_LONG_SIDE,
+    bitrate: 20_000_000,
+    fps: 60,
+    codec: 'hevc',
+    keyframeIntervalSec: 1,
+  },
+};
+
+const VIDEO_CODECS: readonly VideoCodec[] = ['auto', 'hevc', 'h264'];
+
+/**
+ * Returns `value` if it is a number within `[min, max]`, otherwise warns and
+ * returns `0` so the native side falls back to its default.
+ */
+function validVideoNumber(
+  name: keyof VideoQualityOptions,
+  value: number | undefined,
+  min: number,
+  max: number
+): number {
+  if (value === undefined) return 0;
+  if (
+    typeof value !== 'number' ||
+    !isFinite(value) ||
+    value < min ||
+    value > max
+  ) {
+    logger.warn(
+      `Provided invalid value to \`video.${name}\` in \`startGlobalRecording\` function, value will be ignored. Please use a value between ${min} and ${max}`,
+      { value }
+    );
+    return 0;
+  }
+  return value;
+}
+
+/**
+ * Resolves a preset name or `VideoQualityOptions` into the settings passed to native.
+ */
+function resolveVideoSettings(
+  video: VideoQualityPreset | VideoQualityOptions | undefined
+): RecordingVideoSettings {
+  const options: VideoQualityOptions =
+    typeof video === 'string' ? { preset: video } : (video ?? {});
+
+  let preset: Partial<VideoQualityOptions> = {};
+  if (options.preset !== undefined) {
+    if (options.preset in VIDEO_QUALITY_PRESETS) {
+      preset = VIDEO_QUALITY_PRESETS[options.preset];
+    } else {
+      logger.warn(
+        `Unknown video quality preset "${options.preset}" in \`startGlobalRecording\`, platform defaults will be used.`,
+        { value: options.preset }
+      );
+    }
+  }
+  const merged = { ...preset, ...options };
+
+  let codec: VideoCodec = merged.codec ?? 'auto';
+  if (!VIDEO_CODECS.includes(codec)) {
+    logger.warn(
+      `Provided invalid value to \`video.codec\` in \`startGlobalRecording\` function, value will be ignored. Please use one of ${VIDEO_CODECS.join(', ')}`,
+      { value: codec }
+    );
+    codec = 'auto';
+  }
+
+  return {
+    // Encoders need even dimensions
+    maxLongSide:
+      Math.floor(
+        validVideoNumber(
+          'maxResolution',
+          merged.maxResolution,
+          0,
+          MAX_VIDEO_LONG_SIDE
+        ) / 2
+      ) * 2,
+    bitrate: Math.round(
+      validVideoNumber('bitrate', merged.bitrate, 100_000, 100_000_000)
+    ),
+    fps: Math.round(validVideoNumber('fps', merged.fps, 1, 60)),
+    codec,
+    keyframeIntervalSec: validVideoNumber(
+      'keyframeIntervalSec',
+      merged.keyframeIntervalSec,
+      0.1,
+      60
+    ),
+  };
+}
+
+/**
+ * Resolves `maxDurationSec`/`maxFileSizeBytes` into the limits passed to
+ * native, using `0` for "no limit".
+ */
+function resolveRecordingLimits(
+  options: Partial<RecordingLimits> | undefined,
+  functionName: string
+): RecordingLimits {
+  const validLimit = (
+    name: keyof RecordingLimits,
+    value: number | undefined
+  ): number => {
+    if (value === undefined) return 0;
+    if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      logger.warn(
+        `Provided invalid value to \`${name}\` in \`${functionName}\` function, value will be ignored. Please use a number greater than 0`,
+        { value }
+      );
+      return 0;
+    }
+    return value;
+  };
+  return {
+    maxDurationSec: validLimit('maxDurationSec', options?.maxDurationSec),
+    maxFileSizeBytes: validLimit('maxFileSizeBytes', options?.maxFileSizeBytes),
+    minFreeBytes: validLimit('minFreeBytes', options?.minFreeBytes),
+  };
+}
+
+/**
+ * Throws a `DiskFullError` if less than `minFreeBytes` of storage is free.
+ */
+function assertFreeStorage(minFreeBytes: number): void {
+  if (minFreeBytes <= 0) return;
+  const { freeBytes } = NitroScreenRecorderHybridObject.getStorageInfo();
+  if (freeBytes < minFreeBytes) {
+    throw new DiskFullError(
+      `Only ${freeBytes} bytes of storage are free, \`minFreeBytes\` requires ${minFreeBytes}.`
+    );
+  }
+}
+
 /**
  * Starts global screen recording that captures the entire device screen.
  * Records system-wide content, including other apps and system UI.
  * Requires screen recording permission on iOS.
  *
+ * Errors reported after the call returns are delivered to `onRecordingError`
+ * as `ScreenRecorderError`s.
+ *
  * @platform iOS, Android
+ * @throws {PermissionDeniedError} On Android, if `enableMic` is set but microphone permission is not granted
+ * @throws {DiskFullError} If less than `minFreeBytes` of storage is free
+ * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if `output` is invalid
  * @example
  * ```typescript
  * startGlobalRecording();
@@ -221,12 +552,185 @@ export function startGlobalRecording(input: GlobalRecordingInput): void {
     isAndroid &&
     getMicrophonePermissionStatus() !== 'granted'
   ) {
-    throw new Error('Microphone permission not granted.');
+    throw new PermissionDeniedError('microphone');
   }
-  return NitroScreenRecorderHybridObject.startGlobalRecording(
-    input?.options?.enableMic ?? false,
-    input?.options?.separateAudioFile ?? false,
-    input?.onRecordingError
+  const limits = resolveRecordingLimits(input?.options, 'startGlobalRecording');
+  assertFreeStorage(limits.minFreeBytes);
+  startOutputSession(input?.options?.output, 'global', 'startGlobalRecording');
+  startMarkerSession(
+    'global',
+    input?.options?.markersFormat,
+    'startGlobalRecording'
+  );
+  // Android asks for MediaProjection consent, iOS presents the broadcast picker
+  recorderStore.transition(
+    isAndroid ? 'requestingPermission' : 'pickerShowing',
+    {
+      mode: 'global',
+    }
+  );
+  try {
+    return NitroScreenRecorderHybridObject.startGlobalRecording(
+      input?.options?.enableMic ?? false,
+      input?.options?.separateAudioFile ?? false,
+      resolveVideoSettings(input?.options?.video),
+      limits,
+      (error) => {
+        const mapped = toScreenRecorderError(error);
+        recorderStore.fail(mapped);
+        input?.onRecordingError(mapped);
+      }
+    );
+  } catch (error) {
+    const mapped = toScreenRecorderError(error);
+    recorderStore.fail(mapped);
+    throw mapped;
+  }
+}
+
+/**
+ * Starts a global screen recording and resolves once capture has actually begun
+ * (the first global `began` event, or the screen reporting as captured).
+ *
+ * Rejects with a `ScreenRecorderError` when:
+ * - a recording is already in progress (`'ALREADY_RECORDING'`)
+ * - the iOS broadcast picker is dismissed without starting (`'PICKER_DISMISSED'`)
+ * - the user denies screen capture on Android (`'PERMISSION_DENIED'`)
+ * - capture does not begin within `timeoutMs` (`'TIMEOUT'`)
+ * - the native recorder reports any other error before capture begins
+ *
+ * @platform iOS, Android
+ * @param input Recording options, timeouts and an optional late error callback
+ * @returns Promise that resolves when the recording is running
+ * @example
+ * ```typescript
+ * setIsStarting(true);
+ * try {
+ *   await startGlobalRecordingAsync({ options: { enableMic: true } });
+ *   setIsRecording(true);
+ * } catch (error) {
+ *   if (error instanceof ScreenRecorderError && error.code === 'PICKER_DISMISSED') {
+ *     // User backed out, nothing to do
+ *   }
+ * } finally {
+ *   setIsStarting(false);
+ * }
+ * ```
+ */
+export function startGlobalRecordingAsync(
+  input: AsyncGlobalRecordingInput = {}
+): Promise<void> {
+  const timeoutMs = input.timeoutMs ?? 60000;
+  const pickerDismissalGraceMs = input.pickerDismissalGraceMs ?? 5000;
+
+  return new Promise<void>((resolve, reject) => {
+    let settled = false;
+    const cleanups: Array<() => void> = [];
+
+    const finish = (error?: ScreenRecorderError) => {
+      if (settled) return;
+      settled = true;
+      cleanups.forEach((cleanup) => cleanup());
+      if (error) {
+        if (error.code === 'PICKER_DISMISSED') {
+          recorderStore.transition('idle');
+        } else if (error.code !== 'ALREADY_RECORDING') {
+          recorderStore.fail(error);
+        }
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    if (isScreenBeingRecorded()) {
+      finish(
+        new ScreenRecorderError(
+          'ALREADY_RECORDING',
+          'A screen recording session is already in progress.'
+        )
+      );
+      return;
+    }
+
+    cleanups.push(
+      addScreenRecordingListener({
+        ignoreRecordingsInitiatedElsewhere: false,
+        listener: (event) => {
+          if (event.type === 'global' && event.reason === 'began') {
+            finish();
+          }
+        },
+      })
+    );
+
+    let graceTimer: ReturnType<typeof setTimeout> | undefined;
+    cleanups.push(() => clearTimeout(graceTimer));
+    cleanups.push(
+      addBroadcastPickerListener((event) => {
+        // Reopening the picker cancels the grace period, closing it again
+        // restarts it
+        clearTimeout(graceTimer);
+        if (event !== 'dismissed') return;
+        // The picker closes before the system countdown finishes, so give
+        // capture a moment to begin before treating this as a cancellation.
+        graceTimer = setTimeout(() => {
+          if (isScreenBeingRecorded()) {
+            finish();
+          } else {
+            finish(
+              new ScreenRecorderError(
+                'PICKER_DISMISSED',
+                'The broadcast picker was dismissed without starting a recording.'
+              )
+            );
+          }
+        }, pickerDismissalGraceMs);
+      })
+    );
+
+    // Backup for missed events (e.g. the listener registered after capture began)
+    const pollTimer = setInterval(() => {
+      if (isScreenBeingRecorded()) {
+        finish();
+      }
+    }, 250);
+    cleanups.push(() => clearInterval(pollTimer));
+
+    const timeoutTimer = setTimeout(() => {
+      finish(
+        new ScreenRecorderError(
+          'TIMEOUT',
+          `Recording did not start within ${timeoutMs}ms.`
+        )
+      );
+    }, timeoutMs);
+    cleanups.push(() => clearTimeout(timeoutTimer));
+
+    try {
+      startGlobalRecording({
+        options: input.options,
+        onRecordingError: (error) => {
+          if (settled) {
+            input.onRecordingError?.(error);
+          } else {
+            finish(error);
+          }
+        },
+      });
+    } catch (error) {
+      finish(toScreenRecorderError(error));
+    }
+  });
+}
+
+/**
+ * Android reports "nothing to return" as errors - callers treat these as `undefined`.
+ */
+function isMissingRecordingError(error: unknown): boolean {
+  return (
+    error instanceof ScreenRecorderError &&
+    (error.code === 'NO_ACTIVE_SESSION' || error.code === 'CHUNK_MISSING')
   );
 }
 
@@ -235,9 +739,9 @@ export function startGlobalRecording(input: GlobalRecordingInput): void {
  * The recorded file can be retrieved using retrieveLastGlobalRecording().
  *
  * @platform Android/ios
- * @param options.settledTimeMs A "delay" time to wait before the function
- * tries to retrieve the file from the asset writer. It can take some time
- * to finish completion and correclty return the file. Default = 500ms
+ * @param options.settledTimeMs The longest time to wait for the recorder to
+ * report the file as saved before the function tries to retrieve it anyway.
+ * Resolves as soon as the file is ready. Default = 500ms
  * @example
  * ```typescript
  * const file = await stopGlobalRecording({ settledTimeMs: 1000 });
@@ -255,24 +759,30 @@ export async function stopGlobalRecording(options?: {
       typeof options.settledTimeMs !== 'number' ||
       options.settledTimeMs <= 0
     ) {
-      console.warn(
-        'Provided invalid value to `settledTimeMs` in `stopGlobalRecording` function, value will be ignored. Please use a value >0'
+      logger.warn(
+        'Provided invalid value to `settledTimeMs` in `stopGlobalRecording` function, value will be ignored. Please use a value >0',
+        { value: options.settledTimeMs }
       );
     } else {
       settledTimeMs = options.settledTimeMs;
     }
   }
   try {
-    return await NitroScreenRecorderHybridObject.stopGlobalRecording(
-      settledTimeMs
+    const file = await withRecorderState(
+      { pending: 'stopping', settled: 'idle' },
+      () => NitroScreenRecorderHybridObject.stopGlobalRecording(settledTimeMs)
+    );
+    // The hooks and provider may deliver the file first, so the markers are
+    // taken by whichever delivery comes first
+    return deliverRecording(
+      file,
+      'global',
+      undefined,
+      file && (takeEndedSessionMarkers() ?? takeMarkers('global'))
     );
   } catch (error) {
-    if (
-      isAndroid &&
-      error instanceof Error &&
-      (error.message.includes('NO_ACTIVE_RECORDING_SESSION') ||
-        error.message.includes('NO_RECORDING_FILE_AFTER_STOP'))
-    ) {
+    if (isAndroid && isMissingRecordingError(error)) {
+      recorderStore.transition('idle');
       return undefined;
     }
     throw error;
@@ -306,7 +816,11 @@ export async function stopGlobalRecording(options?: {
  * ```
  */
 export async function markChunkStart(chunkId?: string): Promise<number> {
-  return NitroScreenRecorderHybridObject.markChunkStart(chunkId);
+  startMarkerFile();
+  return withRecorderState(
+    { settled: 'capturingChunk', patch: { chunkId } },
+    () => NitroScreenRecorderHybridObject.markChunkStart(chunkId)
+  );
 }
 
 /**
@@ -328,7 +842,11 @@ export async function markChunkStart(chunkId?: string): Promise<number> {
  * ```
  */
 export async function flushChunk(chunkId?: string): Promise<number> {
-  return NitroScreenRecorderHybridObject.markChunkStart(chunkId);
+  startMarkerFile();
+  return withRecorderState(
+    { settled: 'capturingChunk', patch: { chunkId } },
+    () => NitroScreenRecorderHybridObject.markChunkStart(chunkId)
+  );
 }
 
 /**
@@ -342,7 +860,8 @@ export async function flushChunk(chunkId?: string): Promise<number> {
  * @platform iOS, Android
  * @param chunkId The chunk identifier that was passed to markChunkStart(). Must match
  *   for correct retrieval. This ensures you get the exact chunk you're expecting.
- * @param options.settledTimeMs A "delay" time to wait before retrieving the file. Default = 500ms
+ * @param options.settledTimeMs The longest time to wait for the chunk to be saved before
+ *   retrieving the file anyway. Resolves as soon as the chunk is ready. Default = 500ms
  * @returns Promise resolving to the finalized chunk file
  * @example
  * ```typescript
@@ -363,6 +882,19 @@ export async function finalizeChunk(
   options?: {
     settledTimeMs: number;
   }
+): Promise<ScreenRecordingFile | undefined> {
+  const marked = takeMarkers('global');
+  const file = await finalizeChunkFile(chunkId, options);
+  return deliverRecording(file, 'global', chunkId, marked);
+}
+
+/**
+ * finalizeChunk() without adding the file to the recording library, for
+ * chunks the library deletes again itself.
+ */
+async function finalizeChunkFile(
+  chunkId: string | undefined,
+  options: { settledTimeMs: number } | undefined
 ): Promise<ScreenRecordingFile | undefined> {
   let settledTimeMs = 500;
   if (options?.settledTimeMs) {
@@ -370,26 +902,52 @@ export async function finalizeChunk(
       typeof options.settledTimeMs !== 'number' ||
       options.settledTimeMs <= 0
     ) {
-      console.warn(
-        'Provided invalid value to `settledTimeMs` in `finalizeChunk` function, value will be ignored. Please use a value >0'
+      logger.warn(
+        'Provided invalid value to `settledTimeMs` in `finalizeChunk` function, value will be ignored. Please use a value >0',
+        { value: options.settledTimeMs }
       );
     } else {
       settledTimeMs = options.settledTimeMs;
     }
   }
   try {
-    return await NitroScreenRecorderHybridObject.finalizeChunk(
-      chunkId,
-      settledTimeMs
+    return await withRecorderState(
+      { pending: 'finalizing', settled: 'recording' },
+      () =>
+        NitroScreenRecorderHybridObject.finalizeChunk(chunkId, settledTimeMs)
     );
   } catch (error) {
-    if (
-      isAndroid &&
-      error instanceof Error &&
-      (error.message.includes('NO_ACTIVE_RECORDING_SESSION') ||
-        error.message.includes('NO_FINALIZED_CHUNK_FILE') ||
-        error.message.includes('FINALIZED_CHUNK_FILE_MISSING'))
-    ) {
+    if (isAndroid && isMissingRecordingError(error)) {
+      recorderStore.transition('recording');
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finalizes the current chunk and starts capturing `nextChunkId` in one
+ * native step, so nothing is recorded between the two chunks without being
+ * kept. Like finalizeChunkFile(), the file is not added to the library.
+ */
+async function rotateChunkFile(
+  chunkId: string,
+  nextChunkId: string
+): Promise<ScreenRecordingFile | undefined> {
+  startMarkerFile();
+  try {
+    return await withRecorderState(
+      {
+        pending: 'finalizing',
+        settled: 'capturingChunk',
+        patch: { chunkId: nextChunkId },
+      },
+      () =>
+        NitroScreenRecorderHybridObject.rotateChunk(chunkId, nextChunkId, 500)
+    );
+  } catch (error) {
+    if (isAndroid && isMissingRecordingError(error)) {
+      recorderStore.transition('capturingChunk', { chunkId: nextChunkId });
       return undefined;
     }
     throw error;
@@ -413,7 +971,13 @@ export async function finalizeChunk(
  * ```
  */
 export function retrieveLastGlobalRecording(): ScreenRecordingFile | undefined {
-  return NitroScreenRecorderHybridObject.retrieveLastGlobalRecording();
+  const file = NitroScreenRecorderHybridObject.retrieveLastGlobalRecording();
+  return deliverRecording(
+    file,
+    'global',
+    undefined,
+    file && takeEndedSessionMarkers()
+  );
 }
 
 /**
@@ -444,150 +1008,1145 @@ export function retrieveLastGlobalRecording(): ScreenRecordingFile | undefined {
 export function retrieveGlobalRecording(
   chunkId?: string
 ): ScreenRecordingFile | undefined {
-  return NitroScreenRecorderHybridObject.retrieveGlobalRecording(chunkId);
+  const file = NitroScreenRecorderHybridObject.retrieveGlobalRecording(chunkId);
+  return deliverRecording(
+    file,
+    'global',
+    chunkId,
+    file && takeEndedSessionMarkers()
+  );
 }
 
 // ============================================================================
-// EVENT LISTENERS
+// PENDING CHUNKS
 // ============================================================================
 
 /**
- * Adds a listener for screen recording events (began, ended, etc.).
- * Returns a cleanup function to remove the listener when no longer needed.
+ * Lists finalized global recording chunks that are still waiting to be
+ * retrieved, oldest first. Chunks end up here when the app is killed (or
+ * crashes) between the extension saving a chunk and the app claiming it.
+ * Call this on launch to recover them before the next broadcast clears the queue.
+ * Chunks already returned by finalizeChunk() or auto-chunking are not listed.
+ *
+ * **Android behavior:** The queue is kept in memory only. It is lost when the
+ * app is killed or crashes, so chunks cannot be recovered after a crash.
  *
  * @platform iOS, Android
- * @param listener Callback function that receives screen recording events
- * @returns Cleanup function to remove the listener
+ * @returns The pending chunks, oldest first
  * @example
  * ```typescript
- * useEffect(() => {
- *  const removeListener = addScreenRecordingListener((event: ScreenRecordingEvent) => {
- *    console.log("Event type:", event.type, "Event reason:", event.reason)
- *  });
- * // Later, remove the listener
- * return () => removeListener();
- * },[])
+ * const orphans = listPendingChunks();
+ * if (orphans.length > 0) {
+ *   showUnsavedRecordingPrompt(orphans);
+ * }
  * ```
  */
-export function addScreenRecordingListener({
-  listener,
-  ignoreRecordingsInitiatedElsewhere = false,
-}: {
-  listener: (event: ScreenRecordingEvent) => void;
-  ignoreRecordingsInitiatedElsewhere: boolean;
-}): () => void {
-  let listenerId: number;
-  listenerId = NitroScreenRecorderHybridObject.addScreenRecordingListener(
-    ignoreRecordingsInitiatedElsewhere,
-    listener
+export function listPendingChunks(): PendingChunk[] {
+  return NitroScreenRecorderHybridObject.listPendingChunks();
+}
+
+/**
+ * Removes a pending chunk from the queue and returns its file, moved out of
+ * the shared container so it is safe to keep.
+ *
+ * @platform iOS, Android
+ * @param id The `id` of an entry returned by listPendingChunks()
+ * @returns The recording file, or undefined if no chunk with this `id` is queued
+ * @example
+ * ```typescript
+ * for (const chunk of listPendingChunks()) {
+ *   const file = claimPendingChunk(chunk.id);
+ *   if (file) await upload(file.path);
+ * }
+ * ```
+ */
+export function claimPendingChunk(id: string): ScreenRecordingFile | undefined {
+  const chunk = NitroScreenRecorderHybridObject.listPendingChunks().find(
+    (pending) => pending.id === id
+  );
+  return deliverRecording(
+    NitroScreenRecorderHybridObject.claimPendingChunk(id),
+    'global',
+    chunk?.chunkId
   );
-  return () => {
-    NitroScreenRecorderHybridObject.removeScreenRecordingListener(listenerId);
-  };
 }
 
 /**
- * Adds a listener for ios only to track whether (start, stop, error, etc.).
- * Returns a cleanup function to remove the listener when no longer needed.
+ * Removes a pending chunk from the queue and deletes its files.
+ * Unknown IDs are ignored.
  *
- * @platform iOS
- * @param listener Callback function that receives the status of the BroadcastPickerView
- * on ios
- * @returns Cleanup function to remove the listener
+ * @platform iOS, Android
+ * @param id The `id` of an entry returned by listPendingChunks()
  * @example
  * ```typescript
- * useEffect(() => {
- *  const removeListener = addBroadcastPickerListener((event: BroadcastPickerPresentationEvent) => {
- *    console.log("Picker status", event)
- *  });
- * // Later, remove the listener
- * return () => removeListener();
- * },[])
+ * const onDiscardPressed = (chunk: PendingChunk) => {
+ *   discardPendingChunk(chunk.id);
+ * };
  * ```
  */
-export function addBroadcastPickerListener(
-  listener: (event: BroadcastPickerPresentationEvent) => void
-): () => void {
-  if (Platform.OS === 'android') {
-    // return a no-op cleanup function
-    return () => {};
-  }
-  let listenerId: number;
-  listenerId =
-    NitroScreenRecorderHybridObject.addBroadcastPickerListener(listener);
-  return () => {
-    NitroScreenRecorderHybridObject.removeBroadcastPickerListener(listenerId);
-  };
+export function discardPendingChunk(id: string): void {
+  NitroScreenRecorderHybridObject.discardPendingChunk(id);
 }
 
 // ============================================================================
-// EXTENSION STATUS
+// PAUSE / RESUME
 // ============================================================================
 
 /**
- * Gets the current status of the broadcast extension.
- * Returns mic status, chunk status, and chunk start time.
- * Note: `state` is derived in the useGlobalRecording hook using isRecording.
+ * Pauses the active in-app or global recording without ending the session.
+ * Time spent paused is left out of the final file, so its duration only counts
+ * recorded time. Does nothing if the recording is already paused.
  *
- * @platform iOS-only
- * @returns RawExtensionStatus with isMicrophoneEnabled, isCapturingChunk, and chunkStartedAt
+ * Emits a `paused` screen recording event.
+ *
+ * **iOS behavior:** In-app recordings keep capturing and the paused sections are
+ * cut out when the recording stops. Global recordings stop writing frames in
+ * the broadcast extension until resumed.
+ * **Android behavior:** The encoder is paused. If called between chunks, the
+ * next markChunkStart() starts paused.
+ *
+ * @platform iOS, Android (global recording only)
+ * @throws {NoActiveSessionError} If nothing is being recorded
  * @example
  * ```typescript
- * const status = getExtensionStatus();
- * console.log('Mic enabled:', status.isMicrophoneEnabled);
- * console.log('Capturing chunk:', status.isCapturingChunk);
+ * await pauseRecording();
+ * // User enters a password...
+ * await resumeRecording();
  * ```
  */
-export function getExtensionStatus(): RawExtensionStatus {
-  return NitroScreenRecorderHybridObject.getExtensionStatus();
+export async function pauseRecording(): Promise<void> {
+  return withRecorderState({ settled: 'paused' }, () =>
+    NitroScreenRecorderHybridObject.pauseRecording()
+  );
 }
 
 /**
- * Returns whether the screen is currently being recorded.
- * Uses UIScreen.main.isCaptured on iOS which is instant and reliable.
+ * Resumes a recording paused with pauseRecording(). Does nothing if the
+ * recording is not paused.
  *
- * @platform iOS, Android
- * @returns true if screen is being recorded, false otherwise
+ * Emits a `resumed` screen recording event.
+ *
+ * @platform iOS, Android (global recording only)
+ * @throws {NoActiveSessionError} If nothing is being recorded
  * @example
  * ```typescript
- * const isRecording = isScreenBeingRecorded();
- * if (isRecording) {
- *   console.log('Screen is being recorded!');
- * }
+ * await pauseRecording();
+ * // ...
+ * await resumeRecording();
+ * const file = await stopGlobalRecording(); // Paused time is not included
  * ```
  */
-export function isScreenBeingRecorded(): boolean {
-  return NitroScreenRecorderHybridObject.isScreenBeingRecorded();
+export async function resumeRecording(): Promise<void> {
+  return withRecorderState({ settled: recorderStore.resumedState() }, () =>
+    NitroScreenRecorderHybridObject.resumeRecording()
+  );
 }
 
 // ============================================================================
-// EXTENSION LOGS (iOS only - for debugging broadcast extension)
+// MARKERS
 // ============================================================================
 
 /**
- * Returns logs from the broadcast extension for debugging.
- * The extension logs key events like chunk creation, writer operations, and errors.
- * Logs are stored in a ring buffer (max 200 entries) in UserDefaults.
+ * Tags the current moment of the active in-app or global recording, e.g.
+ * where a tester spotted a bug. The marker's time is relative to the start
+ * of the file it ends up in (the current chunk when recording in chunks),
+ * excluding paused time.
  *
- * @platform iOS-only
- * @returns Array of log strings in format "[LEVEL] timestamp: message"
+ * Markers are attached as `markers` to the `ScreenRecordingFile` returned by
+ * stopInAppRecording()/`onRecordingFinished`, stopGlobalRecording() and
+ * finalizeChunk() (including auto-chunking). A global recording that ends
+ * without stopGlobalRecording() carries its markers to the next
+ * retrieveLastGlobalRecording() or retrieveGlobalRecording() call. Markers
+ * added before markChunkStart() or flushChunk() are dropped with the
+ * discarded content, and replays saved with saveReplay() carry none.
+ *
+ * Start the recording with `markersFormat` to also get a WebVTT or JSON
+ * sidecar file next to the video.
+ *
+ * @platform iOS, Android
+ * @param label Text describing the moment
+ * @param metadata Extra data to keep with the marker
+ * @returns The added marker
+ * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if `label` is empty or `metadata` is not an object
+ * @throws {NoActiveSessionError} If nothing is being recorded
  * @example
  * ```typescript
- * const logs = getExtensionLogs();
- * logs.forEach(log => console.log(log));
- * // Output: "[INFO] 2024-01-15T10:30:00.123Z: handleFinalizeChunk: Writer finished successfully"
+ * startGlobalRecording({
+ *   options: { enableMic: true, markersFormat: 'vtt' },
+ *   onRecordingError: console.error,
+ * });
+ * // ...
+ * addRecordingMarker('bug here', { screen: 'Checkout' });
+ * // ...
+ * const file = await stopGlobalRecording();
+ * file?.markers?.forEach(({ label, timeSec }) => console.log(timeSec, label));
  * ```
  */
-export function getExtensionLogs(): string[] {
-  if (Platform.OS === 'android') {
-    return ['Extension logs are only available on iOS'];
-  }
-  return NitroScreenRecorderHybridObject.getExtensionLogs();
+export function addRecordingMarker(
+  label: string,
+  metadata?: AnyMap
+): RecordingMarker {
+  return addMarker(label, metadata);
 }
 
-/**
- * Clears all extension logs from UserDefaults.
- * Call this before starting a recording session to get clean logs.
+// ============================================================================
+// REPLAY BUFFER
+// ============================================================================
+
+type ReplayBufferSession = {
+  windowSeconds: number;
+  segments: ScreenRecordingFile[];
+  chunkId: string;
+  nextSegment: number;
+  queue: Promise<unknown>;
+  stop: () => void;
+};
+
+let replayBuffer: ReplayBufferSession | undefined;
+
+function nextReplayChunkId(session: ReplayBufferSession): string {
+  session.nextSegment += 1;
+  return `replay-${Date.now()}-${session.nextSegment}`;
+}
+
+/**
+ * Finalizes the segment being captured and starts the next one in the same
+ * native call, so the buffer has no gaps between segments.
+ */
+async function rotateReplaySegment(
+  session: ReplayBufferSession
+): Promise<void> {
+  const nextChunkId = nextReplayChunkId(session);
+  const file = await rotateChunkFile(session.chunkId, nextChunkId);
+  session.chunkId = nextChunkId;
+  if (file) {
+    session.segments.push(file);
+  }
+  pruneReplaySegments(session);
+}
+
+/**
+ * Deletes the oldest segments that are no longer needed to cover the window.
+ */
+function pruneReplaySegments(session: ReplayBufferSession): void {
+  let total = session.segments.reduce((sum, file) => sum + file.duration, 0);
+  while (session.segments.length > 1) {
+    const oldest = session.segments[0]!;
+    if (total - oldest.duration < session.windowSeconds) break;
+    session.segments.shift();
+    total -= oldest.duration;
+    NitroScreenRecorderHybridObject.deleteRecordingFile(oldest.path);
+  }
+}
+
+/**
+ * Starts keeping a rolling window of the most recent global recording content,
+ * so you can save "the last N seconds" at any time with saveReplay().
+ *
+ * The buffer records short chunks with markChunkStart()/finalizeChunk() and
+ * deletes the ones that fall out of the window. It stops by itself when the
+ * global recording ends. Don't call the chunk functions yourself while it runs.
+ *
+ * @platform iOS, Android
+ * @param options.windowSeconds How many seconds saveReplay() returns
+ * @param options.segmentSeconds Length of each buffered segment. Default = windowSeconds / 3, between 2 and 10
+ * @throws {NoActiveSessionError} If no global recording is running
+ * @example
+ * ```typescript
+ * await startGlobalRecordingAsync({ options: { enableMic: true } });
+ * await startReplayBuffer({ windowSeconds: 30 });
+ *
+ * // Later, when a bug happens
+ * const replay = await saveReplay(); // The last ~30 seconds
+ * ```
+ */
+export async function startReplayBuffer(
+  options: ReplayBufferOptions
+): Promise<void> {
+  if (warnIfChunksManaged('startReplayBuffer')) {
+    return;
+  }
+  if (!isScreenBeingRecorded()) {
+    throw new NoActiveSessionError(
+      'Start a global recording before starting the replay buffer.'
+    );
+  }
+
+  let windowSeconds = 30;
+  if (
+    typeof options.windowSeconds !== 'number' ||
+    !(options.windowSeconds > 0)
+  ) {
+    logger.warn(
+      'Provided invalid value to `windowSeconds` in `startReplayBuffer` function, value will be ignored. Please use a value >0',
+      { value: options.windowSeconds }
+    );
+  } else {
+    windowSeconds = options.windowSeconds;
+  }
+
+  let segmentSeconds = Math.min(10, Math.max(2, windowSeconds / 3));
+  if (options.segmentSeconds !== undefined) {
+    if (
+      typeof options.segmentSeconds !== 'number' ||
+      !(options.segmentSeconds >= 1)
+    ) {
+      logger.warn(
+        'Provided invalid value to `segmentSeconds` in `startReplayBuffer` function, value will be ignored. Please use a value >=1',
+        { value: options.segmentSeconds }
+      );
+    } else {
+      segmentSeconds = options.segmentSeconds;
+    }
+  }
+
+  const session: ReplayBufferSession = {
+    windowSeconds,
+    segments: [],
+    chunkId: '',
+    nextSegment: 0,
+    queue: Promise.resolve(),
+    stop: () => {},
+  };
+  replayBuffer = session;
+
+  const interval = setInterval(() => {
+    enqueueChunkTask(session, () => rotateReplaySegment(session)).catch(
+      (error) => {
+        if (toScreenRecorderError(error).code === 'NO_ACTIVE_SESSION') {
+          teardownReplayBuffer(session);
+        } else {
+          logger.warn('Failed to rotate replay buffer segment', { error });
+        }
+      }
+    );
+  }, segmentSeconds * 1000);
+  const removeListener = addScreenRecordingListener({
+    ignoreRecordingsInitiatedElsewhere: false,
+    listener: (event) => {
+      if (event.type === 'global' && event.reason === 'ended') {
+        teardownReplayBuffer(session);
+      }
+    },
+  });
+  session.stop = () => {
+    clearInterval(interval);
+    removeListener();
+  };
+
+  try {
+    await enqueueChunkTask(session, async () => {
+      session.chunkId = nextReplayChunkId(session);
+      await markChunkStart(session.chunkId);
+    });
+  } catch (error) {
+    teardownReplayBuffer(session);
+    throw error;
+  }
+}
+
+/**
+ * Stops the buffer and deletes every buffered segment.
+ */
+function teardownReplayBuffer(session: ReplayBufferSession): void {
+  session.stop();
+  if (replayBuffer === session) {
+    replayBuffer = undefined;
+  }
+  session.segments.forEach((file) =>
+    NitroScreenRecorderHybridObject.deleteRecordingFile(file.path)
+  );
+  session.segments = [];
+}
+
+/**
+ * Saves the last `windowSeconds` of the replay buffer as a single file.
+ * The buffer keeps running afterwards, so you can save again later.
+ *
+ * The returned file is yours to keep; it is not deleted when the buffer
+ * stops. It may be shorter than the window if the buffer has not been running
+ * for that long yet.
+ *
+ * @platform iOS, Android
+ * @returns The stitched recording
+ * @throws {NoActiveSessionError} If the replay buffer is not running
+ * @example
+ * ```typescript
+ * const replay = await saveReplay();
+ * await uploadBugReport({ video: replay.path });
+ * ```
+ */
+export async function saveReplay(): Promise<ScreenRecordingFile> {
+  const session = replayBuffer;
+  if (!session) {
+    throw new NoActiveSessionError('The replay buffer is not running.');
+  }
+
+  return enqueueChunkTask(session, async () => {
+    await rotateReplaySegment(session);
+    const total = session.segments.reduce(
+      (sum, segment) => sum + segment.duration,
+      0
+    );
+    const replay = await withRecorderErrors(() =>
+      NitroScreenRecorderHybridObject.concatenateRecordings(
+        session.segments.map((segment) => segment.path),
+        Math.max(0, total - session.windowSeconds)
+      )
+    );
+    return deliverRecording(replay, 'global');
+  });
+}
+
+/**
+ * Stops the replay buffer and deletes its buffered segments. The global
+ * recording itself keeps running.
+ *
+ * @platform iOS, Android
+ * @example
+ * ```typescript
+ * await stopReplayBuffer();
+ * await stopGlobalRecording();
+ * ```
+ */
+export async function stopReplayBuffer(): Promise<void> {
+  const session = replayBuffer;
+  if (!session) return;
+  session.stop();
+  replayBuffer = undefined;
+  // Let an in-flight rotation or save finish before deleting its files
+  await session.queue;
+  teardownReplayBuffer(session);
+}
+
+/**
+ * Returns whether the replay buffer is running.
+ *
+ * @platform iOS, Android
+ * @example
+ * ```typescript
+ * if (isReplayBufferActive()) {
+ *   const replay = await saveReplay();
+ * }
+ * ```
+ */
+export function isReplayBufferActive(): boolean {
+  return replayBuffer !== undefined;
+}
+
+// ============================================================================
+// AUTO CHUNKING
+// ============================================================================
+
+type AutoChunkingSession = {
+  options: AutoChunkingOptions;
+  maxDurationMs?: number;
+  maxBytes?: number;
+  chunkId: string;
+  index: number;
+  recordedMs: number;
+  lastTickAt: number;
+  queue: Promise<unknown>;
+  stop: () => void;
+};
+
+let autoChunking: AutoChunkingSession | undefined;
+
+/**
+ * How often auto-chunking checks the current chunk against its limits.
+ */
+const AUTO_CHUNK_CHECK_INTERVAL_MS = 500;
+
+function autoChunkId(session: AutoChunkingSession, index: number): string {
+  return `${session.options.chunkIdPrefix ?? 'chunk'}-${index}`;
+}
+
+function beginAutoChunk(session: AutoChunkingSession, chunkId: string): void {
+  session.index += 1;
+  session.chunkId = chunkId;
+  session.recordedMs = 0;
+  session.lastTickAt = Date.now();
+}
+
+/**
+ * Finalizes the current chunk and hands it to `onChunk`.
+ */
+async function deliverAutoChunk(
+  session: AutoChunkingSession
+): Promise<ScreenRecordingFile | undefined> {
+  const chunk = { chunkId: session.chunkId, index: session.index };
+  const file = await finalizeChunk(chunk.chunkId);
+  if (file) {
+    session.options.onChunk(file, chunk);
+  }
+  return file;
+}
+
+/**
+ * Finalizes the current chunk and starts the next one in the same native
+ * call, so nothing is lost between chunks, then hands it to `onChunk`.
+ */
+async function rotateAutoChunk(session: AutoChunkingSession): Promise<void> {
+  const chunk = { chunkId: session.chunkId, index: session.index };
+  const nextChunkId = autoChunkId(session, session.index + 1);
+  const marked = takeMarkers('global');
+  const file = await rotateChunkFile(chunk.chunkId, nextChunkId);
+  beginAutoChunk(session, nextChunkId);
+  const delivered = deliverRecording(file, 'global', chunk.chunkId, marked);
+  if (delivered) {
+    session.options.onChunk(delivered, chunk);
+  }
+}
+
+function shouldRotateAutoChunk(session: AutoChunkingSession): boolean {
+  const now = Date.now();
+  // Paused time does not count towards the chunk duration
+  if (recorderStore.getSnapshot().state !== 'paused') {
+    session.recordedMs += now - session.lastTickAt;
+  }
+  session.lastTickAt = now;
+
+  if (
+    session.maxDurationMs !== undefined &&
+    session.recordedMs >= session.maxDurationMs
+  ) {
+    return true;
+  }
+  return (
+    session.maxBytes !== undefined &&
+    NitroScreenRecorderHybridObject.getCurrentChunkSize() >= session.maxBytes
+  );
+}
+
+/**
+ * Stops the timers of an auto-chunking session without finalizing anything.
+ */
+function teardownAutoChunking(session: AutoChunkingSession): void {
+  session.stop();
+  if (autoChunking === session) {
+    autoChunking = undefined;
+  }
+}
+
+/**
+ * Rotates chunks of the running global recording automatically, so long
+ * sessions can be uploaded progressively without app-side timer code.
+ *
+ * A chunk is finalized as soon as it reaches `maxDurationSec` or `maxBytes`
+ * (whichever comes first) and delivered to `onChunk` with a sequential
+ * chunk ID (`chunk-1`, `chunk-2`, ...). Recording continues into the next
+ * chunk. Auto-chunking stops by itself when the global recording ends; call
+ * stopAutoChunking() before stopGlobalRecording() to also receive the last chunk.
+ *
+ * Don't call markChunkStart()/finalizeChunk() yourself while it runs.
+ *
+ * @platform iOS, Android
+ * @param options.maxDurationSec Rotate after this many recorded seconds
+ * @param options.maxBytes Rotate once the chunk file reaches this size
+ * @param options.onChunk Receives every finalized chunk, in order
+ * @param options.onError Receives rotation failures
+ * @param options.chunkIdPrefix Prefix of the generated chunk IDs. Default = 'chunk'
+ * @throws {NoActiveSessionError} If no global recording is running
+ * @example
+ * ```typescript
+ * await startGlobalRecordingAsync({ options: { enableMic: true } });
+ * await startAutoChunking({
+ *   maxDurationSec: 60,
+ *   maxBytes: 50 * 1024 * 1024,
+ *   onChunk: (file, { chunkId }) => uploadQueue.push({ chunkId, file }),
+ * });
+ *
+ * // Later
+ * await stopAutoChunking(); // Delivers the final chunk
+ * await stopGlobalRecording();
+ * ```
+ */
+export async function startAutoChunking(
+  options: AutoChunkingOptions
+): Promise<void> {
+  if (warnIfChunksManaged('startAutoChunking')) {
+    return;
+  }
+  if (!isScreenBeingRecorded()) {
+    throw new NoActiveSessionError(
+      'Start a global recording before starting auto-chunking.'
+    );
+  }
+
+  let maxDurationMs: number | undefined;
+  if (options.maxDurationSec !== undefined) {
+    if (
+      typeof options.maxDurationSec !== 'number' ||
+      !(options.maxDurationSec >= 1)
+    ) {
+      logger.warn(
+        'Provided invalid value to `maxDurationSec` in `startAutoChunking` function, value will be ignored. Please use a value >=1',
+        { value: options.maxDurationSec }
+      );
+    } else {
+      maxDurationMs = options.maxDurationSec * 1000;
+    }
+  }
+  let maxBytes: number | undefined;
+  if (options.maxBytes !== undefined) {
+    if (typeof options.maxBytes !== 'number' || !(options.maxBytes > 0)) {
+      logger.warn(
+        'Provided invalid value to `maxBytes` in `startAutoChunking` function, value will be ignored. Please use a value >0',
+        { value: options.maxBytes }
+      );
+    } else {
+      maxBytes = options.maxBytes;
+    }
+  }
+  if (maxDurationMs === undefined && maxBytes === undefined) {
+    logger.warn(
+      '`startAutoChunking` was called without a valid `maxDurationSec` or `maxBytes`, chunks will rotate every 60 seconds.'
+    );
+    maxDurationMs = 60000;
+  }
+
+  const session: AutoChunkingSession = {
+    options,
+    maxDurationMs,
+    maxBytes,
+    chunkId: '',
+    index: 0,
+    recordedMs: 0,
+    lastTickAt: Date.now(),
+    queue: Promise.resolve(),
+    stop: () => {},
+  };
+  autoChunking = session;
+
+  let isRotating = false;
+  const interval = setInterval(() => {
+    if (isRotating || !shouldRotateAutoChunk(session)) return;
+    isRotating = true;
+    enqueueChunkTask(session, async () => {
+      // stopAutoChunking() delivers the last chunk itself
+      if (autoChunking === session) {
+        await rotateAutoChunk(session);
+      }
+    })
+      .catch((error) => {
+        const mapped = toScreenRecorderError(error);
+        if (mapped.code === 'NO_ACTIVE_SESSION') {
+          teardownAutoChunking(session);
+        }
+        options.onError?.(mapped);
+      })
+      .finally(() => {
+        isRotating = false;
+      });
+  }, AUTO_CHUNK_CHECK_INTERVAL_MS);
+  const removeListener = addScreenRecordingListener({
+    ignoreRecordingsInitiatedElsewhere: false,
+    listener: (event) => {
+      if (event.type === 'global' && event.reason === 'ended') {
+        teardownAutoChunking(session);
+      }
+    },
+  });
+  session.stop = () => {
+    clearInterval(interval);
+    removeListener();
+  };
+
+  try {
+    await enqueueChunkTask(session, async () => {
+      beginAutoChunk(session, autoChunkId(session, 1));
+      await markChunkStart(session.chunkId);
+    });
+  } catch (error) {
+    teardownAutoChunking(session);
+    throw error;
+  }
+}
+
+/**
+ * Stops auto-chunking. By default the chunk being recorded is finalized and
+ * delivered to `onChunk` as well. The global recording keeps running.
+ *
+ * @platform iOS, Android
+ * @param options.finalize Whether to finalize and deliver the current chunk. Default = true
+ * @returns The final chunk, if one was finalized
+ * @example
+ * ```typescript
+ * const lastChunk = await stopAutoChunking();
+ * await stopGlobalRecording();
+ * ```
+ */
+export async function stopAutoChunking(options?: {
+  finalize?: boolean;
+}): Promise<ScreenRecordingFile | undefined> {
+  const session = autoChunking;
+  if (!session) return undefined;
+  teardownAutoChunking(session);
+  if (options?.finalize === false) {
+    await session.queue;
+    return undefined;
+  }
+  return enqueueChunkTask(session, () => deliverAutoChunk(session));
+}
+
+/**
+ * Returns whether auto-chunking is running.
+ *
+ * @platform iOS, Android
+ * @example
+ * ```typescript
+ * if (!isAutoChunkingActive()) {
+ *   await startAutoChunking({ maxDurationSec: 60, onChunk: upload });
+ * }
+ * ```
+ */
+export function isAutoChunkingActive(): boolean {
+  return autoChunking !== undefined;
+}
+
+// ============================================================================
+// EVENT LISTENERS
+// ============================================================================
+
+/**
+ * Adds a listener for screen recording events (began, ended, etc.).
+ * Returns a cleanup function to remove the listener when no longer needed.
+ *
+ * @platform iOS, Android
+ * @param listener Callback function that receives screen recording events
+ * @returns Cleanup function to remove the listener
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *  const removeListener = addScreenRecordingListener((event: ScreenRecordingEvent) => {
+ *    console.log("Event type:", event.type, "Event reason:", event.reason)
+ *  });
+ * // Later, remove the listener
+ * return () => removeListener();
+ * },[])
+ * ```
+ */
+export function addScreenRecordingListener({
+  listener,
+  ignoreRecordingsInitiatedElsewhere = false,
+}: {
+  listener: (event: ScreenRecordingEvent) => void;
+  ignoreRecordingsInitiatedElsewhere: boolean;
+}): () => void {
+  let listenerId: number;
+  listenerId = NitroScreenRecorderHybridObject.addScreenRecordingListener(
+    ignoreRecordingsInitiatedElsewhere,
+    listener
+  );
+  return () => {
+    NitroScreenRecorderHybridObject.removeScreenRecordingListener(listenerId);
+  };
+}
+
+/**
+ * Adds a listener for ios only to track whether (start, stop, error, etc.).
+ * Returns a cleanup function to remove the listener when no longer needed.
+ *
+ * @platform iOS
+ * @param listener Callback function that receives the status of the BroadcastPickerView
+ * on ios
+ * @returns Cleanup function to remove the listener
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *  const removeListener = addBroadcastPickerListener((event: BroadcastPickerPresentationEvent) => {
+ *    console.log("Picker status", event)
+ *  });
+ * // Later, remove the listener
+ * return () => removeListener();
+ * },[])
+ * ```
+ */
+export function addBroadcastPickerListener(
+  listener: (event: BroadcastPickerPresentationEvent) => void
+): () => void {
+  if (Platform.OS === 'android') {
+    // return a no-op cleanup function
+    return () => {};
+  }
+  let listenerId: number;
+  listenerId =
+    NitroScreenRecorderHybridObject.addBroadcastPickerListener(listener);
+  return () => {
+    NitroScreenRecorderHybridObject.removeBroadcastPickerListener(listenerId);
+  };
+}
+
+/**
+ * Adds a listener that is called whenever a global recording chunk has been
+ * written to disk: after finalizeChunk(), and for the whole recording (or its
+ * last chunk) when the recording stops. Use it instead of waiting a fixed
+ * time before reading files.
+ *
+ * @platform iOS, Android
+ * @param listener Callback receiving the chunk ID (if one was given to markChunkStart()) and the file
+ * @returns Cleanup function to remove the listener
+ * @example
+ * ```typescript
+ * useEffect(() => {
+ *   const removeListener = addChunkListener(({ chunkId, file }) => {
+ *     uploadQueue.push({ chunkId, path: file.path });
+ *   });
+ *   return removeListener;
+ * }, []);
+ * ```
+ */
+export function addChunkListener(
+  listener: (event: ChunkReadyEvent) => void
+): () => void {
+  const listenerId = NitroScreenRecorderHybridObject.addChunkListener(listener);
+  return () => {
+    NitroScreenRecorderHybridObject.removeChunkListener(listenerId);
+  };
+}
+
+// ============================================================================
+// EXTENSION STATUS
+// ============================================================================
+
+/**
+ * Gets the current status of the broadcast extension.
+ * Returns mic status, chunk status, and chunk start time.
+ * Note: `state` is derived in the useGlobalRecording hook using isRecording.
+ *
+ * @platform iOS-only
+ * @returns RawExtensionStatus with isMicrophoneEnabled, isCapturingChunk, and chunkStartedAt
+ * @example
+ * ```typescript
+ * const status = getExtensionStatus();
+ * console.log('Mic enabled:', status.isMicrophoneEnabled);
+ * console.log('Capturing chunk:', status.isCapturingChunk);
+ * ```
+ */
+export function getExtensionStatus(): RawExtensionStatus {
+  return NitroScreenRecorderHybridObject.getExtensionStatus();
+}
+
+/**
+ * Returns whether the screen is currently being recorded.
+ * Uses UIScreen.main.isCaptured on iOS which is instant and reliable.
+ *
+ * @platform iOS, Android
+ * @returns true if screen is being recorded, false otherwise
+ * @example
+ * ```typescript
+ * const isRecording = isScreenBeingRecorded();
+ * if (isRecording) {
+ *   console.log('Screen is being recorded!');
+ * }
+ * ```
+ */
+export function isScreenBeingRecorded(): boolean {
+  return NitroScreenRecorderHybridObject.isScreenBeingRecorded();
+}
+
+/**
+ * Adds a listener that is called whenever the recorder status changes: a chunk
+ * starts or is finalized, the microphone starts delivering audio, the capture
+ * mode changes, or the recording ends. Prefer this over polling
+ * getExtensionStatus().
+ *
+ * @platform iOS, Android
+ * @param listener Callback receiving the new status
+ * @returns Cleanup function to remove the listener
+ * @example
+ * ```typescript
+ * const removeListener = addExtensionStatusListener((status) => {
+ *   setIsCapturingChunk(status.isCapturingChunk);
+ * });
+ * // Later
+ * removeListener();
+ * ```
+ */
+export function addExtensionStatusListener(
+  listener: (status: RawExtensionStatus) => void
+): () => void {
+  const listenerId =
+    NitroScreenRecorderHybridObject.addExtensionStatusListener(listener);
+  return () => {
+    NitroScreenRecorderHybridObject.removeExtensionStatusListener(listenerId);
+  };
+}
+
+// ============================================================================
+// RECORDING PROGRESS
+// ============================================================================
+
+/**
+ * Returns the progress of the active recording: recorded time excluding
+ * pauses, bytes written to the current file, and video frames written and
+ * dropped. Returns undefined when nothing is recording.
+ *
+ * For in-app recordings on iOS only `elapsedSec` is reported, since ReplayKit
+ * writes the file when the recording stops. Frame counts are only known for
+ * iOS global recordings: `framesWritten` and `droppedFrames` are undefined
+ * on Android and for in-app recordings.
+ *
+ * @platform iOS, Android
+ * @returns The current progress, or undefined when not recording
+ * @example
+ * ```typescript
+ * const progress = getRecordingProgress();
+ * if (progress && progress.bytesWritten > UPLOAD_LIMIT_BYTES * 0.9) {
+ *   showUploadLimitWarning();
+ * }
+ * ```
+ */
+export function getRecordingProgress(): RecordingProgress | undefined {
+  return NitroScreenRecorderHybridObject.getRecordingProgress();
+}
+
+/**
+ * Adds a listener that receives the progress of the active recording every
+ * `intervalMs` while something is recording. Nothing is reported while idle.
+ *
+ * @platform iOS, Android
+ * @param listener Callback receiving the current progress
+ * @param options.intervalMs How often to report progress in milliseconds (default 1000)
+ * @returns Cleanup function to remove the listener
+ * @example
+ * ```typescript
+ * const removeListener = addRecordingProgressListener((progress) => {
+ *   setTimerLabel(formatSeconds(progress.elapsedSec));
+ * });
+ * // Later
+ * removeListener();
+ * ```
+ */
+export function addRecordingProgressListener(
+  listener: (progress: RecordingProgress) => void,
+  options?: { intervalMs?: number }
+): () => void {
+  const interval = setInterval(() => {
+    const progress = NitroScreenRecorderHybridObject.getRecordingProgress();
+    if (progress) listener(progress);
+  }, options?.intervalMs ?? 1000);
+  return () => {
+    clearInterval(interval);
+  };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Returns the free and total bytes of the volume recordings are written to.
+ * Pass `minFreeBytes` to the start functions to refuse recording, and stop it
+ * in time, when storage runs low.
+ *
+ * @platform iOS, Android
+ * @returns StorageInfo with freeBytes and totalBytes
+ * @example
+ * ```typescript
+ * const { freeBytes } = getStorageInfo();
+ * if (freeBytes < 500_000_000) {
+ *   showLowStorageBanner();
+ * }
+ * ```
+ */
+export function getStorageInfo(): StorageInfo {
+  return NitroScreenRecorderHybridObject.getStorageInfo();
+}
+
+// ============================================================================
+// EXTENSION LOGS (iOS only - for debugging broadcast extension)
+// ============================================================================
+
+/**
+ * Returns logs from the broadcast extension for debugging.
+ * The extension logs key events like chunk creation, writer operations, and errors.
+ * Logs are stored in a ring buffer (200 entries unless changed with
+ * configureExtensionLogs()) in UserDefaults. Use getExtensionLogEntries() for
+ * typed entries.
+ *
+ * @platform iOS-only
+ * @returns Array of log strings in format "[LEVEL] timestamp: message"
+ * @example
+ * ```typescript
+ * const logs = getExtensionLogs();
+ * logs.forEach(log => console.log(log));
+ * // Output: "[INFO] 2024-01-15T10:30:00.123Z: handleFinalizeChunk: Writer finished successfully"
+ * ```
+ */
+export function getExtensionLogs(): string[] {
+  if (Platform.OS === 'android') {
+    return ['Extension logs are only available on iOS'];
+  }
+  return NitroScreenRecorderHybridObject.getExtensionLogs();
+}
+
+const EXTENSION_LOG_LEVELS: readonly ExtensionLogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+];
+
+// "[INFO] 2024-01-15T10:30:00.123Z: handleFinalizeChunk: Writer finished"
+const EXTENSION_LOG_LINE_PATTERN = /^\[(\w+)\]\s+(\S+):\s([\s\S]*)$/;
+// "handleFinalizeChunk: Writer finished"
+const EXTENSION_LOG_CONTEXT_PATTERN = /^([A-Za-z_][\w.]*):\s+([\s\S]*)$/;
+
+/**
+ * Maps a level written by the extension (`WARN`, `ERROR`, ...) to an
+ * `ExtensionLogLevel`.
+ */
+function toExtensionLogLevel(level: string): ExtensionLogLevel | undefined {
+  const normalized = level.toLowerCase();
+  return EXTENSION_LOG_LEVELS.find(
+    (candidate) =>
+      candidate === normalized ||
+      (candidate === 'warn' && normalized === 'warning')
+  );
+}
+
+function toExtensionLogEntry(
+  timestamp: number,
+  level: ExtensionLogLevel,
+  message: string
+): ExtensionLogEntry {
+  const match = message.match(EXTENSION_LOG_CONTEXT_PATTERN);
+  return match
+    ? { timestamp, level, message: match[2]!, context: match[1]! }
+    : { timestamp, level, message };
+}
+
+/**
+ * Returns the broadcast extension's log as typed entries, oldest first,
+ * optionally filtered by level and time.
+ *
+ * @platform iOS-only - returns an empty array on Android
+ * @param query.minLevel Only entries of this level or more severe
+ * @param query.since Only entries logged at or after this time (Date or ms since epoch)
+ * @param query.limit Return at most this many entries, the most recent ones
+ * @returns The matching entries, oldest first
+ * @example
+ * ```typescript
+ * const problems = getExtensionLogEntries({
+ *   minLevel: 'warn',
+ *   since: sessionStartedAt,
+ *   limit: 50,
+ * });
+ * problems.forEach(({ level, context, message }) =>
+ *   crashReporter.log(`[${level}] ${context ?? 'extension'}: ${message}`)
+ * );
+ * ```
+ */
+export function getExtensionLogEntries(
+  query?: ExtensionLogQuery
+): ExtensionLogEntry[] {
+  if (Platform.OS === 'android') {
+    return [];
+  }
+  const minRank =
+    query?.minLevel === undefined
+      ? 0
+      : EXTENSION_LOG_LEVELS.indexOf(query.minLevel);
+  const since =
+    query?.since instanceof Date ? query.since.getTime() : query?.since;
+  const entries = NitroScreenRecorderHybridObject.getExtensionLogEntries()
+    .map((raw) =>
+      toExtensionLogEntry(
+        raw.timestamp * 1000,
+        toExtensionLogLevel(raw.level) ?? 'info',
+        raw.message
+      )
+    )
+    .filter(
+      (entry) =>
+        EXTENSION_LOG_LEVELS.indexOf(entry.level) >= minRank &&
+        (since === undefined || entry.timestamp >= since)
+    );
+  if (query?.limit === undefined) return entries;
+  return query.limit > 0 ? entries.slice(-query.limit) : [];
+}
+
+/**
+ * Parses a line returned by getExtensionLogs() (`[LEVEL] time: message`)
+ * into an `ExtensionLogEntry`, e.g. for logs saved before
+ * getExtensionLogEntries() existed.
+ *
+ * @platform iOS, Android
+ * @param line A log line
+ * @returns The entry, or undefined if the line is not a log line
+ * @example
+ * ```typescript
+ * parseExtensionLogLine(
+ *   '[WARN] 2024-01-15T10:30:00.123Z: handleFinalizeChunk: No active writer'
+ * );
+ * // { timestamp: 1705314600123, level: 'warn', context: 'handleFinalizeChunk', message: 'No active writer' }
+ * ```
+ */
+export function parseExtensionLogLine(
+  line: string
+): ExtensionLogEntry | undefined {
+  const match = line.trim().match(EXTENSION_LOG_LINE_PATTERN);
+  if (!match) return undefined;
+  const level = toExtensionLogLevel(match[1]!);
+  const timestamp = Date.parse(match[2]!);
+  if (!level || Number.isNaN(timestamp)) return undefined;
+  return toExtensionLogEntry(timestamp, level, match[3]!);
+}
+
+/**
+ * Sets which entries the broadcast extension stores and how many it keeps.
+ * Applies to entries logged afterwards, including by a broadcast that is
+ * already running. Omitted settings go back to their defaults.
+ *
+ * @platform iOS-only
+ * @param config.minLevel Entries below this level are not stored. Default = 'debug'
+ * @param config.maxEntries Size of the ring buffer. Default = 200
+ * @example
+ * ```typescript
+ * // Release builds: keep more history, skip debug noise
+ * configureExtensionLogs({ minLevel: 'info', maxEntries: 500 });
+ * ```
+ */
+export function configureExtensionLogs(config: ExtensionLogConfig): void {
+  if (Platform.OS === 'android') {
+    return;
+  }
+  let minLevel: ExtensionLogLevel = 'debug';
+  if (config.minLevel !== undefined) {
+    if (!EXTENSION_LOG_LEVELS.includes(config.minLevel)) {
+      logger.warn(
+        "Provided invalid value to `minLevel` in `configureExtensionLogs` function, value will be ignored. Please use 'debug', 'info', 'warn' or 'error'",
+        { value: config.minLevel }
+      );
+    } else {
+      minLevel = config.minLevel;
+    }
+  }
+  let maxEntries = 200;
+  if (config.maxEntries !== undefined) {
+    if (
+      typeof config.maxEntries !== 'number' ||
+      !Number.isInteger(config.maxEntries) ||
+      !(config.maxEntries > 0)
+    ) {
+      logger.warn(
+        'Provided invalid value to `maxEntries` in `configureExtensionLogs` function, value will be ignored. Please use an integer >0',
+        { value: config.maxEntries }
+      );
+    } else {
+      maxEntries = config.maxEntries;
+    }
+  }
+  NitroScreenRecorderHybridObject.configureExtensionLogs(
+    minLevel.toUpperCase(),
+    maxEntries
+  );
+}
+
+/**
+ * Clears all extension logs from UserDefaults.
+ * Call this before starting a recording session to get clean logs.
  *
  * @platform iOS-only
  * @example
@@ -612,6 +2171,8 @@ export function clearExtensionLogs(): void {
  *
  * Use this to attach to Sentry events when audio issues are detected.
  *
+ * @deprecated Use getExtensionAudioMetricsEntries() for validated, typed
+ * metrics with health flags.
  * @platform iOS-only
  * @returns JSON string containing audio metrics (parse with JSON.parse)
  * @example
@@ -634,6 +2195,234 @@ export function getExtensionAudioMetrics(): string {
   return NitroScreenRecorderHybridObject.getExtensionAudioMetrics();
 }
 
+const DEFAULT_AUDIO_DRIFT_THRESHOLD_SEC = 0.1;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+/**
+ * Derives the health flags of a metrics entry.
+ */
+function computeAudioHealth(
+  metrics: Omit<ExtensionAudioMetrics, 'health' | 'raw'>,
+  driftThresholdSec: number
+): ExtensionAudioHealth {
+  const drifts: number[] = [];
+  if (metrics.totalMicSamples > 0) {
+    drifts.push(Math.abs(metrics.micDuration - metrics.videoDuration));
+  }
+  if (metrics.totalAppAudioSamples > 0) {
+    drifts.push(Math.abs(metrics.appAudioDuration - metrics.videoDuration));
+  }
+  const maxAudioDriftSec =
+    metrics.totalVideoFrames > 0 ? Math.max(0, ...drifts) : 0;
+  const droppedBuffers =
+    metrics.videoBackpressureDrops +
+    metrics.micBackpressureDrops +
+    metrics.separateAudioBackpressureDrops +
+    metrics.appAudioBackpressureDrops +
+    metrics.micDroppedPTSBelowStart +
+    metrics.appAudioDroppedPTSBelowStart;
+  const hasAudioDrift = maxAudioDriftSec > driftThresholdSec;
+  const hasDroppedBuffers = droppedBuffers > 0;
+  const hasMonotonicityViolations =
+    metrics.micMonotonicityViolations + metrics.appAudioMonotonicityViolations >
+    0;
+  return {
+    maxAudioDriftSec,
+    hasAudioDrift,
+    droppedBuffers,
+    hasDroppedBuffers,
+    hasMonotonicityViolations,
+    isHealthy:
+      !hasAudioDrift && !hasDroppedBuffers && !hasMonotonicityViolations,
+  };
+}
+
+function toExtensionAudioMetrics(
+  raw: Record<string, unknown>,
+  driftThresholdSec: number
+): ExtensionAudioMetrics {
+  // Counts and durations default to 0 when missing
+  const value = (key: keyof ExtensionAudioMetrics) =>
+    finiteNumber(raw[key]) ?? 0;
+  // Timestamps default to -1 when missing, like the extension writes them
+  const pts = (key: keyof ExtensionAudioMetrics) =>
+    finiteNumber(raw[key]) ?? -1;
+  const seconds = finiteNumber(raw.timestamp);
+  const time = optionalString(raw.time);
+  const metrics: Omit<ExtensionAudioMetrics, 'health' | 'raw'> = {
+    timestamp:
+      seconds !== undefined
+        ? Math.round(seconds * 1000)
+        : (time && Date.parse(time)) || 0,
+    context: optionalString(raw.context) ?? 'unknown',
+    chunkId: optionalString(raw.chunkId),
+    outputVideoFile: optionalString(raw.outputVideoFile),
+    outputAudioFile: optionalString(raw.outputAudioFile),
+    outputAppAudioFile: optionalString(raw.outputAppAudioFile),
+    sessionStartTime: pts('sessionStartTime'),
+    firstVideoPTS: pts('firstVideoPTS'),
+    firstMicPTS: pts('firstMicPTS'),
+    firstAppAudioPTS: pts('firstAppAudioPTS'),
+    totalVideoFrames: value('totalVideoFrames'),
+    totalMicSamples: value('totalMicSamples'),
+    totalSeparateAudioSamples: value('totalSeparateAudioSamples'),
+    totalAppAudioSamples: value('totalAppAudioSamples'),
+    videoDuration: value('videoDuration'),
+    micDuration: value('micDuration'),
+    appAudioDuration: value('appAudioDuration'),
+    // Sync deltas, only present once both tracks received a buffer
+    firstMicDeltaToVideo: finiteNumber(raw.firstMicDeltaToVideo),
+    firstAppAudioDeltaToVideo: finiteNumber(raw.firstAppAudioDeltaToVideo),
+    observedFirstMicDeltaToVideo: finiteNumber(
+      raw.observedFirstMicDeltaToVideo
+    ),
+    observedFirstAppAudioDeltaToVideo: finiteNumber(
+      raw.observedFirstAppAudioDeltaToVideo
+    ),
+    micTimingOffset: value('micTimingOffset'),
+    appAudioTimingOffset: value('appAudioTimingOffset'),
+    audioLeadCompensationSeconds: value('audioLeadCompensationSeconds'),
+    micAdjustmentAppliedCount: value('micAdjustmentAppliedCount'),
+    micAdjustmentAppliedSeconds: value('micAdjustmentAppliedSeconds'),
+    appAudioAdjustmentAppliedCount: value('appAudioAdjustmentAppliedCount'),
+    appAudioAdjustmentAppliedSeconds: value('appAudioAdjustmentAppliedSeconds'),
+    videoBackpressureHits: value('videoBackpressureHits'),
+    videoBackpressureDrops: value('videoBackpressureDrops'),
+    micBackpressureHits: value('micBackpressureHits'),
+    micBackpressureDrops: value('micBackpressureDrops'),
+    separateAudioBackpressureHits: value('separateAudioBackpressureHits'),
+    separateAudioBackpressureDrops: value('separateAudioBackpressureDrops'),
+    appAudioBackpressureHits: value('appAudioBackpressureHits'),
+    appAudioBackpressureDrops: value('appAudioBackpressureDrops'),
+    audioBackpressureTimeout: value('audioBackpressureTimeout'),
+    micDroppedBeforeSession: value('micDroppedBeforeSession'),
+    micDroppedPTSBelowStart: value('micDroppedPTSBelowStart'),
+    appAudioDroppedBeforeSession: value('appAudioDroppedBeforeSession'),
+    appAudioDroppedPTSBelowStart: value('appAudioDroppedPTSBelowStart'),
+    earlyBuffersDropped: value('earlyBuffersDropped'),
+    micMonotonicityViolations: value('micMonotonicityViolations'),
+    appAudioMonotonicityViolations: value('appAudioMonotonicityViolations'),
+    writerStatus: optionalString(raw.writerStatus) ?? 'unknown',
+    sessionStarted: raw.sessionStarted === true,
+    lowPowerModeEnabled: raw.lowPowerModeEnabled === true,
+    audioSessionChangeCount: value('audioSessionChangeCount'),
+    audioSessionSampleRate: value('audioSessionSampleRate'),
+    audioRouteInputs: stringArray(raw.audioRouteInputs),
+    audioRouteOutputs: stringArray(raw.audioRouteOutputs),
+  };
+  return {
+    ...metrics,
+    health: computeAudioHealth(metrics, driftThresholdSec),
+    raw,
+  };
+}
+
+function resolveDriftThreshold(
+  options: ExtensionAudioMetricsOptions | undefined,
+  functionName: string
+): number {
+  const threshold = options?.driftThresholdSec;
+  if (threshold === undefined) return DEFAULT_AUDIO_DRIFT_THRESHOLD_SEC;
+  if (typeof threshold !== 'number' || !(threshold >= 0)) {
+    logger.warn(
+      `Provided invalid value to \`driftThresholdSec\` in \`${functionName}\` function, value will be ignored. Please use a value >=0`,
+      { value: threshold }
+    );
+    return DEFAULT_AUDIO_DRIFT_THRESHOLD_SEC;
+  }
+  return threshold;
+}
+
+function parseAudioMetrics(
+  json: string,
+  options: ExtensionAudioMetricsOptions | undefined,
+  functionName: string
+): ExtensionAudioMetrics[] {
+  const driftThresholdSec = resolveDriftThreshold(options, functionName);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return [];
+  }
+  const entries = isRecord(parsed) ? parsed.metrics : parsed;
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter(isRecord)
+    .map((raw) => toExtensionAudioMetrics(raw, driftThresholdSec));
+}
+
+/**
+ * Returns the audio metrics the broadcast extension logged, oldest first,
+ * validated and with health flags. The extension logs metrics each time it
+ * finalizes a chunk or recording and keeps the last 50 entries.
+ *
+ * Missing or malformed values fall back to defaults instead of throwing, so
+ * reports keep working when the extension's metrics change.
+ *
+ * @platform iOS-only - returns an empty array on Android
+ * @param options.driftThresholdSec Audio drift that raises `health.hasAudioDrift`. Default = 0.1
+ * @returns The metrics entries, oldest first
+ * @example
+ * ```typescript
+ * const latest = getExtensionAudioMetricsEntries().at(-1);
+ * if (latest && !latest.health.isHealthy) {
+ *   Sentry.addBreadcrumb({
+ *     category: 'audio',
+ *     data: { ...latest.health, chunkId: latest.chunkId },
+ *   });
+ * }
+ * ```
+ */
+export function getExtensionAudioMetricsEntries(
+  options?: ExtensionAudioMetricsOptions
+): ExtensionAudioMetrics[] {
+  if (Platform.OS === 'android') {
+    return [];
+  }
+  return parseAudioMetrics(
+    NitroScreenRecorderHybridObject.getExtensionAudioMetrics(),
+    options,
+    'getExtensionAudioMetricsEntries'
+  );
+}
+
+/**
+ * Parses JSON returned by getExtensionAudioMetrics(), e.g. metrics saved
+ * from an earlier session, into typed entries with health flags. Accepts
+ * the `{ "metrics": [...] }` object or a bare array of entries.
+ *
+ * @platform iOS, Android
+ * @param json The metrics JSON
+ * @param options.driftThresholdSec Audio drift that raises `health.hasAudioDrift`. Default = 0.1
+ * @returns The valid entries; empty if `json` is not metrics JSON
+ */
+export function parseExtensionAudioMetrics(
+  json: string,
+  options?: ExtensionAudioMetricsOptions
+): ExtensionAudioMetrics[] {
+  return parseAudioMetrics(json, options, 'parseExtensionAudioMetrics');
+}
+
 /**
  * Clears audio metrics from UserDefaults.
  * Call this before starting a new recording session to get fresh metrics.
@@ -654,6 +2443,132 @@ export function clearExtensionAudioMetrics(): void {
   return NitroScreenRecorderHybridObject.clearExtensionAudioMetrics();
 }
 
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+type ExtensionLogForwarder = {
+  minLevel: ExtensionLogLevel;
+  /** Timestamp (ms) of the last forwarded entry */
+  lastTimestamp: number;
+  /** How many of the forwarded entries were logged at `lastTimestamp` */
+  forwardedAtLastTimestamp: number;
+  timer: ReturnType<typeof setInterval>;
+};
+
+let extensionLogForwarder: ExtensionLogForwarder | undefined;
+
+function forwardNewExtensionLogs(forwarder: ExtensionLogForwarder): void {
+  try {
+    // Entries can share a timestamp, so only skip as many entries logged at
+    // `lastTimestamp` as were already forwarded
+    let skip = forwarder.forwardedAtLastTimestamp;
+    const entries = getExtensionLogEntries({
+      minLevel: forwarder.minLevel,
+      since: forwarder.lastTimestamp,
+    }).filter((entry) => {
+      if (entry.timestamp !== forwarder.lastTimestamp || skip === 0) {
+        return true;
+      }
+      skip -= 1;
+      return false;
+    });
+    entries.forEach(({ level, message, context, timestamp }) =>
+      logger[level](message, {
+        source: 'extension',
+        ...(context !== undefined && { context }),
+        timestamp,
+      })
+    );
+    const last = entries.at(-1);
+    if (last) {
+      const forwardedAtLast = entries.filter(
+        (entry) => entry.timestamp === last.timestamp
+      ).length;
+      forwarder.forwardedAtLastTimestamp =
+        last.timestamp === forwarder.lastTimestamp
+          ? forwarder.forwardedAtLastTimestamp + forwardedAtLast
+          : forwardedAtLast;
+      forwarder.lastTimestamp = last.timestamp;
+    }
+  } catch (error) {
+    logger.warn('Failed to forward broadcast extension logs', { error });
+  }
+}
+
+function startExtensionLogForwarding(
+  forwarding: true | ExtensionLogForwarding
+): void {
+  const options = forwarding === true ? {} : forwarding;
+  let minLevel: ExtensionLogLevel = 'info';
+  if (options.minLevel !== undefined) {
+    if (!EXTENSION_LOG_LEVELS.includes(options.minLevel)) {
+      logger.warn(
+        "Provided invalid value to `forwardExtensionLogs.minLevel` in `configureScreenRecorder` function, value will be ignored. Please use 'debug', 'info', 'warn' or 'error'",
+        { value: options.minLevel }
+      );
+    } else {
+      minLevel = options.minLevel;
+    }
+  }
+  let intervalMs = 5000;
+  if (options.intervalMs !== undefined) {
+    if (typeof options.intervalMs !== 'number' || !(options.intervalMs > 0)) {
+      logger.warn(
+        'Provided invalid value to `forwardExtensionLogs.intervalMs` in `configureScreenRecorder` function, value will be ignored. Please use a value >0',
+        { value: options.intervalMs }
+      );
+    } else {
+      intervalMs = options.intervalMs;
+    }
+  }
+  const forwarder: ExtensionLogForwarder = {
+    minLevel,
+    lastTimestamp: Date.now(),
+    forwardedAtLastTimestamp: 0,
+    timer: setInterval(() => forwardNewExtensionLogs(forwarder), intervalMs),
+  };
+  extensionLogForwarder = forwarder;
+}
+
+/**
+ * Configures library-wide behavior. Settings you omit keep their current
+ * value.
+ *
+ * @platform iOS, Android - forwarding extension logs is iOS-only
+ * @param config.logger Receives warnings and errors instead of `console`; `null` silences them
+ * @param config.forwardExtensionLogs Forward new broadcast extension log entries to the logger
+ * @example
+ * ```typescript
+ * configureScreenRecorder({
+ *   logger: {
+ *     debug: () => {},
+ *     info: (message, fields) => datadog.info(message, fields),
+ *     warn: (message, fields) => datadog.warn(message, fields),
+ *     error: (message, fields) => datadog.error(message, fields),
+ *   },
+ *   forwardExtensionLogs: { minLevel: 'warn' },
+ * });
+ *
+ * // In tests
+ * configureScreenRecorder({ logger: null });
+ * ```
+ */
+export function configureScreenRecorder(config: ScreenRecorderConfig): void {
+  if (config.logger !== undefined) {
+    setLogger(config.logger);
+  }
+  if (config.forwardExtensionLogs !== undefined) {
+    if (extensionLogForwarder) {
+      clearInterval(extensionLogForwarder.timer);
+      extensionLogForwarder = undefined;
+    }
+    if (config.forwardExtensionLogs && !isAndroid) {
+      startExtensionLogForwarding(config.forwardExtensionLogs);
+    }
+  }
+}
+
 // ============================================================================
 // UTILITIES
 // ============================================================================
@@ -661,6 +2576,7 @@ export function clearExtensionAudioMetrics(): void {
 /**
  * Clears all cached recording files to free up storage space.
  * This will delete temporary files but not files that have been explicitly saved.
+ * Entries of deleted files are removed from `recordingLibrary`.
  *
  * @platform iOS, Android
  * @example
@@ -669,5 +2585,6 @@ export function clearExtensionAudioMetrics(): void {
  * ```
  */
 export function clearCache(): void {
-  return NitroScreenRecorderHybridObject.clearRecordingCache();
+  NitroScreenRecorderHybridObject.clearRecordingCache();
+  recordingLibrary.prune();
 }
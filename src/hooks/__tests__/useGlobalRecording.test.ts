@@ -0,0 +1,101 @@
+import { act, renderHook } from '@testing-library/react-native';
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../../mock';
+import { startGlobalRecording } from '../../functions';
+import { useGlobalRecording } from '../useGlobalRecording';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('useGlobalRecording', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('tracks whether a global recording is running', () => {
+    const { result } = renderHook(() => useGlobalRecording());
+    expect(result.current.isRecording).toBe(false);
+
+    act(() => mockScreenRecorder.beginGlobalRecording());
+    expect(result.current.isRecording).toBe(true);
+
+    act(() => {
+      mockScreenRecorder.endGlobalRecording();
+    });
+    expect(result.current.isRecording).toBe(false);
+  });
+
+  it('calls the lifecycle callbacks with the finished file', async () => {
+    const onRecordingStarted = jest.fn();
+    const onRecordingFinished = jest.fn();
+    renderHook(() =>
+      useGlobalRecording({ onRecordingStarted, onRecordingFinished })
+    );
+
+    act(() => mockScreenRecorder.beginGlobalRecording());
+    await act(async () => {
+      mockScreenRecorder.endGlobalRecording();
+      await jest.runOnlyPendingTimersAsync();
+    });
+
+    expect(onRecordingStarted).toHaveBeenCalledTimes(1);
+    expect(onRecordingFinished).toHaveBeenCalledTimes(1);
+    expect(onRecordingFinished).toHaveBeenCalledWith(
+      expect.objectContaining({ path: expect.stringMatching(/\.mp4$/) })
+    );
+  });
+
+  it('reports the broadcast picker being shown and dismissed', () => {
+    const onBroadcastModalShown = jest.fn();
+    const onBroadcastModalDismissed = jest.fn();
+    renderHook(() =>
+      useGlobalRecording({ onBroadcastModalShown, onBroadcastModalDismissed })
+    );
+
+    act(() => {
+      mockScreenRecorder.emitBroadcastPickerEvent('showing');
+      mockScreenRecorder.emitBroadcastPickerEvent('dismissed');
+    });
+
+    expect(onBroadcastModalShown).toHaveBeenCalledTimes(1);
+    expect(onBroadcastModalDismissed).toHaveBeenCalledTimes(1);
+  });
+
+  it('can ignore recordings started elsewhere', () => {
+    const onRecordingStarted = jest.fn();
+    renderHook(() =>
+      useGlobalRecording({
+        onRecordingStarted,
+        ignoreRecordingsInitiatedElsewhere: true,
+      })
+    );
+
+    act(() => mockScreenRecorder.beginGlobalRecording());
+    act(() => {
+      mockScreenRecorder.endGlobalRecording();
+    });
+    expect(onRecordingStarted).not.toHaveBeenCalled();
+
+    act(() => startGlobalRecording({ onRecordingError: jest.fn() }));
+    expect(onRecordingStarted).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops calling back after unmounting', () => {
+    const onRecordingStarted = jest.fn();
+    const { unmount } = renderHook(() =>
+      useGlobalRecording({ onRecordingStarted })
+    );
+
+    unmount();
+    mockScreenRecorder.beginGlobalRecording();
+
+    expect(onRecordingStarted).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { act, renderHook } from '@testing-library/react-native';
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../../mock';
+import { pauseRecording, resumeRecording } from '../../functions';
+import { useInAppRecording } from '../useInAppRecording';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+const RECORDING_OPTIONS = { enableMic: true, enableCamera: false } as const;
+
+describe('useInAppRecording', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts and stops a recording', async () => {
+    const onRecordingFinished = jest.fn();
+    const { result } = renderHook(() =>
+      useInAppRecording({ onRecordingFinished })
+    );
+
+    await act(() => result.current.start(RECORDING_OPTIONS));
+    expect(result.current.isRecording).toBe(true);
+
+    let file;
+    await act(async () => {
+      file = await result.current.stop();
+    });
+
+    expect(result.current.isRecording).toBe(false);
+    expect(file).toMatchObject({ enabledMicrophone: true });
+    expect(result.current.lastRecording).toBe(file);
+    expect(onRecordingFinished).toHaveBeenCalledWith(file);
+  });
+
+  it('counts elapsed time without paused time', async () => {
+    const { result } = renderHook(() =>
+      useInAppRecording({ elapsedIntervalMs: 100 })
+    );
+    await act(() => result.current.start(RECORDING_OPTIONS));
+
+    act(() => jest.advanceTimersByTime(2000));
+    expect(result.current.elapsedMs).toBe(2000);
+
+    await act(() => pauseRecording());
+    expect(result.current.isPaused).toBe(true);
+    act(() => jest.advanceTimersByTime(5000));
+    await act(() => resumeRecording());
+    act(() => jest.advanceTimersByTime(1000));
+
+    expect(result.current.isPaused).toBe(false);
+    expect(result.current.elapsedMs).toBe(3000);
+  });
+
+  it('requests missing permissions before starting', async () => {
+    mockScreenRecorder.permissionStatuses.microphone = 'undetermined';
+    const { result } = renderHook(() => useInAppRecording());
+
+    await act(() => result.current.start(RECORDING_OPTIONS));
+
+    expect(result.current.isRecording).toBe(true);
+    expect(result.current.error).toBeUndefined();
+  });
+
+  it('reports a denied permission through error and onError', async () => {
+    mockScreenRecorder.permissionStatuses.microphone = 'undetermined';
+    mockScreenRecorder.permissionRequestResults.microphone = 'denied';
+    const onError = jest.fn();
+    const { result } = renderHook(() => useInAppRecording({ onError }));
+
+    await act(() => result.current.start(RECORDING_OPTIONS));
+
+    expect(result.current.isRecording).toBe(false);
+    expect(result.current.error?.code).toBe('PERMISSION_DENIED');
+    expect(onError).toHaveBeenCalledWith(result.current.error);
+  });
+
+  it('cancels without keeping a file', async () => {
+    const onRecordingFinished = jest.fn();
+    const { result } = renderHook(() =>
+      useInAppRecording({ onRecordingFinished })
+    );
+    await act(() => result.current.start(RECORDING_OPTIONS));
+
+    await act(() => result.current.cancel());
+
+    expect(result.current.isRecording).toBe(false);
+    expect(result.current.lastRecording).toBeUndefined();
+    expect(onRecordingFinished).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { act, renderHook } from '@testing-library/react-native';
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../../mock';
+import { isReplayBufferActive, stopReplayBuffer } from '../../functions';
+import { useReplayBuffer } from '../useReplayBuffer';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('useReplayBuffer', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+  });
+
+  afterEach(async () => {
+    await stopReplayBuffer();
+    jest.useRealTimers();
+  });
+
+  it('buffers while a global recording is running', async () => {
+    const { result } = renderHook(() => useReplayBuffer({ windowSeconds: 6 }));
+    expect(result.current.isBuffering).toBe(false);
+
+    await act(async () => mockScreenRecorder.beginGlobalRecording());
+    expect(result.current.isBuffering).toBe(true);
+
+    await act(async () => {
+      mockScreenRecorder.endGlobalRecording();
+    });
+    expect(result.current.isBuffering).toBe(false);
+    expect(isReplayBufferActive()).toBe(false);
+  });
+
+  it('keeps the buffer running until the last component unmounts', async () => {
+    const startChunk = jest.spyOn(mockScreenRecorder, 'markChunkStart');
+    await act(async () => mockScreenRecorder.beginGlobalRecording());
+    const first = renderHook(() => useReplayBuffer({ windowSeconds: 6 }));
+    const second = renderHook(() => useReplayBuffer({ windowSeconds: 6 }));
+    await act(async () => {});
+
+    expect(second.result.current.isBuffering).toBe(true);
+    expect(startChunk).toHaveBeenCalledTimes(1);
+
+    second.unmount();
+    expect(isReplayBufferActive()).toBe(true);
+
+    first.unmount();
+    expect(isReplayBufferActive()).toBe(false);
+  });
+});
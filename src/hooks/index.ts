@@ -1 +1,10 @@
+export * from './useCameraMicPermissions';
 export * from './useGlobalRecording';
+export * from './useInAppRecording';
+export {
+  useExtensionStatus,
+  useLastRecording,
+  useRecorderState,
+} from './useRecorderContext';
+export * from './useRecordingProgress';
+export * from './useReplayBuffer';
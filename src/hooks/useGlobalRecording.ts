@@ -1,35 +1,14 @@
-import { useState, useEffect, useRef } from 'react';
+import { useContext, useEffect, useRef } from 'react';
+import { isActiveRecorderState } from '../store';
+import { subscribeToGlobalRecording } from '../provider/globalRecordingEvents';
+import type { GlobalRecordingLifecycleEvent } from '../provider/globalRecordingEvents';
+import { ScreenRecorderContext } from '../provider/ScreenRecorderProvider';
+import type { ScreenRecordingFile, ExtensionStatus } from '../types';
 import {
-  addBroadcastPickerListener,
-  addScreenRecordingListener,
-  retrieveLastGlobalRecording,
-  getExtensionStatus,
-  isScreenBeingRecorded,
-} from '../functions';
-import type {
-  ScreenRecordingFile,
-  ExtensionStatus,
-  ExtensionState,
-} from '../types';
-
-/**
- * A "modern" sleep statement.
- *
- * @param ms The number of milliseconds to wait.
- */
-const delay = (ms: number) =>
-  new Promise((resolve) => setTimeout(resolve as () => void, ms));
-
-/**
- * Default extension status when idle.
- */
-const IDLE_STATUS: ExtensionStatus = {
-  state: 'idle',
-  isMicrophoneEnabled: false,
-  isCapturingChunk: false,
-  chunkStartedAt: 0,
-  captureMode: 'unknown',
-};
+  useExtensionStatus,
+  useRecorderState,
+  useRecorderStoreConnection,
+} from './useRecorderContext';
 
 /**
  * Configuration options for the global recording hook.
@@ -57,8 +36,9 @@ type GlobalRecordingHookInput = {
    */
   onBroadcastModalDismissed?: () => void;
   /**
-   * Time in milliseconds to wait after recording ends before attempting to retrieve the file.
-   * This allows the system time to finish writing the recording to disk.
+   * The longest time in milliseconds to wait for the recording to be saved after it ends.
+   * The file is delivered as soon as the recorder reports it as ready; after this
+   * time it is retrieved anyway.
    *
    * @default 500
    */
@@ -69,8 +49,9 @@ type GlobalRecordingHookInput = {
    */
   ignoreRecordingsInitiatedElsewhere?: boolean;
   /**
-   * How often to poll the extension status in milliseconds.
-   * @default 200
+   * How often to poll the extension status in milliseconds. Status changes are
+   * delivered as events; polling only catches anything that was missed.
+   * @default 1000
    */
   pollingIntervalMs?: number;
 };
@@ -104,6 +85,9 @@ type GlobalRecordingHookOutput = {
  * - Provides lifecycle callbacks for recording start/finish events
  * - Handles timing delays for safe file retrieval
  * - Filters out within-app recordings (only responds to global recordings)
+ * - Shares the native listeners of a surrounding `ScreenRecorderProvider`, whose
+ *   `settledTimeMs`, `ignoreRecordingsInitiatedElsewhere` and `pollingIntervalMs`
+ *   then apply instead of the hook's own
  *
  * **Use Cases:**
  * - Show recording indicators in your UI
@@ -142,94 +126,49 @@ type GlobalRecordingHookOutput = {
 export const useGlobalRecording = (
   props?: GlobalRecordingHookInput
 ): GlobalRecordingHookOutput => {
-  const [isRecording, setIsRecording] = useState(false);
-  const [extensionStatus, setExtensionStatus] =
-    useState<ExtensionStatus>(IDLE_STATUS);
-
-  // Track previous recording state to detect transitions
-  const wasRecordingRef = useRef(false);
-
-  // Screen recording listener - primary source for callbacks
-  useEffect(() => {
-    const unsubscribe = addScreenRecordingListener({
-      ignoreRecordingsInitiatedElsewhere:
-        props?.ignoreRecordingsInitiatedElsewhere ?? false,
-      listener: async (event) => {
-        if (event.type === 'withinApp') return;
-
-        if (event.reason === 'began') {
-          setIsRecording(true);
-          props?.onRecordingStarted?.();
-        } else {
-          setIsRecording(false);
-          // We add a small delay after the recording ends to allow the file to finish writing
-          // to disk before trying to fetch it
-          await delay(props?.settledTimeMs ?? 500);
-          const file = retrieveLastGlobalRecording();
-          props?.onRecordingFinished?.(file);
-        }
-      },
-    });
+  const hub = useContext(ScreenRecorderContext);
+  // Kept in a ref so inline callbacks don't re-register the listeners
+  const propsRef = useRef(props);
+  propsRef.current = props;
 
-    return unsubscribe;
-  }, [props]);
+  const ignoreRecordingsInitiatedElsewhere =
+    props?.ignoreRecordingsInitiatedElsewhere ?? false;
+  const settledTimeMs = props?.settledTimeMs ?? 500;
 
-  // Broadcast picker listener
-  useEffect(() => {
-    const unsubscribe = addBroadcastPickerListener((event) => {
-      if (event === 'dismissed') {
-        props?.onBroadcastModalDismissed?.();
-      } else {
-        props?.onBroadcastModalShown?.();
-      }
-    });
-
-    return unsubscribe;
-  }, [props]);
+  // Keep the shared store fed with native events and polled status
+  useRecorderStoreConnection(props?.pollingIntervalMs);
 
-  // Use a ref to track the current isRecording state for use in polling
-  const isRecordingRef = useRef(false);
+  // Lifecycle callbacks - from the provider's shared listeners if there is one
   useEffect(() => {
-    isRecordingRef.current = isRecording;
-  }, [isRecording]);
-
-  // Polling for isRecording (using isCaptured) and extensionStatus
-  useEffect(() => {
-    const pollingInterval = props?.pollingIntervalMs ?? 200;
-
-    const pollStatus = () => {
-      // Use isCaptured for reliable isRecording detection (backup for hot reload)
-      const currentlyRecording = isScreenBeingRecorded();
-
-      // Detect transitions for app refresh case (when event listener missed the start)
-      if (currentlyRecording && !wasRecordingRef.current) {
-        setIsRecording(true);
-      } else if (!currentlyRecording && wasRecordingRef.current) {
-        setIsRecording(false);
+    const listener = (event: GlobalRecordingLifecycleEvent) => {
+      switch (event.type) {
+        case 'started':
+          propsRef.current?.onRecordingStarted?.();
+          break;
+        case 'finished':
+          propsRef.current?.onRecordingFinished?.(event.file);
+          break;
+        case 'pickerShown':
+          propsRef.current?.onBroadcastModalShown?.();
+          break;
+        case 'pickerDismissed':
+          propsRef.current?.onBroadcastModalDismissed?.();
+          break;
       }
-      wasRecordingRef.current = currentlyRecording;
-
-      // Get extension status for detailed info (chunk status, mic, etc.)
-      const rawStatus = getExtensionStatus();
-
-      // Use isRecording state (from event listeners, which works reliably)
-      // OR polling result as fallback - whichever says recording is active
-      const isActive = isRecordingRef.current || currentlyRecording;
-
-      const state: ExtensionState = !isActive
-        ? 'idle'
-        : rawStatus.isCapturingChunk
-          ? 'capturingChunk'
-          : 'running';
-
-      setExtensionStatus({ ...rawStatus, state });
     };
 
-    pollStatus(); // Poll immediately on mount
-    const interval = setInterval(pollStatus, pollingInterval);
-
-    return () => clearInterval(interval);
-  }, [props?.pollingIntervalMs]);
+    if (hub) return hub.subscribe(listener);
+    return subscribeToGlobalRecording(
+      { ignoreRecordingsInitiatedElsewhere, settledTimeMs },
+      listener
+    );
+  }, [hub, ignoreRecordingsInitiatedElsewhere, settledTimeMs]);
+
+  const isRecording = useRecorderState(
+    (snapshot) =>
+      snapshot.mode !== 'inApp' && isActiveRecorderState(snapshot.state)
+  );
+  const extensionStatus = useExtensionStatus();
 
   return { isRecording, extensionStatus };
 };
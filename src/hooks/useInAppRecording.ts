@@ -0,0 +1,205 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import {
+  cancelInAppRecording,
+  startInAppRecording,
+  stopInAppRecording,
+} from '../functions';
+import { toScreenRecorderError } from '../errors';
+import type { ScreenRecorderError } from '../errors';
+import { isActiveRecorderState, recorderStore } from '../store';
+import type { InAppRecordingOptions, ScreenRecordingFile } from '../types';
+import {
+  useCameraPermission,
+  useMicrophonePermission,
+} from './useCameraMicPermissions';
+import { useRecorderStoreConnection } from './useRecorderContext';
+
+/**
+ * Configuration options for the in-app recording hook.
+ */
+type InAppRecordingHookInput = {
+  /**
+   * Callback invoked when an in-app recording finishes and its file is saved.
+   *
+   * @param file The screen recording file
+   */
+  onRecordingFinished?: (file: ScreenRecordingFile) => void;
+  /**
+   * Callback invoked when starting, stopping or cancelling fails.
+   * The error is also exposed as `error`.
+   */
+  onError?: (error: ScreenRecorderError) => void;
+  /**
+   * How often `elapsedMs` is updated while recording, in milliseconds.
+   * @default 1000
+   */
+  elapsedIntervalMs?: number;
+};
+
+/**
+ * Return value from the in-app recording hook.
+ */
+type InAppRecordingHookOutput = {
+  /** Whether an in-app recording is currently active (including paused) */
+  isRecording: boolean;
+  /** Whether the active recording is paused */
+  isPaused: boolean;
+  /** Recorded time of the current (or last) recording, excluding paused time */
+  elapsedMs: number;
+  /**
+   * Starts an in-app recording. Missing microphone or camera permissions are
+   * requested first when the options need them.
+   * Never rejects; failures are reported through `error` and `onError`.
+   */
+  start: (options: InAppRecordingOptions) => Promise<void>;
+  /**
+   * Stops the recording and resolves with its file, or undefined if it failed.
+   */
+  stop: () => Promise<ScreenRecordingFile | undefined>;
+  /** Cancels the recording without saving a file */
+  cancel: () => Promise<void>;
+  /** The file of the last finished recording */
+  lastRecording?: ScreenRecordingFile;
+  /** The error from the last failed `start`, `stop` or `cancel`, cleared on `start` */
+  error?: ScreenRecorderError;
+};
+
+/**
+ * React hook for recording the app's own screen with `startInAppRecording`.
+ *
+ * Tracks whether an in-app recording is running and for how long, keeps the
+ * last finished file, and requests microphone and camera permissions through
+ * `useMicrophonePermission`/`useCameraPermission` before starting when needed.
+ *
+ * @platform iOS
+ * @param props Configuration options for the hook
+ * @returns Recording state and controls
+ *
+ * @example
+ * ```tsx
+ * const { isRecording, elapsedMs, start, stop, error } = useInAppRecording({
+ *   onRecordingFinished: (file) => uploadRecording(file),
+ * });
+ *
+ * return isRecording ? (
+ *   <Button title={`Stop (${Math.floor(elapsedMs / 1000)}s)`} onPress={stop} />
+ * ) : (
+ *   <Button
+ *     title="Record"
+ *     onPress={() => start({ enableMic: true, enableCamera: false })}
+ *   />
+ * );
+ * ```
+ */
+export const useInAppRecording = (
+  props?: InAppRecordingHookInput
+): InAppRecordingHookOutput => {
+  const snapshot = useSyncExternalStore(
+    recorderStore.subscribe,
+    recorderStore.getSnapshot
+  );
+  const microphone = useMicrophonePermission();
+  const camera = useCameraPermission();
+
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [lastRecording, setLastRecording] = useState<ScreenRecordingFile>();
+  const [error, setError] = useState<ScreenRecorderError>();
+
+  // Kept in a ref so inline callbacks don't change the returned functions
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  // Recorded time of the segments before the current one
+  const accumulatedMsRef = useRef(0);
+
+  const elapsedIntervalMs = props?.elapsedIntervalMs ?? 1000;
+  const isRecording =
+    snapshot.mode === 'inApp' && isActiveRecorderState(snapshot.state);
+  const isPaused = isRecording && snapshot.state === 'paused';
+
+  useRecorderStoreConnection();
+
+  // Count time while recording and not paused
+  useEffect(() => {
+    if (!isRecording || isPaused) return;
+
+    const segmentStartedAt = Date.now();
+    const interval = setInterval(() => {
+      setElapsedMs(accumulatedMsRef.current + Date.now() - segmentStartedAt);
+    }, elapsedIntervalMs);
+
+    return () => {
+      clearInterval(interval);
+      accumulatedMsRef.current += Date.now() - segmentStartedAt;
+      setElapsedMs(accumulatedMsRef.current);
+    };
+  }, [isRecording, isPaused, elapsedIntervalMs]);
+
+  const reportError = useCallback((caught: unknown) => {
+    const mapped = toScreenRecorderError(caught);
+    setError(mapped);
+    propsRef.current?.onError?.(mapped);
+  }, []);
+
+  const start = useCallback(
+    async (options: InAppRecordingOptions) => {
+      setError(undefined);
+      accumulatedMsRef.current = 0;
+      setElapsedMs(0);
+      try {
+        // startInAppRecording rejects with PermissionDeniedError if these stay denied
+        if (options.enableMic && !microphone.hasPermission) {
+          await microphone.requestPermission();
+        }
+        if (options.enableCamera && !camera.hasPermission) {
+          await camera.requestPermission();
+        }
+        await startInAppRecording({
+          options,
+          onRecordingFinished: (file) => {
+            setLastRecording(file);
+            propsRef.current?.onRecordingFinished?.(file);
+          },
+        });
+      } catch (caught) {
+        reportError(caught);
+      }
+    },
+    [microphone, camera, reportError]
+  );
+
+  const stop = useCallback(async () => {
+    try {
+      const file = await stopInAppRecording();
+      if (file) setLastRecording(file);
+      return file;
+    } catch (caught) {
+      reportError(caught);
+      return undefined;
+    }
+  }, [reportError]);
+
+  const cancel = useCallback(async () => {
+    try {
+      await cancelInAppRecording();
+    } catch (caught) {
+      reportError(caught);
+    }
+  }, [reportError]);
+
+  return {
+    isRecording,
+    isPaused,
+    elapsedMs,
+    start,
+    stop,
+    cancel,
+    lastRecording,
+    error,
+  };
+};
@@ -0,0 +1,113 @@
+import { useContext, useEffect, useMemo, useSyncExternalStore } from 'react';
+import { ScreenRecorderContext } from '../provider/ScreenRecorderProvider';
+import {
+  connectRecorderStore,
+  isActiveRecorderState,
+  recorderStore,
+} from '../store';
+import type {
+  ExtensionState,
+  ExtensionStatus,
+  RecorderSnapshot,
+  ScreenRecordingFile,
+} from '../types';
+
+const selectSnapshot = (snapshot: RecorderSnapshot) => snapshot;
+
+/**
+ * Connects `recorderStore` to native events for as long as the component is
+ * mounted, unless a `ScreenRecorderProvider` above it already does.
+ *
+ * @param pollingIntervalMs How often to poll native status when connecting
+ */
+export function useRecorderStoreConnection(pollingIntervalMs?: number): void {
+  const hub = useContext(ScreenRecorderContext);
+  useEffect(() => {
+    if (hub) return undefined;
+    return connectRecorderStore({ pollingIntervalMs });
+  }, [hub, pollingIntervalMs]);
+}
+
+/**
+ * Returns the current `recorderStore` snapshot, or the part of it picked by
+ * `selector`. The component only re-renders when the selected value changes,
+ * so selectors should return primitives or values taken from the snapshot
+ * rather than new objects.
+ *
+ * Works with or without a `ScreenRecorderProvider`.
+ *
+ * @param selector Picks the value to return from the snapshot
+ * @returns The snapshot, or the selected value
+ *
+ * @example
+ * ```tsx
+ * const state = useRecorderState((snapshot) => snapshot.state);
+ * const isFinalizing = state === 'finalizing';
+ * ```
+ */
+export function useRecorderState(): RecorderSnapshot;
+export function useRecorderState<T>(
+  selector: (snapshot: RecorderSnapshot) => T
+): T;
+export function useRecorderState<T>(
+  selector: (
+    snapshot: RecorderSnapshot
+  ) => T | RecorderSnapshot = selectSnapshot
+): T | RecorderSnapshot {
+  useRecorderStoreConnection();
+  return useSyncExternalStore(recorderStore.subscribe, () =>
+    selector(recorderStore.getSnapshot())
+  );
+}
+
+/**
+ * Returns the status of the global recorder, with a high-level `state` that
+ * is `'idle'` whenever no global recording is active.
+ *
+ * Works with or without a `ScreenRecorderProvider`.
+ *
+ * @example
+ * ```tsx
+ * const { state } = useExtensionStatus();
+ * return <Badge label={state === 'capturingChunk' ? 'Saving clip' : state} />;
+ * ```
+ */
+export function useExtensionStatus(): ExtensionStatus {
+  const isRecording = useRecorderState(
+    (snapshot) =>
+      snapshot.mode !== 'inApp' && isActiveRecorderState(snapshot.state)
+  );
+  const rawStatus = useRecorderState((snapshot) => snapshot.extensionStatus);
+
+  return useMemo<ExtensionStatus>(() => {
+    const state: ExtensionState = !isRecording
+      ? 'idle'
+      : rawStatus.isCapturingChunk
+        ? 'capturingChunk'
+        : 'running';
+    return { ...rawStatus, state };
+  }, [isRecording, rawStatus]);
+}
+
+/**
+ * Returns the file of the last global recording that finished while the
+ * surrounding `ScreenRecorderProvider` was mounted.
+ *
+ * @throws {Error} When used outside of a `ScreenRecorderProvider`
+ * @example
+ * ```tsx
+ * const lastRecording = useLastRecording();
+ * if (lastRecording) {
+ *   return <VideoPreview uri={lastRecording.path} />;
+ * }
+ * ```
+ */
+export function useLastRecording(): ScreenRecordingFile | undefined {
+  const hub = useContext(ScreenRecorderContext);
+  if (!hub) {
+    throw new Error(
+      '`useLastRecording` must be used inside a `ScreenRecorderProvider`.'
+    );
+  }
+  return useSyncExternalStore(hub.subscribe, hub.getLastRecording);
+}
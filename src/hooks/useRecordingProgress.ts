@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { addRecordingProgressListener } from '../functions';
+import { isActiveRecorderState } from '../store';
+import type { RecordingProgress } from '../types';
+import { useRecorderState } from './useRecorderContext';
+
+/**
+ * Configuration options for the recording progress hook.
+ */
+type RecordingProgressHookInput = {
+  /**
+   * How often progress is updated in milliseconds.
+   * @default 1000
+   */
+  intervalMs?: number;
+  /**
+   * Set to false to stop updating progress, e.g. while the screen is hidden.
+   * @default true
+   */
+  enabled?: boolean;
+};
+
+/**
+ * React hook that returns the progress of the active recording (in-app or
+ * global), updated every `intervalMs` while recording. Returns undefined while
+ * nothing is recording.
+ *
+ * @platform iOS, Android
+ * @param props Configuration options for the hook
+ * @returns The latest progress, or undefined when not recording
+ *
+ * @example
+ * ```tsx
+ * const progress = useRecordingProgress();
+ * const nearLimit = (progress?.bytesWritten ?? 0) > UPLOAD_LIMIT_BYTES * 0.9;
+ *
+ * return (
+ *   <Text style={nearLimit && styles.warning}>
+ *     {formatSeconds(progress?.elapsedSec ?? 0)}
+ *   </Text>
+ * );
+ * ```
+ */
+export const useRecordingProgress = (
+  props?: RecordingProgressHookInput
+): RecordingProgress | undefined => {
+  const isRecording = useRecorderState((snapshot) =>
+    isActiveRecorderState(snapshot.state)
+  );
+  const [progress, setProgress] = useState<RecordingProgress>();
+
+  const intervalMs = props?.intervalMs ?? 1000;
+  const enabled = props?.enabled ?? true;
+
+  useEffect(() => {
+    if (!isRecording || !enabled) {
+      setProgress(undefined);
+      return;
+    }
+    return addRecordingProgressListener(setProgress, { intervalMs });
+  }, [isRecording, enabled, intervalMs]);
+
+  return progress;
+};
@@ -0,0 +1,153 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import {
+  isReplayBufferActive,
+  saveReplay,
+  startReplayBuffer,
+  stopReplayBuffer,
+} from '../functions';
+import { logger } from '../logger';
+import { isActiveRecorderState, recorderStore } from '../store';
+import type { ReplayBufferOptions, ScreenRecordingFile } from '../types';
+import { useRecorderStoreConnection } from './useRecorderContext';
+
+let replayBufferUsers = 0;
+let replayBufferStart: Promise<void> | undefined;
+
+/**
+ * Starts the replay buffer if no hook instance is using it yet. It keeps
+ * running until every instance has released it.
+ *
+ * @returns Resolves once the buffer runs, and a function releasing this use
+ */
+function acquireReplayBuffer(options: ReplayBufferOptions): {
+  started: Promise<void>;
+  release: () => void;
+} {
+  replayBufferUsers += 1;
+  if (!isReplayBufferActive()) {
+    replayBufferStart = startReplayBuffer(options);
+  }
+  const started = replayBufferStart ?? Promise.resolve();
+
+  const release = () => {
+    replayBufferUsers -= 1;
+    if (replayBufferUsers === 0) {
+      replayBufferStart = undefined;
+      stopReplayBuffer();
+    }
+  };
+  return { started, release };
+}
+
+/**
+ * Configuration options for the replay buffer hook.
+ */
+type ReplayBufferHookInput = ReplayBufferOptions & {
+  /**
+   * Whether the buffer should run while a global recording is active.
+   * Set to false to stop it without unmounting.
+   * @default true
+   */
+  enabled?: boolean;
+  /**
+   * Called when the buffer fails to start, e.g. because the recording ended
+   * before the first segment could be marked. Without it, the failure is
+   * logged through the configured logger.
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Return value from the replay buffer hook.
+ */
+type ReplayBufferHookOutput = {
+  /** Whether the replay buffer is currently keeping segments */
+  isBuffering: boolean;
+  /**
+   * Saves the last `windowSeconds` as a single file.
+   * Rejects with `NoActiveSessionError` when the buffer is not running.
+   */
+  saveReplay: () => Promise<ScreenRecordingFile>;
+};
+
+/**
+ * React hook that keeps an instant-replay buffer running for as long as a
+ * global recording is active.
+ *
+ * The buffer starts when a global recording begins (however it was started)
+ * and stops, deleting its segments, when the recording ends or the last
+ * component using it unmounts. Components using the hook at the same time
+ * share one buffer, with the options of the one that started it. Call
+ * `saveReplay()` to get the last `windowSeconds` as one file.
+ *
+ * @param props Replay buffer options
+ * @returns Whether the buffer is running and a function to save a replay
+ *
+ * @example
+ * ```tsx
+ * const { isBuffering, saveReplay } = useReplayBuffer({ windowSeconds: 30 });
+ *
+ * const onReportBug = async () => {
+ *   const replay = await saveReplay();
+ *   await uploadBugReport({ video: replay.path });
+ * };
+ * ```
+ */
+export const useReplayBuffer = (
+  props: ReplayBufferHookInput
+): ReplayBufferHookOutput => {
+  const snapshot = useSyncExternalStore(
+    recorderStore.subscribe,
+    recorderStore.getSnapshot
+  );
+  const [isBuffering, setIsBuffering] = useState(isReplayBufferActive);
+
+  const { windowSeconds, segmentSeconds, enabled = true } = props;
+  // Kept in a ref so inline callbacks don't restart the buffer
+  const onErrorRef = useRef(props.onError);
+  onErrorRef.current = props.onError;
+  const isGlobalRecording =
+    snapshot.mode !== 'inApp' && isActiveRecorderState(snapshot.state);
+
+  useRecorderStoreConnection();
+
+  useEffect(() => {
+    if (!enabled || !isGlobalRecording) return;
+
+    let cancelled = false;
+    const { started, release } = acquireReplayBuffer({
+      windowSeconds,
+      segmentSeconds,
+    });
+    started
+      .then(() => {
+        if (!cancelled) setIsBuffering(true);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        if (onErrorRef.current) {
+          onErrorRef.current(error);
+        } else {
+          logger.warn('`useReplayBuffer` failed to start the replay buffer', {
+            error,
+          });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      setIsBuffering(false);
+      release();
+    };
+  }, [enabled, isGlobalRecording, windowSeconds, segmentSeconds]);
+
+  const save = useCallback(() => saveReplay(), []);
+
+  return { isBuffering, saveReplay: save };
+};
@@ -0,0 +1,9 @@
+import { NitroModules } from 'react-native-nitro-modules';
+import type { NitroScreenRecorder } from './NitroScreenRecorder.nitro';
+
+/**
+ * The native recorder shared by every module of this library. Creating a
+ * second instance would register its native observers twice.
+ */
+export const NitroScreenRecorderHybridObject =
+  NitroModules.createHybridObject<NitroScreenRecorder>('NitroScreenRecorder');
@@ -1,3 +1,8 @@
 export * from './types';
 export * from './functions';
+export * from './errors';
+export * from './store';
+export * from './library';
+export * from './diagnostics';
 export * from './hooks';
+export * from './provider';
@@ -0,0 +1,377 @@
+import type {
+  RecorderMode,
+  RecordingLibraryEntry,
+  RecordingLibraryListener,
+  RecordingLibraryQuery,
+  RetentionPolicy,
+  RetentionReport,
+  ScreenRecordingFile,
+} from '../types';
+import { ScreenRecorderError, toScreenRecorderError } from '../errors';
+import { NitroScreenRecorderHybridObject } from '../hybridObject';
+import { logger } from '../logger';
+import {
+  entryBytes,
+  resolveRetentionPolicy,
+  selectRetentionDeletions,
+} from './retention';
+
+/**
+ * Version written to the manifest, bumped when its shape changes.
+ */
+const MANIFEST_VERSION = 1;
+
+type RecordingLibraryManifest = {
+  version: number;
+  /** Oldest first */
+  entries: RecordingLibraryEntry[];
+};
+
+function createEntryId(createdAt: number): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `rec-${createdAt.toString(36)}-${random}`;
+}
+
+function toTimestamp(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Returns `name` with the extension of `currentName` when it has none.
+ */
+function withExtension(name: string, currentName: string): string {
+  const dot = currentName.lastIndexOf('.');
+  if (dot <= 0 || name.includes('.')) return name;
+  return `${name}${currentName.slice(dot)}`;
+}
+
+/**
+ * Deletes the video, separate audio and marker files of an entry.
+ */
+function deleteEntryFiles(entry: RecordingLibraryEntry): void {
+  [
+    entry.path,
+    entry.audioFile?.path,
+    entry.appAudioFile?.path,
+    entry.markersFile,
+  ].forEach((path) => {
+    if (path) {
+      NitroScreenRecorderHybridObject.deleteRecordingFile(path);
+    }
+  });
+}
+
+/**
+ * Persistent index of every recording this library produced, so apps can
+ * show a gallery without tracking files themselves.
+ *
+ * Files are added automatically when an in-app recording finishes and when
+ * global recordings or chunks are returned by `stopGlobalRecording()`,
+ * `finalizeChunk()`, `retrieveGlobalRecording()`, `claimPendingChunk()` or
+ * `saveReplay()`. The index is stored as a JSON manifest in the app's data
+ * directory and survives restarts; `clearCache()` prunes the deleted files.
+ *
+ * @example
+ * ```typescript
+ * const lastWeek = recordingLibrary.list({
+ *   from: Date.now() - 7 * 24 * 60 * 60 * 1000,
+ * });
+ * const unsubscribe = recordingLibrary.subscribe(setRecordings);
+ * ```
+ */
+export class RecordingLibrary {
+  private listeners = new Set<RecordingLibraryListener>();
+  private retentionPolicy?: RetentionPolicy;
+
+  /**
+   * Adds a recording to the library. Files that are already indexed (matched
+   * by path) keep their `id`, `createdAt` and pin and get their metadata
+   * updated. The retention policy runs afterwards, but never deletes the
+   * added file.
+   *
+   * @param file The recording to index
+   * @param options.mode Whether the file came from an in-app or a global recording
+   * @param options.chunkId The chunk ID the file was recorded under, if any
+   * @returns The library entry for the file
+   */
+  add(
+    file: ScreenRecordingFile,
+    options: { mode: RecorderMode; chunkId?: string }
+  ): RecordingLibraryEntry {
+    const manifest = this.read();
+    const index = manifest.entries.findIndex(
+      (entry) => entry.path === file.path
+    );
+    const existing = manifest.entries[index];
+    const createdAt = existing?.createdAt ?? Date.now();
+    const entry: RecordingLibraryEntry = {
+      ...file,
+      id: existing?.id ?? createEntryId(createdAt),
+      mode: options.mode,
+      chunkId: options.chunkId ?? existing?.chunkId,
+      createdAt,
+      pinned: existing?.pinned,
+    };
+    if (existing) {
+      manifest.entries[index] = entry;
+    } else {
+      manifest.entries.push(entry);
+    }
+    this.write(manifest);
+
+    const policy = this.retentionPolicy;
+    if (policy) {
+      const report = this.applyRetention(policy, [entry.id]);
+      if (report.deleted.length > 0) {
+        policy.onEnforced?.(report);
+      }
+    }
+    return entry;
+  }
+
+  /**
+   * Lists indexed recordings, newest first.
+   *
+   * @param query Optional filters by mode, chunk ID and creation date
+   * @returns The matching entries
+   */
+  list(query?: RecordingLibraryQuery): RecordingLibraryEntry[] {
+    const from =
+      query?.from === undefined ? undefined : toTimestamp(query.from);
+    const to = query?.to === undefined ? undefined : toTimestamp(query.to);
+    const entries = this.read()
+      .entries.filter(
+        (entry) =>
+          (query?.mode === undefined || entry.mode === query.mode) &&
+          (query?.chunkId === undefined || entry.chunkId === query.chunkId) &&
+          (from === undefined || entry.createdAt >= from) &&
+          (to === undefined || entry.createdAt <= to)
+      )
+      .reverse();
+    return query?.limit === undefined
+      ? entries
+      : entries.slice(0, Math.max(0, query.limit));
+  }
+
+  /**
+   * Returns the entry with the given `id`, or undefined if it is not indexed.
+   */
+  get(id: string): RecordingLibraryEntry | undefined {
+    return this.read().entries.find((entry) => entry.id === id);
+  }
+
+  /**
+   * Deletes a recording, including its separate audio and marker files, and
+   * removes it from the library.
+   *
+   * @param id The `id` of the entry to delete
+   * @returns false if no entry with this `id` is indexed
+   */
+  delete(id: string): boolean {
+    const manifest = this.read();
+    const entry = manifest.entries.find((candidate) => candidate.id === id);
+    if (!entry) return false;
+    deleteEntryFiles(entry);
+    manifest.entries = manifest.entries.filter(
+      (candidate) => candidate !== entry
+    );
+    this.write(manifest);
+    return true;
+  }
+
+  /**
+   * Renames the video file of a recording within its directory. The file
+   * extension is kept when `name` has none. Separate audio files keep their
+   * names.
+   *
+   * @param id The `id` of the entry to rename
+   * @param name The new file name
+   * @returns The updated entry, or undefined if no entry with this `id` is indexed
+   * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if `name` is empty or contains a path separator
+   * @throws {ScreenRecorderError} `FILE_OPERATION_FAILED` if a file with that name already exists
+   */
+  rename(id: string, name: string): RecordingLibraryEntry | undefined {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed || /[/\\]/.test(trimmed) || trimmed.startsWith('.')) {
+      throw new ScreenRecorderError(
+        'INVALID_ARGUMENT',
+        `"${String(name)}" is not a valid recording name.`
+      );
+    }
+    const manifest = this.read();
+    const index = manifest.entries.findIndex((entry) => entry.id === id);
+    const entry = manifest.entries[index];
+    if (!entry) return undefined;
+
+    const fileName = withExtension(trimmed, entry.name);
+    if (fileName === entry.name) return entry;
+    let path: string;
+    try {
+      path = NitroScreenRecorderHybridObject.renameRecordingFile(
+        entry.path,
+        fileName
+      );
+    } catch (error) {
+      throw toScreenRecorderError(error);
+    }
+    const renamed: RecordingLibraryEntry = { ...entry, path, name: fileName };
+    manifest.entries[index] = renamed;
+    this.write(manifest);
+    return renamed;
+  }
+
+  /**
+   * Removes entries whose video file no longer exists, e.g. after
+   * `clearCache()` or when the system purged temporary files.
+   *
+   * @returns The removed entries
+   */
+  prune(): RecordingLibraryEntry[] {
+    const manifest = this.read();
+    const removed = manifest.entries.filter(
+      (entry) =>
+        !NitroScreenRecorderHybridObject.recordingFileExists(entry.path)
+    );
+    if (removed.length > 0) {
+      manifest.entries = manifest.entries.filter(
+        (entry) => !removed.includes(entry)
+      );
+      this.write(manifest);
+    }
+    return removed;
+  }
+
+  /**
+   * Pins or unpins a recording. Pinned recordings are never deleted by the
+   * retention policy unless it sets `keepPinned: false`.
+   *
+   * @param id The `id` of the entry
+   * @param pinned Whether to pin the recording. Default = true
+   * @returns The updated entry, or undefined if no entry with this `id` is indexed
+   */
+  pin(id: string, pinned = true): RecordingLibraryEntry | undefined {
+    const manifest = this.read();
+    const index = manifest.entries.findIndex((entry) => entry.id === id);
+    const entry = manifest.entries[index];
+    if (!entry) return undefined;
+    const updated: RecordingLibraryEntry = { ...entry, pinned };
+    manifest.entries[index] = updated;
+    this.write(manifest);
+    return updated;
+  }
+
+  /**
+   * Sets the retention policy enforced after every finished recording, or
+   * removes it with `undefined`. The policy is kept in memory only, so set
+   * it on every app launch. Setting it does not delete anything yet; call
+   * `enforceRetention()` for that.
+   *
+   * @param policy The limits to enforce
+   */
+  setRetentionPolicy(policy: RetentionPolicy | undefined): void {
+    this.retentionPolicy = policy
+      ? resolveRetentionPolicy(policy, 'setRetentionPolicy')
+      : undefined;
+  }
+
+  /**
+   * Returns the policy set with `setRetentionPolicy()`, if any.
+   */
+  getRetentionPolicy(): RetentionPolicy | undefined {
+    return this.retentionPolicy;
+  }
+
+  /**
+   * Deletes the recordings that exceed a retention policy right away.
+   *
+   * @param policy The limits to enforce. Default = the policy set with `setRetentionPolicy()`
+   * @returns What was deleted; empty when there is no policy
+   */
+  enforceRetention(policy?: RetentionPolicy): RetentionReport {
+    const resolved = policy
+      ? resolveRetentionPolicy(policy, 'enforceRetention')
+      : this.retentionPolicy;
+    return this.applyRetention(resolved ?? {}, []);
+  }
+
+  /**
+   * Registers a listener that is called with every entry (newest first)
+   * after each change.
+   *
+   * @param listener Callback receiving the updated entries
+   * @returns Cleanup function to remove the listener
+   */
+  subscribe = (listener: RecordingLibraryListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private applyRetention(
+    policy: RetentionPolicy,
+    keepIds: readonly string[]
+  ): RetentionReport {
+    const manifest = this.read();
+    const deleted = selectRetentionDeletions(
+      manifest.entries,
+      policy,
+      Date.now(),
+      keepIds
+    );
+    if (deleted.length > 0) {
+      deleted.forEach(deleteEntryFiles);
+      manifest.entries = manifest.entries.filter(
+        (entry) => !deleted.includes(entry)
+      );
+      this.write(manifest);
+    }
+    return {
+      deleted,
+      freedBytes: deleted.reduce((sum, entry) => sum + entryBytes(entry), 0),
+      remainingCount: manifest.entries.length,
+      remainingBytes: manifest.entries.reduce(
+        (sum, entry) => sum + entryBytes(entry),
+        0
+      ),
+    };
+  }
+
+  private read(): RecordingLibraryManifest {
+    const json = NitroScreenRecorderHybridObject.readRecordingLibrary();
+    if (!json) {
+      return { version: MANIFEST_VERSION, entries: [] };
+    }
+    try {
+      const manifest = JSON.parse(json) as Partial<RecordingLibraryManifest>;
+      return {
+        version: MANIFEST_VERSION,
+        entries: Array.isArray(manifest.entries) ? manifest.entries : [],
+      };
+    } catch (error) {
+      logger.warn(
+        'The recording library manifest is corrupted and will be rebuilt',
+        { error }
+      );
+      return { version: MANIFEST_VERSION, entries: [] };
+    }
+  }
+
+  private write(manifest: RecordingLibraryManifest): void {
+    try {
+      NitroScreenRecorderHybridObject.writeRecordingLibrary(
+        JSON.stringify(manifest)
+      );
+    } catch (error) {
+      throw toScreenRecorderError(error);
+    }
+    if (this.listeners.size === 0) return;
+    const entries = [...manifest.entries].reverse();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
+
+/**
+ * Shared library that this package's recording functions add files to.
+ */
+export const recordingLibrary = new RecordingLibrary();
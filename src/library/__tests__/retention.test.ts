@@ -0,0 +1,250 @@
+import { setLogger } from '../../logger';
+import {
+  entryBytes,
+  resolveRetentionPolicy,
+  selectRetentionDeletions,
+} from '../retention';
+import type { RecordingLibraryEntry, RetentionPolicy } from '../../types';
+
+const NOW = Date.UTC(2026, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Entry of `size` bytes created `ageDays` days before NOW.
+ */
+function entry(
+  id: string,
+  ageDays: number,
+  size = 100,
+  extra?: Partial<RecordingLibraryEntry>
+): RecordingLibraryEntry {
+  return {
+    id,
+    path: `file:///recordings/${id}.mp4`,
+    name: `${id}.mp4`,
+    size,
+    duration: 10,
+    enabledMicrophone: false,
+    mode: 'global',
+    createdAt: NOW - ageDays * DAY_MS,
+    ...extra,
+  };
+}
+
+const ids = (entries: RecordingLibraryEntry[]) => entries.map(({ id }) => id);
+
+describe('entryBytes', () => {
+  it('adds the sizes of separate audio files', () => {
+    const audioFile = {
+      path: 'file:///recordings/a.m4a',
+      name: 'a.m4a',
+      size: 20,
+      duration: 10,
+    };
+
+    expect(entryBytes(entry('a', 0, 100))).toBe(100);
+    expect(
+      entryBytes(
+        entry('a', 0, 100, {
+          audioFile,
+          appAudioFile: { ...audioFile, size: 5 },
+        })
+      )
+    ).toBe(125);
+  });
+});
+
+describe('resolveRetentionPolicy', () => {
+  const logger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setLogger(logger);
+  });
+
+  afterAll(() => {
+    setLogger(console);
+  });
+
+  it('keeps valid limits', () => {
+    const policy: RetentionPolicy = {
+      maxTotalBytes: 0,
+      maxAgeSec: 60,
+      maxCount: 3,
+      keepPinned: false,
+    };
+
+    expect(resolveRetentionPolicy(policy, 'setRetentionPolicy')).toEqual(
+      policy
+    );
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it.each([-1, NaN, '5'])(
+    'drops the invalid limit %p with a warning',
+    (value) => {
+      const resolved = resolveRetentionPolicy(
+        { maxCount: value as number, maxAgeSec: 60 },
+        'setRetentionPolicy'
+      );
+
+      expect(resolved).toEqual({ maxAgeSec: 60 });
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('`maxCount` in `setRetentionPolicy`'),
+        { value }
+      );
+    }
+  );
+
+  it('does not change the given policy', () => {
+    const policy = { maxTotalBytes: -5 };
+
+    resolveRetentionPolicy(policy, 'enforceRetention');
+
+    expect(policy).toEqual({ maxTotalBytes: -5 });
+  });
+});
+
+describe('selectRetentionDeletions', () => {
+  it('deletes nothing without limits', () => {
+    const entries = [entry('a', 30), entry('b', 1)];
+
+    expect(selectRetentionDeletions(entries, {}, NOW)).toEqual([]);
+  });
+
+  it.each<[string, RetentionPolicy, string[]]>([
+    ['maxAgeSec', { maxAgeSec: 7 * 24 * 60 * 60 }, ['a', 'b']],
+    ['maxCount', { maxCount: 2 }, ['a', 'b']],
+    ['maxTotalBytes', { maxTotalBytes: 250 }, ['a', 'b']],
+    ['maxCount of 0', { maxCount: 0 }, ['a', 'b', 'c', 'd']],
+    ['limits that are met', { maxCount: 4, maxTotalBytes: 400 }, []],
+    [
+      'the strictest limit',
+      { maxCount: 3, maxTotalBytes: 150 },
+      ['a', 'b', 'c'],
+    ],
+  ])('deletes the oldest entries for %s', (_, policy, expected) => {
+    const entries = [
+      entry('a', 30),
+      entry('b', 10),
+      entry('c', 3),
+      entry('d', 0),
+    ];
+
+    expect(ids(selectRetentionDeletions(entries, policy, NOW))).toEqual(
+      expected
+    );
+  });
+
+  it('sorts by creation time rather than input order', () => {
+    const entries = [entry('new', 0), entry('old', 30), entry('mid', 10)];
+
+    expect(
+      ids(selectRetentionDeletions(entries, { maxCount: 1 }, NOW))
+    ).toEqual(['old', 'mid']);
+  });
+
+  it('counts expired entries towards the other limits', () => {
+    const entries = [entry('a', 30, 500), entry('b', 1, 100), entry('c', 0)];
+
+    expect(
+      ids(
+        selectRetentionDeletions(
+          entries,
+          { maxAgeSec: 7 * 24 * 60 * 60, maxTotalBytes: 200 },
+          NOW
+        )
+      )
+    ).toEqual(['a']);
+  });
+
+  it('includes separate audio files in maxTotalBytes', () => {
+    const audioFile = {
+      path: 'file:///recordings/b.m4a',
+      name: 'b.m4a',
+      size: 200,
+      duration: 10,
+    };
+    const entries = [entry('a', 2), entry('b', 1, 100, { audioFile })];
+
+    expect(
+      ids(selectRetentionDeletions(entries, { maxTotalBytes: 350 }, NOW))
+    ).toEqual(['a']);
+  });
+
+  it('keeps pinned entries by default, even if limits stay exceeded', () => {
+    const entries = [
+      entry('a', 30, 100, { pinned: true }),
+      entry('b', 10),
+      entry('c', 0),
+    ];
+
+    expect(
+      ids(
+        selectRetentionDeletions(entries, { maxCount: 0, maxAgeSec: 60 }, NOW)
+      )
+    ).toEqual(['b', 'c']);
+  });
+
+  it('still counts pinned entries towards the limits', () => {
+    const entries = [
+      entry('a', 30, 100, { pinned: true }),
+      entry('b', 10),
+      entry('c', 0),
+    ];
+
+    expect(
+      ids(selectRetentionDeletions(entries, { maxCount: 2 }, NOW))
+    ).toEqual(['b']);
+  });
+
+  it('deletes pinned entries when keepPinned is false', () => {
+    const entries = [
+      entry('a', 30, 100, { pinned: true }),
+      entry('b', 10),
+      entry('c', 0),
+    ];
+
+    expect(
+      ids(
+        selectRetentionDeletions(
+          entries,
+          { maxCount: 2, keepPinned: false },
+          NOW
+        )
+      )
+    ).toEqual(['a']);
+  });
+
+  it('never deletes the entries in keepIds', () => {
+    const entries = [entry('a', 30), entry('b', 10), entry('just-added', 0)];
+
+    expect(
+      ids(
+        selectRetentionDeletions(
+          entries,
+          { maxCount: 0, maxAgeSec: 0 },
+          NOW + DAY_MS,
+          ['just-added']
+        )
+      )
+    ).toEqual(['a', 'b']);
+  });
+
+  it('keeps the just-added entry even when it alone exceeds maxTotalBytes', () => {
+    const entries = [entry('a', 1, 100), entry('just-added', 0, 1000)];
+
+    expect(
+      ids(
+        selectRetentionDeletions(entries, { maxTotalBytes: 500 }, NOW, [
+          'just-added',
+        ])
+      )
+    ).toEqual(['a']);
+  });
+});
@@ -0,0 +1,87 @@
+import type { RecordingLibraryEntry, RetentionPolicy } from '../types';
+import { logger } from '../logger';
+
+/**
+ * Bytes a recording occupies on disk, including its separate audio files.
+ */
+export function entryBytes(entry: RecordingLibraryEntry): number {
+  return (
+    entry.size + (entry.audioFile?.size ?? 0) + (entry.appAudioFile?.size ?? 0)
+  );
+}
+
+/**
+ * Returns a copy of `policy` without invalid limits, warning about each one.
+ */
+export function resolveRetentionPolicy(
+  policy: RetentionPolicy,
+  functionName: string
+): RetentionPolicy {
+  const resolved: RetentionPolicy = { ...policy };
+  (['maxTotalBytes', 'maxAgeSec', 'maxCount'] as const).forEach((name) => {
+    const value = policy[name];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !(value >= 0)) {
+      logger.warn(
+        `Provided invalid value to \`${name}\` in \`${functionName}\` function, value will be ignored. Please use a value >=0`,
+        { value }
+      );
+      delete resolved[name];
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Picks the entries `policy` deletes, oldest first: everything past
+ * `maxAgeSec`, then the oldest recordings until `maxCount` and
+ * `maxTotalBytes` are met. Pinned entries (unless `keepPinned` is false) and
+ * entries in `keepIds` are never picked, so limits may stay exceeded.
+ *
+ * @param entries Every entry of the library, oldest first
+ * @param policy A policy returned by `resolveRetentionPolicy()`
+ * @param now Current time in milliseconds since the Unix epoch
+ * @param keepIds Entries that must not be deleted
+ */
+export function selectRetentionDeletions(
+  entries: RecordingLibraryEntry[],
+  policy: RetentionPolicy,
+  now: number,
+  keepIds: readonly string[] = []
+): RecordingLibraryEntry[] {
+  const keepPinned = policy.keepPinned ?? true;
+  const candidates = [...entries]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .filter(
+      (entry) => !(keepPinned && entry.pinned) && !keepIds.includes(entry.id)
+    );
+  const deleted = new Set<RecordingLibraryEntry>();
+  let remainingCount = entries.length;
+  let remainingBytes = entries.reduce(
+    (sum, entry) => sum + entryBytes(entry),
+    0
+  );
+  const remove = (entry: RecordingLibraryEntry) => {
+    deleted.add(entry);
+    remainingCount -= 1;
+    remainingBytes -= entryBytes(entry);
+  };
+
+  if (policy.maxAgeSec !== undefined) {
+    const cutoff = now - policy.maxAgeSec * 1000;
+    candidates
+      .filter((entry) => entry.createdAt < cutoff)
+      .forEach((entry) => remove(entry));
+  }
+  for (const entry of candidates) {
+    if (deleted.has(entry)) continue;
+    const overCount =
+      policy.maxCount !== undefined && remainingCount > policy.maxCount;
+    const overBytes =
+      policy.maxTotalBytes !== undefined &&
+      remainingBytes > policy.maxTotalBytes;
+    if (!overCount && !overBytes) break;
+    remove(entry);
+  }
+  return candidates.filter((entry) => deleted.has(entry));
+}
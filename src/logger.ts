@@ -0,0 +1,40 @@
+import type { LogFields, Logger } from './types';
+
+type LogLevel = keyof Logger;
+
+const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+let activeLogger: Logger = console;
+
+/**
+ * Replaces the logger, `null` silences it.
+ */
+export function setLogger(next: Logger | null): void {
+  activeLogger = next ?? silentLogger;
+}
+
+// Fields are only passed when there are some, so `console` does not print
+// a trailing `undefined`
+function log(level: LogLevel, message: string, fields?: LogFields): void {
+  if (fields === undefined) {
+    activeLogger[level](message);
+  } else {
+    activeLogger[level](message, fields);
+  }
+}
+
+/**
+ * Logger used throughout the library, forwarding to the one set with
+ * `configureScreenRecorder()`.
+ */
+export const logger: Logger = {
+  debug: (message, fields) => log('debug', message, fields),
+  info: (message, fields) => log('info', message, fields),
+  warn: (message, fields) => log('warn', message, fields),
+  error: (message, fields) => log('error', message, fields),
+};
@@ -0,0 +1,192 @@
+import type { AnyMap } from 'react-native-nitro-modules';
+import type {
+  RecorderMode,
+  RecordingMarker,
+  RecordingMarkersFormat,
+  ScreenRecordingFile,
+} from './types';
+import { NoActiveSessionError, ScreenRecorderError } from './errors';
+import { NitroScreenRecorderHybridObject } from './hybridObject';
+import { logger } from './logger';
+
+/**
+ * Markers of a recording session that are not attached to a file yet.
+ */
+type MarkerSession = {
+  format?: RecordingMarkersFormat;
+  /** Recorded time of the session when the current file started, in seconds */
+  fileStartSec: number;
+  markers: RecordingMarker[];
+};
+
+/**
+ * Markers taken from a session, to attach to the file they were recorded in.
+ */
+export type MarkerDelivery = {
+  markers: RecordingMarker[];
+  format?: RecordingMarkersFormat;
+};
+
+const MARKERS_FORMATS: readonly RecordingMarkersFormat[] = ['vtt', 'json'];
+
+const sessions: Partial<Record<RecorderMode, MarkerSession>> = {};
+
+function currentProgress(mode: RecorderMode) {
+  const progress = NitroScreenRecorderHybridObject.getRecordingProgress();
+  const type = mode === 'global' ? 'global' : 'withinApp';
+  return progress?.type === type ? progress : undefined;
+}
+
+/**
+ * Starts collecting markers for a new recording session, dropping the
+ * markers of the previous one.
+ */
+export function startMarkerSession(
+  mode: RecorderMode,
+  format: RecordingMarkersFormat | undefined,
+  functionName: string
+): void {
+  let resolvedFormat = format;
+  if (format !== undefined && !MARKERS_FORMATS.includes(format)) {
+    logger.warn(
+      `Provided invalid value to \`markersFormat\` in \`${functionName}\` function, value will be ignored. Please use 'vtt' or 'json'`,
+      { value: format }
+    );
+    resolvedFormat = undefined;
+  }
+  sessions[mode] = { format: resolvedFormat, fileStartSec: 0, markers: [] };
+}
+
+/**
+ * Adds a marker at the current position of the active recording.
+ *
+ * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if `label` or `metadata` is invalid
+ * @throws {NoActiveSessionError} If nothing is being recorded
+ */
+export function addMarker(label: string, metadata?: AnyMap): RecordingMarker {
+  if (typeof label !== 'string' || !label.trim()) {
+    throw new ScreenRecorderError(
+      'INVALID_ARGUMENT',
+      'Provided invalid value to `label` in `addRecordingMarker` function: use a non-empty string.'
+    );
+  }
+  if (
+    metadata !== undefined &&
+    (typeof metadata !== 'object' ||
+      metadata === null ||
+      Array.isArray(metadata))
+  ) {
+    throw new ScreenRecorderError(
+      'INVALID_ARGUMENT',
+      'Provided invalid value to `metadata` in `addRecordingMarker` function: use a plain object.'
+    );
+  }
+
+  const mode: RecorderMode = currentProgress('inApp') ? 'inApp' : 'global';
+  const progress = currentProgress(mode);
+  if (!progress) {
+    throw new NoActiveSessionError('Start a recording before adding markers.');
+  }
+  // Recordings started elsewhere, or before a reload, have no session yet
+  const session = (sessions[mode] ??= { fileStartSec: 0, markers: [] });
+  const marker: RecordingMarker = {
+    label: label.trim(),
+    timeSec: Math.max(0, progress.elapsedSec - session.fileStartSec),
+    createdAt: Date.now(),
+    ...(metadata !== undefined && { metadata: { ...metadata } }),
+  };
+  session.markers.push(marker);
+  return { ...marker };
+}
+
+/**
+ * Starts a new file of the global session: markers added before it belong
+ * to discarded content and are dropped.
+ */
+export function startMarkerFile(): void {
+  const session = sessions.global;
+  if (!session) return;
+  session.markers = [];
+  session.fileStartSec = currentProgress('global')?.elapsedSec ?? 0;
+}
+
+/**
+ * Returns the markers of the file the session is recording. Global sessions
+ * start collecting for the next file; in-app sessions keep their markers,
+ * since an in-app recording is delivered to `onRecordingFinished` and to
+ * `stopInAppRecording()`.
+ */
+export function takeMarkers(mode: RecorderMode): MarkerDelivery | undefined {
+  const session = sessions[mode];
+  if (!session) return undefined;
+  const delivery = { markers: session.markers, format: session.format };
+  if (mode === 'global') {
+    startMarkerFile();
+  }
+  return delivery;
+}
+
+/**
+ * Returns the remaining markers of a global session that ended without
+ * `stopGlobalRecording()`, e.g. from Control Center or a recording limit.
+ */
+export function takeEndedSessionMarkers(): MarkerDelivery | undefined {
+  const session = sessions.global;
+  if (!session || currentProgress('global')) return undefined;
+  delete sessions.global;
+  return { markers: session.markers, format: session.format };
+}
+
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const secs = Math.floor(totalMs / 1000) % 60;
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+function escapeVttText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Renders markers as WebVTT, one cue per marker lasting a second (cut short
+ * by the end of the file).
+ */
+function renderVtt(markers: RecordingMarker[], duration: number): string {
+  const cues = markers.map((marker, index) => {
+    const end =
+      duration > marker.timeSec
+        ? Math.min(marker.timeSec + 1, duration)
+        : marker.timeSec + 1;
+    return `${index + 1}\n${formatVttTime(marker.timeSec)} --> ${formatVttTime(end)}\n${escapeVttText(marker.label)}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+}
+
+/**
+ * Writes the markers of `file` to a sidecar file next to it.
+ *
+ * @returns The path of the sidecar file
+ */
+export function writeMarkersFile(
+  file: ScreenRecordingFile & { markers: RecordingMarker[] },
+  format: RecordingMarkersFormat
+): string {
+  const contents =
+    format === 'vtt'
+      ? renderVtt(file.markers, file.duration)
+      : JSON.stringify({ markers: file.markers }, null, 2);
+  return NitroScreenRecorderHybridObject.writeRecordingSidecar(
+    file.path,
+    format,
+    contents
+  );
+}
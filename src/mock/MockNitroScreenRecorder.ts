@@ -0,0 +1,949 @@
+import type { NitroScreenRecorder } from '../NitroScreenRecorder.nitro';
+import type {
+  BroadcastPickerPresentationEvent,
+  CameraDevice,
+  ChunkReadyEvent,
+  PendingChunk,
+  PermissionResponse,
+  PermissionStatus,
+  RawExtensionLogEntry,
+  RawExtensionStatus,
+  RecorderCameraStyle,
+  RecordingError,
+  RecordingLimits,
+  RecordingProgress,
+  RecordingVideoSettings,
+  ScreenRecordingEvent,
+  ScreenRecordingFile,
+  StorageInfo,
+} from '../types';
+
+/**
+ * How the mock reacts to `startGlobalRecording`.
+ *
+ * - `'begin'` - Shows and dismisses the picker, then begins capture immediately
+ * - `'manual'` - Does nothing; drive the session with `beginGlobalRecording()`
+ * - `'deny'` - Reports a screen capture permission error
+ */
+export type MockGlobalStartBehavior = 'begin' | 'manual' | 'deny';
+
+type MockPermission = 'camera' | 'microphone';
+
+type RecordingListener = {
+  ignoreRecordingsInitiatedElsewhere: boolean;
+  callback: (event: ScreenRecordingEvent) => void;
+};
+
+type MockFile = ScreenRecordingFile & { chunkId?: string };
+
+/**
+ * Bytes per second of fake video, used to derive file sizes.
+ */
+const MOCK_BYTES_PER_SECOND = 500000;
+
+/**
+ * In-memory implementation of the `NitroScreenRecorder` hybrid object.
+ *
+ * Every native method is implemented with fake files and synchronous
+ * events, and the public fields and methods below let tests script what
+ * the "native" side does. Time is read from `Date.now()`, so Jest fake
+ * timers control recording and chunk durations.
+ *
+ * @example
+ * ```typescript
+ * mockScreenRecorder.globalStartBehavior = 'manual';
+ * startGlobalRecording({ onRecordingError: jest.fn() });
+ * mockScreenRecorder.beginGlobalRecording();
+ * jest.advanceTimersByTime(5000);
+ * const file = await stopGlobalRecording();
+ * expect(file?.duration).toBe(5);
+ * ```
+ */
+export class MockNitroScreenRecorder implements NitroScreenRecorder {
+  readonly name = 'NitroScreenRecorder';
+
+  /** Current permission statuses returned by the `get*PermissionStatus` methods */
+  permissionStatuses: Record<MockPermission, PermissionStatus> = {
+    camera: 'granted',
+    microphone: 'granted',
+  };
+  /** Status a permission moves to when it is requested */
+  permissionRequestResults: Record<MockPermission, PermissionStatus> = {
+    camera: 'granted',
+    microphone: 'granted',
+  };
+  /** How `startGlobalRecording` behaves */
+  globalStartBehavior: MockGlobalStartBehavior = 'begin';
+  /** Lines returned by `getExtensionLogs` */
+  extensionLogs: string[] = [];
+  /** Entries returned by `getExtensionLogEntries` */
+  extensionLogEntries: RawExtensionLogEntry[] = [];
+  /** Settings passed to the last `configureExtensionLogs` call */
+  extensionLogConfig = { minLevel: 'DEBUG', maxEntries: 200 };
+  /** JSON returned by `getExtensionAudioMetrics` */
+  extensionAudioMetrics = '{"metrics": []}';
+  /** Video settings passed to the last `startGlobalRecording` call */
+  lastVideoSettings?: RecordingVideoSettings;
+  /** Limits passed to the last `startInAppRecording`/`startGlobalRecording` call */
+  lastRecordingLimits?: RecordingLimits;
+  /** Every file produced so far, oldest first */
+  recordings: MockFile[] = [];
+  /** What `getStorageInfo` returns */
+  storageInfo: StorageInfo = {
+    freeBytes: 64_000_000_000,
+    totalBytes: 128_000_000_000,
+  };
+  /** Manifest persisted by `writeRecordingLibrary` */
+  recordingLibraryManifest = '';
+  /** Contents written by `writeRecordingSidecar`, by path */
+  sidecarFiles: Record<string, string> = {};
+
+  private recordingListeners = new Map<number, RecordingListener>();
+  private pickerListeners = new Map<
+    number,
+    (event: BroadcastPickerPresentationEvent) => void
+  >();
+  private pendingChunks: { chunk: PendingChunk; file: MockFile }[] = [];
+  private chunkListeners = new Map<number, (event: ChunkReadyEvent) => void>();
+  private statusListeners = new Map<
+    number,
+    (status: RawExtensionStatus) => void
+  >();
+  private nextListenerId = 0;
+  private nextFileId = 0;
+
+  private inAppSession?: {
+    startedAt: number;
+    pausedAt?: number;
+    enableMic: boolean;
+    separateAudioFile: boolean;
+    onRecordingFinished: (file: ScreenRecordingFile) => void;
+  };
+  private globalSession?: {
+    startedAt: number;
+    pausedAt?: number;
+    initiatedByApp: boolean;
+    chunkStartedAt: number;
+    chunkId?: string;
+    isCapturingChunk: boolean;
+  };
+  private globalOptions = { enableMic: false, separateAudioFile: false };
+  private onGlobalRecordingError?: (error: RecordingError) => void;
+  private pendingGlobalStart = false;
+
+  // ============================================================================
+  // TEST CONTROLS
+  // ============================================================================
+
+  /**
+   * Restores the default configuration and drops all sessions, listeners and files.
+   */
+  reset(): void {
+    this.permissionStatuses = { camera: 'granted', microphone: 'granted' };
+    this.permissionRequestResults = {
+      camera: 'granted',
+      microphone: 'granted',
+    };
+    this.globalStartBehavior = 'begin';
+    this.extensionLogs = [];
+    this.extensionLogEntries = [];
+    this.extensionLogConfig = { minLevel: 'DEBUG', maxEntries: 200 };
+    this.extensionAudioMetrics = '{"metrics": []}';
+    this.recordings = [];
+    this.storageInfo = {
+      freeBytes: 64_000_000_000,
+      totalBytes: 128_000_000_000,
+    };
+    this.recordingLibraryManifest = '';
+    this.sidecarFiles = {};
+    this.lastVideoSettings = undefined;
+    this.lastRecordingLimits = undefined;
+    this.recordingListeners.clear();
+    this.pickerListeners.clear();
+    this.chunkListeners.clear();
+    this.statusListeners.clear();
+    this.pendingChunks = [];
+    this.inAppSession = undefined;
+    this.globalSession = undefined;
+    this.globalOptions = { enableMic: false, separateAudioFile: false };
+    this.onGlobalRecordingError = undefined;
+    this.pendingGlobalStart = false;
+  }
+
+  /**
+   * Emits a broadcast picker event to every picker listener.
+   */
+  emitBroadcastPickerEvent(event: BroadcastPickerPresentationEvent): void {
+    this.pickerListeners.forEach((callback) => callback(event));
+  }
+
+  /**
+   * Begins a global recording. When `startGlobalRecording` was not called
+   * first, the recording is treated as started elsewhere (e.g. Control Center).
+   */
+  beginGlobalRecording(): void {
+    if (this.globalSession) return;
+    const now = Date.now();
+    const initiatedByApp = this.pendingGlobalStart;
+    this.pendingGlobalStart = false;
+    this.globalSession = {
+      startedAt: now,
+      initiatedByApp,
+      chunkStartedAt: now,
+      isCapturingChunk: false,
+    };
+    this.emitRecordingEvent(
+      { type: 'global', reason: 'began' },
+      initiatedByApp
+    );
+    this.emitExtensionStatus();
+  }
+
+  /**
+   * Ends the global recording, as if the user stopped it from the system UI.
+   *
+   * @returns The file for the whole session, or undefined if nothing was recording
+   */
+  endGlobalRecording(): ScreenRecordingFile | undefined {
+    const session = this.globalSession;
+    if (!session) return undefined;
+    this.globalSession = undefined;
+    this.excludePausedTime(session);
+    const file = this.createFile(
+      'global',
+      session.startedAt,
+      this.globalOptions.enableMic,
+      this.globalOptions.separateAudioFile
+    );
+    this.emitRecordingEvent(
+      { type: 'global', reason: 'ended' },
+      session.initiatedByApp
+    );
+    this.emitExtensionStatus();
+    this.emitChunkReady(file);
+    return file;
+  }
+
+  /**
+   * Stops the active recording as if `maxDurationSec` or `maxFileSizeBytes`
+   * had been reached: emits `limitReached`, then ends the recording as usual.
+   *
+   * @returns The recorded file, or undefined if nothing was recording
+   */
+  reachRecordingLimit(): ScreenRecordingFile | undefined {
+    const inAppSession = this.inAppSession;
+    if (inAppSession) {
+      this.emitRecordingEvent(
+        { type: 'withinApp', reason: 'limitReached' },
+        true
+      );
+      this.inAppSession = undefined;
+      return this.finishInAppSession(inAppSession);
+    }
+    const globalSession = this.globalSession;
+    if (!globalSession) return undefined;
+    this.emitRecordingEvent(
+      { type: 'global', reason: 'limitReached' },
+      globalSession.initiatedByApp
+    );
+    return this.endGlobalRecording();
+  }
+
+  /**
+   * Emits a `lowStorage` event for the active recording, as native does when
+   * free storage drops below `minFreeBytes`. Use `reachRecordingLimit()` to
+   * stop the recording as the storage floor would.
+   */
+  reportLowStorage(): void {
+    if (this.inAppSession) {
+      this.emitRecordingEvent(
+        { type: 'withinApp', reason: 'lowStorage' },
+        true
+      );
+    } else if (this.globalSession) {
+      this.emitRecordingEvent(
+        { type: 'global', reason: 'lowStorage' },
+        this.globalSession.initiatedByApp
+      );
+    }
+  }
+
+  /**
+   * Queues a finalized chunk that was never retrieved, as if the app had been
+   * killed right after the extension saved it.
+   *
+   * @returns The queue entry reported by `listPendingChunks`
+   */
+  addPendingChunk(options?: {
+    chunkId?: string;
+    durationSec?: number;
+  }): PendingChunk {
+    const now = Date.now();
+    const file = this.createFile(
+      'chunk',
+      now - (options?.durationSec ?? 0) * 1000,
+      this.globalOptions.enableMic,
+      this.globalOptions.separateAudioFile,
+      options?.chunkId
+    );
+    const chunk: PendingChunk = {
+      id: file.name,
+      chunkId: options?.chunkId,
+      createdAt: now,
+      size: file.size,
+      enabledMicrophone: file.enabledMicrophone,
+    };
+    this.pendingChunks.push({ chunk, file });
+    return chunk;
+  }
+
+  /**
+   * Logs a message as the broadcast extension would, honoring the level and
+   * ring buffer size set with `configureExtensionLogs`. The entry shows up in
+   * both `getExtensionLogs` and `getExtensionLogEntries`.
+   *
+   * @param level `DEBUG`, `INFO`, `WARN` or `ERROR`
+   * @param message The message, usually prefixed with its context (`handleMarkChunk: ...`)
+   */
+  logFromExtension(level: string, message: string): void {
+    const levels = ['DEBUG', 'INFO', 'WARN', 'ERROR'];
+    const rank = (name: string) => Math.max(0, levels.indexOf(name));
+    if (rank(level) < rank(this.extensionLogConfig.minLevel)) return;
+    const now = Date.now();
+    const { maxEntries } = this.extensionLogConfig;
+    this.extensionLogEntries = [
+      ...this.extensionLogEntries,
+      { timestamp: now / 1000, level, message },
+    ].slice(-maxEntries);
+    this.extensionLogs = [
+      ...this.extensionLogs,
+      `[${level}] ${new Date(now).toISOString()}: ${message}`,
+    ].slice(-maxEntries);
+  }
+
+  /**
+   * Logs an audio metrics entry as the broadcast extension does when it
+   * finalizes a chunk, keeping the last 50 entries. `timestamp`, `time` and
+   * `context` are filled in unless `metrics` sets them.
+   *
+   * @param metrics Fields of `BroadcastWriter.getAudioMetrics()`, e.g. `{ micDuration: 9.5, videoDuration: 10 }`
+   */
+  logAudioMetricsFromExtension(metrics: Record<string, unknown>): void {
+    const now = Date.now();
+    let entries: unknown[] = [];
+    try {
+      const parsed = JSON.parse(this.extensionAudioMetrics);
+      entries = Array.isArray(parsed?.metrics) ? parsed.metrics : [];
+    } catch {}
+    entries = [
+      ...entries,
+      {
+        timestamp: now / 1000,
+        time: new Date(now).toISOString(),
+        context: 'handleFinalizeChunk',
+        type: 'audioMetrics',
+        ...metrics,
+      },
+    ].slice(-50);
+    this.extensionAudioMetrics = JSON.stringify({ metrics: entries });
+  }
+
+  /**
+   * Delivers an error to the `onRecordingError` callback of the last
+   * `startGlobalRecording` call.
+   */
+  failGlobalRecording(error: RecordingError): void {
+    this.pendingGlobalStart = false;
+    this.onGlobalRecordingError?.(error);
+  }
+
+  // ============================================================================
+  // PERMISSIONS
+  // ============================================================================
+
+  getCameraPermissionStatus(): PermissionStatus {
+    return this.permissionStatuses.camera;
+  }
+
+  getMicrophonePermissionStatus(): PermissionStatus {
+    return this.permissionStatuses.microphone;
+  }
+
+  async requestCameraPermission(): Promise<PermissionResponse> {
+    return this.requestPermission('camera');
+  }
+
+  async requestMicrophonePermission(): Promise<PermissionResponse> {
+    return this.requestPermission('microphone');
+  }
+
+  // ============================================================================
+  // EVENT LISTENERS
+  // ============================================================================
+
+  addScreenRecordingListener(
+    ignoreRecordingsInitiatedElsewhere: boolean,
+    callback: (event: ScreenRecordingEvent) => void
+  ): number {
+    const id = ++this.nextListenerId;
+    this.recordingListeners.set(id, {
+      ignoreRecordingsInitiatedElsewhere,
+      callback,
+    });
+    return id;
+  }
+
+  removeScreenRecordingListener(id: number): void {
+    this.recordingListeners.delete(id);
+  }
+
+  addBroadcastPickerListener(
+    callback: (event: BroadcastPickerPresentationEvent) => void
+  ): number {
+    const id = ++this.nextListenerId;
+    this.pickerListeners.set(id, callback);
+    return id;
+  }
+
+  removeBroadcastPickerListener(id: number): void {
+    this.pickerListeners.delete(id);
+  }
+
+  addChunkListener(callback: (event: ChunkReadyEvent) => void): number {
+    const id = ++this.nextListenerId;
+    this.chunkListeners.set(id, callback);
+    return id;
+  }
+
+  removeChunkListener(id: number): void {
+    this.chunkListeners.delete(id);
+  }
+
+  addExtensionStatusListener(
+    callback: (status: RawExtensionStatus) => void
+  ): number {
+    const id = ++this.nextListenerId;
+    this.statusListeners.set(id, callback);
+    return id;
+  }
+
+  removeExtensionStatusListener(id: number): void {
+    this.statusListeners.delete(id);
+  }
+
+  // ============================================================================
+  // IN-APP RECORDING
+  // ============================================================================
+
+  startInAppRecording(
+    enableMic: boolean,
+    _enableCamera: boolean,
+    _cameraPreviewStyle: RecorderCameraStyle,
+    _cameraDevice: CameraDevice,
+    separateAudioFile: boolean,
+    limits: RecordingLimits,
+    onRecordingFinished: (file: ScreenRecordingFile) => void
+  ): void {
+    if (this.inAppSession || this.globalSession) {
+      throw new Error('SCREEN_RECORDER_UNAVAILABLE');
+    }
+    this.lastRecordingLimits = limits;
+    this.inAppSession = {
+      startedAt: Date.now(),
+      enableMic,
+      separateAudioFile,
+      onRecordingFinished,
+    };
+    this.emitRecordingEvent({ type: 'withinApp', reason: 'began' }, true);
+  }
+
+  async stopInAppRecording(): Promise<ScreenRecordingFile | undefined> {
+    const session = this.inAppSession;
+    if (!session) return undefined;
+    this.inAppSession = undefined;
+    return this.finishInAppSession(session);
+  }
+
+  async cancelInAppRecording(): Promise<void> {
+    if (!this.inAppSession) return;
+    this.inAppSession = undefined;
+    this.emitRecordingEvent({ type: 'withinApp', reason: 'ended' }, true);
+  }
+
+  // ============================================================================
+  // GLOBAL RECORDING
+  // ============================================================================
+
+  startGlobalRecording(
+    enableMic: boolean,
+    separateAudioFile: boolean,
+    videoSettings: RecordingVideoSettings,
+    limits: RecordingLimits,
+    onRecordingError: (error: RecordingError) => void
+  ): void {
+    if (this.globalSession) {
+      onRecordingError({
+        name: 'BROADCAST_ALREADY_ACTIVE',
+        message: 'A screen recording session is already in progress.',
+      });
+      return;
+    }
+    this.globalOptions = { enableMic, separateAudioFile };
+    this.lastVideoSettings = videoSettings;
+    this.lastRecordingLimits = limits;
+    this.onGlobalRecordingError = onRecordingError;
+    this.pendingGlobalStart = true;
+
+    switch (this.globalStartBehavior) {
+      case 'begin':
+        this.emitBroadcastPickerEvent('showing');
+        this.emitBroadcastPickerEvent('dismissed');
+        this.beginGlobalRecording();
+        break;
+      case 'deny':
+        this.failGlobalRecording({
+          name: 'GlobalRecordingStartError',
+          message: 'Screen recording permission denied',
+        });
+        break;
+      case 'manual':
+        break;
+    }
+  }
+
+  async stopGlobalRecording(
+    _settledTimeMs: number
+  ): Promise<ScreenRecordingFile | undefined> {
+    return this.endGlobalRecording();
+  }
+
+  async markChunkStart(chunkId: string | undefined): Promise<number> {
+    const session = this.requireGlobalSession();
+    this.excludePausedTime(session);
+    session.chunkStartedAt = Date.now();
+    session.chunkId = chunkId;
+    session.isCapturingChunk = true;
+    this.emitExtensionStatus();
+    return 0;
+  }
+
+  async finalizeChunk(
+    chunkId: string | undefined,
+    _settledTimeMs: number
+  ): Promise<ScreenRecordingFile | undefined> {
+    // Like iOS, recording continues into a fresh chunk
+    return this.saveChunk(chunkId, undefined, false);
+  }
+
+  async rotateChunk(
+    chunkId: string | undefined,
+    nextChunkId: string | undefined,
+    _settledTimeMs: number
+  ): Promise<ScreenRecordingFile | undefined> {
+    return this.saveChunk(chunkId, nextChunkId, true);
+  }
+
+  retrieveLastGlobalRecording(): ScreenRecordingFile | undefined {
+    return this.recordings[this.recordings.length - 1];
+  }
+
+  retrieveGlobalRecording(
+    chunkId: string | undefined
+  ): ScreenRecordingFile | undefined {
+    if (chunkId === undefined) {
+      return this.retrieveLastGlobalRecording();
+    }
+    return [...this.recordings]
+      .reverse()
+      .find((file) => file.chunkId === chunkId);
+  }
+
+  // ============================================================================
+  // PENDING CHUNKS
+  // ============================================================================
+
+  listPendingChunks(): PendingChunk[] {
+    return this.pendingChunks.map(({ chunk }) => chunk);
+  }
+
+  claimPendingChunk(id: string): ScreenRecordingFile | undefined {
+    const index = this.pendingChunks.findIndex(({ chunk }) => chunk.id === id);
+    if (index < 0) return undefined;
+    return this.pendingChunks.splice(index, 1)[0]?.file;
+  }
+
+  discardPendingChunk(id: string): void {
+    const file = this.claimPendingChunk(id);
+    if (file) this.deleteRecordingFile(file.path);
+  }
+
+  // ============================================================================
+  // PAUSE / RESUME
+  // ============================================================================
+
+  async pauseRecording(): Promise<void> {
+    const [session, type, initiatedByApp] = this.requireActiveSession();
+    if (session.pausedAt !== undefined) return;
+    session.pausedAt = Date.now();
+    this.emitRecordingEvent({ type, reason: 'paused' }, initiatedByApp);
+  }
+
+  async resumeRecording(): Promise<void> {
+    const [session, type, initiatedByApp] = this.requireActiveSession();
+    if (session.pausedAt === undefined) return;
+    this.excludePausedTime(session);
+    session.pausedAt = undefined;
+    this.emitRecordingEvent({ type, reason: 'resumed' }, initiatedByApp);
+  }
+
+  // ============================================================================
+  // EXTENSION STATUS
+  // ============================================================================
+
+  getExtensionStatus(): RawExtensionStatus {
+    const session = this.globalSession;
+    return {
+      isMicrophoneEnabled: !!session && this.globalOptions.enableMic,
+      isCapturingChunk: session?.isCapturingChunk ?? false,
+      chunkStartedAt: session?.isCapturingChunk
+        ? session.chunkStartedAt / 1000
+        : 0,
+      captureMode: 'unknown',
+    };
+  }
+
+  isScreenBeingRecorded(): boolean {
+    return !!this.globalSession || !!this.inAppSession;
+  }
+
+  getCurrentChunkSize(): number {
+    const session = this.globalSession;
+    if (!session) return 0;
+    const now = session.pausedAt ?? Date.now();
+    const seconds = Math.max(0, (now - session.chunkStartedAt) / 1000);
+    return Math.round(seconds * MOCK_BYTES_PER_SECOND);
+  }
+
+  getRecordingProgress(): RecordingProgress | undefined {
+    const session = this.inAppSession ?? this.globalSession;
+    if (!session) return undefined;
+    // startedAt already excludes earlier pauses
+    const now = session.pausedAt ?? Date.now();
+    const elapsedSec = Math.max(0, (now - session.startedAt) / 1000);
+    // Like iOS: in-app recordings only report elapsed time
+    const isGlobal = session === this.globalSession;
+    return {
+      type: isGlobal ? 'global' : 'withinApp',
+      elapsedSec,
+      bytesWritten: isGlobal ? this.getCurrentChunkSize() : 0,
+      framesWritten: isGlobal ? Math.floor(elapsedSec * 30) : undefined,
+      droppedFrames: isGlobal ? 0 : undefined,
+    };
+  }
+
+  getStorageInfo(): StorageInfo {
+    return { ...this.storageInfo };
+  }
+
+  // ============================================================================
+  // EXTENSION LOGS
+  // ============================================================================
+
+  getExtensionLogs(): string[] {
+    return this.extensionLogs.length > 0
+      ? [...this.extensionLogs]
+      : ['No logs available'];
+  }
+
+  getExtensionLogEntries(): RawExtensionLogEntry[] {
+    return this.extensionLogEntries.map((entry) => ({ ...entry }));
+  }
+
+  configureExtensionLogs(minLevel: string, maxEntries: number): void {
+    this.extensionLogConfig = { minLevel, maxEntries };
+  }
+
+  clearExtensionLogs(): void {
+    this.extensionLogs = [];
+    this.extensionLogEntries = [];
+  }
+
+  getExtensionAudioMetrics(): string {
+    return this.extensionAudioMetrics;
+  }
+
+  clearExtensionAudioMetrics(): void {
+    this.extensionAudioMetrics = '{"metrics": []}';
+  }
+
+  // ============================================================================
+  // UTILITIES
+  // ============================================================================
+
+  clearRecordingCache(): void {
+    this.recordings = [];
+  }
+
+  async concatenateRecordings(
+    paths: string[],
+    startOffsetSec: number
+  ): Promise<ScreenRecordingFile> {
+    const inputs = paths.map((path) =>
+      this.recordings.find((file) => file.path === path)
+    );
+    if (inputs.length === 0 || inputs.some((file) => file === undefined)) {
+      throw new Error('RECORDING_FILE_MISSING');
+    }
+    const total = inputs.reduce((sum, file) => sum + file!.duration, 0);
+    const duration = Math.max(0, total - startOffsetSec);
+    return this.createFile(
+      'replay',
+      Date.now() - duration * 1000,
+      inputs.some((file) => file!.enabledMicrophone),
+      false
+    );
+  }
+
+  deleteRecordingFile(path: string): void {
+    this.recordings = this.recordings.filter((file) => file.path !== path);
+    delete this.sidecarFiles[path];
+  }
+
+  renameRecordingFile(path: string, name: string): string {
+    const file = this.recordings.find((recording) => recording.path === path);
+    if (!file) {
+      throw new Error('RECORDING_FILE_MISSING');
+    }
+    const renamedPath = `${path.slice(0, path.lastIndexOf('/') + 1)}${name}`;
+    if (this.recordingFileExists(renamedPath)) {
+      throw new Error(
+        `RENAME_FAILED: A recording named ${name} already exists`
+      );
+    }
+    file.path = renamedPath;
+    file.name = name;
+    return renamedPath;
+  }
+
+  moveRecordingFile(path: string, directory: string, name: string): string {
+    const file = this.findFile(path);
+    if (!file) {
+      throw new Error('RECORDING_FILE_MISSING');
+    }
+    const dirPath = directory.replace(/^file:\/\//, '').replace(/\/?$/, '/');
+    const dir = path.startsWith('file://') ? `file://${dirPath}` : dirPath;
+    const dot = name.lastIndexOf('.');
+    const [base, ext] =
+      dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+    let movedName = name;
+    for (let suffix = 1; this.recordingFileExists(`${dir}${movedName}`); ) {
+      movedName = `${base}-${suffix++}${ext}`;
+    }
+    file.path = `${dir}${movedName}`;
+    file.name = movedName;
+    return file.path;
+  }
+
+  recordingFileExists(path: string): boolean {
+    return this.findFile(path) !== undefined || path in this.sidecarFiles;
+  }
+
+  writeRecordingSidecar(
+    path: string,
+    extension: string,
+    contents: string
+  ): string {
+    const dot = path.lastIndexOf('.');
+    const base = dot > path.lastIndexOf('/') ? path.slice(0, dot) : path;
+    const sidecarPath = `${base}.${extension}`;
+    this.sidecarFiles[sidecarPath] = contents;
+    return sidecarPath;
+  }
+
+  // ============================================================================
+  // RECORDING LIBRARY
+  // ============================================================================
+
+  readRecordingLibrary(): string {
+    return this.recordingLibraryManifest;
+  }
+
+  writeRecordingLibrary(manifest: string): void {
+    this.recordingLibraryManifest = manifest;
+  }
+
+  // ============================================================================
+  // HYBRID OBJECT
+  // ============================================================================
+
+  toString(): string {
+    return `[HybridObject ${this.name}]`;
+  }
+
+  equals(other: unknown): boolean {
+    return other === this;
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+
+  // ============================================================================
+  // HELPERS
+  // ============================================================================
+
+  /**
+   * Finds a video or separate audio file by path.
+   */
+  private findFile(path: string): { path: string; name: string } | undefined {
+    for (const file of this.recordings) {
+      const match = [file, file.audioFile, file.appAudioFile].find(
+        (candidate) => candidate?.path === path
+      );
+      if (match) return match;
+    }
+    return undefined;
+  }
+
+  private requestPermission(permission: MockPermission): PermissionResponse {
+    const status = this.permissionRequestResults[permission];
+    this.permissionStatuses[permission] = status;
+    return {
+      canAskAgain: status !== 'denied',
+      granted: status === 'granted',
+      status,
+      expiresAt: -1,
+    };
+  }
+
+  /**
+   * Writes the file of an in-app session that was just removed and delivers it.
+   */
+  private finishInAppSession(
+    session: NonNullable<typeof this.inAppSession>
+  ): ScreenRecordingFile {
+    this.excludePausedTime(session);
+    const file = this.createFile(
+      'in_app',
+      session.startedAt,
+      session.enableMic,
+      session.separateAudioFile
+    );
+    this.emitRecordingEvent({ type: 'withinApp', reason: 'ended' }, true);
+    session.onRecordingFinished(file);
+    return file;
+  }
+
+  private requireGlobalSession(): NonNullable<typeof this.globalSession> {
+    if (!this.globalSession) {
+      throw new Error('NO_ACTIVE_RECORDING_SESSION');
+    }
+    return this.globalSession;
+  }
+
+  private requireActiveSession(): [
+    { startedAt: number; pausedAt?: number; chunkStartedAt?: number },
+    ScreenRecordingEvent['type'],
+    boolean,
+  ] {
+    if (this.inAppSession) {
+      return [this.inAppSession, 'withinApp', true];
+    }
+    const session = this.requireGlobalSession();
+    return [session, 'global', session.initiatedByApp];
+  }
+
+  /**
+   * Moves the start times forward by the time spent paused so far, so paused
+   * time never counts towards file durations.
+   */
+  private excludePausedTime(session: {
+    startedAt: number;
+    pausedAt?: number;
+    chunkStartedAt?: number;
+  }): void {
+    if (session.pausedAt === undefined) return;
+    const now = Date.now();
+    const pausedFor = now - session.pausedAt;
+    session.startedAt += pausedFor;
+    if (session.chunkStartedAt !== undefined) {
+      session.chunkStartedAt += pausedFor;
+    }
+    session.pausedAt = now;
+  }
+
+  private emitRecordingEvent(
+    event: ScreenRecordingEvent,
+    initiatedByApp: boolean
+  ): void {
+    this.recordingListeners.forEach((listener) => {
+      if (listener.ignoreRecordingsInitiatedElsewhere && !initiatedByApp) {
+        return;
+      }
+      listener.callback(event);
+    });
+  }
+
+  private emitExtensionStatus(): void {
+    const status = this.getExtensionStatus();
+    this.statusListeners.forEach((callback) => callback(status));
+  }
+
+  private saveChunk(
+    chunkId: string | undefined,
+    nextChunkId: string | undefined,
+    isCapturingNext: boolean
+  ): MockFile {
+    const session = this.requireGlobalSession();
+    this.excludePausedTime(session);
+    const file = this.createFile(
+      'chunk',
+      session.chunkStartedAt,
+      this.globalOptions.enableMic,
+      this.globalOptions.separateAudioFile,
+      chunkId ?? session.chunkId
+    );
+    session.chunkStartedAt = Date.now();
+    session.chunkId = nextChunkId;
+    session.isCapturingChunk = isCapturingNext;
+    this.emitExtensionStatus();
+    this.emitChunkReady(file);
+    return file;
+  }
+
+  private emitChunkReady(file: MockFile): void {
+    const event: ChunkReadyEvent = { chunkId: file.chunkId, file };
+    this.chunkListeners.forEach((callback) => callback(event));
+  }
+
+  private createFile(
+    prefix: string,
+    startedAt: number,
+    enableMic: boolean,
+    separateAudioFile: boolean,
+    chunkId?: string
+  ): MockFile {
+    const id = ++this.nextFileId;
+    const duration = Math.max(0, (Date.now() - startedAt) / 1000);
+    const name = `${prefix}_${id}.mp4`;
+    const file: MockFile = {
+      path: `file:///mock/ScreenRecordings/${name}`,
+      name,
+      size: Math.round(duration * MOCK_BYTES_PER_SECOND),
+      duration,
+      enabledMicrophone: enableMic,
+      chunkId,
+    };
+    if (enableMic && separateAudioFile) {
+      const audioName = `${prefix}_${id}_mic.m4a`;
+      file.audioFile = {
+        path: `file:///mock/ScreenRecordings/${audioName}`,
+        name: audioName,
+        size: Math.round(duration * 16000),
+        duration,
+      };
+    }
+    this.recordings.push(file);
+    return file;
+  }
+}
@@ -0,0 +1,51 @@
+import { MockNitroScreenRecorder } from './MockNitroScreenRecorder';
+import { recorderStore } from '../store/RecorderStore';
+
+export * from './MockNitroScreenRecorder';
+
+/**
+ * Shared mock instance returned by `mockNitroModules.NitroModules.createHybridObject`.
+ */
+export const mockScreenRecorder = new MockNitroScreenRecorder();
+
+/**
+ * Drop-in replacement for the `react-native-nitro-modules` module that hands
+ * out `mockScreenRecorder`, so the library runs unchanged on plain Node.
+ *
+ * @example
+ * ```typescript
+ * // jest.setup.js
+ * jest.mock(
+ *   'react-native-nitro-modules',
+ *   () => require('react-native-nitro-screen-recorder/mock').mockNitroModules
+ * );
+ * ```
+ */
+export const mockNitroModules = {
+  NitroModules: {
+    createHybridObject<T>(name: string): T {
+      if (name !== mockScreenRecorder.name) {
+        throw new Error(
+          `react-native-nitro-screen-recorder/mock cannot create HybridObject "${name}".`
+        );
+      }
+      return mockScreenRecorder as unknown as T;
+    },
+  },
+};
+
+/**
+ * Resets `mockScreenRecorder` and the shared `recorderStore`. Call it in
+ * `beforeEach` so tests don't leak recordings or state into each other.
+ *
+ * @example
+ * ```typescript
+ * beforeEach(() => {
+ *   resetMockScreenRecorder();
+ * });
+ * ```
+ */
+export function resetMockScreenRecorder(): void {
+  mockScreenRecorder.reset();
+  recorderStore.reset();
+}
@@ -0,0 +1,173 @@
+import type {
+  AudioRecordingFile,
+  RecorderMode,
+  RecordingFilenameToken,
+  RecordingOutputOptions,
+  ScreenRecordingFile,
+} from './types';
+import { ScreenRecorderError } from './errors';
+import { NitroScreenRecorderHybridObject } from './hybridObject';
+
+/**
+ * Output options of a recording session, with the number of files it delivered.
+ */
+type RecordingOutputSession = RecordingOutputOptions & {
+  mode: RecorderMode;
+  seq: number;
+};
+
+const FILENAME_TOKENS: readonly RecordingFilenameToken[] = [
+  'date',
+  'time',
+  'mode',
+  'chunkId',
+  'seq',
+];
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+const UNSAFE_FILENAME_CHARACTERS = /[/\\:*?"<>|]/g;
+const EXTENSION_PATTERN = /\.[A-Za-z0-9]{1,5}$/;
+
+const sessions: Partial<Record<RecorderMode, RecordingOutputSession>> = {};
+
+/**
+ * Validates the `output` option of a start function and uses it for the
+ * files of the new recording session.
+ *
+ * @throws {ScreenRecorderError} `INVALID_ARGUMENT` if the directory or template is invalid
+ */
+export function startOutputSession(
+  output: RecordingOutputOptions | undefined,
+  mode: RecorderMode,
+  functionName: string
+): void {
+  sessions[mode] = resolveRecordingOutput(output, mode, functionName);
+}
+
+function resolveRecordingOutput(
+  output: RecordingOutputOptions | undefined,
+  mode: RecorderMode,
+  functionName: string
+): RecordingOutputSession | undefined {
+  if (output === undefined) return undefined;
+  const invalid = (name: string, reason: string) =>
+    new ScreenRecorderError(
+      'INVALID_ARGUMENT',
+      `Provided invalid value to \`output.${name}\` in \`${functionName}\` function: ${reason}`
+    );
+
+  const { directory, filenameTemplate } = output;
+  if (directory !== undefined) {
+    if (
+      typeof directory !== 'string' ||
+      !(directory.startsWith('/') || directory.startsWith('file://'))
+    ) {
+      throw invalid('directory', 'use an absolute path or a file:// URL.');
+    }
+  }
+  if (filenameTemplate !== undefined) {
+    if (typeof filenameTemplate !== 'string' || !filenameTemplate.trim()) {
+      throw invalid('filenameTemplate', 'use a non-empty string.');
+    }
+    if (/[/\\]/.test(filenameTemplate)) {
+      throw invalid(
+        'filenameTemplate',
+        'it must not contain path separators, use `directory` instead.'
+      );
+    }
+    for (const [, token] of filenameTemplate.matchAll(TOKEN_PATTERN)) {
+      if (!FILENAME_TOKENS.includes(token as RecordingFilenameToken)) {
+        throw invalid(
+          'filenameTemplate',
+          `unknown token {${token}}, use one of ${FILENAME_TOKENS.map((name) => `{${name}}`).join(', ')}.`
+        );
+      }
+    }
+    if (/[{}]/.test(filenameTemplate.replace(TOKEN_PATTERN, ''))) {
+      throw invalid('filenameTemplate', 'it contains an unmatched brace.');
+    }
+  }
+  return { directory, filenameTemplate, mode, seq: 0 };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Fills in the tokens of a validated template.
+ */
+function renderFilename(
+  template: string,
+  values: Record<RecordingFilenameToken, string>
+): string {
+  return template.replace(TOKEN_PATTERN, (_, token: RecordingFilenameToken) =>
+    values[token].replace(UNSAFE_FILENAME_CHARACTERS, '_')
+  );
+}
+
+function directoryOf(path: string): string {
+  return path.slice(0, path.lastIndexOf('/'));
+}
+
+function moveSidecar(
+  file: AudioRecordingFile | undefined,
+  directory: string,
+  name: string
+): AudioRecordingFile | undefined {
+  if (!file) return undefined;
+  const extension = file.name.match(EXTENSION_PATTERN)?.[0] ?? '';
+  const path = NitroScreenRecorderHybridObject.moveRecordingFile(
+    file.path,
+    directory,
+    `${name}${extension}`
+  );
+  return { ...file, path, name: path.slice(path.lastIndexOf('/') + 1) };
+}
+
+/**
+ * Moves a delivered file (and its separate audio files) to where the
+ * output options of the `mode` session want it.
+ *
+ * @returns The moved file, or `file` itself when the session has no output options
+ */
+export function relocateRecording(
+  file: ScreenRecordingFile,
+  mode: RecorderMode,
+  chunkId?: string
+): ScreenRecordingFile {
+  const session = sessions[mode];
+  if (!session || (!session.directory && !session.filenameTemplate)) {
+    return file;
+  }
+  session.seq += 1;
+  const now = new Date();
+  const directory = session.directory ?? directoryOf(file.path);
+  let name = file.name;
+  if (session.filenameTemplate) {
+    name = renderFilename(session.filenameTemplate, {
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      time: `${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`,
+      mode: session.mode,
+      chunkId: chunkId ?? 'recording',
+      seq: String(session.seq),
+    });
+    if (!EXTENSION_PATTERN.test(name)) {
+      name = `${name}.mp4`;
+    }
+  }
+
+  const path = NitroScreenRecorderHybridObject.moveRecordingFile(
+    file.path,
+    directory,
+    name
+  );
+  const videoName = path.slice(path.lastIndexOf('/') + 1);
+  const baseName = videoName.replace(EXTENSION_PATTERN, '');
+  const moved: ScreenRecordingFile = {
+    ...file,
+    path,
+    name: videoName,
+    audioFile: moveSidecar(file.audioFile, directory, `${baseName}-mic`),
+    appAudioFile: moveSidecar(file.appAudioFile, directory, `${baseName}-app`),
+  };
+  return moved;
+}
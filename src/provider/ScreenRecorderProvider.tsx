@@ -0,0 +1,115 @@
+import React, { createContext, useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import { connectRecorderStore } from '../store';
+import type { ScreenRecordingFile } from '../types';
+import { subscribeToGlobalRecording } from './globalRecordingEvents';
+import type { GlobalRecordingLifecycleEvent } from './globalRecordingEvents';
+
+type LifecycleListener = (event: GlobalRecordingLifecycleEvent) => void;
+
+/**
+ * Fans the provider's single set of native listeners out to every hook
+ * below it, and remembers the last finished recording.
+ */
+export class GlobalRecordingEventHub {
+  private listeners = new Set<LifecycleListener>();
+  private lastRecording?: ScreenRecordingFile;
+
+  /**
+   * Adds a listener for lifecycle events. Also usable as a
+   * `useSyncExternalStore` subscription for `getLastRecording`.
+   */
+  subscribe = (listener: LifecycleListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getLastRecording = (): ScreenRecordingFile | undefined => this.lastRecording;
+
+  emit = (event: GlobalRecordingLifecycleEvent): void => {
+    if (event.type === 'finished' && event.file) {
+      this.lastRecording = event.file;
+    }
+    this.listeners.forEach((listener) => listener(event));
+  };
+}
+
+/**
+ * Set by `ScreenRecorderProvider`; undefined outside of it.
+ */
+export const ScreenRecorderContext = createContext<
+  GlobalRecordingEventHub | undefined
+>(undefined);
+
+/**
+ * Props for `ScreenRecorderProvider`.
+ */
+type ScreenRecorderProviderProps = {
+  children?: ReactNode;
+  /**
+   * How often to poll the native recorder status in milliseconds, as a
+   * fallback for missed status events.
+   * @default 1000
+   */
+  pollingIntervalMs?: number;
+  /**
+   * The longest time in milliseconds to wait for a recording to be saved after it ends.
+   * @default 500
+   */
+  settledTimeMs?: number;
+  /**
+   * Ignore global recordings that were not started with `startGlobalRecording`.
+   * @default false
+   */
+  ignoreRecordingsInitiatedElsewhere?: boolean;
+};
+
+/**
+ * Owns one set of native recording listeners and one status poller and shares
+ * them with every recorder hook rendered below it. Without a provider, each
+ * `useGlobalRecording` registers its own native listeners.
+ *
+ * Inside the provider, `useGlobalRecording` uses the provider's
+ * `settledTimeMs` and `ignoreRecordingsInitiatedElsewhere` instead of its own.
+ *
+ * @example
+ * ```tsx
+ * export default function App() {
+ *   return (
+ *     <ScreenRecorderProvider pollingIntervalMs={500}>
+ *       <Navigation />
+ *     </ScreenRecorderProvider>
+ *   );
+ * }
+ * ```
+ */
+export function ScreenRecorderProvider({
+  children,
+  pollingIntervalMs,
+  settledTimeMs = 500,
+  ignoreRecordingsInitiatedElsewhere = false,
+}: ScreenRecorderProviderProps) {
+  const [hub] = useState(() => new GlobalRecordingEventHub());
+
+  useEffect(
+    () => connectRecorderStore({ pollingIntervalMs }),
+    [pollingIntervalMs]
+  );
+
+  useEffect(
+    () =>
+      subscribeToGlobalRecording(
+        { ignoreRecordingsInitiatedElsewhere, settledTimeMs },
+        hub.emit
+      ),
+    [hub, ignoreRecordingsInitiatedElsewhere, settledTimeMs]
+  );
+
+  return (
+    <ScreenRecorderContext.Provider value={hub}>
+      {children}
+    </ScreenRecorderContext.Provider>
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  addBroadcastPickerListener,
+  addChunkListener,
+  addScreenRecordingListener,
+  retrieveLastGlobalRecording,
+} from '../functions';
+import { deliverRecording } from '../delivery';
+import { takeEndedSessionMarkers } from '../markers';
+import type { ChunkReadyEvent, ScreenRecordingFile } from '../types';
+
+/**
+ * Lifecycle of a global recording as seen by the hooks and the provider.
+ */
+export type GlobalRecordingLifecycleEvent =
+  | { type: 'started' }
+  | { type: 'finished'; file?: ScreenRecordingFile }
+  | { type: 'pickerShown' }
+  | { type: 'pickerDismissed' };
+
+/**
+ * Resolves with the next chunk reported by `addChunkListener`, or with
+ * undefined if none arrives within `timeoutMs`.
+ *
+ * @param timeoutMs The longest time to wait.
+ */
+const waitForNextChunk = (timeoutMs: number) =>
+  new Promise<ChunkReadyEvent | undefined>((resolve) => {
+    const timeout = setTimeout(() => {
+      removeListener();
+      resolve(undefined);
+    }, timeoutMs);
+    const removeListener = addChunkListener((event) => {
+      clearTimeout(timeout);
+      removeListener();
+      resolve(event);
+    });
+  });
+
+/**
+ * Registers one screen recording listener and one broadcast picker listener
+ * and reports global recording lifecycle events through `listener`. When a
+ * recording ends, its file is retrieved and delivered (moved to its output
+ * directory, given its markers and added to `recordingLibrary`) before
+ * `finished` is reported.
+ *
+ * @returns Cleanup function that removes both native listeners
+ */
+export function subscribeToGlobalRecording(
+  options: {
+    ignoreRecordingsInitiatedElsewhere: boolean;
+    settledTimeMs: number;
+  },
+  listener: (event: GlobalRecordingLifecycleEvent) => void
+): () => void {
+  const removeRecordingListener = addScreenRecordingListener({
+    ignoreRecordingsInitiatedElsewhere:
+      options.ignoreRecordingsInitiatedElsewhere,
+    listener: async (event) => {
+      if (event.type === 'withinApp') return;
+
+      if (event.reason === 'began') {
+        listener({ type: 'started' });
+      } else if (event.reason === 'ended') {
+        // Wait for the recorder to report the file as saved, falling back to
+        // retrieving it ourselves once the settle time has passed
+        const chunk = await waitForNextChunk(options.settledTimeMs);
+        const file = chunk
+          ? deliverRecording(
+              chunk.file,
+              'global',
+              chunk.chunkId,
+              takeEndedSessionMarkers()
+            )
+          : retrieveLastGlobalRecording();
+        listener({ type: 'finished', file });
+      }
+    },
+  });
+
+  const removePickerListener = addBroadcastPickerListener((event) => {
+    listener({
+      type: event === 'dismissed' ? 'pickerDismissed' : 'pickerShown',
+    });
+  });
+
+  return () => {
+    removeRecordingListener();
+    removePickerListener();
+  };
+}
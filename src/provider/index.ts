@@ -0,0 +1 @@
+export { ScreenRecorderProvider } from './ScreenRecorderProvider';
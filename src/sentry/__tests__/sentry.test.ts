@@ -0,0 +1,219 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../../mock';
+import {
+  finalizeChunk,
+  markChunkStart,
+  startGlobalRecording,
+} from '../../functions';
+import { setupScreenRecorderSentry } from '..';
+import type { SentryAttachment, SentryBreadcrumb, SentryClient } from '..';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+/**
+ * Records what the integration sends instead of talking to Sentry.
+ */
+class FakeSentry implements SentryClient {
+  breadcrumbs: SentryBreadcrumb[] = [];
+  tags: Record<string, string> = {};
+  exceptions: {
+    exception: unknown;
+    hint?: { attachments?: SentryAttachment[] };
+  }[] = [];
+
+  addBreadcrumb(breadcrumb: SentryBreadcrumb): void {
+    this.breadcrumbs.push(breadcrumb);
+  }
+
+  setTag(key: string, value: string): void {
+    this.tags[key] = value;
+  }
+
+  captureException(
+    exception: unknown,
+    hint?: { attachments?: SentryAttachment[] }
+  ): string {
+    this.exceptions.push({ exception, hint });
+    return `event-${this.exceptions.length}`;
+  }
+
+  messages(category: string): (string | undefined)[] {
+    return this.breadcrumbs
+      .filter((breadcrumb) => breadcrumb.category === category)
+      .map((breadcrumb) => breadcrumb.message);
+  }
+}
+
+const failRecording = () => {
+  startGlobalRecording({ onRecordingError: () => {} });
+  mockScreenRecorder.failGlobalRecording({
+    name: 'WriterError',
+    message: 'Asset writer failed',
+  });
+};
+
+describe('setupScreenRecorderSentry', () => {
+  let sentry: FakeSentry;
+  let teardown: (() => void) | undefined;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+    sentry = new FakeSentry();
+  });
+
+  afterEach(() => {
+    teardown?.();
+    teardown = undefined;
+    jest.useRealTimers();
+  });
+
+  it('adds breadcrumbs for the recording lifecycle', () => {
+    teardown = setupScreenRecorderSentry(sentry);
+
+    mockScreenRecorder.beginGlobalRecording();
+    mockScreenRecorder.reportLowStorage();
+    mockScreenRecorder.endGlobalRecording();
+
+    expect(sentry.messages('screen_recorder.event')).toEqual([
+      'began',
+      'lowStorage',
+      'ended',
+    ]);
+    expect(sentry.messages('screen_recorder')).toEqual([
+      'idle -> recording',
+      'recording -> idle',
+    ]);
+    expect(
+      sentry.breadcrumbs.find(({ message }) => message === 'lowStorage')?.level
+    ).toBe('warning');
+  });
+
+  it('adds a breadcrumb for each finalized chunk', async () => {
+    teardown = setupScreenRecorderSentry(sentry);
+    mockScreenRecorder.beginGlobalRecording();
+
+    await markChunkStart('question-1');
+    await finalizeChunk();
+
+    expect(sentry.breadcrumbs).toContainEqual({
+      category: 'screen_recorder.chunk',
+      message: 'Chunk finalized',
+      level: 'info',
+      data: { chunkId: 'question-1' },
+    });
+  });
+
+  it('does not register a chunk listener, which would claim pending chunks on iOS', () => {
+    const addChunkListener = jest.spyOn(mockScreenRecorder, 'addChunkListener');
+
+    teardown = setupScreenRecorderSentry(sentry);
+    mockScreenRecorder.beginGlobalRecording();
+    mockScreenRecorder.endGlobalRecording();
+
+    expect(addChunkListener).not.toHaveBeenCalled();
+    addChunkListener.mockRestore();
+  });
+
+  it('tags the session with its mode and capture mode', () => {
+    teardown = setupScreenRecorderSentry(sentry);
+    expect(sentry.tags).toEqual({ 'screen_recorder.capture_mode': 'unknown' });
+
+    mockScreenRecorder.beginGlobalRecording();
+
+    expect(sentry.tags).toEqual({
+      'screen_recorder.mode': 'global',
+      'screen_recorder.capture_mode': 'unknown',
+    });
+  });
+
+  it('captures recording errors with extension logs and audio metrics attached', () => {
+    teardown = setupScreenRecorderSentry(sentry);
+    mockScreenRecorder.logFromExtension(
+      'ERROR',
+      'handleFinalizeChunk: Writer failed'
+    );
+    mockScreenRecorder.logAudioMetricsFromExtension({
+      micBackpressureDrops: 3,
+    });
+
+    failRecording();
+
+    expect(sentry.exceptions).toHaveLength(1);
+    const [{ exception, hint }] = sentry.exceptions as [
+      (typeof sentry.exceptions)[number],
+    ];
+    expect(exception).toMatchObject({ message: 'Asset writer failed' });
+    expect(hint?.attachments?.map(({ filename }) => filename)).toEqual([
+      'extension-logs.json',
+      'audio-metrics.json',
+    ]);
+    const [logs, metrics] = hint!.attachments!.map(({ data }) =>
+      JSON.parse(data)
+    );
+    expect(logs).toEqual([
+      expect.objectContaining({
+        level: 'error',
+        context: 'handleFinalizeChunk',
+        message: 'Writer failed',
+      }),
+    ]);
+    expect(metrics[0].health.droppedBuffers).toBe(3);
+    expect(sentry.breadcrumbs.at(-1)).toMatchObject({
+      category: 'screen_recorder',
+      message: expect.stringMatching(/-> error$/),
+      level: 'error',
+    });
+  });
+
+  it('leaves out empty attachments', () => {
+    teardown = setupScreenRecorderSentry(sentry);
+
+    failRecording();
+
+    expect(sentry.exceptions).toHaveLength(1);
+    expect(sentry.exceptions[0]?.hint).toBeUndefined();
+  });
+
+  it('limits the attached log entries to maxLogEntries', () => {
+    teardown = setupScreenRecorderSentry(sentry, { maxLogEntries: 2 });
+    ['first', 'second', 'third'].forEach((message) =>
+      mockScreenRecorder.logFromExtension('INFO', message)
+    );
+
+    failRecording();
+
+    const logs = JSON.parse(
+      sentry.exceptions[0]!.hint!.attachments![0]!.data
+    ) as { message: string }[];
+    expect(logs.map(({ message }) => message)).toEqual(['second', 'third']);
+  });
+
+  it('can skip breadcrumbs and error capture', () => {
+    teardown = setupScreenRecorderSentry(sentry, {
+      breadcrumbs: false,
+      captureErrors: false,
+    });
+
+    mockScreenRecorder.beginGlobalRecording();
+    mockScreenRecorder.endGlobalRecording();
+    failRecording();
+
+    expect(sentry.breadcrumbs).toEqual([]);
+    expect(sentry.exceptions).toEqual([]);
+    expect(sentry.tags['screen_recorder.mode']).toBe('global');
+  });
+
+  it('stops reporting after cleanup', () => {
+    setupScreenRecorderSentry(sentry)();
+
+    mockScreenRecorder.beginGlobalRecording();
+    failRecording();
+
+    expect(sentry.breadcrumbs).toEqual([]);
+    expect(sentry.exceptions).toEqual([]);
+  });
+});
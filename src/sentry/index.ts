@@ -0,0 +1,219 @@
+import {
+  addScreenRecordingListener,
+  getExtensionAudioMetricsEntries,
+  getExtensionLogEntries,
+} from '../functions';
+import { logger } from '../logger';
+import { connectRecorderStore, recorderStore } from '../store';
+import type { ScreenRecorderError } from '../errors';
+
+/**
+ * Breadcrumb as accepted by `Sentry.addBreadcrumb`.
+ */
+export interface SentryBreadcrumb {
+  category?: string;
+  message?: string;
+  level?: 'debug' | 'info' | 'warning' | 'error';
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Attachment as accepted in the hint of `Sentry.captureException`.
+ */
+export interface SentryAttachment {
+  filename: string;
+  data: string;
+  contentType?: string;
+}
+
+/**
+ * The parts of the Sentry SDK this integration uses. The
+ * `@sentry/react-native` namespace satisfies it, so this package does not
+ * depend on Sentry.
+ */
+export interface SentryClient {
+  addBreadcrumb(breadcrumb: SentryBreadcrumb): void;
+  setTag(key: string, value: string): void;
+  captureException(
+    exception: unknown,
+    hint?: { attachments?: SentryAttachment[] }
+  ): unknown;
+}
+
+/**
+ * Options for `setupScreenRecorderSentry()`.
+ */
+export interface ScreenRecorderSentryOptions {
+  /**
+   * Add breadcrumbs for recorder state changes, recording events and
+   * finalized chunks.
+   *
+   * @default true
+   */
+  breadcrumbs?: boolean;
+  /**
+   * Capture recording errors (the ones that move `recorderStore` to
+   * `'error'`) with the extension logs and audio metrics attached.
+   *
+   * @default true
+   */
+  captureErrors?: boolean;
+  /**
+   * Most recent extension log entries to attach.
+   *
+   * @default 200
+   */
+  maxLogEntries?: number;
+}
+
+const BREADCRUMB_CATEGORY = 'screen_recorder';
+
+/**
+ * Returns the extension logs and audio metrics as JSON attachments, leaving
+ * out empty ones (always the case on Android).
+ */
+function collectAttachments(maxLogEntries: number): SentryAttachment[] {
+  const attachments: SentryAttachment[] = [];
+  const add = (filename: string, read: () => unknown[]) => {
+    try {
+      const items = read();
+      if (items.length === 0) return;
+      attachments.push({
+        filename,
+        data: JSON.stringify(items, null, 2),
+        contentType: 'application/json',
+      });
+    } catch (error) {
+      logger.warn(`Failed to collect ${filename} for Sentry`, { error });
+    }
+  };
+  add('extension-logs.json', () =>
+    getExtensionLogEntries({ limit: maxLogEntries })
+  );
+  add('audio-metrics.json', () => getExtensionAudioMetricsEntries());
+  return attachments;
+}
+
+/**
+ * Reports screen recordings to Sentry:
+ *
+ * - Breadcrumbs for recorder state changes, `began`/`ended`/`paused`/
+ *   `resumed`/`limitReached`/`lowStorage` events and finalized chunks
+ * - `screen_recorder.mode` (`inApp`/`global`) and
+ *   `screen_recorder.capture_mode` tags for the current session
+ * - Recording errors captured with the extension logs and audio metrics as
+ *   attachments (iOS)
+ *
+ * Import it from `react-native-nitro-screen-recorder/sentry`. It keeps
+ * `recorderStore` connected to native events until cleaned up.
+ *
+ * @platform iOS, Android - attachments are iOS-only
+ * @param sentry The Sentry SDK, e.g. `import * as Sentry from '@sentry/react-native'`
+ * @param options.breadcrumbs Add lifecycle breadcrumbs. Default = true
+ * @param options.captureErrors Capture recording errors with attachments. Default = true
+ * @param options.maxLogEntries Most recent extension log entries to attach. Default = 200
+ * @returns Cleanup function that stops reporting
+ * @example
+ * ```typescript
+ * import * as Sentry from '@sentry/react-native';
+ * import { setupScreenRecorderSentry } from 'react-native-nitro-screen-recorder/sentry';
+ *
+ * Sentry.init({ dsn: '...' });
+ * const teardown = setupScreenRecorderSentry(Sentry);
+ * ```
+ */
+export function setupScreenRecorderSentry(
+  sentry: SentryClient,
+  options?: ScreenRecorderSentryOptions
+): () => void {
+  const breadcrumbs = options?.breadcrumbs ?? true;
+  const captureErrors = options?.captureErrors ?? true;
+  let maxLogEntries = 200;
+  if (options?.maxLogEntries !== undefined) {
+    if (
+      typeof options.maxLogEntries !== 'number' ||
+      !Number.isInteger(options.maxLogEntries) ||
+      !(options.maxLogEntries > 0)
+    ) {
+      logger.warn(
+        'Provided invalid value to `maxLogEntries` in `setupScreenRecorderSentry` function, value will be ignored. Please use an integer >0',
+        { value: options.maxLogEntries }
+      );
+    } else {
+      maxLogEntries = options.maxLogEntries;
+    }
+  }
+
+  const breadcrumb = (crumb: SentryBreadcrumb) => {
+    if (breadcrumbs) sentry.addBreadcrumb(crumb);
+  };
+  const captureError = (error: ScreenRecorderError) => {
+    if (!captureErrors) return;
+    const attachments = collectAttachments(maxLogEntries);
+    sentry.captureException(
+      error,
+      attachments.length > 0 ? { attachments } : undefined
+    );
+  };
+
+  const initial = recorderStore.getSnapshot();
+  if (initial.mode) {
+    sentry.setTag(`${BREADCRUMB_CATEGORY}.mode`, initial.mode);
+  }
+  sentry.setTag(
+    `${BREADCRUMB_CATEGORY}.capture_mode`,
+    initial.extensionStatus.captureMode
+  );
+
+  const unsubscribeStore = recorderStore.subscribe((snapshot, previous) => {
+    if (snapshot.mode && snapshot.mode !== previous.mode) {
+      sentry.setTag(`${BREADCRUMB_CATEGORY}.mode`, snapshot.mode);
+    }
+    const { captureMode } = snapshot.extensionStatus;
+    if (captureMode !== previous.extensionStatus.captureMode) {
+      sentry.setTag(`${BREADCRUMB_CATEGORY}.capture_mode`, captureMode);
+    }
+    if (snapshot.state === previous.state) return;
+    breadcrumb({
+      category: BREADCRUMB_CATEGORY,
+      message: `${previous.state} -> ${snapshot.state}`,
+      level: snapshot.state === 'error' ? 'error' : 'info',
+      data: {
+        mode: snapshot.mode ?? previous.mode,
+        chunkId: snapshot.chunkId,
+        ...(snapshot.error && { code: snapshot.error.code }),
+      },
+    });
+    if (previous.state === 'finalizing' && snapshot.state !== 'error') {
+      breadcrumb({
+        category: `${BREADCRUMB_CATEGORY}.chunk`,
+        message: 'Chunk finalized',
+        level: 'info',
+        data: { chunkId: previous.chunkId },
+      });
+    }
+    if (snapshot.state === 'error' && snapshot.error) {
+      captureError(snapshot.error);
+    }
+  });
+  const removeRecordingListener = addScreenRecordingListener({
+    ignoreRecordingsInitiatedElsewhere: false,
+    listener: (event) =>
+      breadcrumb({
+        category: `${BREADCRUMB_CATEGORY}.event`,
+        message: event.reason,
+        level:
+          event.reason === 'limitReached' || event.reason === 'lowStorage'
+            ? 'warning'
+            : 'info',
+        data: { type: event.type },
+      }),
+  });
+  const disconnectStore = connectRecorderStore();
+
+  return () => {
+    unsubscribeStore();
+    removeRecordingListener();
+    disconnectStore();
+  };
+}
@@ -0,0 +1,252 @@
+import type {
+  RawExtensionStatus,
+  RecorderSnapshot,
+  RecorderSnapshotPatch,
+  RecorderState,
+  RecorderStoreListener,
+} from '../types';
+import type { ScreenRecorderError } from '../errors';
+
+/**
+ * Default native status when nothing is being recorded.
+ */
+export const IDLE_EXTENSION_STATUS: RawExtensionStatus = {
+  isMicrophoneEnabled: false,
+  isCapturingChunk: false,
+  chunkStartedAt: 0,
+  captureMode: 'unknown',
+};
+
+/**
+ * States a recording can be in while capture is running.
+ */
+const ACTIVE_STATES: readonly RecorderState[] = [
+  'recording',
+  'capturingChunk',
+  'paused',
+  'finalizing',
+  'stopping',
+];
+
+/**
+ * Allowed transitions, keyed by the state they start from.
+ * Staying in the same state is always allowed and only updates the snapshot.
+ */
+export const RECORDER_TRANSITIONS: Readonly<
+  Record<RecorderState, readonly RecorderState[]>
+> = {
+  // `recording` is reachable straight from idle when capture was started
+  // elsewhere (Control Center, another JS context, a hot reload).
+  idle: ['requestingPermission', 'pickerShowing', 'starting', 'recording'],
+  requestingPermission: [
+    'idle',
+    'pickerShowing',
+    'starting',
+    'recording',
+    'error',
+  ],
+  pickerShowing: ['idle', 'starting', 'recording', 'error'],
+  starting: ['idle', 'recording', 'error'],
+  recording: [
+    'capturingChunk',
+    'paused',
+    'finalizing',
+    'stopping',
+    'idle',
+    'error',
+  ],
+  capturingChunk: [
+    'recording',
+    'paused',
+    'finalizing',
+    'stopping',
+    'idle',
+    'error',
+  ],
+  paused: [
+    'recording',
+    'capturingChunk',
+    'finalizing',
+    'stopping',
+    'idle',
+    'error',
+  ],
+  finalizing: ['recording', 'capturingChunk', 'stopping', 'idle', 'error'],
+  stopping: ['idle', 'error'],
+  error: [
+    'idle',
+    'requestingPermission',
+    'pickerShowing',
+    'starting',
+    'recording',
+  ],
+};
+
+/**
+ * Returns whether the store may move from one state to another.
+ *
+ * @param from The current state
+ * @param to The requested state
+ * @returns true if the transition is allowed
+ * @example
+ * ```typescript
+ * canTransition('idle', 'recording'); // true
+ * canTransition('stopping', 'capturingChunk'); // false
+ * ```
+ */
+export function canTransition(from: RecorderState, to: RecorderState): boolean {
+  return from === to || RECORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Returns whether capture is running in the given state.
+ *
+ * @param state The state to check
+ * @returns true for `recording`, `capturingChunk`, `paused`, `finalizing` and `stopping`
+ */
+export function isActiveRecorderState(state: RecorderState): boolean {
+  return ACTIVE_STATES.includes(state);
+}
+
+/**
+ * Framework-agnostic store holding the state of the recording session.
+ *
+ * The library keeps a shared instance (`recorderStore`) up to date from the
+ * recording functions and native events. Subscribe to it from anywhere -
+ * React hooks, state libraries or plain modules.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = recorderStore.subscribe((snapshot, previous) => {
+ *   console.log(`${previous.state} -> ${snapshot.state}`);
+ * });
+ * ```
+ */
+export class RecorderStore {
+  private snapshot: RecorderSnapshot = {
+    state: 'idle',
+    extensionStatus: IDLE_EXTENSION_STATUS,
+    enteredAt: Date.now(),
+  };
+  private listeners = new Set<RecorderStoreListener>();
+
+  /**
+   * Returns the current snapshot. The same object is returned until the
+   * store changes, which makes it safe to use with `useSyncExternalStore`.
+   */
+  getSnapshot = (): RecorderSnapshot => this.snapshot;
+
+  /**
+   * Registers a listener that is called after every change.
+   *
+   * @param listener Callback receiving the new and previous snapshot
+   * @returns Cleanup function to remove the listener
+   */
+  subscribe = (listener: RecorderStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Moves the store to a new state. Transitions that are not allowed from
+   * the current state are ignored, so out-of-order native events cannot
+   * corrupt the session state.
+   *
+   * @param state The state to move to
+   * @param patch Optional snapshot fields to update at the same time
+   * @returns true if the transition was applied
+   */
+  transition(state: RecorderState, patch?: RecorderSnapshotPatch): boolean {
+    const previous = this.snapshot;
+    if (!canTransition(previous.state, state)) {
+      return false;
+    }
+    const isNewState = previous.state !== state;
+    const next: RecorderSnapshot = {
+      ...previous,
+      // Leaving `error` or going back to `idle` clears stale session info
+      ...(isNewState && (previous.state === 'error' || state === 'idle')
+        ? { error: undefined, chunkId: undefined, mode: undefined }
+        : {}),
+      ...patch,
+      state,
+      pausedFrom:
+        state !== 'paused'
+          ? undefined
+          : isNewState
+            ? previous.state
+            : previous.pausedFrom,
+      enteredAt: isNewState ? Date.now() : previous.enteredAt,
+    };
+    this.emit(next, previous);
+    return true;
+  }
+
+  /**
+   * Returns the state to move to when the recording resumes: the state it
+   * was paused in, otherwise `capturingChunk` while a chunk is captured and
+   * `recording` for anything else.
+   */
+  resumedState(): RecorderState {
+    const { state, pausedFrom } = this.snapshot;
+    if (state === 'paused') return pausedFrom ?? 'recording';
+    return state === 'capturingChunk' ? 'capturingChunk' : 'recording';
+  }
+
+  /**
+   * Moves the store to `'error'`.
+   *
+   * @param error The error that caused the failure
+   * @returns true if the transition was applied
+   */
+  fail(error: ScreenRecorderError): boolean {
+    return this.transition('error', { error });
+  }
+
+  /**
+   * Updates the native status without changing state.
+   *
+   * @param extensionStatus The latest status from `getExtensionStatus()`
+   */
+  setExtensionStatus(extensionStatus: RawExtensionStatus): void {
+    const previous = this.snapshot;
+    const current = previous.extensionStatus;
+    if (
+      current.isMicrophoneEnabled === extensionStatus.isMicrophoneEnabled &&
+      current.isCapturingChunk === extensionStatus.isCapturingChunk &&
+      current.chunkStartedAt === extensionStatus.chunkStartedAt &&
+      current.captureMode === extensionStatus.captureMode
+    ) {
+      return;
+    }
+    this.emit({ ...previous, extensionStatus }, previous);
+  }
+
+  /**
+   * Resets the store to `'idle'` regardless of the current state.
+   */
+  reset(): void {
+    const previous = this.snapshot;
+    this.emit(
+      {
+        state: 'idle',
+        extensionStatus: IDLE_EXTENSION_STATUS,
+        enteredAt: Date.now(),
+      },
+      previous
+    );
+  }
+
+  private emit(next: RecorderSnapshot, previous: RecorderSnapshot): void {
+    this.snapshot = next;
+    this.listeners.forEach((listener) => listener(next, previous));
+  }
+}
+
+/**
+ * Shared store kept in sync by this library's recording functions.
+ * Call `connectRecorderStore()` (or use a hook) to also track native events.
+ */
+export const recorderStore = new RecorderStore();
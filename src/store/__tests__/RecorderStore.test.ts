@@ -0,0 +1,268 @@
+import {
+  mockNitroModules,
+  mockScreenRecorder,
+  resetMockScreenRecorder,
+} from '../../mock';
+import {
+  markChunkStart,
+  pauseRecording,
+  resumeRecording,
+  startGlobalRecording,
+  startInAppRecording,
+  stopGlobalRecording,
+  stopInAppRecording,
+} from '../../functions';
+import { ScreenRecorderError } from '../../errors';
+import {
+  IDLE_EXTENSION_STATUS,
+  RecorderStore,
+  canTransition,
+  connectRecorderStore,
+  recorderStore,
+} from '..';
+import type { RecorderState } from '../../types';
+
+jest.mock('react-native-nitro-modules', () => mockNitroModules);
+
+describe('RecorderStore', () => {
+  let store: RecorderStore;
+
+  beforeEach(() => {
+    store = new RecorderStore();
+  });
+
+  it.each<[RecorderState, RecorderState, boolean]>([
+    ['idle', 'pickerShowing', true],
+    ['idle', 'recording', true],
+    ['idle', 'stopping', false],
+    ['pickerShowing', 'starting', true],
+    ['recording', 'capturingChunk', true],
+    ['paused', 'capturingChunk', true],
+    ['finalizing', 'recording', true],
+    ['stopping', 'capturingChunk', false],
+    ['stopping', 'recording', false],
+    ['error', 'recording', true],
+    ['error', 'stopping', false],
+    ['recording', 'recording', true],
+  ])('canTransition(%s, %s) is %s', (from, to, expected) => {
+    expect(canTransition(from, to)).toBe(expected);
+  });
+
+  it('applies allowed transitions with their patch', () => {
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    const applied = store.transition('recording', {
+      mode: 'global',
+      chunkId: 'q1',
+    });
+
+    expect(applied).toBe(true);
+    expect(store.getSnapshot()).toMatchObject({
+      state: 'recording',
+      mode: 'global',
+      chunkId: 'q1',
+    });
+    expect(listener).toHaveBeenCalledWith(
+      store.getSnapshot(),
+      expect.objectContaining({ state: 'idle' })
+    );
+  });
+
+  it('ignores transitions that are not allowed', () => {
+    const listener = jest.fn();
+    store.subscribe(listener);
+    const before = store.getSnapshot();
+
+    const applied = store.transition('stopping');
+
+    expect(applied).toBe(false);
+    expect(store.getSnapshot()).toBe(before);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('clears the session info when going back to idle', () => {
+    store.transition('recording', { mode: 'global', chunkId: 'q1' });
+
+    store.transition('idle');
+
+    expect(store.getSnapshot()).toMatchObject({
+      state: 'idle',
+      mode: undefined,
+      chunkId: undefined,
+    });
+  });
+
+  it('keeps the error until the store leaves the error state', () => {
+    const error = new ScreenRecorderError('CHUNK_FAILED', 'Writer failed');
+    store.transition('recording', { mode: 'global' });
+
+    store.fail(error);
+    expect(store.getSnapshot()).toMatchObject({ state: 'error', error });
+
+    store.transition('pickerShowing', { mode: 'global' });
+    expect(store.getSnapshot().error).toBeUndefined();
+  });
+
+  it('keeps enteredAt when staying in the same state', () => {
+    store.transition('recording');
+    const { enteredAt } = store.getSnapshot();
+
+    store.transition('recording', { chunkId: 'q2' });
+
+    expect(store.getSnapshot()).toMatchObject({ chunkId: 'q2', enteredAt });
+  });
+
+  it.each<[RecorderState, RecorderState]>([
+    ['recording', 'recording'],
+    ['capturingChunk', 'capturingChunk'],
+  ])('resumes a recording paused in %s to %s', (from, resumed) => {
+    store.transition('recording', { mode: 'global' });
+    store.transition(from);
+
+    store.transition('paused');
+    store.transition('paused');
+    expect(store.getSnapshot().pausedFrom).toBe(from);
+    expect(store.resumedState()).toBe(resumed);
+
+    store.transition(resumed);
+    expect(store.getSnapshot().pausedFrom).toBeUndefined();
+  });
+
+  it('resumes to recording when the pause was missed', () => {
+    expect(store.resumedState()).toBe('recording');
+  });
+
+  it('only emits extension status changes', () => {
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    store.setExtensionStatus({ ...IDLE_EXTENSION_STATUS });
+    store.setExtensionStatus({
+      ...IDLE_EXTENSION_STATUS,
+      isCapturingChunk: true,
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot().extensionStatus.isCapturingChunk).toBe(true);
+  });
+
+  it('stops notifying after unsubscribing', () => {
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.transition('recording');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('resets to idle from any state', () => {
+    store.transition('recording', { mode: 'global' });
+    store.transition('stopping');
+
+    store.reset();
+
+    expect(store.getSnapshot()).toMatchObject({
+      state: 'idle',
+      extensionStatus: IDLE_EXTENSION_STATUS,
+    });
+    expect(store.getSnapshot().mode).toBeUndefined();
+  });
+});
+
+describe('recorderStore', () => {
+  let states: RecorderState[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetMockScreenRecorder();
+    states = [];
+    unsubscribe = recorderStore.subscribe((snapshot, previous) => {
+      if (snapshot.state !== previous.state) states.push(snapshot.state);
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    jest.useRealTimers();
+  });
+
+  it('follows a global recording started and stopped by the app', async () => {
+    const disconnect = connectRecorderStore();
+
+    startGlobalRecording({ onRecordingError: jest.fn() });
+    await markChunkStart('q1');
+    await stopGlobalRecording();
+    disconnect();
+
+    expect(states).toEqual([
+      'pickerShowing',
+      'starting',
+      'recording',
+      'capturingChunk',
+      'stopping',
+      'idle',
+    ]);
+    expect(recorderStore.getSnapshot().mode).toBeUndefined();
+  });
+
+  it('returns to capturingChunk when resuming a chunk', async () => {
+    const disconnect = connectRecorderStore();
+    startGlobalRecording({ onRecordingError: jest.fn() });
+    await markChunkStart('q1');
+
+    await pauseRecording();
+    expect(recorderStore.getSnapshot().state).toBe('paused');
+    await resumeRecording();
+    disconnect();
+
+    expect(recorderStore.getSnapshot()).toMatchObject({
+      state: 'capturingChunk',
+      chunkId: 'q1',
+    });
+  });
+
+  it('follows an in-app recording', async () => {
+    await startInAppRecording({
+      options: { enableMic: false, enableCamera: false },
+      onRecordingFinished: jest.fn(),
+    });
+    expect(recorderStore.getSnapshot()).toMatchObject({
+      state: 'recording',
+      mode: 'inApp',
+    });
+
+    await stopInAppRecording();
+
+    expect(states.at(-2)).toBe('stopping');
+    expect(states.at(-1)).toBe('idle');
+  });
+
+  it('moves to error when the native recorder fails', () => {
+    const onRecordingError = jest.fn();
+    startGlobalRecording({ onRecordingError });
+
+    mockScreenRecorder.failGlobalRecording({
+      name: 'WriterError',
+      message: 'Asset writer failed',
+    });
+
+    expect(recorderStore.getSnapshot()).toMatchObject({
+      state: 'error',
+      error: expect.objectContaining({ message: 'Asset writer failed' }),
+    });
+    expect(onRecordingError).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows recordings started elsewhere once connected', () => {
+    const disconnect = connectRecorderStore();
+
+    mockScreenRecorder.beginGlobalRecording();
+    mockScreenRecorder.endGlobalRecording();
+    disconnect();
+
+    expect(states).toEqual(['recording', 'idle']);
+  });
+});
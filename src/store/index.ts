@@ -0,0 +1,2 @@
+export * from './RecorderStore';
+export * from './nativeBridge';
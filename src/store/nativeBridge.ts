@@ -0,0 +1,169 @@
+import {
+  addBroadcastPickerListener,
+  addExtensionStatusListener,
+  addScreenRecordingListener,
+  getExtensionStatus,
+  isScreenBeingRecorded,
+} from '../functions';
+import type { RawExtensionStatus } from '../types';
+import { recorderStore } from './RecorderStore';
+
+/**
+ * How long `starting` may last after the picker closes before we assume the
+ * user backed out without starting a broadcast.
+ */
+const PICKER_DISMISSAL_GRACE_MS = 5000;
+
+let connectionCount = 0;
+let disconnectNative: (() => void) | undefined;
+
+/**
+ * Moves between `recording` and `capturingChunk` to match the native status.
+ */
+function syncChunkState(extensionStatus: RawExtensionStatus): void {
+  const { state, mode } = recorderStore.getSnapshot();
+  if (mode === 'inApp') return;
+  if (
+    (state === 'recording' || state === 'capturingChunk') &&
+    extensionStatus.isCapturingChunk !== (state === 'capturingChunk')
+  ) {
+    recorderStore.transition(
+      extensionStatus.isCapturingChunk ? 'capturingChunk' : 'recording'
+    );
+  }
+}
+
+/**
+ * Reconciles the store with what the native recorder reports. Covers events
+ * that were missed, e.g. when JS reloads while a broadcast is running.
+ */
+function syncWithNative(): void {
+  const snapshot = recorderStore.getSnapshot();
+  const captured = isScreenBeingRecorded();
+  const extensionStatus = getExtensionStatus();
+  recorderStore.setExtensionStatus(extensionStatus);
+
+  // In-app sessions are driven entirely by their own functions
+  if (snapshot.mode === 'inApp') return;
+
+  switch (snapshot.state) {
+    case 'idle':
+    case 'error':
+      if (captured) {
+        recorderStore.transition('recording', { mode: 'global' });
+      }
+      break;
+    case 'pickerShowing':
+    case 'starting':
+      if (captured) {
+        recorderStore.transition('recording', { mode: 'global' });
+      } else if (
+        snapshot.state === 'starting' &&
+        Date.now() - snapshot.enteredAt > PICKER_DISMISSAL_GRACE_MS
+      ) {
+        recorderStore.transition('idle');
+      }
+      break;
+    case 'recording':
+    case 'capturingChunk':
+      if (!captured) {
+        recorderStore.transition('idle');
+      } else {
+        syncChunkState(extensionStatus);
+      }
+      break;
+    case 'paused':
+      if (!captured) {
+        recorderStore.transition('idle');
+      }
+      break;
+  }
+}
+
+/**
+ * Starts feeding native recording events into the shared `recorderStore`:
+ * global `began`/`ended`/`paused`/`resumed` events, recorder status changes,
+ * iOS broadcast picker events, and a slow poll of
+ * `isScreenBeingRecorded()`/`getExtensionStatus()` as a fallback for missed events.
+ *
+ * Connections are reference counted, so every caller can connect and
+ * disconnect independently. The polling interval of the first connection
+ * is used until all connections are closed.
+ *
+ * @platform iOS, Android
+ * @param options.pollingIntervalMs How often to poll native status as a fallback. Default = 1000ms
+ * @returns Cleanup function that closes this connection
+ * @example
+ * ```typescript
+ * const disconnect = connectRecorderStore();
+ * const unsubscribe = recorderStore.subscribe((snapshot) => {
+ *   console.log('Recorder state:', snapshot.state);
+ * });
+ * // Later
+ * unsubscribe();
+ * disconnect();
+ * ```
+ */
+export function connectRecorderStore(options?: {
+  pollingIntervalMs?: number;
+}): () => void {
+  connectionCount += 1;
+  if (connectionCount === 1) {
+    const removeRecordingListener = addScreenRecordingListener({
+      ignoreRecordingsInitiatedElsewhere: false,
+      listener: (event) => {
+        if (event.type === 'withinApp') return;
+        if (event.reason === 'began') {
+          recorderStore.transition('recording', { mode: 'global' });
+        } else if (event.reason === 'paused') {
+          recorderStore.transition('paused', { mode: 'global' });
+        } else if (event.reason === 'resumed') {
+          recorderStore.transition(recorderStore.resumedState(), {
+            mode: 'global',
+          });
+        } else if (event.reason === 'limitReached') {
+          // `ended` follows once the file is saved
+          recorderStore.transition('stopping');
+        } else if (event.reason === 'ended') {
+          recorderStore.transition('idle');
+        }
+      },
+    });
+    const removeStatusListener = addExtensionStatusListener((status) => {
+      recorderStore.setExtensionStatus(status);
+      syncChunkState(status);
+    });
+    const removePickerListener = addBroadcastPickerListener((event) => {
+      if (event === 'showing') {
+        recorderStore.transition('pickerShowing', { mode: 'global' });
+      } else if (recorderStore.getSnapshot().state === 'pickerShowing') {
+        // The broadcast countdown runs after the picker closes
+        recorderStore.transition('starting');
+      }
+    });
+
+    syncWithNative();
+    const interval = setInterval(
+      syncWithNative,
+      options?.pollingIntervalMs ?? 1000
+    );
+
+    disconnectNative = () => {
+      removeRecordingListener();
+      removeStatusListener();
+      removePickerListener();
+      clearInterval(interval);
+    };
+  }
+
+  let isConnected = true;
+  return () => {
+    if (!isConnected) return;
+    isConnected = false;
+    connectionCount -= 1;
+    if (connectionCount === 0) {
+      disconnectNative?.();
+      disconnectNative = undefined;
+    }
+  };
+}
@@ -1,3 +1,6 @@
+import type { AnyMap } from 'react-native-nitro-modules';
+import type { ScreenRecorderError } from './errors';
+
 /**
  * Represents the current status of a device permission.
  *
@@ -124,6 +127,32 @@ export type InAppRecordingOptions =
        * @default false
        */
       separateAudioFile?: boolean;
+      /**
+       * Stops the recording once this many seconds have been recorded
+       * (excluding paused time). See `maxDurationSec` on `GlobalRecordingInputOptions`.
+       */
+      maxDurationSec?: number;
+      /**
+       * Not enforced for in-app recordings: ReplayKit only writes the file
+       * when the recording stops, so its size is unknown while recording.
+       * Passing it logs a warning. Use `maxDurationSec` instead.
+       */
+      maxFileSizeBytes?: number;
+      /**
+       * Free storage in bytes required to start and keep recording.
+       * See `minFreeBytes` on `GlobalRecordingInputOptions`.
+       */
+      minFreeBytes?: number;
+      /**
+       * Where the finished recording is moved and how it is named.
+       * See `RecordingOutputOptions`.
+       */
+      output?: RecordingOutputOptions;
+      /**
+       * Writes the markers added with `addRecordingMarker()` to a sidecar
+       * file next to the recording. See `markersFormat` on `GlobalRecordingInputOptions`.
+       */
+      markersFormat?: RecordingMarkersFormat;
     }
   | {
       /** Camera is disabled - no camera options needed */
@@ -136,6 +165,32 @@ export type InAppRecordingOptions =
        * @default false
        */
       separateAudioFile?: boolean;
+      /**
+       * Stops the recording once this many seconds have been recorded
+       * (excluding paused time). See `maxDurationSec` on `GlobalRecordingInputOptions`.
+       */
+      maxDurationSec?: number;
+      /**
+       * Not enforced for in-app recordings: ReplayKit only writes the file
+       * when the recording stops, so its size is unknown while recording.
+       * Passing it logs a warning. Use `maxDurationSec` instead.
+       */
+      maxFileSizeBytes?: number;
+      /**
+       * Free storage in bytes required to start and keep recording.
+       * See `minFreeBytes` on `GlobalRecordingInputOptions`.
+       */
+      minFreeBytes?: number;
+      /**
+       * Where the finished recording is moved and how it is named.
+       * See `RecordingOutputOptions`.
+       */
+      output?: RecordingOutputOptions;
+      /**
+       * Writes the markers added with `addRecordingMarker()` to a sidecar
+       * file next to the recording. See `markersFormat` on `GlobalRecordingInputOptions`.
+       */
+      markersFormat?: RecordingMarkersFormat;
     };
 
 /**
@@ -181,8 +236,210 @@ export type GlobalRecordingInputOptions = {
    * @default false
    */
   separateAudioFile?: boolean;
+  /**
+   * Video quality for the recording: either a preset name, or individual
+   * settings (optionally layered on top of a preset).
+   * Omitted settings fall back to the platform defaults.
+   *
+   * @default platform defaults (roughly the `'balanced'` preset)
+   * @example
+   * ```typescript
+   * video: 'low' // small files for bug reports
+   * video: { preset: 'high', fps: 30 } // high quality at 30 fps
+   * ```
+   */
+  video?: VideoQualityPreset | VideoQualityOptions;
+  /**
+   * Stops the recording once this many seconds have been recorded, excluding
+   * paused time. A `limitReached` event is emitted, then the recording ends
+   * and its file is delivered as usual.
+   *
+   * @default no limit
+   */
+  maxDurationSec?: number;
+  /**
+   * Stops the recording once the file being written reaches this many bytes.
+   * When recording in chunks, the limit applies to each chunk's file.
+   * Checked periodically while recording, so files can slightly exceed it.
+   * A `limitReached` event is emitted, then the recording ends and its file
+   * is delivered as usual.
+   *
+   * @default no limit
+   */
+  maxFileSizeBytes?: number;
+  /**
+   * Free storage in bytes required to record. Starting fails with a
+   * `DiskFullError` when less is available. While recording, a `lowStorage`
+   * event is emitted once free space drops below it, and if free space falls
+   * to half of it the recording is stopped (`limitReached`, then `ended`) so
+   * the file can still be finalized.
+   *
+   * @default no check
+   */
+  minFreeBytes?: number;
+  /**
+   * Where finished recordings and chunks are moved and how they are named.
+   * See `RecordingOutputOptions`.
+   */
+  output?: RecordingOutputOptions;
+  /**
+   * Writes the markers added with `addRecordingMarker()` to a sidecar file
+   * next to each recording or chunk that has markers, named like the video
+   * with a `.vtt` or `.json` extension. Its path is set as `markersFile` on
+   * the `ScreenRecordingFile`.
+   *
+   * @default no sidecar file, markers are only returned in `markers`
+   */
+  markersFormat?: RecordingMarkersFormat;
 };
 
+/**
+ * Format of the marker sidecar file.
+ *
+ * - `vtt` - WebVTT with one cue per marker, which most players show as chapters or subtitles
+ * - `json` - `{ "markers": RecordingMarker[] }` including each marker's metadata
+ */
+export type RecordingMarkersFormat = 'vtt' | 'json';
+
+/**
+ * Tokens that can be used in `RecordingOutputOptions.filenameTemplate`.
+ *
+ * - `{date}` - Local date the file was delivered, `YYYY-MM-DD`
+ * - `{time}` - Local time the file was delivered, `HH-mm-ss`
+ * - `{mode}` - `inApp` or `global`
+ * - `{chunkId}` - The chunk ID passed to `markChunkStart()`, or `recording` when there is none
+ * - `{seq}` - 1 for the first file of the recording session, 2 for the next, ...
+ */
+export type RecordingFilenameToken =
+  | 'date'
+  | 'time'
+  | 'mode'
+  | 'chunkId'
+  | 'seq';
+
+/**
+ * Moves finished recordings to a directory of your choice and names them
+ * from a template. Files are moved once the recording (or chunk) has been
+ * delivered to JS; separate audio files are moved next to the video with
+ * `-mic`/`-app` appended to its name. Existing files are never overwritten,
+ * a `-1`, `-2`, ... suffix is added instead.
+ *
+ * Invalid values make the start functions throw a `ScreenRecorderError`
+ * with code `INVALID_ARGUMENT`.
+ *
+ * @example
+ * ```typescript
+ * output: {
+ *   directory: `${DocumentDirectoryPath}/uploads`,
+ *   filenameTemplate: 'session-{date}_{time}-{seq}',
+ * }
+ * ```
+ */
+export interface RecordingOutputOptions {
+  /**
+   * Absolute path or `file://` URL of the directory to move recordings to.
+   * Created if it does not exist.
+   *
+   * @default the directory the platform wrote the file to
+   */
+  directory?: string;
+  /**
+   * File name without directory, built from literal text and
+   * `RecordingFilenameToken`s in braces. `.mp4` is appended when the
+   * template has no extension. Characters that are not allowed in file
+   * names are replaced with `_` in token values.
+   *
+   * @default the name the platform gave the file
+   */
+  filenameTemplate?: string;
+}
+
+/**
+ * Video codec preference for global recordings.
+ *
+ * - `'auto'` - HEVC when the device supports it on iOS, H.264 on Android
+ * - `'hevc'` - HEVC (H.265); falls back to H.264 when unsupported
+ * - `'h264'` - H.264, for the widest playback compatibility
+ */
+export type VideoCodec = 'auto' | 'hevc' | 'h264';
+
+/**
+ * Named video quality presets.
+ *
+ * - `'low'` - 720p, 1.5 Mbps, 15 fps, H.264. Small uploads such as bug reports
+ * - `'balanced'` - 1080p, 4 Mbps, 30 fps
+ * - `'high'` - Native resolution, 10 Mbps, 60 fps. Tutorials and demos
+ * - `'archival'` - Native resolution, 20 Mbps, 60 fps, HEVC, 1 s keyframes
+ */
+export type VideoQualityPreset = 'low' | 'balanced' | 'high' | 'archival';
+
+/**
+ * Individual video quality settings for a global recording.
+ */
+export interface VideoQualityOptions {
+  /** Preset to start from; the other fields override it */
+  preset?: VideoQualityPreset;
+  /**
+   * Maximum length of the longer video side in pixels. The screen is scaled
+   * down (never up) to fit, keeping its aspect ratio.
+   */
+  maxResolution?: number;
+  /** Average video bitrate in bits per second */
+  bitrate?: number;
+  /** Frames per second (1-60) */
+  fps?: number;
+  /** Codec preference */
+  codec?: VideoCodec;
+  /**
+   * Maximum seconds between keyframes. Shorter intervals make seeking and
+   * chunk boundaries more precise at the cost of larger files.
+   * @platform iOS-only - Android's MediaRecorder chooses its own interval
+   */
+  keyframeIntervalSec?: number;
+}
+
+/**
+ * Resolved video settings passed to the native recorder.
+ * Numeric fields use `0` for "use the platform default".
+ * @internal Used by the native bridge - use VideoQualityOptions instead.
+ */
+export interface RecordingVideoSettings {
+  maxLongSide: number;
+  bitrate: number;
+  fps: number;
+  codec: VideoCodec;
+  keyframeIntervalSec: number;
+}
+
+/**
+ * Resolved recording limits passed to the native recorder.
+ * Fields use `0` for "no limit".
+ * @internal Used by the native bridge - use maxDurationSec/maxFileSizeBytes instead.
+ */
+export interface RecordingLimits {
+  maxDurationSec: number;
+  maxFileSizeBytes: number;
+  minFreeBytes: number;
+}
+
+/**
+ * Storage of the volume recordings are written to.
+ *
+ * @example
+ * ```typescript
+ * const { freeBytes } = getStorageInfo();
+ * if (freeBytes < 500_000_000) {
+ *   showLowStorageBanner();
+ * }
+ * ```
+ */
+export interface StorageInfo {
+  /** Bytes available for new recordings */
+  freeBytes: number;
+  /** Total capacity of the volume in bytes */
+  totalBytes: number;
+}
+
 /**
  * Complete input configuration for starting a global recording session.
  *
@@ -193,7 +450,7 @@ export type GlobalRecordingInputOptions = {
  *     enableMic: true, // Enable microphone audio for the recording
  *   },
  *   onRecordingError: (error) => {
- *     console.error('Global recording failed:', error.message);
+ *     console.error('Global recording failed:', error.code, error.message);
  *     // Handle the error, e.g., display an alert to the user.
  *   }
  * };
@@ -202,8 +459,107 @@ export type GlobalRecordingInputOptions = {
 export type GlobalRecordingInput = {
   /** Optional configuration options for the global recording session. */
   options?: GlobalRecordingInputOptions;
-  /** Callback invoked when the global recording encounters an error during start or execution. */
-  onRecordingError: (error: RecordingError) => void;
+  /**
+   * Callback invoked when the global recording encounters an error during start or execution.
+   * Native errors are mapped to a `ScreenRecorderError` with a stable `code`.
+   */
+  onRecordingError: (error: ScreenRecorderError) => void;
+};
+
+/**
+ * Input for `startGlobalRecordingAsync`, which resolves once capture has actually begun.
+ *
+ * @example
+ * ```typescript
+ * await startGlobalRecordingAsync({
+ *   options: { enableMic: true },
+ *   timeoutMs: 30000,
+ *   onRecordingError: (error) => console.error(error.code),
+ * });
+ * ```
+ */
+export type AsyncGlobalRecordingInput = {
+  /** Optional configuration options for the global recording session. */
+  options?: GlobalRecordingInputOptions;
+  /**
+   * Callback for errors that happen after the returned promise has settled.
+   * Errors before capture begins reject the promise instead.
+   */
+  onRecordingError?: (error: ScreenRecorderError) => void;
+  /**
+   * Maximum time in milliseconds to wait for capture to begin before rejecting
+   * with a `'TIMEOUT'` error.
+   * @default 60000
+   */
+  timeoutMs?: number;
+  /**
+   * iOS only: time in milliseconds to wait after the broadcast picker is dismissed
+   * for capture to begin (covers the system countdown) before rejecting with
+   * a `'PICKER_DISMISSED'` error. Counts from the last time the picker closed.
+   * @default 5000
+   */
+  pickerDismissalGraceMs?: number;
+};
+
+/**
+ * Options for `startReplayBuffer`.
+ *
+ * @example
+ * ```typescript
+ * const options: ReplayBufferOptions = {
+ *   windowSeconds: 30, // saveReplay() returns the last 30 seconds
+ *   segmentSeconds: 10,
+ * };
+ * ```
+ */
+export type ReplayBufferOptions = {
+  /** How many seconds of recent content `saveReplay()` returns */
+  windowSeconds: number;
+  /**
+   * Length of each buffered segment in seconds. Shorter segments keep less
+   * extra content on disk but rotate more often.
+   * @default windowSeconds / 3, between 2 and 10
+   */
+  segmentSeconds?: number;
+};
+
+/**
+ * Identifies a chunk delivered by auto-chunking.
+ */
+export type AutoChunkInfo = {
+  /** Sequential chunk ID, e.g. `'chunk-3'` */
+  chunkId: string;
+  /** 1-based position of the chunk in the session */
+  index: number;
+};
+
+/**
+ * Options for `startAutoChunking`. At least one of `maxDurationSec` and
+ * `maxBytes` should be set; a chunk is rotated as soon as either is reached.
+ *
+ * @example
+ * ```typescript
+ * const options: AutoChunkingOptions = {
+ *   maxDurationSec: 60,
+ *   maxBytes: 50 * 1024 * 1024,
+ *   onChunk: (file, { chunkId }) => upload(chunkId, file),
+ * };
+ * ```
+ */
+export type AutoChunkingOptions = {
+  /** Rotate once a chunk has recorded this many seconds (paused time excluded) */
+  maxDurationSec?: number;
+  /** Rotate once a chunk file reaches this many bytes */
+  maxBytes?: number;
+  /** Called with every finalized chunk, in order */
+  onChunk: (file: ScreenRecordingFile, chunk: AutoChunkInfo) => void;
+  /** Called when a rotation fails. Auto-chunking keeps running. */
+  onError?: (error: ScreenRecorderError) => void;
+  /**
+   * Prefix of the generated chunk IDs.
+   * @default 'chunk'
+   */
+  chunkIdPrefix?: string;
 };
 
 /**
@@ -264,7 +620,7 @@ export interface ScreenRecordingFile {
   name: string;
   /** File size in bytes */
   size: number;
-  /** Recording duration in seconds */
+  /** Recorded duration in seconds, excluding time spent paused */
   duration: number;
   /** Whether microphone audio was recorded */
   enabledMicrophone: boolean;
@@ -280,6 +636,43 @@ export interface ScreenRecordingFile {
    * and is not currently supported.
    */
   appAudioFile?: AudioRecordingFile;
+  /**
+   * Markers added with `addRecordingMarker()` while this file was recorded,
+   * in the order they were added.
+   */
+  markers?: RecordingMarker[];
+  /**
+   * Path of the sidecar file listing `markers`, when the recording was
+   * started with `markersFormat`.
+   */
+  markersFile?: string;
+}
+
+/**
+ * A moment tagged with `addRecordingMarker()` while recording.
+ *
+ * @example
+ * ```typescript
+ * const marker: RecordingMarker = {
+ *   label: 'Checkout button unresponsive',
+ *   timeSec: 42.3,
+ *   createdAt: 1705314600000,
+ *   metadata: { severity: 'high' },
+ * };
+ * ```
+ */
+export interface RecordingMarker {
+  /** Text describing the moment */
+  label: string;
+  /**
+   * Position of the marker in seconds from the start of the file it is
+   * attached to (the chunk, when recording in chunks), excluding paused time
+   */
+  timeSec: number;
+  /** When the marker was added, in milliseconds since the Unix epoch */
+  createdAt: number;
+  /** Extra data passed to `addRecordingMarker()` */
+  metadata?: AnyMap;
 }
 
 /**
@@ -307,9 +700,19 @@ export interface RecordingError {
  * ```typescript
  * const reason: RecordingEventReason = 'began'; // Recording started
  * const endReason: RecordingEventReason = 'ended'; // Recording stopped
+ * const pauseReason: RecordingEventReason = 'paused'; // pauseRecording() took effect
+ * const resumeReason: RecordingEventReason = 'resumed'; // resumeRecording() took effect
+ * const limitReason: RecordingEventReason = 'limitReached'; // A recording limit or the storage floor was hit, `ended` follows
+ * const storageReason: RecordingEventReason = 'lowStorage'; // Free storage dropped below `minFreeBytes`
  * ```
  */
-export type RecordingEventReason = 'began' | 'ended';
+export type RecordingEventReason =
+  | 'began'
+  | 'ended'
+  | 'paused'
+  | 'resumed'
+  | 'limitReached'
+  | 'lowStorage';
 
 /**
  * Specifies the type of recording that triggered an event.
@@ -350,6 +753,50 @@ export interface ScreenRecordingEvent {
   /** What happened to the recording */
   reason: RecordingEventReason;
 }
+
+/**
+ * Emitted when a global recording chunk (or the whole recording, when it
+ * stops) has been written to disk and is ready to use.
+ *
+ * @example
+ * ```typescript
+ * addChunkListener(({ chunkId, file }) => {
+ *   console.log(`Chunk ${chunkId ?? '(none)'} ready at ${file.path}`);
+ * });
+ * ```
+ */
+export interface ChunkReadyEvent {
+  /** The ID passed to `markChunkStart()`, if any */
+  chunkId?: string;
+  /** The finalized recording file */
+  file: ScreenRecordingFile;
+}
+
+/**
+ * A finalized global recording chunk that is waiting in the native queue and
+ * has not been retrieved yet, e.g. because the app was killed before it could
+ * call `finalizeChunk()` or `retrieveGlobalRecording()`.
+ *
+ * @example
+ * ```typescript
+ * const [orphan] = listPendingChunks();
+ * if (orphan) {
+ *   console.log(`Unsaved recording from ${new Date(orphan.createdAt)}`);
+ * }
+ * ```
+ */
+export interface PendingChunk {
+  /** Identifier to pass to `claimPendingChunk()` or `discardPendingChunk()` */
+  id: string;
+  /** The ID passed to `markChunkStart()`, if any */
+  chunkId?: string;
+  /** When the chunk was saved, in milliseconds since the Unix epoch */
+  createdAt: number;
+  /** Size of the video file in bytes */
+  size: number;
+  /** Whether microphone audio was captured */
+  enabledMicrophone: boolean;
+}
 /**
  * @platform ios-only
  * Track the status of the broadcast picker view for fine tuning system recordings.
@@ -396,6 +843,240 @@ export interface RawExtensionStatus {
   captureMode: CaptureMode;
 }
 
+/**
+ * Severity of a broadcast extension log entry, from least to most severe.
+ */
+export type ExtensionLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Log entry as stored by the broadcast extension.
+ * @internal Used by the native bridge - use ExtensionLogEntry instead.
+ */
+export interface RawExtensionLogEntry {
+  /** Unix timestamp (seconds, with fractions) when the entry was logged */
+  timestamp: number;
+  /** `DEBUG`, `INFO`, `WARN` or `ERROR` */
+  level: string;
+  /** The logged message, including its context prefix */
+  message: string;
+}
+
+/**
+ * A broadcast extension log entry.
+ *
+ * @example
+ * ```typescript
+ * const entry: ExtensionLogEntry = {
+ *   timestamp: 1705314600123,
+ *   level: 'info',
+ *   message: 'Writer finished successfully',
+ *   context: 'handleFinalizeChunk',
+ * };
+ * ```
+ */
+export interface ExtensionLogEntry {
+  /** When the entry was logged, in milliseconds since the Unix epoch */
+  timestamp: number;
+  level: ExtensionLogLevel;
+  /** The logged message without its context prefix */
+  message: string;
+  /**
+   * The part of the extension that logged the entry (e.g. `broadcastStarted`
+   * or `handleFinalizeChunk`), taken from the `context: message` prefix.
+   * Undefined when the message has no prefix.
+   */
+  context?: string;
+}
+
+/**
+ * Filters for `getExtensionLogEntries()`.
+ */
+export interface ExtensionLogQuery {
+  /** Only entries of this level or more severe */
+  minLevel?: ExtensionLogLevel;
+  /** Only entries logged at or after this time (Date or ms since epoch) */
+  since?: Date | number;
+  /** Return at most this many entries, the most recent ones */
+  limit?: number;
+}
+
+/**
+ * Settings for the broadcast extension's log, see `configureExtensionLogs()`.
+ */
+export interface ExtensionLogConfig {
+  /**
+   * Entries below this level are not stored.
+   * @default 'debug'
+   */
+  minLevel?: ExtensionLogLevel;
+  /**
+   * How many entries the ring buffer keeps before dropping the oldest.
+   * @default 200
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Audio capture metrics the iOS broadcast extension logs each time it
+ * finalizes a chunk or recording, see `getExtensionAudioMetricsEntries()`.
+ *
+ * Values missing from (or malformed in) the native data fall back to `0`,
+ * `-1` for timestamps, `false` or `[]`, so the shape stays stable across
+ * versions of the extension. The native entry is kept as `raw`.
+ */
+export interface ExtensionAudioMetrics {
+  /** When the metrics were logged, in milliseconds since the Unix epoch */
+  timestamp: number;
+  /** What logged the metrics, e.g. `handleFinalizeChunk` */
+  context: string;
+  /** Chunk ID of the finalized chunk, if it had one */
+  chunkId?: string;
+  /** File names of the finalized video and separate audio files */
+  outputVideoFile?: string;
+  outputAudioFile?: string;
+  outputAppAudioFile?: string;
+
+  // Timestamps (seconds of presentation time, -1 when never received)
+  sessionStartTime: number;
+  firstVideoPTS: number;
+  firstMicPTS: number;
+  firstAppAudioPTS: number;
+
+  // Sample counts
+  totalVideoFrames: number;
+  totalMicSamples: number;
+  totalSeparateAudioSamples: number;
+  totalAppAudioSamples: number;
+
+  // Durations written, in seconds from the session start
+  videoDuration: number;
+  micDuration: number;
+  appAudioDuration: number;
+
+  // Sync deltas and corrections, in seconds
+  /** First mic sample minus first video frame, after timing corrections */
+  firstMicDeltaToVideo?: number;
+  /** First app audio sample minus first video frame, after timing corrections */
+  firstAppAudioDeltaToVideo?: number;
+  /** First mic sample minus first video frame, as received */
+  observedFirstMicDeltaToVideo?: number;
+  /** First app audio sample minus first video frame, as received */
+  observedFirstAppAudioDeltaToVideo?: number;
+  micTimingOffset: number;
+  appAudioTimingOffset: number;
+  audioLeadCompensationSeconds: number;
+  micAdjustmentAppliedCount: number;
+  micAdjustmentAppliedSeconds: number;
+  appAudioAdjustmentAppliedCount: number;
+  appAudioAdjustmentAppliedSeconds: number;
+
+  // Backpressure: buffers that had to wait for the writer (hits) or were dropped
+  videoBackpressureHits: number;
+  videoBackpressureDrops: number;
+  micBackpressureHits: number;
+  micBackpressureDrops: number;
+  separateAudioBackpressureHits: number;
+  separateAudioBackpressureDrops: number;
+  appAudioBackpressureHits: number;
+  appAudioBackpressureDrops: number;
+  /** Seconds an audio buffer may wait for the writer before it is dropped */
+  audioBackpressureTimeout: number;
+
+  // Buffers dropped by reason
+  micDroppedBeforeSession: number;
+  micDroppedPTSBelowStart: number;
+  appAudioDroppedBeforeSession: number;
+  appAudioDroppedPTSBelowStart: number;
+  earlyBuffersDropped: number;
+
+  // Timestamps going backwards
+  micMonotonicityViolations: number;
+  appAudioMonotonicityViolations: number;
+
+  // Writer and audio session
+  writerStatus: string;
+  sessionStarted: boolean;
+  lowPowerModeEnabled: boolean;
+  audioSessionChangeCount: number;
+  audioSessionSampleRate: number;
+  audioRouteInputs: string[];
+  audioRouteOutputs: string[];
+
+  /** Health flags derived from the values above */
+  health: ExtensionAudioHealth;
+  /** The entry exactly as the extension stored it */
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Health flags derived from `ExtensionAudioMetrics`.
+ */
+export interface ExtensionAudioHealth {
+  /**
+   * Largest difference in seconds between the end of a recorded audio track
+   * (mic or app audio) and the end of the video. 0 without audio.
+   */
+  maxAudioDriftSec: number;
+  /** Whether `maxAudioDriftSec` exceeds the drift threshold */
+  hasAudioDrift: boolean;
+  /**
+   * Buffers dropped while recording: backpressure drops of every track and
+   * audio with timestamps before the session start. Buffers dropped before
+   * the session started are expected and not counted.
+   */
+  droppedBuffers: number;
+  /** Whether any buffer was dropped while recording */
+  hasDroppedBuffers: boolean;
+  /** Whether audio timestamps ever went backwards */
+  hasMonotonicityViolations: boolean;
+  /** Whether none of the flags above is raised */
+  isHealthy: boolean;
+}
+
+/**
+ * Options for reading `ExtensionAudioMetrics`.
+ */
+export interface ExtensionAudioMetricsOptions {
+  /**
+   * Audio drift in seconds above which `health.hasAudioDrift` is set.
+   * Default = 0.1
+   */
+  driftThresholdSec?: number;
+}
+
+/**
+ * Live progress of the active recording, for rendering timers and size
+ * indicators.
+ *
+ * @example
+ * ```typescript
+ * const { elapsedSec, bytesWritten } = getRecordingProgress() ?? {};
+ * ```
+ */
+export interface RecordingProgress {
+  /** Which kind of recording is in progress */
+  type: RecordingEventType;
+  /** Recorded time of the session in seconds, excluding paused time */
+  elapsedSec: number;
+  /**
+   * Bytes written to the file being recorded (the current chunk when using chunks).
+   * Always 0 for in-app recordings, which are only written when they stop.
+   */
+  bytesWritten: number;
+  /**
+   * Video frames written in this session.
+   * Undefined for Android and in-app recordings, which do not count frames.
+   * @platform iOS global recordings
+   */
+  framesWritten?: number;
+  /**
+   * Video frames that could not be written in this session.
+   * Undefined for Android and in-app recordings, which do not count frames.
+   * @platform iOS global recordings
+   */
+  droppedFrames?: number;
+}
+
 /**
  * Status information from the broadcast extension.
  * Used to monitor the health and state of the recording extension process.
@@ -421,3 +1102,365 @@ export interface ExtensionStatus extends RawExtensionStatus {
   /** High-level state for easy UI rendering (derived from booleans) */
   state: ExtensionState;
 }
+
+/**
+ * Stable, machine-readable error codes shared by every recording operation.
+ * Native errors (thrown or delivered through `onRecordingError`) are mapped
+ * onto these codes so you can `switch` on them instead of matching messages.
+ *
+ * - `'PERMISSION_DENIED'` - Camera, microphone or screen capture permission was not granted
+ * - `'NO_ACTIVE_SESSION'` - The operation requires a recording that is not running
+ * - `'ALREADY_RECORDING'` - A recording session is already in progress
+ * - `'CHUNK_MISSING'` - The expected recording/chunk file could not be found
+ * - `'CHUNK_FAILED'` - Starting or finalizing a chunk failed
+ * - `'EXTENSION_NOT_RUNNING'` - The iOS broadcast extension did not respond
+ * - `'APP_GROUP_UNAVAILABLE'` - The iOS app group is missing or misconfigured
+ * - `'RECORDER_UNAVAILABLE'` - The platform recorder cannot be used right now
+ * - `'DISK_FULL'` - The device ran out of storage while writing
+ * - `'UNSUPPORTED_PLATFORM'` - The operation is not available on this platform
+ * - `'START_FAILED'` - The recording could not be started
+ * - `'PICKER_DISMISSED'` - The iOS broadcast picker was dismissed without starting a broadcast
+ * - `'TIMEOUT'` - The operation did not complete in time
+ * - `'STOP_FAILED'` - The recording could not be stopped cleanly
+ * - `'INVALID_ARGUMENT'` - An argument was rejected before reaching native code
+ * - `'FILE_OPERATION_FAILED'` - A recording file could not be renamed, deleted or saved
+ * - `'UNKNOWN'` - Anything that could not be classified
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await stopGlobalRecording();
+ * } catch (error) {
+ *   if (error instanceof ScreenRecorderError && error.code === 'DISK_FULL') {
+ *     showStorageAlert();
+ *   }
+ * }
+ * ```
+ */
+export type ScreenRecorderErrorCode =
+  | 'PERMISSION_DENIED'
+  | 'NO_ACTIVE_SESSION'
+  | 'ALREADY_RECORDING'
+  | 'CHUNK_MISSING'
+  | 'CHUNK_FAILED'
+  | 'EXTENSION_NOT_RUNNING'
+  | 'APP_GROUP_UNAVAILABLE'
+  | 'RECORDER_UNAVAILABLE'
+  | 'DISK_FULL'
+  | 'UNSUPPORTED_PLATFORM'
+  | 'START_FAILED'
+  | 'PICKER_DISMISSED'
+  | 'TIMEOUT'
+  | 'STOP_FAILED'
+  | 'INVALID_ARGUMENT'
+  | 'FILE_OPERATION_FAILED'
+  | 'UNKNOWN';
+
+/**
+ * The permission that was missing when a `PermissionDeniedError` is raised.
+ */
+export type RecorderPermission = 'camera' | 'microphone' | 'screenCapture';
+
+/**
+ * Lifecycle state of the recording session, as tracked by `RecorderStore`.
+ *
+ * - `'idle'` - Nothing is being recorded
+ * - `'requestingPermission'` - Waiting for the user to grant screen capture (Android)
+ * - `'pickerShowing'` - The broadcast picker is on screen (iOS)
+ * - `'starting'` - Capture was requested and is about to begin
+ * - `'recording'` - Capture is running
+ * - `'capturingChunk'` - Capture is running and a chunk is being tracked
+ * - `'paused'` - Capture is running but nothing is written until resumed
+ * - `'finalizing'` - A chunk is being finalized
+ * - `'stopping'` - The recording is being stopped and written to disk
+ * - `'error'` - The last operation failed; see `RecorderSnapshot.error`
+ */
+export type RecorderState =
+  | 'idle'
+  | 'requestingPermission'
+  | 'pickerShowing'
+  | 'starting'
+  | 'recording'
+  | 'capturingChunk'
+  | 'paused'
+  | 'finalizing'
+  | 'stopping'
+  | 'error';
+
+/**
+ * Which kind of recording a `RecorderSnapshot` describes.
+ */
+export type RecorderMode = 'inApp' | 'global';
+
+/**
+ * Immutable snapshot of the recording session held by `RecorderStore`.
+ * A new object is created on every change, so snapshots can be compared by reference.
+ *
+ * @example
+ * ```typescript
+ * const snapshot = recorderStore.getSnapshot();
+ * if (snapshot.state === 'capturingChunk') {
+ *   console.log('Tracking chunk', snapshot.chunkId);
+ * }
+ * ```
+ */
+export interface RecorderSnapshot {
+  /** Current lifecycle state */
+  state: RecorderState;
+  /** Kind of recording in progress, or `undefined` while idle */
+  mode?: RecorderMode;
+  /** Identifier passed to the latest `markChunkStart()`, if any */
+  chunkId?: string;
+  /** While `'paused'`, the state to return to when the recording resumes */
+  pausedFrom?: RecorderState;
+  /** The error that moved the store into `'error'` */
+  error?: ScreenRecorderError;
+  /** Latest status reported by the native recorder */
+  extensionStatus: RawExtensionStatus;
+  /** Unix timestamp (ms) when `state` was entered */
+  enteredAt: number;
+}
+
+/**
+ * Fields of a `RecorderSnapshot` that can be updated alongside a transition.
+ */
+export type RecorderSnapshotPatch = Partial<
+  Omit<RecorderSnapshot, 'state' | 'enteredAt' | 'pausedFrom'>
+>;
+
+/**
+ * Called whenever the `RecorderStore` snapshot changes.
+ *
+ * @param snapshot The new snapshot
+ * @param previous The snapshot before the change
+ */
+export type RecorderStoreListener = (
+  snapshot: RecorderSnapshot,
+  previous: RecorderSnapshot
+) => void;
+
+/**
+ * A recording indexed by `recordingLibrary`.
+ *
+ * @example
+ * ```typescript
+ * const [latest] = recordingLibrary.list();
+ * if (latest) {
+ *   console.log(`${latest.name} (${latest.mode}) from ${new Date(latest.createdAt)}`);
+ * }
+ * ```
+ */
+export interface RecordingLibraryEntry extends ScreenRecordingFile {
+  /** Stable identifier, kept across renames */
+  id: string;
+  /** Whether the file came from an in-app or a global recording */
+  mode: RecorderMode;
+  /** The ID passed to `markChunkStart()`, if the file is a chunk */
+  chunkId?: string;
+  /** When the recording was indexed, in milliseconds since the Unix epoch */
+  createdAt: number;
+  /** Pinned recordings are kept by the retention policy (unless `keepPinned` is false) */
+  pinned?: boolean;
+}
+
+/**
+ * Filters for `recordingLibrary.list()`. All fields are optional and combined.
+ */
+export interface RecordingLibraryQuery {
+  /** Only recordings of this kind */
+  mode?: RecorderMode;
+  /** Only chunks with this ID */
+  chunkId?: string;
+  /** Only recordings created at or after this time (Date or ms since the epoch) */
+  from?: Date | number;
+  /** Only recordings created at or before this time (Date or ms since the epoch) */
+  to?: Date | number;
+  /** Return at most this many entries */
+  limit?: number;
+}
+
+/**
+ * Called with every entry (newest first) whenever the recording library changes.
+ */
+export type RecordingLibraryListener = (
+  entries: RecordingLibraryEntry[]
+) => void;
+
+/**
+ * Limits on the recordings kept by `recordingLibrary`. When a limit is
+ * exceeded the oldest unpinned recordings are deleted first.
+ *
+ * @example
+ * ```typescript
+ * recordingLibrary.setRetentionPolicy({
+ *   maxTotalBytes: 2 * 1024 * 1024 * 1024,
+ *   maxAgeSec: 7 * 24 * 60 * 60,
+ *   onEnforced: (report) => log(`Deleted ${report.deleted.length} recordings`),
+ * });
+ * ```
+ */
+export interface RetentionPolicy {
+  /** Keep the combined size of all recordings (including audio files) below this many bytes */
+  maxTotalBytes?: number;
+  /** Delete recordings older than this many seconds */
+  maxAgeSec?: number;
+  /** Keep at most this many recordings */
+  maxCount?: number;
+  /**
+   * Never delete pinned recordings. Pinned recordings still count towards
+   * `maxTotalBytes` and `maxCount`.
+   *
+   * @default true
+   */
+  keepPinned?: boolean;
+  /**
+   * Called after the policy deleted recordings automatically, once a
+   * recording finished. Not called for `enforceRetention()`, which returns
+   * the report instead.
+   */
+  onEnforced?: (report: RetentionReport) => void;
+}
+
+/**
+ * What enforcing a `RetentionPolicy` deleted.
+ */
+export interface RetentionReport {
+  /** The deleted entries, oldest first */
+  deleted: RecordingLibraryEntry[];
+  /** Bytes freed, including separate audio files */
+  freedBytes: number;
+  /** Number of recordings left in the library */
+  remainingCount: number;
+  /** Combined size of the recordings left, including separate audio files */
+  remainingBytes: number;
+}
+
+/**
+ * Options for `collectDiagnostics()`.
+ */
+export interface DiagnosticsOptions {
+  /**
+   * Replace the directories of file paths (in recordings, pending chunks and
+   * log messages) with `<redacted>`, keeping file names. Directories can
+   * contain the user's name or app container IDs.
+   *
+   * @default false
+   */
+  redactPaths?: boolean;
+  /**
+   * Include at most this many of the most recent extension log entries.
+   *
+   * @default 200
+   */
+  maxLogEntries?: number;
+}
+
+/**
+ * Everything `collectDiagnostics()` gathers for a bug report. Sections that
+ * could not be read are left out and listed in `errors`.
+ *
+ * @example
+ * ```typescript
+ * const report = collectDiagnostics({ redactPaths: true });
+ * await Share.share({ message: JSON.stringify(report, null, 2) });
+ * ```
+ */
+export interface DiagnosticsReport {
+  /** When the report was collected, as an ISO 8601 string */
+  generatedAt: string;
+  /** Name and version of this library, `unknown` if it cannot be read */
+  library: { name: string; version: string };
+  /** `Platform.OS` and `Platform.Version` */
+  platform: { os: string; version: string | number };
+  permissions?: { camera: PermissionStatus; microphone: PermissionStatus };
+  extensionStatus?: RawExtensionStatus;
+  /** State of `recorderStore`, with its error as `code` and `message` */
+  recorder?: {
+    state: RecorderState;
+    mode?: RecorderMode;
+    chunkId?: string;
+    enteredAt: number;
+    error?: { code: ScreenRecorderErrorCode; message: string };
+  };
+  /** Progress of the active recording, if any */
+  recordingProgress?: RecordingProgress;
+  /** Broadcast extension log entries, oldest first (iOS only) */
+  extensionLogs?: ExtensionLogEntry[];
+  /** Broadcast extension audio metrics, oldest first (iOS only) */
+  audioMetrics?: ExtensionAudioMetrics[];
+  pendingChunks?: PendingChunk[];
+  /** The newest entry of `recordingLibrary` */
+  lastRecording?: RecordingLibraryEntry;
+  storage?: StorageInfo;
+  /** Whether file paths were redacted */
+  pathsRedacted: boolean;
+  /** Sections that failed to collect, with the reason */
+  errors: { section: string; message: string }[];
+}
+
+/**
+ * Structured data attached to a log message, e.g. the invalid value or the
+ * caught error.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives the warnings and errors of this library, and forwarded broadcast
+ * extension log entries. Set it with `configureScreenRecorder({ logger })`.
+ * `console` can be used as-is.
+ *
+ * @example
+ * ```typescript
+ * const sentryLogger: Logger = {
+ *   debug: () => {},
+ *   info: (message, fields) => Sentry.addBreadcrumb({ message, data: fields }),
+ *   warn: (message, fields) =>
+ *     Sentry.addBreadcrumb({ message, data: fields, level: 'warning' }),
+ *   error: (message, fields) => Sentry.captureMessage(message, { extra: fields }),
+ * };
+ * ```
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * How broadcast extension log entries are forwarded to the logger.
+ */
+export interface ExtensionLogForwarding {
+  /**
+   * Only forward entries of this level or more severe.
+   *
+   * @default 'info'
+   */
+  minLevel?: ExtensionLogLevel;
+  /**
+   * How often to check for new entries, in milliseconds.
+   *
+   * @default 5000
+   */
+  intervalMs?: number;
+}
+
+/**
+ * Library-wide settings for `configureScreenRecorder()`.
+ */
+export interface ScreenRecorderConfig {
+  /**
+   * Where warnings and errors go instead of `console`. Pass `null` to
+   * silence them and `console` to restore the default.
+   */
+  logger?: Logger | null;
+  /**
+   * Forward new broadcast extension log entries to the logger, with
+   * `source: 'extension'`, `context` and `timestamp` fields. `true` uses the
+   * default settings, `false` stops forwarding.
+   *
+   * @platform iOS-only
+   * @default false
+   */
+  forwardExtensionLogs?: boolean | ExtensionLogForwarding;
+}